@@ -0,0 +1,184 @@
+"use client";
+
+import Link from "next/link";
+import { LedgerEntryKindBadge } from "@/components/dealer";
+import type { Permission } from "@/features/rbac/permissions";
+import type { LedgerEntryKind } from "@/server/repositories/types";
+
+interface FloatMovement {
+  id: string;
+  kind: LedgerEntryKind;
+  amount: number; // Signed change of the float
+  reason: string;
+  createdAt: string;
+}
+
+interface SubDealer {
+  dealerId: string;
+  name: string;
+  depth: number; // 1 for direct sub-dealers
+  float: number;
+  networkFloat: number; // Own float plus the float of every dealer beneath it
+}
+
+interface DealerHomeClientProps {
+  dealerId: string;
+  dealerName?: string;
+  float: number;
+  networkFloat: number; // Own float plus every sub-dealer's float
+  subDealers: SubDealer[];
+  movements: FloatMovement[];
+  permissions: Permission[]; // Effective permissions of the caller
+}
+
+// Each page needs a permission (staff accounts may hold only some of them)
+const LINKS: { href: string; label: string; permission: Permission }[] = [
+  { href: "/dealer/users", label: "Users", permission: "user.view" },
+  { href: "/dealer/requests", label: "Requests", permission: "user.view" },
+  { href: "/dealer/slips", label: "Slips", permission: "slip.view" },
+  { href: "/dealer/liability", label: "Liability", permission: "liability.view" },
+  { href: "/dealer/transactions", label: "Transactions", permission: "ledger.view" },
+  { href: "/dealer/earnings", label: "Earnings", permission: "commission.view" },
+  { href: "/dealer/staff", label: "Staff", permission: "staff.manage" },
+  { href: "/dealer/settings", label: "Settings", permission: "dealer.settings" },
+];
+
+export function DealerHomeClient({
+  dealerId,
+  dealerName,
+  float,
+  networkFloat,
+  subDealers,
+  movements,
+  permissions,
+}: DealerHomeClientProps) {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-text-primary">{dealerName || dealerId}</h1>
+      </div>
+
+      {/* Float Card */}
+      <div className="mb-8 p-6 bg-dark-surface border border-dark-border rounded">
+        <p className="text-text-secondary text-sm font-medium mb-1">Float</p>
+        <p
+          className={`text-3xl font-bold ${float > 0 ? "text-text-primary" : "text-red-400"}`}
+        >
+          {float.toFixed(2)}
+        </p>
+        <p className="text-text-muted text-xs mt-2">
+          Deposits to users and winnings draw from the float; withdrawals and settled stakes flow back into it
+        </p>
+        {subDealers.length > 0 && (
+          <p className="text-text-secondary text-sm mt-4">
+            Network float (incl. {subDealers.length} sub-dealer{subDealers.length === 1 ? "" : "s"}):{" "}
+            <span className="font-bold text-text-primary">{networkFloat.toFixed(2)}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="mb-8 flex flex-wrap gap-4">
+        {LINKS.filter((link) => permissions.includes(link.permission)).map((link) => (
+          <Link
+            key={link.href}
+            href={link.href}
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+          >
+            {link.label}
+          </Link>
+        ))}
+      </div>
+
+      {/* Sub-Dealers */}
+      {subDealers.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4 text-text-primary">Sub-Dealers</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+              <thead className="bg-dark-surface">
+                <tr>
+                  {["Dealer", "Float", "Network Float"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-dark-border bg-dark-surface">
+                {subDealers.map((subDealer) => (
+                  <tr key={subDealer.dealerId} className="hover:bg-dark-hover transition-colors">
+                    <td
+                      className="whitespace-nowrap px-6 py-4 text-sm text-text-primary"
+                      style={{ paddingLeft: `${subDealer.depth * 1.5}rem` }}
+                    >
+                      {subDealer.depth > 1 && <span className="text-text-muted mr-2">└</span>}
+                      {subDealer.name}{" "}
+                      <span className="text-text-muted text-xs font-mono">{subDealer.dealerId}</span>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {subDealer.float.toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {subDealer.networkFloat.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Float Movements */}
+      <h2 className="text-xl font-semibold mb-4 text-text-primary">Recent Float Movements</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+          <thead className="bg-dark-surface">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Kind
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Amount
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Created At
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dark-border bg-dark-surface">
+            {movements.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-center text-text-muted">
+                  No float movements yet
+                </td>
+              </tr>
+            ) : (
+              movements.map((movement) => (
+                <tr key={movement.id} className="hover:bg-dark-hover transition-colors">
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    <LedgerEntryKindBadge kind={movement.kind} />
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                    {movement.amount > 0 ? "+" : ""}
+                    {movement.amount.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-text-secondary">{movement.reason}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    {new Date(movement.createdAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import Link from "next/link";
+import { CommissionPreviewCard, CommissionStatementsTable } from "@/components/dealer";
+import type {
+  CommissionPreview,
+  CommissionStatementView,
+} from "@/server/services/commissionService";
+
+interface EarningsClientProps {
+  preview: CommissionPreview | null;
+  statements: CommissionStatementView[];
+}
+
+export function EarningsClient({ preview, statements }: EarningsClientProps) {
+  const totalPaid = statements
+    .filter((statement) => statement.status === "approved")
+    .reduce((sum, statement) => sum + statement.commission, 0);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-text-primary">Earnings</h1>
+        <Link
+          href="/dealer"
+          className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+        >
+          Dealer Home
+        </Link>
+      </div>
+
+      {preview ? (
+        <CommissionPreviewCard preview={preview} />
+      ) : (
+        <div className="p-6 bg-dark-surface border border-dark-border rounded text-text-secondary">
+          No commission plan has been set up for your account yet.
+        </div>
+      )}
+
+      <div>
+        <div className="mb-4 flex items-baseline justify-between">
+          <h2 className="text-xl font-semibold text-text-primary">Statements</h2>
+          <p className="text-text-secondary text-sm">
+            Paid to your float: <span className="font-bold text-text-primary">{totalPaid.toFixed(2)}</span>
+          </p>
+        </div>
+        <CommissionStatementsTable statements={statements} />
+        <p className="text-text-muted text-xs mt-2">
+          Approved statements are credited to your float. Drafts may still be recomputed.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation";
+import {
+  getCommissionPreview,
+  getCommissionStatements,
+} from "@/server/services/commissionService";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { EarningsClient } from "./EarningsClient";
+
+export default async function DealerEarningsPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("commission.view", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  const [preview, statements] = await Promise.all([
+    getCommissionPreview(userDealerId),
+    getCommissionStatements(userDealerId),
+  ]);
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <EarningsClient preview={preview} statements={statements} />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { rebuildLiabilityAction } from "@/server/actions/dealerActions";
+import type { FixtureLiability } from "@/server/services/riskService";
+
+interface LiabilityData {
+  fixtures: FixtureLiability[];
+  updatedAt: string;
+}
+
+interface LiabilityClientProps {
+  dealerId: string;
+  initialData: LiabilityData;
+}
+
+async function fetchLiability(): Promise<LiabilityData> {
+  const response = await fetch("/api/dealer/liability", { cache: "no-store" });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(errorData?.error || `Failed to fetch liability: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function formatNet(net: number): string {
+  return `${net >= 0 ? "+" : ""}${net.toFixed(2)}`;
+}
+
+/**
+ * Open liability per fixture, market and selection
+ * Refreshes every 10 seconds so new slips show up while the page is open
+ */
+export function LiabilityClient({ dealerId, initialData }: LiabilityClientProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+
+  const { data, refetch } = useQuery<LiabilityData, Error>({
+    queryKey: ["dealer", "liability", dealerId],
+    queryFn: fetchLiability,
+    initialData,
+    refetchInterval: 10 * 1000,
+    refetchIntervalInBackground: true,
+  });
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    try {
+      const result = await rebuildLiabilityAction({ dealerId });
+      if (result.success) {
+        toast.success(`Liability rebuilt from ${result.slipCount} pending slips`);
+        refetch();
+      } else {
+        toast.error(result.error || "Failed to rebuild liability");
+      }
+    } catch (error) {
+      console.error("Error rebuilding liability:", error);
+      toast.error("Failed to rebuild liability");
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const totalLiability = data.fixtures.reduce((acc, fixture) => acc + fixture.liability, 0);
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary">Liability</h1>
+          <p className="text-sm text-text-secondary">
+            Updated {new Date(data.updatedAt).toLocaleTimeString()} · Open potential returns{" "}
+            {totalLiability.toFixed(2)}
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <button
+            onClick={handleRebuild}
+            disabled={isRebuilding}
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors disabled:opacity-50"
+          >
+            {isRebuilding ? "Rebuilding..." : "Rebuild"}
+          </button>
+          <Link
+            href="/dealer/slips"
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+          >
+            View Slips
+          </Link>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+          <thead className="bg-dark-surface">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Fixture
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Stake
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Liability
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Worst Case
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Worst Net
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dark-border bg-dark-surface">
+            {data.fixtures.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-text-muted">
+                  No open liability
+                </td>
+              </tr>
+            ) : (
+              data.fixtures.map((fixture) => (
+                <FixtureRows
+                  key={fixture.fixtureId}
+                  fixture={fixture}
+                  isExpanded={expanded === fixture.fixtureId}
+                  onToggle={() =>
+                    setExpanded(expanded === fixture.fixtureId ? null : fixture.fixtureId)
+                  }
+                />
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface FixtureRowsProps {
+  fixture: FixtureLiability;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function FixtureRows({ fixture, isExpanded, onToggle }: FixtureRowsProps) {
+  const worst = fixture.worstCase;
+
+  return (
+    <>
+      <tr onClick={onToggle} className="cursor-pointer hover:bg-dark-hover transition-colors">
+        <td className="whitespace-nowrap px-6 py-4 text-sm">
+          <Link
+            href={`/fixtures/${fixture.fixtureId}`}
+            onClick={(e) => e.stopPropagation()}
+            className="text-accent-primary hover:underline font-medium"
+          >
+            {fixture.fixtureId}
+          </Link>
+        </td>
+        <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+          {fixture.stake.toFixed(2)}
+        </td>
+        <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+          {fixture.liability.toFixed(2)}
+        </td>
+        <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+          {worst ? `${worst.market} · ${worst.selection}` : "-"}
+        </td>
+        <td
+          className={`whitespace-nowrap px-6 py-4 text-sm font-bold ${
+            worst && worst.net < 0 ? "text-red-400" : "text-green-400"
+          }`}
+        >
+          {worst ? formatNet(worst.net) : "-"}
+        </td>
+      </tr>
+      {isExpanded &&
+        fixture.markets.map((market) =>
+          market.selections.map((selection, index) => (
+            <tr key={`${market.market}-${selection.selection}`} className="bg-dark-bg">
+              <td className="whitespace-nowrap px-6 py-2 pl-12 text-xs text-text-secondary">
+                {index === 0 ? market.market : ""}
+              </td>
+              <td className="whitespace-nowrap px-6 py-2 text-xs text-text-primary">
+                {selection.stake.toFixed(2)}
+              </td>
+              <td className="whitespace-nowrap px-6 py-2 text-xs text-text-primary">
+                {selection.liability.toFixed(2)}
+              </td>
+              <td className="whitespace-nowrap px-6 py-2 text-xs text-text-secondary">
+                {selection.selection}
+              </td>
+              <td
+                className={`whitespace-nowrap px-6 py-2 text-xs ${
+                  selection.net < 0 ? "text-red-400" : "text-green-400"
+                }`}
+              >
+                {formatNet(selection.net)}
+              </td>
+            </tr>
+          ))
+        )}
+    </>
+  );
+}
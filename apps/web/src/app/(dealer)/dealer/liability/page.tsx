@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation";
+import { getDealerLiability } from "@/server/services/riskService";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { LiabilityClient } from "./LiabilityClient";
+
+export default async function DealerLiabilityPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("liability.view", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  const fixtures = await getDealerLiability(userDealerId);
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <LiabilityClient
+        dealerId={userDealerId}
+        initialData={{ fixtures, updatedAt: new Date().toISOString() }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { redirect } from "next/navigation";
+import { getDealer, listDescendantDealers } from "@/server/repositories/dealers.repository";
+import { getDealerFloats } from "@/server/repositories/dealerWallets.repository";
+import { listLedgerEntries } from "@/server/repositories/ledger.repository";
+import { getPostingAmount, ledgerAccounts } from "@/features/ledger";
+import { buildDealerTree, flattenDealerTree } from "@/features/dealers";
+import { getDealerFloat } from "@/server/services/walletService";
+import { getPermissions } from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { DealerHomeClient } from "./DealerHomeClient";
+
+export default async function DealerHomePage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("float.view", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  const floatAccount = ledgerAccounts.dealerFloat(userDealerId);
+  const [dealer, float, entries, subDealers] = await Promise.all([
+    getDealer(userDealerId),
+    getDealerFloat(userDealerId),
+    listLedgerEntries({ account: floatAccount, limit: 20 }),
+    listDescendantDealers(userDealerId),
+  ]);
+
+  // Float rolled up over the sub-dealers beneath this dealer
+  const floats = {
+    ...(await getDealerFloats(subDealers.map((subDealer) => subDealer.dealerId))),
+    [userDealerId]: float,
+  };
+  const [root] = buildDealerTree(
+    [{ dealerId: userDealerId, name: dealer?.name ?? userDealerId }, ...subDealers],
+    floats
+  );
+  const subDealerRows = flattenDealerTree(root.children).map((node) => ({
+    dealerId: node.dealerId,
+    name: node.name,
+    depth: node.depth,
+    float: node.float,
+    networkFloat: node.networkFloat,
+  }));
+
+  // Latest ledger entries posting to the float, with the signed float change
+  const movements = entries.map((entry) => ({
+    id: entry.id,
+    kind: entry.kind,
+    amount: getPostingAmount(entry, floatAccount),
+    reason: entry.reason,
+    createdAt: entry.createdAt.toDate().toISOString(),
+  }));
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <DealerHomeClient
+        dealerId={userDealerId}
+        dealerName={dealer?.name}
+        float={float}
+        networkFloat={root.networkFloat}
+        subDealers={subDealerRows}
+        movements={movements}
+        permissions={getPermissions(user.role, user.permissions)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import {
+  approveWalletRequestAction,
+  rejectWalletRequestAction,
+} from "@/server/actions/walletActions";
+import { WalletRequestStatusBadge } from "@/components/dealer";
+import type { Permission } from "@/features/rbac/permissions";
+import type { WalletRequestStatus, WalletRequestType } from "@/server/repositories/types";
+
+interface WalletRequest {
+  id: string;
+  userId: string;
+  type: WalletRequestType;
+  amount: number;
+  note?: string;
+  status: WalletRequestStatus;
+  decidedBy?: string;
+  decisionReason?: string;
+  createdAt: string;
+}
+
+interface RequestsClientProps {
+  requests: WalletRequest[];
+  userEmails: Record<string, string | undefined>;
+  permissions: Permission[]; // The caller's permissions; deciding needs wallet.credit or wallet.debit
+}
+
+const DECIDE_PERMISSION: Record<WalletRequestType, Permission> = {
+  deposit: "wallet.credit",
+  withdrawal: "wallet.debit",
+};
+
+const STATUS_FILTERS: { value: WalletRequestStatus | "all"; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "all", label: "All" },
+];
+
+export function RequestsClient({ requests, userEmails, permissions }: RequestsClientProps) {
+  const router = useRouter();
+  const [statusFilter, setStatusFilter] = useState<WalletRequestStatus | "all">("pending");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const filtered =
+    statusFilter === "all"
+      ? requests
+      : requests.filter((request) => request.status === statusFilter);
+
+  const handleApprove = async (request: WalletRequest) => {
+    const label = request.type === "deposit" ? "deposit" : "withdrawal";
+    const email = userEmails[request.userId] || request.userId;
+    if (!window.confirm(`Approve ${label} of ${request.amount.toFixed(2)} for ${email}?`)) {
+      return;
+    }
+
+    setProcessingId(request.id);
+    try {
+      const result = await approveWalletRequestAction({ requestId: request.id });
+      if (result.success) {
+        toast.success(`Approved ${label} of ${request.amount.toFixed(2)}`);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to approve request");
+      }
+    } catch (error) {
+      console.error("Error approving wallet request:", error);
+      toast.error("Failed to approve request");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async (request: WalletRequest) => {
+    const reason = window.prompt("Reason for rejecting (optional, shown to the user):");
+    if (reason === null) {
+      return;
+    }
+
+    setProcessingId(request.id);
+    try {
+      const result = await rejectWalletRequestAction({
+        requestId: request.id,
+        reason: reason || undefined,
+      });
+      if (result.success) {
+        toast.success("Request rejected");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to reject request");
+      }
+    } catch (error) {
+      console.error("Error rejecting wallet request:", error);
+      toast.error("Failed to reject request");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/dealer" className="text-accent-primary hover:underline text-sm mb-4 inline-block">
+          ← Back to Dealer
+        </Link>
+        <h1 className="text-3xl font-bold text-text-primary">Wallet Requests</h1>
+        <p className="text-text-secondary text-sm mt-2">
+          Approving posts the deposit or withdrawal against your float. Withdrawal amounts are held
+          from the user&apos;s balance until the request is decided.
+        </p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="mb-6 flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`rounded px-4 py-2 text-sm font-medium transition-colors ${
+              statusFilter === filter.value
+                ? "bg-accent-primary text-dark-bg"
+                : "bg-dark-surface border border-dark-border text-text-secondary hover:text-text-primary"
+            }`}
+          >
+            {filter.label}
+            {filter.value === "pending" &&
+              ` (${requests.filter((request) => request.status === "pending").length})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+          <thead className="bg-dark-surface">
+            <tr>
+              {["User", "Type", "Amount", "Status", "Note", "Decided By", "Created At", "Actions"].map(
+                (heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    {heading}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dark-border bg-dark-surface">
+            {filtered.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-6 py-4 text-center text-text-muted">
+                  No requests found
+                </td>
+              </tr>
+            ) : (
+              filtered.map((request) => {
+                const canDecide =
+                  request.status === "pending" &&
+                  permissions.includes(DECIDE_PERMISSION[request.type]);
+                return (
+                  <tr key={request.id} className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <Link
+                        href={`/dealer/users/${request.userId}`}
+                        className="text-accent-primary hover:underline"
+                      >
+                        {userEmails[request.userId] || request.userId}
+                      </Link>
+                    </td>
+                    <td
+                      className={`whitespace-nowrap px-6 py-4 text-sm font-medium capitalize ${
+                        request.type === "deposit" ? "text-green-400" : "text-red-400"
+                      }`}
+                    >
+                      {request.type}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {request.amount.toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <WalletRequestStatusBadge status={request.status} />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary">
+                      {request.note || "-"}
+                      {request.decisionReason && (
+                        <p className="text-xs text-red-400">Rejected: {request.decisionReason}</p>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {request.decidedBy
+                        ? userEmails[request.decidedBy] || request.decidedBy
+                        : "-"}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {new Date(request.createdAt).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {canDecide && (
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => handleApprove(request)}
+                            disabled={processingId === request.id}
+                            className="text-green-400 hover:underline disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReject(request)}
+                            disabled={processingId === request.id}
+                            className="text-red-400 hover:underline disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { redirect } from "next/navigation";
+import { getDealerWalletRequests } from "@/server/services/walletRequestService";
+import { auth } from "@/lib/firebase-admin/admin";
+import { getPermissions } from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { RequestsClient } from "./RequestsClient";
+
+export default async function DealerRequestsPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("user.view", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  // Get requests of users of this dealer and every sub-dealer beneath it
+  const requests = await getDealerWalletRequests(userDealerId);
+
+  // Get user emails for display (requesters and deciders)
+  const userIds = new Set<string>();
+  requests.forEach((request) => {
+    userIds.add(request.userId);
+    if (request.decidedBy) {
+      userIds.add(request.decidedBy);
+    }
+  });
+
+  const userEmails: Record<string, string | undefined> = {};
+  await Promise.all(
+    Array.from(userIds).map(async (uid) => {
+      try {
+        const userRecord = await auth.getUser(uid);
+        userEmails[uid] = userRecord.email;
+      } catch {
+        userEmails[uid] = undefined;
+      }
+    })
+  );
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <RequestsClient
+        requests={requests.map((request) => ({
+          id: request.id,
+          userId: request.userId,
+          type: request.type,
+          amount: request.amount,
+          note: request.note,
+          status: request.status,
+          decidedBy: request.decidedBy,
+          decisionReason: request.decisionReason,
+          createdAt: request.createdAt.toDate().toISOString(),
+        }))}
+        userEmails={userEmails}
+        permissions={getPermissions(user.role, user.permissions)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { updateDealerSettingsAction } from "@/server/actions/dealerActions";
+import type { DealerLimits } from "@/server/repositories/types";
+
+interface SettingsClientProps {
+  dealerId: string;
+  allowSameGameCombos: boolean;
+  limits: DealerLimits;
+}
+
+type LimitKey = keyof DealerLimits;
+
+const LIMIT_FIELDS: { key: LimitKey; label: string; step: string; hint: string }[] = [
+  { key: "minStake", label: "Min Stake", step: "0.01", hint: "Minimum total stake per slip" },
+  { key: "maxStake", label: "Max Stake", step: "0.01", hint: "Maximum total stake per slip" },
+  { key: "maxPayout", label: "Max Payout", step: "0.01", hint: "Maximum potential return per slip" },
+  { key: "maxSelections", label: "Max Selections", step: "1", hint: "Maximum selections per slip" },
+  { key: "minTotalOdds", label: "Min Total Odds", step: "0.01", hint: "Minimum odds of every bet on a slip" },
+  {
+    key: "maxFixtureLiability",
+    label: "Max Fixture Liability",
+    step: "0.01",
+    hint: "Maximum open potential returns on one fixture",
+  },
+  {
+    key: "maxMarketLiability",
+    label: "Max Market Liability",
+    step: "0.01",
+    hint: "Maximum open potential returns on one market of a fixture",
+  },
+];
+
+export function SettingsClient({ dealerId, allowSameGameCombos, limits }: SettingsClientProps) {
+  const router = useRouter();
+  const [form, setForm] = useState({ allowSameGameCombos });
+  const [limitValues, setLimitValues] = useState<Record<LimitKey, string>>(
+    () =>
+      Object.fromEntries(
+        LIMIT_FIELDS.map(({ key }) => [key, limits[key] !== undefined ? String(limits[key]) : ""])
+      ) as Record<LimitKey, string>
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      // Empty fields remove the limit
+      const parsedLimits: DealerLimits = {};
+      for (const { key } of LIMIT_FIELDS) {
+        const value = limitValues[key].trim();
+        if (value !== "") {
+          parsedLimits[key] = Number(value);
+        }
+      }
+
+      const result = await updateDealerSettingsAction({
+        dealerId,
+        allowSameGameCombos: form.allowSameGameCombos,
+        limits: parsedLimits,
+      });
+
+      if (result.success) {
+        toast.success("Settings saved");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to save settings");
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast.error("Failed to save settings");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-text-primary">Dealer Settings</h1>
+        <Link
+          href="/dealer/slips"
+          className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+        >
+          View Slips
+        </Link>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Bet Combinations */}
+        <div className="p-6 bg-dark-surface border border-dark-border rounded">
+          <h2 className="text-xl font-semibold mb-4 text-text-primary">Bet Combinations</h2>
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={form.allowSameGameCombos}
+              onChange={(e) => setForm({ ...form, allowSameGameCombos: e.target.checked })}
+              className="mt-1 h-4 w-4 accent-accent-primary"
+            />
+            <span>
+              <span className="block text-sm font-medium text-text-primary">
+                Allow same-game combos
+              </span>
+              <span className="block text-sm text-text-secondary">
+                Let users combine selections from the same fixture in one bet. Selections from the
+                same market and correlated selections (e.g. Home + Result &amp; BTTS Home/Yes) are
+                always rejected.
+              </span>
+            </span>
+          </label>
+        </div>
+
+        {/* Risk Limits */}
+        <div className="p-6 bg-dark-surface border border-dark-border rounded">
+          <h2 className="text-xl font-semibold mb-1 text-text-primary">Risk Limits</h2>
+          <p className="mb-4 text-sm text-text-secondary">Leave a field empty for no limit.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {LIMIT_FIELDS.map(({ key, label, step, hint }) => (
+              <div key={key}>
+                <label htmlFor={key} className="block text-sm font-medium text-text-secondary mb-2">
+                  {label}
+                </label>
+                <input
+                  id={key}
+                  type="number"
+                  step={step}
+                  min="0"
+                  value={limitValues[key]}
+                  onChange={(e) => setLimitValues({ ...limitValues, [key]: e.target.value })}
+                  className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+                  placeholder="No limit"
+                />
+                <p className="mt-1 text-xs text-text-muted">{hint}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? "Saving..." : "Save Settings"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { redirect } from "next/navigation";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { SettingsClient } from "./SettingsClient";
+
+export default async function DealerSettingsPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("dealer.settings", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  const dealer = await getDealer(userDealerId);
+  if (!dealer) {
+    redirect("/");
+  }
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <SettingsClient
+        dealerId={userDealerId}
+        allowSameGameCombos={dealer.allowSameGameCombos ?? true}
+        limits={dealer.limits ?? {}}
+      />
+    </div>
+  );
+}
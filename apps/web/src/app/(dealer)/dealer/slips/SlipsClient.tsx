@@ -1,11 +1,12 @@
 "use client";
 
 import Link from "next/link";
-import { SlipStatusBadge } from "@/components/dealer";
+import { SlipStatusBadge, SlipActionsPanel } from "@/components/dealer";
 import type { SlipDocument } from "@/server/repositories/types";
 
 interface Slip extends SlipDocument {
   id: string;
+  handledBy: string[]; // Dealer or staff members who cancelled the slip or voided its lines
 }
 
 interface SlipsClientProps {
@@ -32,12 +33,26 @@ export function SlipsClient({ slips, userEmails }: SlipsClientProps) {
     <div>
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-3xl font-bold text-text-primary">Dealer Slips</h1>
-        <Link
-          href="/dealer/users"
-          className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
-        >
-          View Users
-        </Link>
+        <div className="flex gap-4">
+          <Link
+            href="/dealer/liability"
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+          >
+            Liability
+          </Link>
+          <Link
+            href="/dealer/settings"
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+          >
+            Settings
+          </Link>
+          <Link
+            href="/dealer/users"
+            className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+          >
+            View Users
+          </Link>
+        </div>
       </div>
 
       <div className="overflow-x-auto">
@@ -62,12 +77,18 @@ export function SlipsClient({ slips, userEmails }: SlipsClientProps) {
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created At
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Handled By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
             {slips.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={8} className="px-6 py-4 text-center text-text-muted">
                   No slips found
                 </td>
               </tr>
@@ -83,7 +104,7 @@ export function SlipsClient({ slips, userEmails }: SlipsClientProps) {
                     </Link>
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm">
-                    <SlipStatusBadge status={slip.status} />
+                    <SlipStatusBadge status={slip.status} reason={slip.reviewReason} />
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
                     {slip.stake.toFixed(2)}
@@ -97,6 +118,12 @@ export function SlipsClient({ slips, userEmails }: SlipsClientProps) {
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
                     {formatDate(slip.createdAt)}
                   </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    {slip.handledBy.map((uid) => userEmails[uid] || uid).join(", ") || "-"}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <SlipActionsPanel slipId={slip.id} status={slip.status} lines={slip.lines} />
+                  </td>
                 </tr>
               ))
             )}
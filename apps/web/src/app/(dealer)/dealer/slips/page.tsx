@@ -1,27 +1,25 @@
 import { redirect } from "next/navigation";
-import { getServerAuthUser } from "@/lib/auth/serverAuth";
 import { listDealerSlips } from "@/server/services/slipService";
-import type { Role } from "@/features/rbac/types";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import type { SlipDocument } from "@/server/repositories/types";
 import { SlipsClient } from "./SlipsClient";
 import { auth } from "@/lib/firebase-admin/admin";
 
-export default async function DealerSlipsPage() {
-  // Get authenticated user and validate dealer role
-  const user = await getServerAuthUser();
-  if (!user) {
-    redirect("/login");
-  }
+/**
+ * Dealer or staff members who cancelled a slip or voided its lines
+ */
+function getSlipHandlers(slip: SlipDocument): string[] {
+  const uids = [slip.cancelledBy, ...slip.lines.map((line) => line.voidedBy)];
+  return Array.from(new Set(uids.filter((uid): uid is string => !!uid)));
+}
 
-  const userRole = user.role as Role | undefined;
+export default async function DealerSlipsPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("slip.view", { redirectTo: "/" });
   const userDealerId = user.dealerId as string | undefined;
 
-  // Validate dealer role and get dealerId
-  if (userRole !== "dealer" && userRole !== "superadmin") {
-    redirect("/");
-  }
-
-  if (userRole !== "dealer" || !userDealerId) {
+  if (!userDealerId) {
     redirect("/");
   }
 
@@ -35,6 +33,7 @@ export default async function DealerSlipsPage() {
   const userIds = new Set<string>();
   slips.forEach((slip) => {
     userIds.add(slip.userId);
+    getSlipHandlers(slip).forEach((uid) => userIds.add(uid));
   });
 
   const userEmails: Record<string, string | undefined> = {};
@@ -51,7 +50,10 @@ export default async function DealerSlipsPage() {
 
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
-      <SlipsClient slips={slips} userEmails={userEmails} />
+      <SlipsClient
+        slips={slips.map((slip) => ({ ...slip, handledBy: getSlipHandlers(slip) }))}
+        userEmails={userEmails}
+      />
     </div>
   );
 }
@@ -0,0 +1,465 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import {
+  createUserAction,
+  banUserAction,
+  unbanUserAction,
+  updateStaffAction,
+} from "@/server/actions/userActions";
+import { UserStatusBadge } from "@/components/dealer";
+import { STAFF_PRESETS, type Permission } from "@/features/rbac/permissions";
+import type { StaffLimits } from "@/server/repositories/types";
+
+interface StaffMember {
+  uid: string;
+  email?: string;
+  dealerId?: string;
+  status: "active" | "banned";
+  permissions: Permission[];
+  staffLimits: StaffLimits;
+  cashMoved: number; // Credits plus debits today (UTC)
+}
+
+interface StaffClientProps {
+  staff: StaffMember[];
+  dealerId: string;
+  dealers: { dealerId: string; name: string }[]; // The dealer and its sub-dealers
+  grantable: Permission[]; // Permissions the caller holds and can pass on
+}
+
+interface StaffAccess {
+  permissions: Permission[];
+  perTransaction: string;
+  daily: string;
+}
+
+const PRESET_LABELS: Record<keyof typeof STAFF_PRESETS, string> = {
+  cashier: "Cashier (credit only)",
+  view_only: "View only",
+};
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary";
+
+function toAccess(member?: StaffMember): StaffAccess {
+  return {
+    permissions: member?.permissions ?? [...STAFF_PRESETS.cashier],
+    perTransaction: member?.staffLimits.perTransaction?.toString() ?? "",
+    daily: member?.staffLimits.daily?.toString() ?? "",
+  };
+}
+
+function toLimits(access: StaffAccess): StaffLimits {
+  return {
+    perTransaction: access.perTransaction ? parseFloat(access.perTransaction) : undefined,
+    daily: access.daily ? parseFloat(access.daily) : undefined,
+  };
+}
+
+function formatLimits(limits: StaffLimits): string {
+  const parts = [
+    limits.perTransaction !== undefined && `${limits.perTransaction.toFixed(2)} / tx`,
+    limits.daily !== undefined && `${limits.daily.toFixed(2)} / day`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "No limits";
+}
+
+/**
+ * Permission checkboxes (with presets) and cash limits of a staff account
+ */
+function StaffAccessFields({
+  access,
+  grantable,
+  onChange,
+}: {
+  access: StaffAccess;
+  grantable: Permission[];
+  onChange: (access: StaffAccess) => void;
+}) {
+  const toggle = (permission: Permission) => {
+    onChange({
+      ...access,
+      permissions: access.permissions.includes(permission)
+        ? access.permissions.filter((p) => p !== permission)
+        : [...access.permissions, permission],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="block text-sm font-medium text-text-secondary mb-2">Permissions</p>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {(Object.keys(STAFF_PRESETS) as (keyof typeof STAFF_PRESETS)[]).map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...access,
+                  permissions: STAFF_PRESETS[preset].filter((p) => grantable.includes(p)),
+                })
+              }
+              className="rounded bg-dark-bg border border-dark-border px-3 py-1 text-xs text-text-primary hover:bg-dark-hover transition-colors"
+            >
+              {PRESET_LABELS[preset]}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {grantable.map((permission) => (
+            <label key={permission} className="flex items-center gap-2 text-sm text-text-primary">
+              <input
+                type="checkbox"
+                checked={access.permissions.includes(permission)}
+                onChange={() => toggle(permission)}
+                className="accent-accent-primary"
+              />
+              {permission}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Limit per Transaction (optional)
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={access.perTransaction}
+            onChange={(e) => onChange({ ...access, perTransaction: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="No limit"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Daily Limit (optional, per UTC day)
+          </label>
+          <input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={access.daily}
+            onChange={(e) => onChange({ ...access, daily: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function StaffClient({ staff, dealerId, dealers, grantable }: StaffClientProps) {
+  const router = useRouter();
+  const [isCreating, setIsCreating] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [banningUid, setBanningUid] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ uid: string; access: StaffAccess } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [createForm, setCreateForm] = useState({ email: "", password: "", dealerId });
+  const [createAccess, setCreateAccess] = useState<StaffAccess>(toAccess());
+  const hasSubDealers = dealers.length > 1;
+  const dealerNames = new Map(dealers.map((dealer) => [dealer.dealerId, dealer.name]));
+
+  const handleCreateStaff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const result = await createUserAction({
+        email: createForm.email,
+        password: createForm.password,
+        dealerId: createForm.dealerId,
+        role: "staff",
+        permissions: createAccess.permissions,
+        staffLimits: toLimits(createAccess),
+      });
+
+      if (result.success) {
+        toast.success("Staff account created successfully!");
+        setShowCreateForm(false);
+        setCreateForm({ email: "", password: "", dealerId });
+        setCreateAccess(toAccess());
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to create staff account");
+      }
+    } catch (error) {
+      console.error("Error creating staff account:", error);
+      toast.error("Failed to create staff account");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await updateStaffAction({
+        uid: editing.uid,
+        permissions: editing.access.permissions,
+        staffLimits: toLimits(editing.access),
+      });
+
+      if (result.success) {
+        toast.success("Staff account updated");
+        setEditing(null);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to update staff account");
+      }
+    } catch (error) {
+      console.error("Error updating staff account:", error);
+      toast.error("Failed to update staff account");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleBan = async (member: StaffMember) => {
+    const banning = member.status === "active";
+    if (!confirm(`Are you sure you want to ${banning ? "ban" : "unban"} this staff account?`)) {
+      return;
+    }
+
+    setBanningUid(member.uid);
+    try {
+      const result = banning
+        ? await banUserAction({ uid: member.uid })
+        : await unbanUserAction({ uid: member.uid });
+
+      if (result.success) {
+        toast.success(banning ? "Staff account banned" : "Staff account unbanned");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to update staff account");
+      }
+    } catch (error) {
+      console.error("Error updating staff status:", error);
+      toast.error("Failed to update staff account");
+    } finally {
+      setBanningUid(null);
+    }
+  };
+
+  const columns = hasSubDealers ? 7 : 6;
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <Link
+            href="/dealer"
+            className="text-accent-primary hover:underline text-sm mb-4 inline-block"
+          >
+            ← Back to Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-text-primary">Staff</h1>
+        </div>
+        <button
+          onClick={() => setShowCreateForm(!showCreateForm)}
+          className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors"
+        >
+          {showCreateForm ? "Cancel" : "Create Staff Account"}
+        </button>
+      </div>
+
+      {showCreateForm && (
+        <div className="mb-6 p-4 bg-dark-surface border border-dark-border rounded">
+          <h2 className="text-xl font-semibold mb-4 text-text-primary">New Staff Account</h2>
+          <form onSubmit={handleCreateStaff} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-text-secondary mb-2">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={createForm.email}
+                  onChange={(e) => setCreateForm({ ...createForm, email: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder="cashier@example.com"
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-text-secondary mb-2">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  required
+                  minLength={6}
+                  value={createForm.password}
+                  onChange={(e) => setCreateForm({ ...createForm, password: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder="Password (min 6 characters)"
+                />
+              </div>
+            </div>
+            {hasSubDealers && (
+              <div>
+                <label htmlFor="dealerId" className="block text-sm font-medium text-text-secondary mb-2">
+                  Dealer
+                </label>
+                <select
+                  id="dealerId"
+                  value={createForm.dealerId}
+                  onChange={(e) => setCreateForm({ ...createForm, dealerId: e.target.value })}
+                  className={INPUT_CLASS}
+                >
+                  {dealers.map((dealer) => (
+                    <option key={dealer.dealerId} value={dealer.dealerId}>
+                      {dealer.name} ({dealer.dealerId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <StaffAccessFields
+              access={createAccess}
+              grantable={grantable}
+              onChange={setCreateAccess}
+            />
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating ? "Creating..." : "Create Staff Account"}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+          <thead className="bg-dark-surface">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Email
+              </th>
+              {hasSubDealers && (
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Dealer
+                </th>
+              )}
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Permissions
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Cash Limits
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Moved (today)
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dark-border bg-dark-surface">
+            {staff.length === 0 ? (
+              <tr>
+                <td colSpan={columns} className="px-6 py-4 text-center text-text-muted">
+                  No staff accounts yet
+                </td>
+              </tr>
+            ) : (
+              staff.map((member) => (
+                <Fragment key={member.uid}>
+                  <tr className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {member.email || member.uid}
+                    </td>
+                    {hasSubDealers && (
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                        {(member.dealerId && dealerNames.get(member.dealerId)) ?? member.dealerId ?? "-"}
+                      </td>
+                    )}
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <UserStatusBadge status={member.status} />
+                    </td>
+                    <td className="px-6 py-4 text-xs text-text-secondary">
+                      {member.permissions.length > 0 ? member.permissions.join(", ") : "-"}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {formatLimits(member.staffLimits)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {member.cashMoved.toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() =>
+                            setEditing(
+                              editing?.uid === member.uid
+                                ? null
+                                : { uid: member.uid, access: toAccess(member) }
+                            )
+                          }
+                          className="rounded bg-dark-bg border border-dark-border px-3 py-1 text-xs text-text-primary hover:bg-dark-hover transition-colors"
+                        >
+                          {editing?.uid === member.uid ? "Close" : "Edit"}
+                        </button>
+                        <button
+                          onClick={() => handleToggleBan(member)}
+                          disabled={banningUid === member.uid}
+                          className={`rounded px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            member.status === "active"
+                              ? "bg-red-500/20 text-red-400 border border-red-500/30 hover:bg-red-500/30"
+                              : "bg-green-500/20 text-green-400 border border-green-500/30 hover:bg-green-500/30"
+                          }`}
+                        >
+                          {member.status === "active" ? "Ban" : "Unban"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {editing?.uid === member.uid && (
+                    <tr className="bg-dark-bg">
+                      <td colSpan={columns} className="px-6 py-4 space-y-4">
+                        <StaffAccessFields
+                          access={editing.access}
+                          grantable={grantable}
+                          onChange={(access) => setEditing({ uid: member.uid, access })}
+                        />
+                        <button
+                          onClick={handleSave}
+                          disabled={isSaving}
+                          className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isSaving ? "Saving..." : "Save"}
+                        </button>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
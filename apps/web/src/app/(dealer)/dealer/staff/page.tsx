@@ -0,0 +1,68 @@
+import { redirect } from "next/navigation";
+import { listUsersByDealerIds } from "@/server/repositories/users.repository";
+import { getDealer, listDescendantDealers } from "@/server/repositories/dealers.repository";
+import { getStaffCashMoved } from "@/server/services/staffService";
+import { auth } from "@/lib/firebase-admin/admin";
+import { getPermissions } from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { StaffClient } from "./StaffClient";
+
+export default async function DealerStaffPage() {
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("staff.manage", { redirectTo: "/" });
+  const userDealerId = user.dealerId as string | undefined;
+
+  if (!userDealerId) {
+    redirect("/");
+  }
+
+  // Enforce dealer scope
+  await requireDealerScope(userDealerId);
+
+  // Get staff accounts of this dealer and every sub-dealer beneath it
+  const [dealer, subDealers] = await Promise.all([
+    getDealer(userDealerId),
+    listDescendantDealers(userDealerId),
+  ]);
+  const dealers = [
+    { dealerId: userDealerId, name: dealer?.name ?? userDealerId },
+    ...subDealers.map((subDealer) => ({ dealerId: subDealer.dealerId, name: subDealer.name })),
+  ];
+  const staff = (
+    await listUsersByDealerIds(dealers.map((scopeDealer) => scopeDealer.dealerId))
+  ).filter((userDoc) => userDoc.role === "staff");
+
+  // Get emails and the cash each staff member moved today (UTC)
+  const staffWithData = await Promise.all(
+    staff.map(async (staffDoc) => {
+      let email: string | undefined;
+      try {
+        const userRecord = await auth.getUser(staffDoc.uid);
+        email = userRecord.email;
+      } catch {
+        // User might not exist in Auth or email unavailable
+      }
+      return {
+        uid: staffDoc.uid,
+        email,
+        dealerId: staffDoc.dealerId,
+        status: staffDoc.status,
+        permissions: staffDoc.permissions ?? [],
+        staffLimits: staffDoc.staffLimits ?? {},
+        cashMoved: await getStaffCashMoved(staffDoc.uid),
+      };
+    })
+  );
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <StaffClient
+        staff={staffWithData}
+        dealerId={userDealerId}
+        dealers={dealers}
+        grantable={getPermissions(user.role, user.permissions)}
+      />
+    </div>
+  );
+}
@@ -3,15 +3,16 @@
 import { useState, useTransition } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { TransactionTypeBadge } from "@/components/dealer";
-import type { TransactionDocument } from "@/server/repositories/types";
+import { LedgerAccountLabel, LedgerEntryKindBadge, ReportExportPanel } from "@/components/dealer";
+import { getEntryAmount, getEntryParties } from "@/features/ledger";
+import type { LedgerEntryDocument } from "@/server/repositories/types";
 
-interface Transaction extends TransactionDocument {
+interface LedgerEntry extends LedgerEntryDocument {
   id: string;
 }
 
 interface TransactionsClientProps {
-  transactions: Transaction[];
+  entries: LedgerEntry[];
   userEmails: Record<string, string | undefined>;
   initialFilters: {
     startDate?: string;
@@ -35,7 +36,7 @@ function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
 }
 
 export function TransactionsClient({
-  transactions,
+  entries,
   userEmails,
   initialFilters,
 }: TransactionsClientProps) {
@@ -146,13 +147,22 @@ export function TransactionsClient({
         </form>
       </div>
 
+      {/* Export */}
+      <ReportExportPanel
+        defaultStartDate={initialFilters.startDate}
+        defaultEndDate={initialFilters.endDate}
+      />
+
       {/* Transactions Table */}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-dark-border border border-dark-border">
           <thead className="bg-dark-surface">
             <tr>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
-                Type
+                #
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Kind
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Amount
@@ -166,49 +176,69 @@ export function TransactionsClient({
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Reason
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                By
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created At
               </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
-            {transactions.length === 0 ? (
+            {entries.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={8} className="px-6 py-4 text-center text-text-muted">
                   No transactions found
                 </td>
               </tr>
             ) : (
-              transactions.map((tx) => (
-                <tr key={tx.id} className="hover:bg-dark-hover transition-colors">
-                  <td className="whitespace-nowrap px-6 py-4 text-sm">
-                    <TransactionTypeBadge type={tx.type} />
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                    {tx.amount.toFixed(2)}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    <Link
-                      href={`/dealer/users/${tx.fromUid}`}
-                      className="text-accent-primary hover:underline"
-                    >
-                      {userEmails[tx.fromUid] || tx.fromUid}
-                    </Link>
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    <Link
-                      href={`/dealer/users/${tx.toUid}`}
-                      className="text-accent-primary hover:underline"
-                    >
-                      {userEmails[tx.toUid] || tx.toUid}
-                    </Link>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-text-secondary">{tx.reason}</td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {formatDate(tx.createdAt)}
-                  </td>
-                </tr>
-              ))
+              entries.map((entry) => {
+                const { from, to } = getEntryParties(entry);
+                return (
+                  <tr key={entry.id} className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-muted font-mono">
+                      {entry.sequence}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <LedgerEntryKindBadge kind={entry.kind} />
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {getEntryAmount(entry).toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      <div className="flex flex-col gap-1">
+                        {from.map((account) => (
+                          <LedgerAccountLabel
+                            key={account}
+                            account={account}
+                            userEmails={userEmails}
+                            linkUsers
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      <div className="flex flex-col gap-1">
+                        {to.map((account) => (
+                          <LedgerAccountLabel
+                            key={account}
+                            account={account}
+                            userEmails={userEmails}
+                            linkUsers
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary">{entry.reason}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {entry.actorUid ? userEmails[entry.actorUid] || entry.actorUid : "-"}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {formatDate(entry.createdAt)}
+                    </td>
+                  </tr>
+                );
+              })
             )}
           </tbody>
         </table>
@@ -1,7 +1,8 @@
 import { redirect } from "next/navigation";
-import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import { getDealerTransactions } from "@/server/repositories/transactions.repository";
-import type { Role } from "@/features/rbac/types";
+import { listLedgerEntries, type LedgerFilters } from "@/server/repositories/ledger.repository";
+import { listDealerSubtreeIds } from "@/server/repositories/dealers.repository";
+import { ledgerAccounts, parseLedgerAccount } from "@/features/ledger";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { requireDealerScope } from "@/features/rbac/requireDealerScope";
 import { TransactionsClient } from "./TransactionsClient";
 import { auth } from "@/lib/firebase-admin/admin";
@@ -17,16 +18,11 @@ interface TransactionsPageProps {
 export default async function DealerTransactionsPage({ searchParams }: TransactionsPageProps) {
   const params = await searchParams;
 
-  // Get authenticated user and validate dealer scope
-  const user = await getServerAuthUser();
-  if (!user) {
-    redirect("/login");
-  }
-
-  const userRole = user.role as Role | undefined;
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("ledger.view", { redirectTo: "/" });
   const userDealerId = user.dealerId as string | undefined;
 
-  if (userRole !== "dealer" || !userDealerId) {
+  if (!userDealerId) {
     redirect("/");
   }
 
@@ -34,13 +30,9 @@ export default async function DealerTransactionsPage({ searchParams }: Transacti
   await requireDealerScope(userDealerId);
 
   // Parse filters
-  const filters: {
-    startDate?: Date;
-    endDate?: Date;
-    uid?: string;
-    limit?: number;
-  } = {
-    limit: 1000, // Show more transactions
+  const filters: LedgerFilters = {
+    dealerIds: await listDealerSubtreeIds(userDealerId),
+    limit: 1000, // Show more entries
   };
 
   if (params.startDate) {
@@ -54,17 +46,25 @@ export default async function DealerTransactionsPage({ searchParams }: Transacti
   }
 
   if (params.uid) {
-    filters.uid = params.uid;
+    filters.account = ledgerAccounts.userWallet(params.uid);
   }
 
-  // Get transactions for this dealer
-  const transactions = await getDealerTransactions(userDealerId, filters);
+  // Get ledger entries for this dealer and every sub-dealer beneath it
+  const entries = await listLedgerEntries(filters);
 
   // Get user emails for display
   const userIds = new Set<string>();
-  transactions.forEach((tx) => {
-    userIds.add(tx.fromUid);
-    userIds.add(tx.toUid);
+  entries.forEach((entry) => {
+    entry.accounts.forEach((account) => {
+      const { type, ownerId } = parseLedgerAccount(account);
+      if (type === "user_wallet" && ownerId) {
+        userIds.add(ownerId);
+      }
+    });
+    // Dealer or staff member who initiated the entry
+    if (entry.actorUid) {
+      userIds.add(entry.actorUid);
+    }
   });
 
   const userEmails: Record<string, string | undefined> = {};
@@ -82,7 +82,7 @@ export default async function DealerTransactionsPage({ searchParams }: Transacti
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
       <TransactionsClient
-        transactions={transactions}
+        entries={entries}
         userEmails={userEmails}
         initialFilters={{
           startDate: params.startDate,
@@ -11,6 +11,7 @@ interface User {
   uid: string;
   email?: string;
   role: string;
+  dealerId?: string;
   status: "active" | "banned";
   balance: number;
   createdAt: any;
@@ -19,6 +20,7 @@ interface User {
 interface UsersListClientProps {
   users: User[];
   dealerId: string;
+  dealers: { dealerId: string; name: string }[]; // The dealer and its sub-dealers
 }
 
 function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
@@ -35,7 +37,7 @@ function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
   }
 }
 
-export function UsersListClient({ users, dealerId }: UsersListClientProps) {
+export function UsersListClient({ users, dealerId, dealers }: UsersListClientProps) {
   const router = useRouter();
   const [isCreating, setIsCreating] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -44,7 +46,10 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
   const [createForm, setCreateForm] = useState({
     email: "",
     password: "",
+    dealerId,
   });
+  const hasSubDealers = dealers.length > 1;
+  const dealerNames = new Map(dealers.map((dealer) => [dealer.dealerId, dealer.name]));
 
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -54,13 +59,13 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
       const result = await createUserAction({
         email: createForm.email,
         password: createForm.password,
-        dealerId,
+        dealerId: createForm.dealerId,
       });
 
       if (result.success) {
         toast.success("User created successfully!");
         setShowCreateForm(false);
-        setCreateForm({ email: "", password: "" });
+        setCreateForm({ email: "", password: "", dealerId });
         router.refresh();
       } else {
         toast.error(result.error || "Failed to create user");
@@ -172,6 +177,25 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
                 placeholder="Password (min 6 characters)"
               />
             </div>
+            {hasSubDealers && (
+              <div>
+                <label htmlFor="dealerId" className="block text-sm font-medium text-text-secondary mb-2">
+                  Dealer
+                </label>
+                <select
+                  id="dealerId"
+                  value={createForm.dealerId}
+                  onChange={(e) => setCreateForm({ ...createForm, dealerId: e.target.value })}
+                  className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+                >
+                  {dealers.map((dealer) => (
+                    <option key={dealer.dealerId} value={dealer.dealerId}>
+                      {dealer.name} ({dealer.dealerId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <button
               type="submit"
               disabled={isCreating}
@@ -190,6 +214,11 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Email
               </th>
+              {hasSubDealers && (
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Dealer
+                </th>
+              )}
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Status
               </th>
@@ -207,7 +236,7 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
           <tbody className="divide-y divide-dark-border bg-dark-surface">
             {users.length === 0 ? (
               <tr>
-                <td colSpan={5} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={hasSubDealers ? 6 : 5} className="px-6 py-4 text-center text-text-muted">
                   No users found
                 </td>
               </tr>
@@ -222,6 +251,11 @@ export function UsersListClient({ users, dealerId }: UsersListClientProps) {
                       {userDoc.email || userDoc.uid}
                     </Link>
                   </td>
+                  {hasSubDealers && (
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {(userDoc.dealerId && dealerNames.get(userDoc.dealerId)) ?? userDoc.dealerId ?? "-"}
+                    </td>
+                  )}
                   <td className="whitespace-nowrap px-6 py-4 text-sm">
                     <UserStatusBadge status={userDoc.status} />
                   </td>
@@ -5,8 +5,11 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import { creditUserAction, debitUserAction } from "@/server/actions/walletActions";
-import { UserStatusBadge, TransactionTypeBadge } from "@/components/dealer";
-import type { TransactionDocument } from "@/server/repositories/types";
+import { useIdempotencyKey } from "@/features/idempotency";
+import { UserStatusBadge, LedgerEntryKindBadge } from "@/components/dealer";
+import { getPostingAmount, ledgerAccounts } from "@/features/ledger";
+import type { LedgerEntryDocument, LimitPeriod } from "@/server/repositories/types";
+import type { ResponsibleGamingStatus } from "@/server/services/responsibleGamingService";
 
 interface User {
   uid: string;
@@ -17,13 +20,20 @@ interface User {
   createdAt: any;
 }
 
-type Transaction = TransactionDocument & { id: string };
+type LedgerEntry = LedgerEntryDocument & { id: string };
 
 interface UserDetailClientProps {
   user: User;
-  transactions: Transaction[];
+  entries: LedgerEntry[];
+  responsibleGaming: ResponsibleGamingStatus;
 }
 
+const LIMIT_PERIODS: { key: LimitPeriod; label: string }[] = [
+  { key: "daily", label: "Daily" },
+  { key: "weekly", label: "Weekly" },
+  { key: "monthly", label: "Monthly" },
+];
+
 function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
   try {
     const date =
@@ -38,7 +48,7 @@ function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
   }
 }
 
-export function UserDetailClient({ user, transactions }: UserDetailClientProps) {
+export function UserDetailClient({ user, entries, responsibleGaming }: UserDetailClientProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [form, setForm] = useState({
@@ -46,6 +56,8 @@ export function UserDetailClient({ user, transactions }: UserDetailClientProps)
     amount: "",
     reason: "",
   });
+  // Same key for repeated submits of the same form, so a double-click moves funds once
+  const submitKey = useIdempotencyKey([user.uid, form.type, form.amount, form.reason]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -65,9 +77,11 @@ export function UserDetailClient({ user, transactions }: UserDetailClientProps)
         dealerId: user.dealerId,
         amount,
         reason: form.reason,
+        idempotencyKey: submitKey.getKey(),
       });
 
       if (result.success) {
+        submitKey.renew();
         toast.success(`${form.type === "credit" ? "Credited" : "Debited"} ${amount.toFixed(2)} successfully!`);
         setForm({ type: "credit", amount: "", reason: "" });
         router.refresh();
@@ -119,6 +133,59 @@ export function UserDetailClient({ user, transactions }: UserDetailClientProps)
         </div>
       </div>
 
+      {/* Responsible Gaming (set by the user, read-only here) */}
+      <div className="mb-8 p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-xl font-semibold mb-4 text-text-primary">Responsible Gaming</h2>
+        {responsibleGaming.restriction && (
+          <p className="mb-4 text-sm font-medium text-red-400">
+            {responsibleGaming.restriction.type === "self_exclusion" ? "Self-excluded" : "Cool-off"} until{" "}
+            {formatDate(responsibleGaming.restriction.until)}
+          </p>
+        )}
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-text-secondary">
+              <th className="py-2">Limit</th>
+              {LIMIT_PERIODS.map(({ key, label }) => (
+                <th key={key} className="py-2">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-text-primary">
+            {(
+              [
+                { label: "Deposit", limits: responsibleGaming.limits.deposit, usage: responsibleGaming.activity.deposits },
+                { label: "Loss", limits: responsibleGaming.limits.loss, usage: responsibleGaming.activity.losses },
+              ] as const
+            ).map(({ label, limits, usage }) => (
+              <tr key={label}>
+                <td className="py-1 text-text-secondary">{label}</td>
+                {LIMIT_PERIODS.map(({ key }) => (
+                  <td key={key} className="py-1">
+                    {usage[key].toFixed(2)} / {limits?.[key] !== undefined ? limits[key]!.toFixed(2) : "-"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-4 text-sm text-text-secondary">
+          Stake limit:{" "}
+          <span className="text-text-primary">
+            {responsibleGaming.limits.maxStake !== undefined
+              ? responsibleGaming.limits.maxStake.toFixed(2)
+              : "-"}
+          </span>
+        </p>
+        {responsibleGaming.pendingLimits && (
+          <p className="mt-2 text-sm text-yellow-400">
+            Limit change pending until {formatDate(responsibleGaming.pendingLimits.effectiveAt)}
+          </p>
+        )}
+      </div>
+
       {/* Credit/Debit Form */}
       <div className="mb-8 p-6 bg-dark-surface border border-dark-border rounded">
         <h2 className="text-xl font-semibold mb-4 text-text-primary">
@@ -188,7 +255,7 @@ export function UserDetailClient({ user, transactions }: UserDetailClientProps)
             <thead className="bg-dark-surface">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
-                  Type
+                  Kind
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                   Amount
@@ -202,27 +269,35 @@ export function UserDetailClient({ user, transactions }: UserDetailClientProps)
               </tr>
             </thead>
             <tbody className="divide-y divide-dark-border bg-dark-surface">
-              {transactions.length === 0 ? (
+              {entries.length === 0 ? (
                 <tr>
                   <td colSpan={4} className="px-6 py-4 text-center text-text-muted">
                     No transactions found
                   </td>
                 </tr>
               ) : (
-                transactions.map((tx) => (
-                  <tr key={tx.id} className="hover:bg-dark-hover transition-colors">
-                    <td className="whitespace-nowrap px-6 py-4 text-sm">
-                      <TransactionTypeBadge type={tx.type} />
-                    </td>
-                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                      {tx.amount.toFixed(2)}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-text-secondary">{tx.reason}</td>
-                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                      {formatDate(tx.createdAt)}
-                    </td>
-                  </tr>
-                ))
+                entries.map((entry) => {
+                  const amount = getPostingAmount(entry, ledgerAccounts.userWallet(user.uid));
+                  return (
+                    <tr key={entry.id} className="hover:bg-dark-hover transition-colors">
+                      <td className="whitespace-nowrap px-6 py-4 text-sm">
+                        <LedgerEntryKindBadge kind={entry.kind} />
+                      </td>
+                      <td
+                        className={`whitespace-nowrap px-6 py-4 text-sm font-medium ${
+                          amount < 0 ? "text-red-400" : "text-green-400"
+                        }`}
+                      >
+                        {amount > 0 ? "+" : ""}
+                        {amount.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-text-secondary">{entry.reason}</td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                        {formatDate(entry.createdAt)}
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
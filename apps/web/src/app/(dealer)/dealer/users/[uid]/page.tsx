@@ -1,12 +1,13 @@
 import { redirect } from "next/navigation";
-import { getServerAuthUser } from "@/lib/auth/serverAuth";
 import { getUser } from "@/server/repositories/users.repository";
-import { getUserTransactions } from "@/server/repositories/transactions.repository";
+import { listLedgerEntries } from "@/server/repositories/ledger.repository";
+import { ledgerAccounts } from "@/features/ledger";
 import { getUserBalance } from "@/server/services/walletService";
+import { getResponsibleGamingStatus } from "@/server/services/responsibleGamingService";
 import { auth } from "@/lib/firebase-admin/admin";
-import type { Role } from "@/features/rbac/types";
-import type { TransactionDocument } from "@/server/repositories/types";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { requireDealerScope } from "@/features/rbac/requireDealerScope";
+import { isDealerInScope } from "@/features/rbac/dealerScope";
 import { UserDetailClient } from "./UserDetailClient";
 
 interface UserDetailPageProps {
@@ -16,16 +17,11 @@ interface UserDetailPageProps {
 export default async function UserDetailPage({ params }: UserDetailPageProps) {
   const { uid } = await params;
 
-  // Get authenticated user and validate dealer scope
-  const user = await getServerAuthUser();
-  if (!user) {
-    redirect("/login");
-  }
-
-  const userRole = user.role as Role | undefined;
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("user.view", { redirectTo: "/" });
   const userDealerId = user.dealerId as string | undefined;
 
-  if (userRole !== "dealer" || !userDealerId) {
+  if (!userDealerId) {
     redirect("/");
   }
 
@@ -35,12 +31,13 @@ export default async function UserDetailPage({ params }: UserDetailPageProps) {
     redirect("/dealer/users");
   }
 
-  // Enforce dealer scope
-  if (targetUser.dealerId !== userDealerId) {
+  // Enforce dealer scope: the user belongs to this dealer or a sub-dealer beneath it
+  const targetDealerId = targetUser.dealerId;
+  if (!targetDealerId || !(await isDealerInScope(userDealerId, targetDealerId))) {
     redirect("/dealer/users");
   }
 
-  await requireDealerScope(userDealerId);
+  await requireDealerScope(targetDealerId);
 
   // Get user email and balance
   let email: string | undefined;
@@ -52,16 +49,13 @@ export default async function UserDetailPage({ params }: UserDetailPageProps) {
   }
 
   const balance = await getUserBalance(uid);
+  const responsibleGaming = await getResponsibleGamingStatus(uid);
 
-  // Get user transactions
-  const transactions = await getUserTransactions(uid, { limit: 100 });
-  
-  // Add id field to transactions (getUserTransactions returns TransactionDocument[])
-  // Note: In a real implementation, we'd want to include doc.id from the query
-  const transactionsWithId = transactions.map((tx, index) => ({
-    ...tx,
-    id: `tx-${index}`,
-  })) as (TransactionDocument & { id: string })[];
+  // Get ledger entries posting to the user's wallet
+  const entries = await listLedgerEntries({
+    account: ledgerAccounts.userWallet(uid),
+    limit: 100,
+  });
 
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
@@ -71,10 +65,11 @@ export default async function UserDetailPage({ params }: UserDetailPageProps) {
           email,
           status: targetUser.status,
           balance,
-          dealerId: targetUser.dealerId || userDealerId,
+          dealerId: targetDealerId,
           createdAt: targetUser.createdAt,
         }}
-        transactions={transactionsWithId}
+        entries={entries}
+        responsibleGaming={responsibleGaming}
       />
     </div>
   );
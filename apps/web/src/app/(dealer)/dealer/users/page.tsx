@@ -1,36 +1,37 @@
 import { redirect } from "next/navigation";
-import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import { listUsersByDealerId } from "@/server/repositories/users.repository";
+import { listUsersByDealerIds } from "@/server/repositories/users.repository";
+import { getDealer, listDescendantDealers } from "@/server/repositories/dealers.repository";
 import { getUserBalance } from "@/server/services/walletService";
 import { auth } from "@/lib/firebase-admin/admin";
-import type { Role } from "@/features/rbac/types";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { UsersListClient } from "./UsersListClient";
 import { requireDealerScope } from "@/features/rbac/requireDealerScope";
 
 export default async function DealerUsersPage() {
-  // Get authenticated user and validate dealer scope
-  const user = await getServerAuthUser();
-  if (!user) {
-    redirect("/login");
-  }
-
-  const userRole = user.role as Role | undefined;
+  // Get authenticated user and validate permission and dealer scope
+  const user = await requirePermission("user.view", { redirectTo: "/" });
   const userDealerId = user.dealerId as string | undefined;
 
-  // Validate dealer role and get dealerId
-  if (userRole !== "dealer" && userRole !== "superadmin") {
-    redirect("/");
-  }
-
-  if (userRole !== "dealer" || !userDealerId) {
+  if (!userDealerId) {
     redirect("/");
   }
 
   // Enforce dealer scope
   await requireDealerScope(userDealerId);
 
-  // Get users for this dealer
-  const users = await listUsersByDealerId(userDealerId);
+  // Get users for this dealer and every sub-dealer beneath it
+  const [dealer, subDealers] = await Promise.all([
+    getDealer(userDealerId),
+    listDescendantDealers(userDealerId),
+  ]);
+  const dealers = [
+    { dealerId: userDealerId, name: dealer?.name ?? userDealerId },
+    ...subDealers.map((subDealer) => ({ dealerId: subDealer.dealerId, name: subDealer.name })),
+  ];
+  // Staff accounts are listed on the staff page
+  const users = (
+    await listUsersByDealerIds(dealers.map((scopeDealer) => scopeDealer.dealerId))
+  ).filter((userDoc) => userDoc.role !== "staff");
 
   // Get balances and emails for each user
   const usersWithData = await Promise.all(
@@ -66,6 +67,7 @@ export default async function DealerUsersPage() {
       <UsersListClient
         users={usersWithData}
         dealerId={userDealerId}
+        dealers={dealers}
       />
     </div>
   );
@@ -1,12 +1,15 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
+import toast from "react-hot-toast";
+import { migrateLedgerAction, syncPermissionClaimsAction } from "@/server/actions/adminActions";
 
 interface DashboardStats {
   totalUsers: number;
   totalDealers: number;
-  totalCredits: number;
-  totalDebits: number;
+  totalDeposits: number;
+  totalWithdrawals: number;
 }
 
 interface DashboardClientProps {
@@ -14,6 +17,49 @@ interface DashboardClientProps {
 }
 
 export function DashboardClient({ stats }: DashboardClientProps) {
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const handleMigrate = async () => {
+    if (!confirm("Migrate legacy transactions to the ledger and rebuild all wallet balances?")) {
+      return;
+    }
+
+    setIsMigrating(true);
+    try {
+      const result = await migrateLedgerAction();
+      if (result.success && result.result) {
+        toast.success(
+          `Migrated ${result.result.migrated} entries (${result.result.skipped} already migrated), rebuilt ${result.result.walletsRebuilt} wallets`
+        );
+      } else {
+        toast.error(result.error || "Failed to migrate ledger");
+      }
+    } catch (error) {
+      console.error("Error migrating ledger:", error);
+      toast.error("Failed to migrate ledger");
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleSyncClaims = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncPermissionClaimsAction();
+      if (result.success) {
+        toast.success(`Synced permission claims of ${result.updated} accounts`);
+      } else {
+        toast.error(result.error || "Failed to sync permission claims");
+      }
+    } catch (error) {
+      console.error("Error syncing permission claims:", error);
+      toast.error("Failed to sync permission claims");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   return (
     <div>
       <div className="mb-6">
@@ -78,16 +124,16 @@ export function DashboardClient({ stats }: DashboardClientProps) {
           </div>
         </Link>
 
-        {/* Total Credits Card */}
+        {/* Total Deposits Card */}
         <Link
-          href="/admin/transactions?type=credit"
+          href="/admin/transactions?kind=deposit"
           className="p-6 bg-dark-surface border border-dark-border rounded hover:bg-dark-hover transition-colors"
         >
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-text-secondary text-sm font-medium mb-1">Total Credits</p>
+              <p className="text-text-secondary text-sm font-medium mb-1">Total Deposits</p>
               <p className="text-text-primary text-3xl font-bold">
-                {stats.totalCredits.toFixed(2)}
+                {stats.totalDeposits.toFixed(2)}
               </p>
             </div>
             <div className="w-12 h-12 rounded-full bg-green-500/20 flex items-center justify-center">
@@ -108,16 +154,16 @@ export function DashboardClient({ stats }: DashboardClientProps) {
           </div>
         </Link>
 
-        {/* Total Debits Card */}
+        {/* Total Withdrawals Card */}
         <Link
-          href="/admin/transactions?type=debit"
+          href="/admin/transactions?kind=withdrawal"
           className="p-6 bg-dark-surface border border-dark-border rounded hover:bg-dark-hover transition-colors"
         >
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-text-secondary text-sm font-medium mb-1">Total Debits</p>
+              <p className="text-text-secondary text-sm font-medium mb-1">Total Withdrawals</p>
               <p className="text-text-primary text-3xl font-bold">
-                {stats.totalDebits.toFixed(2)}
+                {stats.totalWithdrawals.toFixed(2)}
               </p>
             </div>
             <div className="w-12 h-12 rounded-full bg-red-500/20 flex items-center justify-center">
@@ -169,6 +215,49 @@ export function DashboardClient({ stats }: DashboardClientProps) {
           <h2 className="text-lg font-semibold text-text-primary mb-2">Transactions</h2>
           <p className="text-text-secondary text-sm">View all transactions</p>
         </Link>
+        <Link
+          href="/admin/audit"
+          className="p-4 bg-dark-surface border border-dark-border rounded hover:bg-dark-hover transition-colors"
+        >
+          <h2 className="text-lg font-semibold text-text-primary mb-2">Audit Log</h2>
+          <p className="text-text-secondary text-sm">Review privileged actions</p>
+        </Link>
+      </div>
+
+      {/* Ledger Migration */}
+      <div className="mt-8 p-6 bg-dark-surface border border-dark-border rounded flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary mb-1">Ledger Migration</h2>
+          <p className="text-text-secondary text-sm">
+            Copy legacy transactions into the double-entry ledger and rebuild wallet and float
+            balances. Entries already migrated are skipped.
+          </p>
+        </div>
+        <button
+          onClick={handleMigrate}
+          disabled={isMigrating}
+          className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {isMigrating ? "Migrating..." : "Migrate Ledger"}
+        </button>
+      </div>
+
+      {/* Permission Claims */}
+      <div className="mt-4 p-6 bg-dark-surface border border-dark-border rounded flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary mb-1">Permission Claims</h2>
+          <p className="text-text-secondary text-sm">
+            Rewrite every account&apos;s token claims with its current permissions. Accounts pick
+            up the change on their next token refresh.
+          </p>
+        </div>
+        <button
+          onClick={handleSyncClaims}
+          disabled={isSyncing}
+          className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {isSyncing ? "Syncing..." : "Sync Claims"}
+        </button>
       </div>
     </div>
   );
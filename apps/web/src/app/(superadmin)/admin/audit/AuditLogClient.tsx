@@ -0,0 +1,290 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { AUDIT_ACTIONS } from "@/features/audit";
+import type { AuditLogDocument } from "@/server/repositories/types";
+
+/**
+ * Audit log entry as passed to the client (createdAt as ISO string)
+ */
+export interface AuditLogView extends Omit<AuditLogDocument, "createdAt"> {
+  id: string;
+  createdAt: string;
+}
+
+interface AuditLogClientProps {
+  entries: AuditLogView[];
+  dealers: { dealerId: string; name: string }[];
+  initialFilters: {
+    action?: string;
+    actorUid?: string;
+    targetId?: string;
+    dealerId?: string;
+    startDate?: string;
+    endDate?: string;
+  };
+}
+
+const EMPTY_FILTERS = {
+  action: "",
+  actorUid: "",
+  targetId: "",
+  dealerId: "",
+  startDate: "",
+  endDate: "",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "-";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Fields changed by an action, with their values before and after
+ */
+function getChanges(entry: AuditLogView): { field: string; before: unknown; after: unknown }[] {
+  const fields = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]);
+  return Array.from(fields).map((field) => ({
+    field,
+    before: entry.before?.[field],
+    after: entry.after?.[field],
+  }));
+}
+
+export function AuditLogClient({ entries, dealers, initialFilters }: AuditLogClientProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [filters, setFilters] = useState({
+    action: initialFilters.action || "",
+    actorUid: initialFilters.actorUid || "",
+    targetId: initialFilters.targetId || "",
+    dealerId: initialFilters.dealerId || "",
+    startDate: initialFilters.startDate || "",
+    endDate: initialFilters.endDate || "",
+  });
+
+  const handleFilterSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startTransition(() => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value.trim());
+        }
+      });
+      router.push(`/admin/audit?${params.toString()}`);
+    });
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    startTransition(() => {
+      router.push("/admin/audit");
+    });
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary";
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <Link
+            href="/admin"
+            className="text-accent-primary hover:underline text-sm mb-4 inline-block"
+          >
+            ← Back to Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-text-primary">Audit Log</h1>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-lg font-semibold mb-4 text-text-primary">Filters</h2>
+        <form onSubmit={handleFilterSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="action" className="block text-sm font-medium text-text-secondary mb-2">
+              Action (optional)
+            </label>
+            <select
+              id="action"
+              value={filters.action}
+              onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All Actions</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {action}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="dealerId" className="block text-sm font-medium text-text-secondary mb-2">
+              Dealer ID (optional)
+            </label>
+            <select
+              id="dealerId"
+              value={filters.dealerId}
+              onChange={(e) => setFilters({ ...filters, dealerId: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All Dealers</option>
+              {dealers.map((dealer) => (
+                <option key={dealer.dealerId} value={dealer.dealerId}>
+                  {dealer.dealerId} - {dealer.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="actorUid" className="block text-sm font-medium text-text-secondary mb-2">
+              Actor UID (optional)
+            </label>
+            <input
+              id="actorUid"
+              type="text"
+              value={filters.actorUid}
+              onChange={(e) => setFilters({ ...filters, actorUid: e.target.value })}
+              className={inputClassName}
+              placeholder="Actor UID"
+            />
+          </div>
+          <div>
+            <label htmlFor="targetId" className="block text-sm font-medium text-text-secondary mb-2">
+              Target ID (optional)
+            </label>
+            <input
+              id="targetId"
+              type="text"
+              value={filters.targetId}
+              onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+              className={inputClassName}
+              placeholder="UID, dealer, slip or statement ID"
+            />
+          </div>
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-text-secondary mb-2">
+              Start Date
+            </label>
+            <input
+              id="startDate"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-text-secondary mb-2">
+              End Date
+            </label>
+            <input
+              id="endDate"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-end gap-2 md:col-span-2">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPending ? "Filtering..." : "Apply Filters"}
+            </button>
+            <button
+              type="button"
+              onClick={handleClearFilters}
+              disabled={isPending}
+              className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Audit Log Table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+          <thead className="bg-dark-surface">
+            <tr>
+              {["Created At", "Action", "Actor", "Target", "Dealer ID", "Changes", "Origin"].map(
+                (heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    {heading}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-dark-border bg-dark-surface">
+            {entries.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
+                  No audit entries found
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-dark-hover transition-colors align-top">
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "N/A"}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm font-mono text-text-primary">
+                    {entry.action}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    <div className="font-mono text-xs">{entry.actorUid}</div>
+                    <div className="text-xs text-text-muted">
+                      {entry.actorRole}
+                      {entry.actorDealerId && ` · ${entry.actorDealerId}`}
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    <div className="text-xs text-text-muted">{entry.targetType}</div>
+                    <div className="font-mono text-xs">{entry.targetId}</div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    {entry.dealerId || "-"}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-text-secondary font-mono">
+                    <div className="flex flex-col gap-1">
+                      {getChanges(entry).map(({ field, before, after }) => (
+                        <div key={field}>
+                          <span className="text-text-muted">{field}:</span>{" "}
+                          {entry.before && <>{formatValue(before)} → </>}
+                          <span className="text-text-primary">{formatValue(after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-text-muted">
+                    <div className="font-mono">{entry.ip || "-"}</div>
+                    <div className="max-w-xs truncate" title={entry.userAgent}>
+                      {entry.userAgent || "-"}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
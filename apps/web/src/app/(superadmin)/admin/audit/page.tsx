@@ -0,0 +1,84 @@
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { listAuditLogs, type AuditLogFilters } from "@/server/repositories/auditLogs.repository";
+import { listAllDealers } from "@/server/repositories/dealers.repository";
+import type { AuditAction } from "@/server/repositories/types";
+import { AUDIT_ACTIONS } from "@/features/audit";
+import { AuditLogClient, type AuditLogView } from "./AuditLogClient";
+
+interface AuditLogPageProps {
+  searchParams: Promise<{
+    action?: string;
+    actorUid?: string;
+    targetId?: string;
+    dealerId?: string;
+    startDate?: string;
+    endDate?: string;
+  }>;
+}
+
+export default async function AdminAuditLogPage({ searchParams }: AuditLogPageProps) {
+  const params = await searchParams;
+
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("audit.view", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
+
+  // Parse filters
+  const filters: AuditLogFilters = {
+    limit: 500,
+  };
+
+  if (params.action && (AUDIT_ACTIONS as string[]).includes(params.action)) {
+    filters.action = params.action as AuditAction;
+  }
+
+  if (params.actorUid) {
+    filters.actorUid = params.actorUid;
+  }
+
+  if (params.targetId) {
+    filters.targetId = params.targetId;
+  }
+
+  if (params.dealerId) {
+    filters.dealerId = params.dealerId;
+  }
+
+  if (params.startDate) {
+    filters.startDate = new Date(params.startDate);
+  }
+
+  if (params.endDate) {
+    filters.endDate = new Date(params.endDate);
+    // Set to end of day
+    filters.endDate.setHours(23, 59, 59, 999);
+  }
+
+  const [logs, dealers] = await Promise.all([listAuditLogs(filters), listAllDealers()]);
+
+  const entries: AuditLogView[] = logs.map(({ createdAt, ...log }) => ({
+    ...log,
+    createdAt: createdAt?.toDate().toISOString() ?? "",
+  }));
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <AuditLogClient
+        entries={entries}
+        dealers={dealers.map(({ dealerId, name }) => ({ dealerId, name }))}
+        initialFilters={{
+          action: params.action,
+          actorUid: params.actorUid,
+          targetId: params.targetId,
+          dealerId: params.dealerId,
+          startDate: params.startDate,
+          endDate: params.endDate,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import { createDealerAction } from "@/server/actions/adminActions";
+import { transferDealerFloatAction } from "@/server/actions/walletActions";
+import { useIdempotencyKey } from "@/features/idempotency";
+import { buildDealerTree, flattenDealerTree } from "@/features/dealers";
 import type { DealerDocument } from "@/server/repositories/types";
 
 interface Dealer extends DealerDocument {
@@ -13,6 +16,14 @@ interface Dealer extends DealerDocument {
 
 interface DealersClientProps {
   dealers: Dealer[];
+  floats: Record<string, number>;
+}
+
+interface TransferForm {
+  dealerId: string;
+  direction: "fund" | "withdraw";
+  amount: string;
+  reason: string;
 }
 
 function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
@@ -29,16 +40,30 @@ function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
   }
 }
 
-export function DealersClient({ dealers }: DealersClientProps) {
+export function DealersClient({ dealers, floats }: DealersClientProps) {
   const router = useRouter();
   const [isCreating, setIsCreating] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [transferForm, setTransferForm] = useState<TransferForm | null>(null);
+  // Same key for repeated submits of the same transfer, so a double-click moves funds once
+  const transferKey = useIdempotencyKey([transferForm]);
+  const [isTransferring, setIsTransferring] = useState(false);
 
   const [createForm, setCreateForm] = useState({
     dealerId: "",
     name: "",
+    parentDealerId: "",
   });
 
+  // Dealers in tree order, each followed by its sub-dealers
+  const dealerRows = useMemo(() => {
+    const dealersById = new Map(dealers.map((dealer) => [dealer.dealerId, dealer]));
+    return flattenDealerTree(buildDealerTree(dealers, floats)).map((node) => ({
+      ...node,
+      dealer: dealersById.get(node.dealerId)!,
+    }));
+  }, [dealers, floats]);
+
   const handleCreateDealer = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsCreating(true);
@@ -47,12 +72,13 @@ export function DealersClient({ dealers }: DealersClientProps) {
       const result = await createDealerAction({
         dealerId: createForm.dealerId,
         name: createForm.name,
+        parentDealerId: createForm.parentDealerId || undefined,
       });
 
       if (result.success) {
         toast.success("Dealer created successfully!");
         setShowCreateForm(false);
-        setCreateForm({ dealerId: "", name: "" });
+        setCreateForm({ dealerId: "", name: "", parentDealerId: "" });
         router.refresh();
       } else {
         toast.error(result.error || "Failed to create dealer");
@@ -65,6 +91,44 @@ export function DealersClient({ dealers }: DealersClientProps) {
     }
   };
 
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transferForm) return;
+
+    const amount = parseFloat(transferForm.amount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    setIsTransferring(true);
+    try {
+      const result = await transferDealerFloatAction({
+        dealerId: transferForm.dealerId,
+        direction: transferForm.direction,
+        amount,
+        reason: transferForm.reason,
+        idempotencyKey: transferKey.getKey(),
+      });
+
+      if (result.success) {
+        transferKey.renew();
+        toast.success(
+          `${transferForm.direction === "fund" ? "Funded" : "Withdrew"} ${amount.toFixed(2)} successfully!`
+        );
+        setTransferForm(null);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to transfer float");
+      }
+    } catch (error) {
+      console.error("Error transferring float:", error);
+      toast.error("Failed to transfer float");
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   return (
     <div>
       <div className="mb-6 flex items-center justify-between">
@@ -120,6 +184,28 @@ export function DealersClient({ dealers }: DealersClientProps) {
                 placeholder="Dealer Name"
               />
             </div>
+            <div>
+              <label htmlFor="parentDealerId" className="block text-sm font-medium text-text-secondary mb-2">
+                Parent Dealer
+              </label>
+              <select
+                id="parentDealerId"
+                value={createForm.parentDealerId}
+                onChange={(e) => setCreateForm({ ...createForm, parentDealerId: e.target.value })}
+                className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+              >
+                <option value="">None (top-level dealer)</option>
+                {dealerRows.map((row) => (
+                  <option key={row.dealerId} value={row.dealerId}>
+                    {"\u00a0\u00a0".repeat(row.depth)}
+                    {row.name} ({row.dealerId})
+                  </option>
+                ))}
+              </select>
+              <p className="text-text-muted text-xs mt-1">
+                A parent dealer can see and manage everything beneath it
+              </p>
+            </div>
             <button
               type="submit"
               disabled={isCreating}
@@ -131,6 +217,80 @@ export function DealersClient({ dealers }: DealersClientProps) {
         </div>
       )}
 
+      {transferForm && (
+        <div className="mb-6 p-6 bg-dark-surface border border-dark-border rounded">
+          <h2 className="text-xl font-semibold mb-4 text-text-primary">
+            Float Transfer: {transferForm.dealerId}
+          </h2>
+          <form onSubmit={handleTransfer} className="space-y-4">
+            <div>
+              <label htmlFor="direction" className="block text-sm font-medium text-text-secondary mb-2">
+                Direction
+              </label>
+              <select
+                id="direction"
+                value={transferForm.direction}
+                onChange={(e) =>
+                  setTransferForm({ ...transferForm, direction: e.target.value as "fund" | "withdraw" })
+                }
+                className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+              >
+                <option value="fund">Fund dealer</option>
+                <option value="withdraw">Withdraw from dealer</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="floatAmount" className="block text-sm font-medium text-text-secondary mb-2">
+                Amount
+              </label>
+              <input
+                id="floatAmount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                required
+                value={transferForm.amount}
+                onChange={(e) => setTransferForm({ ...transferForm, amount: e.target.value })}
+                className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label htmlFor="floatReason" className="block text-sm font-medium text-text-secondary mb-2">
+                Reason
+              </label>
+              <input
+                id="floatReason"
+                type="text"
+                required
+                maxLength={500}
+                value={transferForm.reason}
+                onChange={(e) => setTransferForm({ ...transferForm, reason: e.target.value })}
+                className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+                placeholder="Reason for transfer"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isTransferring}
+                className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isTransferring ? "Processing..." : transferForm.direction === "fund" ? "Fund" : "Withdraw"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setTransferForm(null)}
+                disabled={isTransferring}
+                className="rounded border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-dark-border border border-dark-border">
           <thead className="bg-dark-surface">
@@ -141,36 +301,75 @@ export function DealersClient({ dealers }: DealersClientProps) {
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Name
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Float
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Network Float
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created At
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created By
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
             {dealers.length === 0 ? (
               <tr>
-                <td colSpan={4} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
                   No dealers found
                 </td>
               </tr>
             ) : (
-              dealers.map((dealer) => (
+              dealerRows.map(({ dealer, depth, float, networkFloat, children }) => (
                 <tr key={dealer.dealerId} className="hover:bg-dark-hover transition-colors">
-                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                    {dealer.dealerId}
+                  <td
+                    className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary"
+                    style={{ paddingLeft: `${1.5 + depth * 1.5}rem` }}
+                  >
+                    {depth > 0 && <span className="text-text-muted mr-2">└</span>}
+                    <Link
+                      href={`/admin/dealers/${dealer.dealerId}`}
+                      className="text-accent-primary hover:underline"
+                    >
+                      {dealer.dealerId}
+                    </Link>
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
                     {dealer.name}
                   </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm font-bold text-text-primary">
+                    {float.toFixed(2)}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                    {children.length > 0 ? networkFloat.toFixed(2) : "-"}
+                  </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
                     {formatDate(dealer.createdAt)}
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary font-mono text-xs">
                     {dealer.createdBy?.substring(0, 8)}...
                   </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    <button
+                      onClick={() =>
+                        setTransferForm({
+                          dealerId: dealer.dealerId,
+                          direction: "fund",
+                          amount: "",
+                          reason: "",
+                        })
+                      }
+                      className="rounded bg-dark-bg border border-dark-border px-3 py-1 text-xs text-text-primary hover:bg-dark-hover transition-colors"
+                    >
+                      Transfer Float
+                    </button>
+                  </td>
                 </tr>
               ))
             )}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { CommissionPreviewCard, CommissionStatementsTable } from "@/components/dealer";
+import {
+  approveCommissionStatementAction,
+  closeCommissionStatementAction,
+  updateCommissionPlanAction,
+} from "@/server/actions/commissionActions";
+import type { CommissionPlan, CommissionPlanType, CommissionPeriod } from "@/server/repositories/types";
+import type {
+  CommissionPreview,
+  CommissionStatementView,
+} from "@/server/services/commissionService";
+
+interface DealerDetailClientProps {
+  dealerId: string;
+  dealerName: string;
+  float: number;
+  plan: CommissionPlan | null;
+  preview: CommissionPreview | null;
+  statements: CommissionStatementView[];
+}
+
+/**
+ * A date in the previous period, used as the default period to close
+ */
+function previousPeriodDate(period: CommissionPeriod): string {
+  const date = new Date();
+  if (period === "monthly") {
+    date.setUTCDate(0); // Last day of the previous month
+  } else {
+    date.setUTCDate(date.getUTCDate() - 7);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export function DealerDetailClient({
+  dealerId,
+  dealerName,
+  float,
+  plan,
+  preview,
+  statements,
+}: DealerDetailClientProps) {
+  const router = useRouter();
+  const [planForm, setPlanForm] = useState({
+    type: plan?.type ?? ("revenue_share" as CommissionPlanType),
+    rate: plan ? String(plan.rate * 100) : "",
+    period: plan?.period ?? ("monthly" as CommissionPeriod),
+  });
+  const [periodDate, setPeriodDate] = useState(previousPeriodDate(plan?.period ?? "monthly"));
+  const [isSavingPlan, setIsSavingPlan] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+
+  const handleSavePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(planForm.rate);
+    if (isNaN(rate) || rate <= 0 || rate > 100) {
+      toast.error("Please enter a rate between 0 and 100%");
+      return;
+    }
+
+    setIsSavingPlan(true);
+    try {
+      const result = await updateCommissionPlanAction({
+        dealerId,
+        type: planForm.type,
+        rate: rate / 100,
+        period: planForm.period,
+      });
+
+      if (result.success) {
+        toast.success("Commission plan saved");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to save commission plan");
+      }
+    } catch (error) {
+      console.error("Error saving commission plan:", error);
+      toast.error("Failed to save commission plan");
+    } finally {
+      setIsSavingPlan(false);
+    }
+  };
+
+  const handleClosePeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsClosing(true);
+    try {
+      const result = await closeCommissionStatementAction({ dealerId, periodDate });
+
+      if (result.success) {
+        toast.success("Statement closed");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to close statement");
+      }
+    } catch (error) {
+      console.error("Error closing statement:", error);
+      toast.error("Failed to close statement");
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const handleApprove = async (statementId: string) => {
+    if (!confirm("Approve this statement and post the commission to the dealer's float?")) {
+      return;
+    }
+
+    setApprovingId(statementId);
+    try {
+      const result = await approveCommissionStatementAction({ statementId });
+
+      if (result.success) {
+        toast.success(`Posted commission of ${(result.commission ?? 0).toFixed(2)}`);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to approve statement");
+      }
+    } catch (error) {
+      console.error("Error approving statement:", error);
+      toast.error("Failed to approve statement");
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary">{dealerName}</h1>
+          <p className="text-text-secondary text-sm">
+            {dealerId} · Float {float.toFixed(2)}
+          </p>
+        </div>
+        <Link
+          href="/admin/dealers"
+          className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors"
+        >
+          All Dealers
+        </Link>
+      </div>
+
+      {/* Commission Plan */}
+      <div className="p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-lg font-semibold mb-4 text-text-primary">Commission Plan</h2>
+        <form onSubmit={handleSavePlan} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="planType" className="block text-sm font-medium text-text-secondary mb-2">
+              Type
+            </label>
+            <select
+              id="planType"
+              value={planForm.type}
+              onChange={(e) =>
+                setPlanForm({ ...planForm, type: e.target.value as CommissionPlanType })
+              }
+              className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+            >
+              <option value="revenue_share">Revenue share (stakes − payouts)</option>
+              <option value="turnover">Turnover (stakes)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="planRate" className="block text-sm font-medium text-text-secondary mb-2">
+              Rate (%)
+            </label>
+            <input
+              id="planRate"
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              value={planForm.rate}
+              onChange={(e) => setPlanForm({ ...planForm, rate: e.target.value })}
+              className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+              placeholder="25"
+            />
+          </div>
+          <div>
+            <label htmlFor="planPeriod" className="block text-sm font-medium text-text-secondary mb-2">
+              Period
+            </label>
+            <select
+              id="planPeriod"
+              value={planForm.period}
+              onChange={(e) =>
+                setPlanForm({ ...planForm, period: e.target.value as CommissionPeriod })
+              }
+              className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+            >
+              <option value="monthly">Monthly</option>
+              <option value="weekly">Weekly (Monday–Sunday)</option>
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={isSavingPlan}
+              className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingPlan ? "Saving..." : "Save Plan"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {preview && <CommissionPreviewCard preview={preview} />}
+
+      {/* Statements */}
+      <div>
+        <div className="mb-4 flex items-end justify-between gap-4">
+          <h2 className="text-xl font-semibold text-text-primary">Statements</h2>
+          {plan && (
+            <form onSubmit={handleClosePeriod} className="flex items-end gap-2">
+              <div>
+                <label
+                  htmlFor="periodDate"
+                  className="block text-sm font-medium text-text-secondary mb-2"
+                >
+                  Period containing
+                </label>
+                <input
+                  id="periodDate"
+                  type="date"
+                  value={periodDate}
+                  onChange={(e) => setPeriodDate(e.target.value)}
+                  className="px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isClosing || !periodDate}
+                className="rounded bg-dark-surface border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isClosing ? "Closing..." : "Close Period"}
+              </button>
+            </form>
+          )}
+        </div>
+        <CommissionStatementsTable
+          statements={statements}
+          onApprove={handleApprove}
+          approvingId={approvingId}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import { getDealerFloat } from "@/server/services/walletService";
+import {
+  getCommissionPreview,
+  getCommissionStatements,
+} from "@/server/services/commissionService";
+import { DealerDetailClient } from "./DealerDetailClient";
+
+interface AdminDealerDetailPageProps {
+  params: Promise<{ dealerId: string }>;
+}
+
+export default async function AdminDealerDetailPage({ params }: AdminDealerDetailPageProps) {
+  const { dealerId } = await params;
+
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("dealer.manage", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
+
+  const dealer = await getDealer(dealerId);
+  if (!dealer) {
+    redirect("/admin/dealers");
+  }
+
+  const [float, preview, statements] = await Promise.all([
+    getDealerFloat(dealerId),
+    getCommissionPreview(dealerId),
+    getCommissionStatements(dealerId),
+  ]);
+
+  return (
+    <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
+      <DealerDetailClient
+        dealerId={dealerId}
+        dealerName={dealer.name}
+        float={float}
+        plan={dealer.commissionPlan ?? null}
+        preview={preview}
+        statements={statements}
+      />
+    </div>
+  );
+}
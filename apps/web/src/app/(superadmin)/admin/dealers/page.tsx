@@ -1,17 +1,24 @@
-import { requireRole } from "@/features/rbac/requireRole";
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { listAllDealers } from "@/server/repositories/dealers.repository";
+import { getDealerFloats } from "@/server/repositories/dealerWallets.repository";
 import { DealersClient } from "./DealersClient";
 
 export default async function AdminDealersPage() {
-  // Validate superadmin role
-  await requireRole("superadmin");
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("dealer.manage", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
 
   // Get all dealers
   const dealers = await listAllDealers();
+  const floats = await getDealerFloats(dealers.map((dealer) => dealer.dealerId));
 
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
-      <DealersClient dealers={dealers} />
+      <DealersClient dealers={dealers} floats={floats} />
     </div>
   );
 }
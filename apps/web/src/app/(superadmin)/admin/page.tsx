@@ -1,33 +1,35 @@
-import { requireRole } from "@/features/rbac/requireRole";
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { listAllDealers } from "@/server/repositories/dealers.repository";
 import { listAllUsers } from "@/server/repositories/users.repository";
-import { listAllTransactions } from "@/server/repositories/transactions.repository";
+import { listLedgerEntries } from "@/server/repositories/ledger.repository";
+import { getEntryAmount } from "@/features/ledger";
 import { DashboardClient } from "./DashboardClient";
 
 export default async function AdminDashboardPage() {
-  // Validate superadmin role
-  await requireRole("superadmin");
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("dealer.manage", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
 
   // Fetch statistics (simple queries for MVP)
   // For MVP: Fetch all and compute counts/sums (can optimize with aggregation queries later)
-  const [dealers, users, transactions] = await Promise.all([
+  const [dealers, users, deposits, withdrawals] = await Promise.all([
     listAllDealers(),
     listAllUsers(),
-    listAllTransactions({ limit: 10000 }), // Large limit to get all for MVP
+    listLedgerEntries({ kind: "deposit", limit: 10000 }), // Large limit to get all for MVP
+    listLedgerEntries({ kind: "withdrawal", limit: 10000 }),
   ]);
 
   // Calculate statistics
   const totalDealers = dealers.length;
   const totalUsers = users.length;
   
-  // Sum credits and debits
-  const totalCredits = transactions
-    .filter((tx) => tx.type === "credit")
-    .reduce((sum, tx) => sum + tx.amount, 0);
-  
-  const totalDebits = transactions
-    .filter((tx) => tx.type === "debit")
-    .reduce((sum, tx) => sum + tx.amount, 0);
+  // Sum deposits and withdrawals
+  const totalDeposits = deposits.reduce((sum, entry) => sum + getEntryAmount(entry), 0);
+  const totalWithdrawals = withdrawals.reduce((sum, entry) => sum + getEntryAmount(entry), 0);
 
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
@@ -35,8 +37,8 @@ export default async function AdminDashboardPage() {
         stats={{
           totalUsers,
           totalDealers,
-          totalCredits,
-          totalDebits,
+          totalDeposits,
+          totalWithdrawals,
         }}
       />
     </div>
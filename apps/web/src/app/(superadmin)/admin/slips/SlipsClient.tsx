@@ -3,7 +3,7 @@
 import { useState, useTransition } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { SlipStatusBadge } from "@/components/dealer";
+import { SlipStatusBadge, SlipActionsPanel } from "@/components/dealer";
 import type { SlipDocument, DealerDocument } from "@/server/repositories/types";
 
 interface Slip extends SlipDocument {
@@ -132,6 +132,7 @@ export function SlipsClient({
             >
               <option value="">All Statuses</option>
               <option value="pending">Pending</option>
+              <option value="review">Needs review</option>
               <option value="won">Won</option>
               <option value="lost">Lost</option>
               <option value="cancelled">Cancelled</option>
@@ -207,12 +208,15 @@ export function SlipsClient({
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created At
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
             {slips.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={8} className="px-6 py-4 text-center text-text-muted">
                   No slips found
                 </td>
               </tr>
@@ -226,7 +230,7 @@ export function SlipsClient({
                     {slip.dealerId}
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm">
-                    <SlipStatusBadge status={slip.status} />
+                    <SlipStatusBadge status={slip.status} reason={slip.reviewReason} />
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
                     {slip.stake.toFixed(2)}
@@ -240,6 +244,9 @@ export function SlipsClient({
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
                     {formatDate(slip.createdAt)}
                   </td>
+                  <td className="px-6 py-4 text-sm">
+                    <SlipActionsPanel slipId={slip.id} status={slip.status} lines={slip.lines} />
+                  </td>
                 </tr>
               ))
             )}
@@ -1,4 +1,6 @@
-import { requireRole } from "@/features/rbac/requireRole";
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { listAllSlips } from "@/server/repositories/slips.repository";
 import { auth } from "@/lib/firebase-admin/admin";
 import { listAllDealers } from "@/server/repositories/dealers.repository";
@@ -16,8 +18,11 @@ interface SlipsPageProps {
 export default async function AdminSlipsPage({ searchParams }: SlipsPageProps) {
   const params = await searchParams;
 
-  // Validate superadmin role
-  await requireRole("superadmin");
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("slip.view", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
 
   // Parse filters
   const filters: {
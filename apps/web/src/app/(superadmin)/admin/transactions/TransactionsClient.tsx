@@ -3,10 +3,11 @@
 import { useState, useTransition } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { TransactionTypeBadge } from "@/components/dealer";
-import type { TransactionDocument, DealerDocument } from "@/server/repositories/types";
+import { LedgerAccountLabel, LedgerEntryKindBadge, ReportExportPanel } from "@/components/dealer";
+import { LEDGER_ENTRY_KINDS, getEntryAmount, getEntryParties } from "@/features/ledger";
+import type { LedgerEntryDocument, DealerDocument } from "@/server/repositories/types";
 
-interface Transaction extends TransactionDocument {
+interface LedgerEntry extends LedgerEntryDocument {
   id: string;
 }
 
@@ -15,12 +16,12 @@ interface Dealer extends DealerDocument {
 }
 
 interface TransactionsClientProps {
-  transactions: Transaction[];
+  entries: LedgerEntry[];
   dealers: Dealer[];
   userEmails: Record<string, string | undefined>;
   initialFilters: {
     dealerId?: string;
-    type?: string;
+    kind?: string;
     startDate?: string;
     endDate?: string;
     uid?: string;
@@ -42,7 +43,7 @@ function formatDate(timestamp: { toDate: () => Date } | Date | string): string {
 }
 
 export function TransactionsClient({
-  transactions,
+  entries,
   dealers,
   userEmails,
   initialFilters,
@@ -53,7 +54,7 @@ export function TransactionsClient({
 
   const [filters, setFilters] = useState({
     dealerId: initialFilters.dealerId || "",
-    type: initialFilters.type || "",
+    kind: initialFilters.kind || "",
     startDate: initialFilters.startDate || "",
     endDate: initialFilters.endDate || "",
     uid: initialFilters.uid || "",
@@ -66,8 +67,8 @@ export function TransactionsClient({
       if (filters.dealerId) {
         params.set("dealerId", filters.dealerId);
       }
-      if (filters.type) {
-        params.set("type", filters.type);
+      if (filters.kind) {
+        params.set("kind", filters.kind);
       }
       if (filters.startDate) {
         params.set("startDate", filters.startDate);
@@ -83,7 +84,7 @@ export function TransactionsClient({
   };
 
   const handleClearFilters = () => {
-    setFilters({ dealerId: "", type: "", startDate: "", endDate: "", uid: "" });
+    setFilters({ dealerId: "", kind: "", startDate: "", endDate: "", uid: "" });
     startTransition(() => {
       router.push("/admin/transactions");
     });
@@ -126,19 +127,21 @@ export function TransactionsClient({
             </select>
           </div>
           <div>
-            <label htmlFor="type" className="block text-sm font-medium text-text-secondary mb-2">
-              Type (optional)
+            <label htmlFor="kind" className="block text-sm font-medium text-text-secondary mb-2">
+              Kind (optional)
             </label>
             <select
-              id="type"
-              value={filters.type}
-              onChange={(e) => setFilters({ ...filters, type: e.target.value })}
+              id="kind"
+              value={filters.kind}
+              onChange={(e) => setFilters({ ...filters, kind: e.target.value })}
               className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
             >
-              <option value="">All Types</option>
-              <option value="credit">Credit</option>
-              <option value="debit">Debit</option>
-              <option value="adjustment">Adjustment</option>
+              <option value="">All Kinds</option>
+              {LEDGER_ENTRY_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
             </select>
           </div>
           <div>
@@ -198,6 +201,14 @@ export function TransactionsClient({
         </form>
       </div>
 
+      {/* Export */}
+      <ReportExportPanel
+        key={initialFilters.dealerId}
+        dealerId={initialFilters.dealerId}
+        defaultStartDate={initialFilters.startDate}
+        defaultEndDate={initialFilters.endDate}
+      />
+
       {/* Transactions Table */}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-dark-border border border-dark-border">
@@ -207,7 +218,10 @@ export function TransactionsClient({
                 Created At
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
-                Type
+                #
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Kind
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Amount
@@ -227,38 +241,52 @@ export function TransactionsClient({
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
-            {transactions.length === 0 ? (
+            {entries.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={8} className="px-6 py-4 text-center text-text-muted">
                   No transactions found
                 </td>
               </tr>
             ) : (
-              transactions.map((tx) => (
-                <tr key={tx.id} className="hover:bg-dark-hover transition-colors">
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {formatDate(tx.createdAt)}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm">
-                    <TransactionTypeBadge type={tx.type} />
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                    {tx.amount.toFixed(2)}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {tx.dealerId}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary font-mono text-xs">
-                    {userEmails[tx.fromUid] || tx.fromUid.substring(0, 8)}...
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary font-mono text-xs">
-                    {userEmails[tx.toUid] || tx.toUid.substring(0, 8)}...
-                  </td>
-                  <td className="px-6 py-4 text-sm text-text-secondary">
-                    {tx.reason || "-"}
-                  </td>
-                </tr>
-              ))
+              entries.map((entry) => {
+                const { from, to } = getEntryParties(entry);
+                return (
+                  <tr key={entry.id} className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {formatDate(entry.createdAt)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-muted font-mono">
+                      {entry.sequence}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <LedgerEntryKindBadge kind={entry.kind} />
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {getEntryAmount(entry).toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {entry.dealerId}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary font-mono text-xs">
+                      <div className="flex flex-col gap-1">
+                        {from.map((account) => (
+                          <LedgerAccountLabel key={account} account={account} userEmails={userEmails} />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary font-mono text-xs">
+                      <div className="flex flex-col gap-1">
+                        {to.map((account) => (
+                          <LedgerAccountLabel key={account} account={account} userEmails={userEmails} />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary">
+                      {entry.reason || "-"}
+                    </td>
+                  </tr>
+                );
+              })
             )}
           </tbody>
         </table>
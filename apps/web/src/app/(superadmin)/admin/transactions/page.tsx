@@ -1,13 +1,17 @@
-import { requireRole } from "@/features/rbac/requireRole";
-import { listAllTransactions } from "@/server/repositories/transactions.repository";
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { listLedgerEntries, type LedgerFilters } from "@/server/repositories/ledger.repository";
 import { auth } from "@/lib/firebase-admin/admin";
 import { listAllDealers } from "@/server/repositories/dealers.repository";
+import type { LedgerEntryKind } from "@/server/repositories/types";
+import { LEDGER_ENTRY_KINDS, ledgerAccounts, parseLedgerAccount } from "@/features/ledger";
 import { TransactionsClient } from "./TransactionsClient";
 
 interface TransactionsPageProps {
   searchParams: Promise<{
     dealerId?: string;
-    type?: string;
+    kind?: string;
     startDate?: string;
     endDate?: string;
     uid?: string;
@@ -17,27 +21,23 @@ interface TransactionsPageProps {
 export default async function AdminTransactionsPage({ searchParams }: TransactionsPageProps) {
   const params = await searchParams;
 
-  // Validate superadmin role
-  await requireRole("superadmin");
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("ledger.view", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
 
   // Parse filters
-  const filters: {
-    dealerId?: string;
-    type?: "credit" | "debit" | "adjustment";
-    startDate?: Date;
-    endDate?: Date;
-    uid?: string;
-    limit?: number;
-  } = {
-    limit: 1000, // Show more transactions
+  const filters: LedgerFilters = {
+    limit: 1000, // Show more entries
   };
 
   if (params.dealerId) {
     filters.dealerId = params.dealerId;
   }
 
-  if (params.type && ["credit", "debit", "adjustment"].includes(params.type)) {
-    filters.type = params.type as "credit" | "debit" | "adjustment";
+  if (params.kind && (LEDGER_ENTRY_KINDS as string[]).includes(params.kind)) {
+    filters.kind = params.kind as LedgerEntryKind;
   }
 
   if (params.startDate) {
@@ -50,21 +50,24 @@ export default async function AdminTransactionsPage({ searchParams }: Transactio
     filters.endDate.setHours(23, 59, 59, 999);
   }
 
-  if (params.uid) {
-    filters.uid = params.uid;
-  }
-
-  // Get all transactions with filters
-  const transactions = await listAllTransactions(filters);
+  // Get all ledger entries with filters
+  // The user filter is applied in memory so it combines with the dealer and kind filters
+  const entries = (await listLedgerEntries(filters)).filter(
+    (entry) => !params.uid || entry.accounts.includes(ledgerAccounts.userWallet(params.uid))
+  );
 
   // Get all dealers for filter dropdown
   const dealers = await listAllDealers();
 
   // Get user emails for display
   const userIds = new Set<string>();
-  transactions.forEach((tx) => {
-    userIds.add(tx.fromUid);
-    userIds.add(tx.toUid);
+  entries.forEach((entry) => {
+    entry.accounts.forEach((account) => {
+      const { type, ownerId } = parseLedgerAccount(account);
+      if (type === "user_wallet" && ownerId) {
+        userIds.add(ownerId);
+      }
+    });
   });
 
   const userEmails: Record<string, string | undefined> = {};
@@ -82,12 +85,12 @@ export default async function AdminTransactionsPage({ searchParams }: Transactio
   return (
     <div className="container mx-auto p-8 bg-dark-bg text-text-primary min-h-screen">
       <TransactionsClient
-        transactions={transactions}
+        entries={entries}
         dealers={dealers}
         userEmails={userEmails}
         initialFilters={{
           dealerId: params.dealerId,
-          type: params.type,
+          kind: params.kind,
           startDate: params.startDate,
           endDate: params.endDate,
           uid: params.uid,
@@ -1,11 +1,11 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { Fragment, useState, useTransition } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import { createUserActionAdmin } from "@/server/actions/adminActions";
-import { UserStatusBadge } from "@/components/dealer";
+import { PermissionsEditor, UserStatusBadge } from "@/components/dealer";
 import type { UserDocument, DealerDocument } from "@/server/repositories/types";
 
 interface User extends UserDocument {
@@ -47,6 +47,7 @@ export function UsersClient({ users, dealers, initialFilters }: UsersClientProps
   const [isPending, startTransition] = useTransition();
   const [isCreating, setIsCreating] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingUid, setEditingUid] = useState<string | null>(null);
 
   const [filters, setFilters] = useState({
     dealerId: initialFilters.dealerId || "",
@@ -56,7 +57,7 @@ export function UsersClient({ users, dealers, initialFilters }: UsersClientProps
   const [createForm, setCreateForm] = useState({
     email: "",
     password: "",
-    role: "user" as "superadmin" | "dealer" | "user",
+    role: "user" as "superadmin" | "dealer" | "staff" | "user",
     dealerId: "",
   });
 
@@ -164,6 +165,7 @@ export function UsersClient({ users, dealers, initialFilters }: UsersClientProps
               <option value="">All Roles</option>
               <option value="superadmin">Superadmin</option>
               <option value="dealer">Dealer</option>
+              <option value="staff">Staff</option>
               <option value="user">User</option>
             </select>
           </div>
@@ -231,13 +233,14 @@ export function UsersClient({ users, dealers, initialFilters }: UsersClientProps
                 onChange={(e) =>
                   setCreateForm({
                     ...createForm,
-                    role: e.target.value as "superadmin" | "dealer" | "user",
+                    role: e.target.value as "superadmin" | "dealer" | "staff" | "user",
                   })
                 }
                 className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
               >
                 <option value="user">User</option>
                 <option value="dealer">Dealer</option>
+                <option value="staff">Staff</option>
                 <option value="superadmin">Superadmin</option>
               </select>
             </div>
@@ -292,37 +295,66 @@ export function UsersClient({ users, dealers, initialFilters }: UsersClientProps
               <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                 Created At
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                Extra Permissions
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-dark-border bg-dark-surface">
             {users.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-4 text-center text-text-muted">
+                <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
                   No users found
                 </td>
               </tr>
             ) : (
               users.map((userDoc) => (
-                <tr key={userDoc.uid} className="hover:bg-dark-hover transition-colors">
-                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                    {userDoc.email || userDoc.uid}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {userDoc.role}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {userDoc.dealerId || "-"}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm">
-                    <UserStatusBadge status={userDoc.status} />
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                    {userDoc.balance.toFixed(2)}
-                  </td>
-                  <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                    {formatDate(userDoc.createdAt)}
-                  </td>
-                </tr>
+                <Fragment key={userDoc.uid}>
+                  <tr className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {userDoc.email || userDoc.uid}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {userDoc.role}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {userDoc.dealerId || "-"}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <UserStatusBadge status={userDoc.status} />
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {userDoc.balance.toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {formatDate(userDoc.createdAt)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {userDoc.permissions?.length ? userDoc.permissions.join(", ") : "-"}
+                      <button
+                        onClick={() => setEditingUid(editingUid === userDoc.uid ? null : userDoc.uid)}
+                        className="ml-2 text-accent-primary hover:underline"
+                      >
+                        {editingUid === userDoc.uid ? "Close" : "Edit"}
+                      </button>
+                    </td>
+                  </tr>
+                  {editingUid === userDoc.uid && (
+                    <tr className="bg-dark-bg">
+                      <td colSpan={7} className="px-6 py-4">
+                        <PermissionsEditor
+                          uid={userDoc.uid}
+                          role={userDoc.role}
+                          permissions={userDoc.permissions}
+                          onSaved={() => {
+                            setEditingUid(null);
+                            router.refresh();
+                          }}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))
             )}
           </tbody>
@@ -1,4 +1,6 @@
-import { requireRole } from "@/features/rbac/requireRole";
+import { redirect } from "next/navigation";
+import { hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import { listAllUsers } from "@/server/repositories/users.repository";
 import { getUserBalance } from "@/server/services/walletService";
 import { auth } from "@/lib/firebase-admin/admin";
@@ -15,21 +17,24 @@ interface UsersPageProps {
 export default async function AdminUsersPage({ searchParams }: UsersPageProps) {
   const params = await searchParams;
 
-  // Validate superadmin role
-  await requireRole("superadmin");
+  // Validate permission (the admin area covers every dealer)
+  const caller = await requirePermission("user.view", { redirectTo: "/" });
+  if (!hasGlobalScope(caller)) {
+    redirect("/");
+  }
 
   // Parse filters
   const filters: {
     dealerId?: string;
-    role?: "superadmin" | "dealer" | "user";
+    role?: "superadmin" | "dealer" | "staff" | "user";
   } = {};
 
   if (params.dealerId) {
     filters.dealerId = params.dealerId;
   }
 
-  if (params.role && ["superadmin", "dealer", "user"].includes(params.role)) {
-    filters.role = params.role as "superadmin" | "dealer" | "user";
+  if (params.role && ["superadmin", "dealer", "staff", "user"].includes(params.role)) {
+    filters.role = params.role as "superadmin" | "dealer" | "staff" | "user";
   }
 
   // Get all users with filters
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import {
+  startRestrictionAction,
+  updateMyLimitsAction,
+} from "@/server/actions/responsibleGamingActions";
+import type {
+  ResponsibleGamingStatus,
+  RestrictionType,
+} from "@/server/services/responsibleGamingService";
+import type { LimitPeriod, PeriodLimits } from "@/server/repositories/types";
+
+interface MySettingsClientProps {
+  status: ResponsibleGamingStatus;
+}
+
+const PERIODS: { key: LimitPeriod; label: string }[] = [
+  { key: "daily", label: "Daily" },
+  { key: "weekly", label: "Weekly" },
+  { key: "monthly", label: "Monthly" },
+];
+
+const RESTRICTION_OPTIONS: Record<RestrictionType, { days: number; label: string }[]> = {
+  cool_off: [
+    { days: 1, label: "24 hours" },
+    { days: 7, label: "7 days" },
+    { days: 30, label: "30 days" },
+  ],
+  self_exclusion: [
+    { days: 180, label: "6 months" },
+    { days: 365, label: "1 year" },
+    { days: 1825, label: "5 years" },
+  ],
+};
+
+type PeriodValues = Record<LimitPeriod, string>;
+
+function toPeriodValues(limits?: PeriodLimits): PeriodValues {
+  return {
+    daily: limits?.daily !== undefined ? String(limits.daily) : "",
+    weekly: limits?.weekly !== undefined ? String(limits.weekly) : "",
+    monthly: limits?.monthly !== undefined ? String(limits.monthly) : "",
+  };
+}
+
+function parsePeriodValues(values: PeriodValues): PeriodLimits {
+  const limits: PeriodLimits = {};
+  for (const { key } of PERIODS) {
+    if (values[key].trim() !== "") {
+      limits[key] = Number(values[key]);
+    }
+  }
+  return limits;
+}
+
+function formatLimit(value: number | undefined): string {
+  return value !== undefined ? value.toFixed(2) : "No limit";
+}
+
+/**
+ * Responsible gaming settings: deposit, loss and stake limits, cool-off and self-exclusion
+ */
+export function MySettingsClient({ status }: MySettingsClientProps) {
+  const router = useRouter();
+  const [deposit, setDeposit] = useState<PeriodValues>(() => toPeriodValues(status.limits.deposit));
+  const [loss, setLoss] = useState<PeriodValues>(() => toPeriodValues(status.limits.loss));
+  const [maxStake, setMaxStake] = useState(
+    status.limits.maxStake !== undefined ? String(status.limits.maxStake) : ""
+  );
+  const [restrictionType, setRestrictionType] = useState<RestrictionType>("cool_off");
+  const [restrictionDays, setRestrictionDays] = useState(RESTRICTION_OPTIONS.cool_off[0].days);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSaveLimits = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      // Empty fields remove the limit
+      const result = await updateMyLimitsAction({
+        deposit: parsePeriodValues(deposit),
+        loss: parsePeriodValues(loss),
+        maxStake: maxStake.trim() !== "" ? Number(maxStake) : undefined,
+      });
+
+      if (result.success) {
+        toast.success(
+          result.pending
+            ? `Limits saved. Increases apply from ${new Date(result.effectiveAt!).toLocaleString()}`
+            : "Limits saved"
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to save limits");
+      }
+    } catch (error) {
+      console.error("Error saving limits:", error);
+      toast.error("Failed to save limits");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRestriction = async () => {
+    const option = RESTRICTION_OPTIONS[restrictionType].find((o) => o.days === restrictionDays);
+    const label = restrictionType === "cool_off" ? "cool-off" : "self-exclusion";
+    if (!window.confirm(`Start a ${option?.label} ${label}? This cannot be undone.`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await startRestrictionAction({ type: restrictionType, days: restrictionDays });
+      if (result.success) {
+        toast.success(`Betting is blocked until ${new Date(result.until!).toLocaleString()}`);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to start restriction");
+      }
+    } catch (error) {
+      console.error("Error starting restriction:", error);
+      toast.error("Failed to start restriction");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary";
+
+  return (
+    <div className="px-6 py-6 space-y-8 bg-dark-bg">
+      <h1 className="text-3xl font-bold text-text-primary">Responsible Gaming</h1>
+
+      {status.restriction && (
+        <div className="p-4 rounded border border-red-500/30 bg-red-500/10 text-red-400 text-sm">
+          {status.restriction.type === "self_exclusion" ? "Self-excluded" : "Cool-off active"} until{" "}
+          {new Date(status.restriction.until).toLocaleString()}. You cannot place bets until then.
+        </div>
+      )}
+
+      {/* Limits */}
+      <div className="p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-xl font-semibold mb-2 text-text-primary">Limits</h2>
+        <p className="text-sm text-text-secondary mb-4">
+          Lower limits apply immediately. Higher or removed limits apply after 24 hours. Periods are
+          rolling (last 24 hours, 7 days and 30 days). Leave a field empty for no limit.
+        </p>
+
+        {status.pendingLimits && (
+          <div className="mb-4 p-3 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 text-sm">
+            Pending change applies from {new Date(status.pendingLimits.effectiveAt).toLocaleString()}:
+            deposit {PERIODS.map(({ key }) => formatLimit(status.pendingLimits!.limits.deposit?.[key])).join(" / ")},
+            loss {PERIODS.map(({ key }) => formatLimit(status.pendingLimits!.limits.loss?.[key])).join(" / ")},
+            stake {formatLimit(status.pendingLimits.limits.maxStake)}
+          </div>
+        )}
+
+        <form onSubmit={handleSaveLimits} className="space-y-6">
+          {(
+            [
+              { title: "Deposit Limit", values: deposit, setValues: setDeposit, usage: status.activity.deposits },
+              { title: "Loss Limit", values: loss, setValues: setLoss, usage: status.activity.losses },
+            ] as const
+          ).map(({ title, values, setValues, usage }) => (
+            <div key={title}>
+              <h3 className="text-sm font-medium text-text-primary mb-2">{title}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {PERIODS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-sm text-text-secondary mb-1">{label}</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={values[key]}
+                      onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                      className={inputClassName}
+                      placeholder="No limit"
+                    />
+                    <p className="mt-1 text-xs text-text-muted">Used: {usage[key].toFixed(2)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="md:w-1/3">
+            <label htmlFor="maxStake" className="block text-sm font-medium text-text-primary mb-2">
+              Stake Limit
+            </label>
+            <input
+              id="maxStake"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={maxStake}
+              onChange={(e) => setMaxStake(e.target.value)}
+              className={inputClassName}
+              placeholder="No limit"
+            />
+            <p className="mt-1 text-xs text-text-muted">Maximum total stake per slip</p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Saving..." : "Save Limits"}
+          </button>
+        </form>
+      </div>
+
+      {/* Cool-off / self-exclusion */}
+      <div className="p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-xl font-semibold mb-2 text-text-primary">Take a Break</h2>
+        <p className="text-sm text-text-secondary mb-4">
+          A cool-off blocks betting for a short period. Self-exclusion also blocks deposits. Neither can
+          be cancelled early.
+        </p>
+        <div className="flex flex-col md:flex-row gap-4">
+          <select
+            value={restrictionType}
+            onChange={(e) => {
+              const type = e.target.value as RestrictionType;
+              setRestrictionType(type);
+              setRestrictionDays(RESTRICTION_OPTIONS[type][0].days);
+            }}
+            className={inputClassName}
+          >
+            <option value="cool_off">Cool-off</option>
+            <option value="self_exclusion">Self-exclusion</option>
+          </select>
+          <select
+            value={restrictionDays}
+            onChange={(e) => setRestrictionDays(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {RESTRICTION_OPTIONS[restrictionType].map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleRestriction}
+            disabled={isSubmitting}
+            className="rounded bg-red-600 px-4 py-2 text-white font-medium hover:bg-red-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            Start
+          </button>
+        </div>
+      </div>
+      <div className="h-20"></div>
+    </div>
+  );
+}
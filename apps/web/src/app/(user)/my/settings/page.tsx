@@ -0,0 +1,24 @@
+import { redirect } from "next/navigation";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getResponsibleGamingStatus } from "@/server/services/responsibleGamingService";
+import type { Role } from "@/features/rbac/types";
+import { MySettingsClient } from "./MySettingsClient";
+
+export default async function MySettingsPage() {
+  // Get authenticated user and validate user role
+  const user = await getServerAuthUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const userRole = user.role as Role | undefined;
+
+  // Validate user role (must be 'user' or redirect)
+  if (userRole !== "user") {
+    redirect("/");
+  }
+
+  const status = await getResponsibleGamingStatus(user.uid);
+
+  return <MySettingsClient status={status} />;
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { acceptCashoutAction } from "@/server/actions/slipActions";
+import { useIdempotencyKey } from "@/features/idempotency";
+import type { CashoutQuote } from "@/server/services/cashoutService";
+
+interface CashoutButtonProps {
+  slipId: string;
+}
+
+async function fetchCashoutQuote(slipId: string): Promise<CashoutQuote> {
+  const response = await fetch(`/api/slips/${slipId}/cashout`, { cache: "no-store" });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(errorData?.error || `Failed to fetch cash-out quote: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Live cash-out offer for a pending slip
+ * The quote refreshes every 10 seconds while the slip is shown
+ */
+export function CashoutButton({ slipId }: CashoutButtonProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // A repeated click returns the original payout instead of failing on the settled slip
+  const cashoutKey = useIdempotencyKey([slipId]);
+
+  const { data: quote, isLoading, refetch } = useQuery<CashoutQuote, Error>({
+    queryKey: ["cashout", slipId],
+    queryFn: () => fetchCashoutQuote(slipId),
+    refetchInterval: 10 * 1000,
+    staleTime: 0,
+    retry: 1,
+  });
+
+  const handleCashout = async () => {
+    if (!quote?.available) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await acceptCashoutAction({
+        slipId,
+        expectedAmount: quote.amount,
+        idempotencyKey: cashoutKey.getKey(),
+      });
+      if (result.success) {
+        cashoutKey.renew();
+        toast.success(`Cashed out ${result.amount?.toFixed(2)}`);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Cash-out failed");
+        refetch();
+      }
+    } catch (error) {
+      console.error("Error cashing out slip:", error);
+      toast.error("Cash-out failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <span className="text-xs text-text-muted">...</span>;
+  }
+
+  if (!quote?.available) {
+    return (
+      <span className="text-xs text-text-muted" title={quote?.reason}>
+        Unavailable
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleCashout}
+      disabled={isSubmitting}
+      className="rounded bg-[#ffdf1b] px-3 py-1 text-xs font-bold text-black hover:opacity-90 disabled:opacity-50 transition-opacity"
+    >
+      Cash Out {quote.amount.toFixed(2)}
+    </button>
+  );
+}
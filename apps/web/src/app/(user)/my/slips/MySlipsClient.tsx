@@ -2,6 +2,8 @@
 
 import { SearchBar } from "@/components";
 import type { SlipDocument } from "@/server/repositories/types";
+import { betTypes } from "@repo/shared/betting";
+import { CashoutButton } from "./CashoutButton";
 
 interface MySlipsClientProps {
   slips: (SlipDocument & { id: string })[];
@@ -49,28 +51,34 @@ export function MySlipsClient({ slips }: MySlipsClientProps) {
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                   Potential Return
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Payout
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                   Lines
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
                   Created At
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Cash Out
+                </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-dark-border bg-dark-surface">
               {slips.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-text-muted">
+                  <td colSpan={7} className="px-6 py-4 text-center text-text-muted">
                     No slips found
                   </td>
                 </tr>
               ) : (
                 slips.map((slip, index) => (
-                  <tr key={index} className="hover:bg-dark-hover transition-colors">
+                  <tr key={slip.id || index} className="hover:bg-dark-hover transition-colors">
                     <td className="whitespace-nowrap px-6 py-4 text-sm">
                       <span
                         className={`inline-flex rounded-full px-2 text-xs font-semibold ${
-                          slip.status === "pending"
+                          slip.status === "pending" || slip.status === "review"
                             ? "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30"
                             : slip.status === "won"
                             ? "bg-green-500/20 text-green-400 border border-green-500/30"
@@ -88,12 +96,31 @@ export function MySlipsClient({ slips }: MySlipsClientProps) {
                     <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
                       {slip.potentialReturn.toFixed(2)}
                     </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {slip.payout !== undefined ? slip.payout.toFixed(2) : "-"}
+                    </td>
                     <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
                       {slip.lines.length}
+                      {slip.betType && slip.betType !== "accumulator" && (
+                        <span className="ml-2 text-text-muted">
+                          {betTypes[slip.betType].label}
+                          {slip.betType === "system" && slip.systemSize
+                            ? ` ${slip.systemSize}/${slip.lines.length}`
+                            : ""}{" "}
+                          ({slip.combinations?.length ?? 1} bets)
+                        </span>
+                      )}
                     </td>
                     <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
                       {formatDate(slip.createdAt)}
                     </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {slip.status === "pending" ? (
+                        <CashoutButton slipId={slip.id} />
+                      ) : (
+                        <span className="text-text-muted">-</span>
+                      )}
+                    </td>
                   </tr>
                 ))
               )}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import {
+  cancelWalletRequestAction,
+  submitWalletRequestAction,
+} from "@/server/actions/walletActions";
+import { useIdempotencyKey } from "@/features/idempotency";
+import { WalletRequestStatusBadge } from "@/components/dealer";
+import type { WalletRequestStatus, WalletRequestType } from "@/server/repositories/types";
+
+interface WalletRequest {
+  id: string;
+  type: WalletRequestType;
+  amount: number;
+  note?: string;
+  status: WalletRequestStatus;
+  decisionReason?: string;
+  createdAt: string;
+}
+
+interface MyWalletClientProps {
+  balance: number;
+  requests: WalletRequest[];
+}
+
+/**
+ * Wallet balance, deposit and withdrawal requests to the user's dealer, and their history
+ */
+export function MyWalletClient({ balance, requests }: MyWalletClientProps) {
+  const router = useRouter();
+  const [form, setForm] = useState({
+    type: "deposit" as WalletRequestType,
+    amount: "",
+    note: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  // Same key for repeated submits of the same form, so a double-click files one request
+  const submitKey = useIdempotencyKey([form.type, form.amount, form.note]);
+
+  // Held amounts of open withdrawal requests are already taken out of the balance
+  const held = requests
+    .filter((request) => request.type === "withdrawal" && request.status === "pending")
+    .reduce((sum, request) => sum + request.amount, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(form.amount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+    if (form.type === "withdrawal" && amount > balance) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await submitWalletRequestAction({
+        type: form.type,
+        amount,
+        note: form.note || undefined,
+        idempotencyKey: submitKey.getKey(),
+      });
+
+      if (result.success) {
+        submitKey.renew();
+        toast.success(
+          form.type === "deposit"
+            ? "Deposit request sent to your dealer"
+            : `Withdrawal request sent; ${amount.toFixed(2)} is held until it is decided`
+        );
+        setForm({ type: form.type, amount: "", note: "" });
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to submit request");
+      }
+    } catch (error) {
+      console.error("Error submitting wallet request:", error);
+      toast.error("Failed to submit request");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (requestId: string) => {
+    if (!window.confirm("Cancel this request?")) {
+      return;
+    }
+
+    setCancellingId(requestId);
+    try {
+      const result = await cancelWalletRequestAction({ requestId });
+      if (result.success) {
+        toast.success("Request cancelled");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to cancel request");
+      }
+    } catch (error) {
+      console.error("Error cancelling wallet request:", error);
+      toast.error("Failed to cancel request");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary";
+
+  return (
+    <div className="px-6 py-6 space-y-8 bg-dark-bg">
+      <h1 className="text-3xl font-bold text-text-primary">Wallet</h1>
+
+      {/* Balance */}
+      <div className="p-6 bg-dark-surface border border-dark-border rounded">
+        <span className="text-text-secondary text-sm">Balance:</span>
+        <p className="text-text-primary font-bold text-2xl">{balance.toFixed(2)}</p>
+        {held > 0 && (
+          <p className="mt-1 text-sm text-yellow-400">
+            {held.toFixed(2)} held for pending withdrawal requests
+          </p>
+        )}
+      </div>
+
+      {/* Request Form */}
+      <div className="p-6 bg-dark-surface border border-dark-border rounded">
+        <h2 className="text-xl font-semibold mb-2 text-text-primary">New Request</h2>
+        <p className="text-sm text-text-secondary mb-4">
+          Your dealer approves or rejects each request. Withdrawal amounts are held from your
+          balance while the request is pending and returned if it is rejected or cancelled.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-2">
+            {(["deposit", "withdrawal"] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setForm({ ...form, type })}
+                className={`rounded px-4 py-2 text-sm font-medium transition-colors ${
+                  form.type === type
+                    ? "bg-accent-primary text-dark-bg"
+                    : "bg-dark-bg border border-dark-border text-text-secondary hover:text-text-primary"
+                }`}
+              >
+                {type === "deposit" ? "Deposit" : "Withdrawal"}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="amount" className="block text-sm font-medium text-text-secondary mb-2">
+              Amount
+            </label>
+            <input
+              id="amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              required
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              className={inputClassName}
+              placeholder="0.00"
+            />
+          </div>
+          <div>
+            <label htmlFor="note" className="block text-sm font-medium text-text-secondary mb-2">
+              Note (optional)
+            </label>
+            <textarea
+              id="note"
+              maxLength={500}
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              className={inputClassName}
+              rows={2}
+              placeholder="e.g. how you will hand over or collect the cash"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting
+              ? "Submitting..."
+              : `Request ${form.type === "deposit" ? "Deposit" : "Withdrawal"}`}
+          </button>
+        </form>
+      </div>
+
+      {/* Request History */}
+      <div>
+        <h2 className="text-xl font-semibold mb-4 text-text-primary">Requests</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+            <thead className="bg-dark-surface">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Note
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Created At
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-border bg-dark-surface">
+              {requests.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-text-muted">
+                    No requests yet
+                  </td>
+                </tr>
+              ) : (
+                requests.map((request) => (
+                  <tr key={request.id} className="hover:bg-dark-hover transition-colors">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary capitalize">
+                      {request.type}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                      {request.amount.toFixed(2)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <WalletRequestStatusBadge status={request.status} />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary">
+                      {request.note || "-"}
+                      {request.decisionReason && (
+                        <p className="text-xs text-red-400">Dealer: {request.decisionReason}</p>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                      {new Date(request.createdAt).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {request.status === "pending" && (
+                        <button
+                          onClick={() => handleCancel(request.id)}
+                          disabled={cancellingId === request.id}
+                          className="text-red-400 hover:underline disabled:opacity-50"
+                        >
+                          {cancellingId === request.id ? "Cancelling..." : "Cancel"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { redirect } from "next/navigation";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getUserBalance } from "@/server/services/walletService";
+import { getMyWalletRequests } from "@/server/services/walletRequestService";
+import type { Role } from "@/features/rbac/types";
+import { MyWalletClient } from "./MyWalletClient";
+
+export default async function MyWalletPage() {
+  // Get authenticated user and validate user role
+  const user = await getServerAuthUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const userRole = user.role as Role | undefined;
+
+  // Validate user role (must be 'user' or redirect)
+  if (userRole !== "user") {
+    redirect("/");
+  }
+
+  const [balance, requests] = await Promise.all([
+    getUserBalance(user.uid),
+    getMyWalletRequests(),
+  ]);
+
+  return (
+    <MyWalletClient
+      balance={balance}
+      requests={requests.map((request) => ({
+        id: request.id,
+        type: request.type,
+        amount: request.amount,
+        note: request.note,
+        status: request.status,
+        decisionReason: request.decisionReason,
+        createdAt: request.createdAt.toDate().toISOString(),
+      }))}
+    />
+  );
+}
@@ -0,0 +1,39 @@
+import "server-only";
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ingestLatestOdds } from "@/server/services/oddsSnapshotService";
+
+/**
+ * Compare the Authorization header with the expected bearer token in constant time
+ */
+function hasBearerSecret(header: string | null, secret: string): boolean {
+  const received = Buffer.from(header ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * POST /api/cron/odds-snapshots
+ * Record the odds changed in the SportMonks "latest" feeds as snapshots
+ * Called by the ingestOddsSnapshotsScheduled function with Authorization: Bearer ODDS_INGEST_SECRET
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.ODDS_INGEST_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Odds ingestion is not configured" }, { status: 503 });
+  }
+  if (!hasBearerSecret(request.headers.get("Authorization"), secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const counts = await ingestLatestOdds();
+    return NextResponse.json(counts, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error ingesting odds snapshots:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to ingest odds" },
+      { status: 502 }
+    );
+  }
+}
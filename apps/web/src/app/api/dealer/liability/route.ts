@@ -0,0 +1,46 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { getDealerLiability } from "@/server/services/riskService";
+import { canManageDealer, hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+
+/**
+ * GET /api/dealer/liability
+ * Open liability of the caller's dealer per fixture, market and selection
+ * Requires liability.view; ?dealerId= selects any dealer in the caller's scope
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await requirePermission("liability.view");
+
+    // Without global scope, only the caller's dealer or a dealer beneath it
+    const requestedDealerId = request.nextUrl.searchParams.get("dealerId");
+    const dealerId = hasGlobalScope(caller)
+      ? requestedDealerId
+      : requestedDealerId || (caller.dealerId as string | undefined);
+
+    if (!dealerId) {
+      return NextResponse.json({ error: "dealerId is required" }, { status: 400 });
+    }
+
+    if (!(await canManageDealer(caller, dealerId))) {
+      return NextResponse.json(
+        { error: "Access denied: Dealer is outside your scope" },
+        { status: 403 }
+      );
+    }
+
+    const fixtures = await getDealerLiability(dealerId);
+
+    return NextResponse.json(
+      { fixtures, updatedAt: new Date().toISOString() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error getting dealer liability:", error);
+    const message = error instanceof Error ? error.message : "Failed to get liability";
+    const status =
+      message === "Unauthorized" ? 401 : message.startsWith("Access denied") ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
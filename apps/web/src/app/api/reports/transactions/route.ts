@@ -0,0 +1,109 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createTransactionReport,
+  toReportCells,
+  TRANSACTION_REPORT_COLUMNS,
+  type TransactionReportRow,
+} from "@/server/services/reportService";
+import { buildXlsx, toCsvLine } from "@/features/reports";
+
+const DateSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid date")
+  .transform((value) => new Date(value));
+
+const ReportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  granularity: z.enum(["day", "week", "month"]).default("month"),
+  startDate: DateSchema,
+  endDate: DateSchema,
+  dealerId: z.string().min(1).optional(),
+});
+
+/**
+ * GET /api/reports/transactions
+ * Period-close report of user wallets and dealer floats (opening, credits, debits, stakes,
+ * payouts, closing) as CSV or XLSX
+ * Query: format=csv|xlsx, granularity=day|week|month, startDate, endDate, dealerId (any dealer for
+ * superadmin, a dealer in the caller's subtree otherwise)
+ * CSV is streamed row by row; XLSX is built once all rows are read
+ */
+export async function GET(request: NextRequest) {
+  let query: z.infer<typeof ReportQuerySchema>;
+  try {
+    query = ReportQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+  } catch (error) {
+    const message =
+      error instanceof z.ZodError
+        ? error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
+        : "Invalid query";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const report = await createTransactionReport(query);
+
+    const filename = [
+      "transactions",
+      report.dealerId ?? "all",
+      query.granularity,
+      query.startDate.toISOString().slice(0, 10),
+      query.endDate.toISOString().slice(0, 10),
+    ].join("_");
+
+    if (query.format === "xlsx") {
+      const rows: TransactionReportRow[] = [];
+      for await (const row of report.rows) {
+        rows.push(row);
+      }
+
+      const workbook = buildXlsx("Report", TRANSACTION_REPORT_COLUMNS, rows.map(toReportCells));
+      return new NextResponse(workbook, {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${filename}.xlsx"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(toCsvLine(TRANSACTION_REPORT_COLUMNS)));
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await report.rows.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(toCsvLine(toReportCells(value))));
+          }
+        } catch (error) {
+          console.error("Error streaming transaction report:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await report.rows.return(undefined);
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting transaction report:", error);
+    const message = error instanceof Error ? error.message : "Failed to export report";
+    const status =
+      message === "Unauthorized" ? 401 : message.startsWith("Access denied") ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
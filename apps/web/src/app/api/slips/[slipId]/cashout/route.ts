@@ -0,0 +1,54 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCashoutQuote } from "@/server/services/cashoutService";
+
+const ParamsSchema = z.object({
+  slipId: z.string().min(1, "Slip ID is required"),
+});
+
+/**
+ * GET /api/slips/[slipId]/cashout
+ * Get a cash-out quote for one of the caller's pending slips
+ * Quotes are priced from current in-play / pre-match odds and are never cached
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { slipId: string } }
+) {
+  try {
+    const { slipId } = ParamsSchema.parse({ slipId: params.slipId });
+
+    const quote = await getCashoutQuote(slipId);
+
+    return NextResponse.json(quote, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error getting cash-out quote:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid route parameters", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message === "Unauthorized") {
+        return NextResponse.json({ error: error.message }, { status: 401 });
+      }
+      if (error.message.startsWith("Access denied")) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.message === "Slip not found") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get cash-out quote" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,13 +6,14 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeCountries } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 /**
  * GET /api/sm/countries
  * Fetch all countries from SportMonks API
  * Updated to use new client methods with query params support
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const page = searchParams.get("page");
@@ -51,3 +52,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("reference", handleGet);
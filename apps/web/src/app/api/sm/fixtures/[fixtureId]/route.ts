@@ -7,6 +7,7 @@ import {
   SportMonksSingleResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeFixture } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   fixtureId: z.string().regex(/^\d+$/, "Fixture ID must be a number"),
@@ -24,7 +25,7 @@ const QuerySchema = z.object({
  * Fetch a single fixture by ID with optional includes
  * Based on SportMonks API v3 documentation
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { fixtureId: string } }
 ) {
@@ -155,3 +156,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("fixtures", handleGet);
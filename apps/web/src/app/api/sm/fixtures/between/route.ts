@@ -7,6 +7,11 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeFixtures } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
+import {
+  getFixturesByDateRange,
+  type UpstreamFixtures,
+} from "@/server/services/fixtureStoreService";
 
 const QuerySchema = z.object({
   start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
@@ -18,8 +23,9 @@ const QuerySchema = z.object({
 /**
  * GET /api/sm/fixtures/between?start=2024-01-01&end=2024-01-07&leagueId=123
  * Fetch fixtures between dates
+ * Served from the fixtures read model when every day is covered; SportMonks otherwise
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -36,16 +42,24 @@ export async function GET(request: NextRequest) {
       params.leagueId = Number(query.leagueId);
     }
 
-    const response = await sportmonksClient.getFixturesBetween(
-      query.start,
-      query.end,
-      params
-    );
-    const validated = SportMonksResponseSchema.parse(response);
-    const fixtures = (validated.data as unknown[]).map((item) =>
-      SportMonksFixtureSchema.parse(item)
-    );
-    const normalized = normalizeFixtures(fixtures);
+    const loadUpstream = async (): Promise<UpstreamFixtures> => {
+      const response = await sportmonksClient.getFixturesBetween(
+        query.start,
+        query.end,
+        params
+      );
+      const validated = SportMonksResponseSchema.parse(response);
+      const fixtures = (validated.data as unknown[]).map((item) =>
+        SportMonksFixtureSchema.parse(item)
+      );
+      // Without state and scores these fixtures are not backfilled
+      return { fixtures: normalizeFixtures(fixtures), raw: fixtures, complete: false };
+    };
+
+    // A custom include changes the payload, so it always goes to SportMonks
+    const normalized = query.include
+      ? (await loadUpstream()).fixtures
+      : await getFixturesByDateRange(query.start, query.end, params.leagueId, loadUpstream);
 
     return NextResponse.json(normalized);
   } catch (error) {
@@ -69,3 +83,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("fixtures", handleGet);
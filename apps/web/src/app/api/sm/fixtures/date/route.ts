@@ -7,6 +7,11 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeFixtures } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
+import {
+  getFixturesByDateRange,
+  type UpstreamFixtures,
+} from "@/server/services/fixtureStoreService";
 
 const QuerySchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
@@ -19,8 +24,9 @@ const QuerySchema = z.object({
 /**
  * GET /api/sm/fixtures/date?date=YYYY-MM-DD&leagueId=123
  * Fetch fixtures by date (with optional server-side leagueId filtering)
+ * Served from the fixtures read model when the day is covered; SportMonks otherwise
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
 
   // 1) Query validation -> 400
@@ -64,9 +70,9 @@ export async function GET(request: NextRequest) {
       // Some endpoints/relations may not support field selection
       // We'll add field selection later once basic include works
       // 
-      // Note: League can be retrieved from cache (see normalizeFixture in dto.ts)
-      // So we don't need to include it here
-      opts.include = "participants:name,image_path;state;scores";
+      // Include league name and logo so backfilled fixtures can list the sidebar leagues
+      // (normalizeFixture falls back to the league cache when it's missing)
+      opts.include = "participants:name,image_path;state;scores;league:name,image_path,country_id";
       
       // Don't use select for now - let's confirm basic include works first
       // We can optimize later
@@ -83,58 +89,68 @@ export async function GET(request: NextRequest) {
       opts.locale = query.locale;
     }
 
-    const response = await sportmonksClient.getFixturesByDate(query.date, opts);
+    const loadUpstream = async (): Promise<UpstreamFixtures> => {
+      const response = await sportmonksClient.getFixturesByDate(query.date, opts);
 
-    const validated = SportMonksResponseSchema.parse(response);
-    const dataArray = Array.isArray(validated.data) ? validated.data : [];
-    let fixtures = dataArray.map((item) => SportMonksFixtureSchema.parse(item));
+      const validated = SportMonksResponseSchema.parse(response);
+      const dataArray = Array.isArray(validated.data) ? validated.data : [];
+      const fixtures = dataArray.map((item) => SportMonksFixtureSchema.parse(item));
 
-    // Debug: Log raw scores for finished fixtures
-    const finishedFixtures = fixtures.filter((f) => {
-      const state = typeof f.state === "string" ? f.state : (f.state as { name?: string })?.name;
-      return state && ["FT", "FT_PEN", "CANCL", "POSTP", "INT", "ABAN", "SUSP", "AWARDED"].includes(state.toUpperCase());
-    });
-    if (finishedFixtures.length > 0) {
-      const sampleFixture = finishedFixtures[0]!;
-      const participants = (sampleFixture as unknown as { participants?: Array<{
-        id?: number;
-        name?: string;
-        meta?: {
-          location?: string;
-          score?: number;
-          winner?: boolean;
-          position?: number;
-        };
-      }> })?.participants || [];
+      // Debug: Log raw scores for finished fixtures
+      const finishedFixtures = fixtures.filter((f) => {
+        const state = typeof f.state === "string" ? f.state : (f.state as { name?: string })?.name;
+        return state && ["FT", "FT_PEN", "CANCL", "POSTP", "INT", "ABAN", "SUSP", "AWARDED"].includes(state.toUpperCase());
+      });
+      if (finishedFixtures.length > 0) {
+        const sampleFixture = finishedFixtures[0]!;
+        const participants = (sampleFixture as unknown as { participants?: Array<{
+          id?: number;
+          name?: string;
+          meta?: {
+            location?: string;
+            score?: number;
+            winner?: boolean;
+            position?: number;
+          };
+        }> })?.participants || [];
       
-      console.log("[FIXTURES/DATE] Sample finished fixture raw data:", JSON.stringify({
-        fixtureId: sampleFixture.id,
-        state: sampleFixture.state,
-        result_info: (sampleFixture as unknown as { result_info?: string })?.result_info,
-        scores: sampleFixture.scores,
-        participants: participants.map((p) => ({
-          id: p.id,
-          name: p.name,
-          meta: p.meta,
-        })),
-      }, null, 2));
-    }
+        console.log("[FIXTURES/DATE] Sample finished fixture raw data:", JSON.stringify({
+          fixtureId: sampleFixture.id,
+          state: sampleFixture.state,
+          result_info: (sampleFixture as unknown as { result_info?: string })?.result_info,
+          scores: sampleFixture.scores,
+          participants: participants.map((p) => ({
+            id: p.id,
+            name: p.name,
+            meta: p.meta,
+          })),
+        }, null, 2));
+      }
+
+      const pagination = (validated as { pagination?: { has_more?: boolean } }).pagination;
+      return {
+        fixtures: normalizeFixtures(fixtures),
+        raw: fixtures,
+        complete: pagination?.has_more !== true,
+      };
+    };
 
     // Server-side leagueId filtering (if provided)
-    if (query.leagueId) {
-      const leagueIdNum = Number(query.leagueId);
-      if (!isNaN(leagueIdNum)) {
-        fixtures = fixtures.filter((fixture) => {
-          const fixtureLeagueId = (fixture as unknown as { league_id?: number })?.league_id;
-          return fixtureLeagueId === leagueIdNum;
-        });
-      }
-    }
+    const leagueIdNum = query.leagueId ? Number(query.leagueId) : NaN;
+    const leagueId = isNaN(leagueIdNum) ? undefined : leagueIdNum;
 
-    const normalized = normalizeFixtures(fixtures);
+    // The default listing is served from the fixtures read model; custom filters, fields or locales
+    // change the payload and always go to SportMonks
+    const usesStore = !query.filters && !query.select && !query.locale;
+    const normalized = usesStore
+      ? await getFixturesByDateRange(query.date, query.date, leagueId, loadUpstream)
+      : (await loadUpstream()).fixtures.filter(
+          (fixture) => leagueId === undefined || Number(fixture.leagueId) === leagueId
+        );
 
     // Return all fixtures (both active and finished)
     // UI will separate them into "Upcoming" and "Past Matches" sections
+
     return NextResponse.json(normalized);
   } catch (e) {
     console.error("SportMonks /fixtures/date failed:", e);
@@ -166,3 +182,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withSmCache("fixtures", handleGet);
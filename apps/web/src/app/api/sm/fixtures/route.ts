@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeFixtures } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   leagueId: z.string().min(1),
@@ -17,7 +18,7 @@ const QuerySchema = z.object({
  * GET /api/sm/fixtures?leagueId=123&date=2024-01-01
  * Fetch fixtures for a league/date
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -57,3 +58,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("fixtures", handleGet);
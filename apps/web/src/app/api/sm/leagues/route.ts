@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLeagues } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   countryId: z.string().min(1),
@@ -16,7 +17,7 @@ const QuerySchema = z.object({
  * GET /api/sm/leagues?countryId=123
  * Fetch leagues for a country
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -54,3 +55,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("reference", handleGet);
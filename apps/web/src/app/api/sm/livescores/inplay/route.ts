@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLiveFixtures } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   include: z.string().optional(),
@@ -29,7 +30,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Array of fixture objects
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -108,3 +109,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("livescores", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLiveFixtures } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   include: z.string().optional(),
@@ -65,7 +66,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Array of fixture objects (empty array if no updates)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -151,3 +152,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("latest", handleGet);
@@ -0,0 +1,50 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOddsHistory } from "@/server/services/oddsSnapshotService";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
+
+const QuerySchema = z.object({
+  fixtureId: z.coerce.number().int().positive(),
+  marketId: z.coerce.number().int().positive().optional(),
+  bookmakerId: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/sm/odds/history?fixtureId=123&marketId=1&bookmakerId=2
+ * Recorded price movement per selection (oldest first) from the odds snapshots
+ * Without marketId every recorded market of the fixture is returned
+ */
+async function handleGet(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  let query: z.infer<typeof QuerySchema>;
+  try {
+    query = QuerySchema.parse({
+      fixtureId: searchParams.get("fixtureId") ?? "",
+      marketId: searchParams.get("marketId") || undefined,
+      bookmakerId: searchParams.get("bookmakerId") || undefined,
+    });
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: e.errors },
+        { status: 400 }
+      );
+    }
+    throw e;
+  }
+
+  try {
+    const history = await getOddsHistory(query.fixtureId, query.marketId, query.bookmakerId);
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Error fetching odds history:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch odds history" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withSmCache("oddsHistory", handleGet);
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { sportmonksClient } from "@/lib/sportmonks/client";
 import { SportMonksOddsSchema } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   fixtureId: z.string().min(1, "fixtureId is required"),
@@ -31,7 +32,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Flat array of odds objects (same as Get Inplay Odds by Fixture ID)
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { fixtureId: string; marketId: string } }
 ) {
@@ -236,3 +237,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("inplayOdds", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksMultiResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   include: z.string().optional(),
@@ -31,7 +32,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Flat array of odds objects, grouped by fixture_id
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -140,3 +141,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("latest", handleGet);
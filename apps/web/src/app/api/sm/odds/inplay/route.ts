@@ -7,6 +7,7 @@ import {
   SportMonksSingleResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   fixtureId: z.string().min(1),
@@ -20,7 +21,7 @@ const QuerySchema = z.object({
  * GET /api/sm/odds/inplay?fixtureId=123
  * Fetch in-play odds for a fixture
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -274,3 +275,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("inplayOdds", handleGet);
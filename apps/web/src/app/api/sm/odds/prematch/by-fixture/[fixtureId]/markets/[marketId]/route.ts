@@ -7,6 +7,7 @@ import {
   SportMonksSingleResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   fixtureId: z.string().regex(/^\d+$/, "Fixture ID must be a number"),
@@ -36,7 +37,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Flat array of odds objects (same as Get Odds by Fixture ID)
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { fixtureId: string; marketId: string } }
 ) {
@@ -248,3 +249,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("prematchOdds", handleGet);
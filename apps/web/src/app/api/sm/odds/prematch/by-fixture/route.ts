@@ -4,6 +4,7 @@ import { z } from "zod";
 import { sportmonksClient } from "@/lib/sportmonks/client";
 import { SportMonksOddsSchema } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   fixtureId: z.string().min(1, "fixtureId is required"),
@@ -32,7 +33,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Flat array of odds objects (same as Get Odds by Fixture ID)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -215,3 +216,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("prematchOdds", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksMultiResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   include: z.string().optional(),
@@ -37,7 +38,7 @@ const QuerySchema = z.object({
  * Polling frequency: Every 10 seconds (360 calls per hour) to match the fixed update window.
  * Optionally poll every 5-8 seconds to reduce latency (if rate limits allow).
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -145,4 +146,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
-
+export const GET = withSmCache("latest", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksSingleResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeOdds, transformOddsArrayToMarketsFormat } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   fixtureId: z.string().min(1),
@@ -29,7 +30,7 @@ const QuerySchema = z.object({
  * 
  * Response format: Flat array of odds objects (same as Get All Odds)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
@@ -363,3 +364,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("prematchOdds", handleGet);
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { sportmonksClient } from "@/lib/sportmonks/client";
 import { SportMonksSingleResponseSchema } from "@/lib/sportmonks/schemas";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   playerId: z.string().regex(/^\d+$/, "Player ID must be a number"),
@@ -20,7 +21,7 @@ const QuerySchema = z.object({
  * Fetch a single player by ID with optional includes and filters
  * Based on SportMonks API v3 documentation
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { playerId: string } }
 ) {
@@ -116,3 +117,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("entity", handleGet);
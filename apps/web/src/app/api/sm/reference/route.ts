@@ -10,6 +10,7 @@ import {
   getAllCachedStates,
   getAllCachedTypes,
 } from "@/lib/sportmonks/referenceCache";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   entity: z.enum(["countries", "states", "types"]),
@@ -21,7 +22,7 @@ const QuerySchema = z.object({
  * Fetch and cache reference entities (countries, states, types)
  * These entities rarely change, so caching them reduces includes in other requests
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
 
   let query: z.infer<typeof QuerySchema>;
@@ -120,3 +121,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("reference", handleGet);
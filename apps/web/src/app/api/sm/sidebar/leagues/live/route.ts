@@ -6,19 +6,24 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLeagues } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
+import { getLiveLeagues } from "@/server/services/fixtureStoreService";
 
 /**
  * GET /api/sm/sidebar/leagues/live
  * Fetch live leagues from SportMonks API
+ * Derived from the fixtures read model when the days in play are covered; SportMonks otherwise
  */
-export async function GET() {
+async function handleGet() {
   try {
-    const response = await sportmonksClient.getLeaguesLive();
-    const validated = SportMonksResponseSchema.parse(response);
-    const leagues = (validated.data as unknown[]).map((item) =>
-      SportMonksLeagueSchema.parse(item)
-    );
-    const normalized = normalizeLeagues(leagues);
+    const normalized = await getLiveLeagues(async () => {
+      const response = await sportmonksClient.getLeaguesLive();
+      const validated = SportMonksResponseSchema.parse(response);
+      const leagues = (validated.data as unknown[]).map((item) =>
+        SportMonksLeagueSchema.parse(item)
+      );
+      return normalizeLeagues(leagues);
+    });
 
     return NextResponse.json(normalized);
   } catch (error) {
@@ -36,3 +41,4 @@ export async function GET() {
   }
 }
 
+export const GET = withSmCache("livescores", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLeagues } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   countryId: z
@@ -22,7 +23,7 @@ const QuerySchema = z.object({
  * GET /api/sm/sidebar/leagues?countryId=2
  * Fetch leagues for a country
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
 
   // 1) Query validation -> 400
@@ -87,3 +88,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withSmCache("reference", handleGet);
@@ -7,6 +7,7 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLeagues } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const QuerySchema = z.object({
   query: z.string().min(1, "Query is required"),
@@ -17,7 +18,7 @@ const QuerySchema = z.object({
  * GET /api/sm/sidebar/leagues/search?query=premier
  * Search leagues
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const queryParams = QuerySchema.parse({
@@ -62,3 +63,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("reference", handleGet);
@@ -7,6 +7,8 @@ import {
   SportMonksResponseSchema,
 } from "@/lib/sportmonks/schemas";
 import { normalizeLeagues } from "@/lib/sportmonks/dto";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
+import { getLeaguesByDate } from "@/server/services/fixtureStoreService";
 
 const QuerySchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
@@ -15,20 +17,23 @@ const QuerySchema = z.object({
 /**
  * GET /api/sm/sidebar/leagues/today?date=2024-01-01
  * Fetch leagues with matches today
+ * Derived from the fixtures read model when the day is covered; SportMonks otherwise
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = QuerySchema.parse({
       date: searchParams.get("date"),
     });
 
-    const response = await sportmonksClient.getLeaguesByDate(query.date);
-    const validated = SportMonksResponseSchema.parse(response);
-    const leagues = (validated.data as unknown[]).map((item) =>
-      SportMonksLeagueSchema.parse(item)
-    );
-    const normalized = normalizeLeagues(leagues);
+    const normalized = await getLeaguesByDate(query.date, async () => {
+      const response = await sportmonksClient.getLeaguesByDate(query.date);
+      const validated = SportMonksResponseSchema.parse(response);
+      const leagues = (validated.data as unknown[]).map((item) =>
+        SportMonksLeagueSchema.parse(item)
+      );
+      return normalizeLeagues(leagues);
+    });
 
     return NextResponse.json(normalized);
   } catch (error) {
@@ -52,3 +57,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withSmCache("fixtures", handleGet);
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { sportmonksClient } from "@/lib/sportmonks/client";
 import { SportMonksCollectionResponseSchema } from "@/lib/sportmonks/schemas";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   seasonId: z.string().regex(/^\d+$/, "Season ID must be a number"),
@@ -18,7 +19,7 @@ const QuerySchema = z.object({
  * Fetch squad (player statistics) for a team in a specific season
  * Based on SportMonks API v3 documentation
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { seasonId: string; teamId: string } }
 ) {
@@ -108,3 +109,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("entity", handleGet);
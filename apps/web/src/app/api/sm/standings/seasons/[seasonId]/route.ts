@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { sportmonksClient } from "@/lib/sportmonks/client";
 import { SportMonksCollectionResponseSchema } from "@/lib/sportmonks/schemas";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   seasonId: z.string().regex(/^\d+$/, "Season ID must be a number"),
@@ -17,7 +18,7 @@ const QuerySchema = z.object({
  * Fetch standings for a specific season
  * Based on SportMonks API v3 documentation
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { seasonId: string } }
 ) {
@@ -101,3 +102,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("standings", handleGet);
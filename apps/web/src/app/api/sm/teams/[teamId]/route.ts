@@ -6,6 +6,7 @@ import {
   SportMonksTeamSchema,
   SportMonksSingleResponseSchema,
 } from "@/lib/sportmonks/schemas";
+import { withSmCache } from "@/lib/sportmonks/routeCache";
 
 const ParamsSchema = z.object({
   teamId: z.string().regex(/^\d+$/, "Team ID must be a number"),
@@ -23,7 +24,7 @@ const QuerySchema = z.object({
  * Fetch a single team by ID with optional includes and filters
  * Based on SportMonks API v3 documentation
  */
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { teamId: string } }
 ) {
@@ -121,3 +122,4 @@ export async function GET(
   }
 }
 
+export const GET = withSmCache("entity", handleGet);
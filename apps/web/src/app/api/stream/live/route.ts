@@ -0,0 +1,75 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import {
+  subscribeToLiveStream,
+  type LiveStreamEvent,
+} from "@/server/services/liveStreamService";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Comment sent this often so proxies keep idle connections open
+ */
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Delay the browser waits before reconnecting a dropped stream
+ */
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * GET /api/stream/live
+ * Server-sent events with the live fixtures and in-play prices (Bet365) that changed:
+ * - event "fixtures": LiveFixtureDTO[] whose tracked fields changed
+ * - event "odds": LiveOddsUpdate[] with the changed markets of each fixture
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream was closed; cleanup runs from the abort or cancel handler
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const unsubscribe = subscribeToLiveStream((event: LiveStreamEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -301,7 +301,7 @@ interface FixtureRowProps {
   fixture: FixtureDTO;
   isExpanded: boolean;
   onToggle: () => void;
-  onAddSelection: (selection: BetslipSelection) => void;
+  onAddSelection: (selection: BetslipSelection) => boolean;
 }
 
 function FixtureRow({ fixture, isExpanded, onToggle, onAddSelection }: FixtureRowProps) {
@@ -362,7 +362,10 @@ function FixtureRow({ fixture, isExpanded, onToggle, onAddSelection }: FixtureRo
       selectionLabel: getSelectionLabel(selectionKey, marketKey),
     };
 
-    onAddSelection(selection);
+    if (!onAddSelection(selection)) {
+      toast.error("Bu seçim kuponunuzdaki bir seçimle birleştirilemez");
+      return;
+    }
     toast.success("Seçim kupona eklendi");
   };
 
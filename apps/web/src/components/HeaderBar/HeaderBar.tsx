@@ -77,6 +77,22 @@ export function HeaderBar({
               Bahislerim
             </Link>
           )}
+          {user && (
+            <Link
+              href="/my/settings"
+              className="px-5 py-2 rounded-full text-xs font-bold text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+            >
+              Limitlerim
+            </Link>
+          )}
+          {user && (
+            <Link
+              href="/my/wallet"
+              className="px-5 py-2 rounded-full text-xs font-bold text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+            >
+              Cüzdanım
+            </Link>
+          )}
         </nav>
       </div>
 
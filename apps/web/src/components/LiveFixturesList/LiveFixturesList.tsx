@@ -9,6 +9,12 @@ import { getMarketLabel, getSelectionLabel } from "@/stores/betslipUtils";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
 import { useAuth } from "@/lib/auth/useAuth";
+import { useLiveStream } from "@/features/live";
+
+// Fallback polling intervals while /api/stream/live is not connected, and while it is
+const FIXTURES_POLL_MS = 2 * 1000; // Every 2 seconds for real-time minute updates
+const ODDS_POLL_MS = 6 * 1000; // Every 6 seconds (recommended: 5-8 seconds)
+const STREAMING_POLL_MS = 30 * 1000; // Safety net for anything the stream missed
 
 function cn(...classes: (string | undefined)[]): string {
   return classes.filter(Boolean).join(" ");
@@ -134,7 +140,8 @@ interface LiveFixtureRowProps {
   fixture: LiveFixtureDTO;
   isExpanded: boolean;
   onToggle: () => void;
-  onAddSelection: (selection: BetslipSelection) => void;
+  onAddSelection: (selection: BetslipSelection) => boolean;
+  streamConnected: boolean;
 }
 
 const LiveFixtureRow = memo(function LiveFixtureRow({
@@ -142,12 +149,13 @@ const LiveFixtureRow = memo(function LiveFixtureRow({
   isExpanded,
   onToggle,
   onAddSelection,
+  streamConnected,
 }: LiveFixtureRowProps) {
   const { user } = useAuth();
   const router = useRouter();
 
   // Fetch inplay odds - always fetch for live matches (not just when expanded)
-  // Poll every 5-7 seconds for real-time updates
+  // Changes are patched in from the live stream; polling is the fallback
   const {
     data: oddsData,
     isLoading: isLoadingOdds,
@@ -156,7 +164,7 @@ const LiveFixtureRow = memo(function LiveFixtureRow({
     queryKey: ["odds", "inplay", fixture.fixtureId],
     queryFn: () => fetchInplayOdds(fixture.fixtureId),
     enabled: true, // Always fetch for live matches
-    refetchInterval: 6 * 1000, // Poll every 6 seconds (recommended: 5-8 seconds)
+    refetchInterval: streamConnected ? STREAMING_POLL_MS : ODDS_POLL_MS,
     refetchIntervalInBackground: true,
     staleTime: 0, // Always consider stale to ensure fresh data
     cacheTime: 30 * 1000, // Keep in cache for 30 seconds
@@ -188,7 +196,10 @@ const LiveFixtureRow = memo(function LiveFixtureRow({
       selectionLabel: getSelectionLabel(selectionKey, marketKey),
     };
 
-    onAddSelection(selection);
+    if (!onAddSelection(selection)) {
+      toast.error("Bu seçim kuponunuzdaki bir seçimle birleştirilemez");
+      return;
+    }
     toast.success("Seçim kupona eklendi");
   };
 
@@ -590,7 +601,10 @@ export function LiveFixturesList() {
     new Set()
   );
 
-  // Fetch live fixtures with frequent polling for real-time updates
+  // Changed fixtures and odds are patched into the queries below from the live stream
+  const streamConnected = useLiveStream();
+
+  // Fetch live fixtures, polling frequently while the stream is not connected
   const {
     data: fixtures = [],
     isLoading,
@@ -599,7 +613,7 @@ export function LiveFixturesList() {
   } = useQuery<LiveFixtureDTO[], Error>({
     queryKey: ["livescores"],
     queryFn: fetchLiveFixtures,
-    refetchInterval: 2 * 1000, // Poll every 2 seconds for real-time minute updates
+    refetchInterval: streamConnected ? STREAMING_POLL_MS : FIXTURES_POLL_MS,
     refetchIntervalInBackground: true,
     staleTime: 0, // Always consider stale to ensure fresh data
     cacheTime: 10 * 1000, // Keep in cache for 10 seconds
@@ -656,6 +670,7 @@ export function LiveFixturesList() {
           isExpanded={expandedFixtures.has(fixture.fixtureId)}
           onToggle={() => toggleFixture(fixture.fixtureId)}
           onAddSelection={addSelection}
+          streamConnected={streamConnected}
         />
       ))}
     </div>
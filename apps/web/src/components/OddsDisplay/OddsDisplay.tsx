@@ -1,7 +1,7 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
-import type { OddsDTO, MarketOdds } from "@repo/shared/types";
+import type { OddsDTO, MarketOdds, OddsHistoryDTO, OddsHistorySeries } from "@repo/shared/types";
 import { bet365LikeMarketDisplay, type MarketTemplate } from "@repo/shared/constants";
 import { Skeleton } from "../ui/Skeleton";
 import { useBetslipStore } from "@/stores/betslipStore";
@@ -26,6 +26,15 @@ async function fetchPrematchOdds(fixtureId: string | number): Promise<OddsDTO> {
   return response.json();
 }
 
+async function fetchOddsHistory(fixtureId: string | number): Promise<OddsHistoryDTO> {
+  // Same bookmaker as the prices shown
+  const response = await fetch(`/api/sm/odds/history?fixtureId=${fixtureId}&bookmakerId=2`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch odds history: ${response.statusText}`);
+  }
+  return response.json();
+}
+
 // Group markets by their group property
 function groupMarkets(markets: MarketOdds[]): Map<string, MarketOdds[]> {
   const grouped = new Map<string, MarketOdds[]>();
@@ -89,7 +98,7 @@ function getUniqueMarketKeys(markets: MarketOdds[]): Array<{ marketId: number; m
 function renderMarket(
   market: MarketOdds,
   allMarkets: MarketOdds[],
-  onAddSelection: (marketKey: string, selectionKey: string, odds: number) => void
+  onAddSelection: (marketKey: string, selectionKey: string, odds: number, marketId?: number) => void
 ) {
   const config = bet365LikeMarketDisplay.find((c) => c.marketId === market.marketId);
   const template = market.template || config?.template || "list";
@@ -111,21 +120,21 @@ function renderMarket(
             <OddsButton
               label="1"
               odds={home.odds}
-              onClick={() => onAddSelection(market.market, "1", home.odds)}
+              onClick={() => onAddSelection(market.market, "1", home.odds, market.marketId)}
             />
           )}
           {draw && (
             <OddsButton
               label="X"
               odds={draw.odds}
-              onClick={() => onAddSelection(market.market, "X", draw.odds)}
+              onClick={() => onAddSelection(market.market, "X", draw.odds, market.marketId)}
             />
           )}
           {away && (
             <OddsButton
               label="2"
               odds={away.odds}
-              onClick={() => onAddSelection(market.market, "2", away.odds)}
+              onClick={() => onAddSelection(market.market, "2", away.odds, market.marketId)}
             />
           )}
         </div>
@@ -142,14 +151,14 @@ function renderMarket(
             <OddsButton
               label="Yes"
               odds={yes.odds}
-              onClick={() => onAddSelection(market.market, "Yes", yes.odds)}
+              onClick={() => onAddSelection(market.market, "Yes", yes.odds, market.marketId)}
             />
           )}
           {no && (
             <OddsButton
               label="No"
               odds={no.odds}
-              onClick={() => onAddSelection(market.market, "No", no.odds)}
+              onClick={() => onAddSelection(market.market, "No", no.odds, market.marketId)}
             />
           )}
         </div>
@@ -181,14 +190,14 @@ function renderMarket(
                 <OddsButton
                   label={`Over ${line ?? ""}`}
                   odds={over.odds}
-                  onClick={() => onAddSelection(market.market, `Over ${line}`, over.odds)}
+                  onClick={() => onAddSelection(market.market, `Over ${line}`, over.odds, market.marketId)}
                 />
               )}
               {under && (
                 <OddsButton
                   label={`Under ${line ?? ""}`}
                   odds={under.odds}
-                  onClick={() => onAddSelection(market.market, `Under ${line}`, under.odds)}
+                  onClick={() => onAddSelection(market.market, `Under ${line}`, under.odds, market.marketId)}
                 />
               )}
             </div>
@@ -207,14 +216,14 @@ function renderMarket(
             <OddsButton
               label="Home"
               odds={home.odds}
-              onClick={() => onAddSelection(market.market, "Home", home.odds)}
+              onClick={() => onAddSelection(market.market, "Home", home.odds, market.marketId)}
             />
           )}
           {away && (
             <OddsButton
               label="Away"
               odds={away.odds}
-              onClick={() => onAddSelection(market.market, "Away", away.odds)}
+              onClick={() => onAddSelection(market.market, "Away", away.odds, market.marketId)}
             />
           )}
         </div>
@@ -230,7 +239,7 @@ function renderMarket(
               key={idx}
               label={sel.selection}
               odds={sel.odds}
-              onClick={() => onAddSelection(market.market, sel.selection, sel.odds)}
+              onClick={() => onAddSelection(market.market, sel.selection, sel.odds, market.marketId)}
             />
           ))}
         </div>
@@ -257,6 +266,62 @@ function OddsButton({ label, odds, onClick }: OddsButtonProps) {
   );
 }
 
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 20;
+const SPARKLINE_COLORS = ["#ffdf1b", "#60a5fa", "#f87171"];
+
+// Price movement of a market's selections (up to three lines)
+function OddsSparkline({ series }: { series?: OddsHistorySeries[] }) {
+  const lines = (series ?? []).filter((s) => s.points.length >= 2).slice(0, 3);
+  if (lines.length === 0) return null;
+
+  const points = lines.flatMap((s) => s.points);
+  const times = points.map((p) => Date.parse(p.at));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const minOdds = Math.min(...points.map((p) => p.odds));
+  const maxOdds = Math.max(...points.map((p) => p.odds));
+
+  const toX = (at: string) =>
+    maxTime === minTime
+      ? SPARKLINE_WIDTH / 2
+      : ((Date.parse(at) - minTime) / (maxTime - minTime)) * (SPARKLINE_WIDTH - 2) + 1;
+  const toY = (odds: number) =>
+    maxOdds === minOdds
+      ? SPARKLINE_HEIGHT / 2
+      : SPARKLINE_HEIGHT - 1 - ((odds - minOdds) / (maxOdds - minOdds)) * (SPARKLINE_HEIGHT - 2);
+
+  const title = lines
+    .map((s) => {
+      const first = s.points[0]!.odds;
+      const last = s.points[s.points.length - 1]!.odds;
+      return `${s.selection}${s.line ? ` ${s.line}` : ""}: ${first.toFixed(2)} → ${last.toFixed(2)}`;
+    })
+    .join("\n");
+
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      className="shrink-0"
+      role="img"
+      aria-label="Oran hareketi"
+    >
+      <title>{title}</title>
+      {lines.map((s, idx) => (
+        <polyline
+          key={`${s.selection}-${s.line ?? ""}`}
+          fill="none"
+          stroke={SPARKLINE_COLORS[idx]}
+          strokeWidth={1.5}
+          points={s.points.map((p) => `${toX(p.at)},${toY(p.odds)}`).join(" ")}
+        />
+      ))}
+    </svg>
+  );
+}
+
 export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDisplayProps) {
   const { user } = useAuth();
   const router = useRouter();
@@ -275,10 +340,20 @@ export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDi
     retry: 1,
   });
 
+  // Price history is decorative; markets render without it
+  const { data: historyData } = useQuery<OddsHistoryDTO, Error>({
+    queryKey: ["odds", "history", fixtureId],
+    queryFn: () => fetchOddsHistory(fixtureId),
+    enabled: !!fixtureId,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+
   const handleAddSelection = (
     marketKey: string,
     selectionKey: string,
-    odds: number
+    odds: number,
+    marketId?: number
   ) => {
     if (!user) {
       toast.error("Kupon oluşturmak için giriş yapmalısınız");
@@ -288,11 +363,12 @@ export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDi
 
     const kickoffAtStr = typeof kickoffAt === "string" ? kickoffAt : kickoffAt.toISOString();
 
-    addSelection({
+    const added = addSelection({
       fixtureId: String(fixtureId),
       marketKey,
       selectionKey,
       odds,
+      marketId,
       homeTeam,
       awayTeam,
       kickoffAt: kickoffAtStr,
@@ -300,6 +376,10 @@ export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDi
       selectionLabel: selectionKey,
     });
 
+    if (!added) {
+      toast.error("Bu seçim kuponunuzdaki bir seçimle birleştirilemez");
+      return;
+    }
     toast.success("Seçim kupona eklendi");
   };
 
@@ -334,6 +414,12 @@ export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDi
   
   // Get unique market keys
   const uniqueMarketKeys = getUniqueMarketKeys(oddsData.markets);
+
+  // Recorded price movement by market
+  const historyByMarket = new Map<number, OddsHistorySeries[]>();
+  for (const series of historyData?.series ?? []) {
+    historyByMarket.set(series.marketId, [...(historyByMarket.get(series.marketId) ?? []), series]);
+  }
   
   // Debug: Log market statistics
   console.log("[OddsDisplay] Market statistics:", {
@@ -371,7 +457,10 @@ export function OddsDisplay({ fixtureId, homeTeam, awayTeam, kickoffAt }: OddsDi
 
                 return (
                   <div key={`${marketKey.marketId}-${marketKey.market}`}>
-                    <div className="text-sm text-text-muted mb-2">{marketKey.label}</div>
+                    <div className="flex items-center justify-between gap-2 text-sm text-text-muted mb-2">
+                      <span>{marketKey.label}</span>
+                      <OddsSparkline series={historyByMarket.get(marketKey.marketId)} />
+                    </div>
                     {renderMarket(representativeMarket, oddsData.markets, handleAddSelection)}
                   </div>
                 );
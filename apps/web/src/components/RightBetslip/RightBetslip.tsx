@@ -7,17 +7,63 @@ import { X, Trophy } from "lucide-react";
 import { useBetslipStore, type BetslipSelection } from "@/stores/betslipStore";
 import { createSlipAction } from "@/server/actions/slipActions";
 import { getCurrentUserAction } from "@/server/actions/userActions";
+import { useIdempotencyKey } from "@/features/idempotency";
 import {
   transformSelectionsToLines,
   createOddsSnapshot,
 } from "./betslipUtils";
 import { getSelectionLabel, getMarketLabel } from "@/stores/betslipUtils";
+import type { PriceChangePolicy, SlipLineError } from "@repo/shared/types";
+import {
+  betTypes,
+  buildBetCombinations,
+  calculateBetSummary,
+  checkCorrelations,
+  getAvailableBetTypes,
+  type BetType,
+  type CorrelationIssue,
+} from "@repo/shared/betting";
 
 interface RightBetslipProps {
   isOpen?: boolean;
   onClose?: () => void;
 }
 
+const PRICE_CHANGE_POLICY_OPTIONS: { value: PriceChangePolicy; label: string }[] = [
+  { value: "accept_any", label: "Tüm oran değişikliklerini kabul et" },
+  { value: "accept_higher", label: "Sadece yükselen oranları kabul et" },
+  { value: "reject_any", label: "Oran değişirse onay iste" },
+];
+
+const BET_TYPE_LABELS: Partial<Record<BetType, string>> = {
+  accumulator: "Kombine",
+  single: "Tekli",
+  double: "İkili",
+  treble: "Üçlü",
+  system: "Sistem",
+};
+
+const CORRELATION_LABELS: Record<CorrelationIssue["code"], string> = {
+  EXCLUSIVE: "Aynı marketten birden fazla seçim",
+  CORRELATED: "Aynı maçtan ilişkili seçimler birleştirilemez",
+  SAME_FIXTURE: "Aynı maçtan birden fazla seçim",
+};
+
+const LINE_ERROR_LABELS: Record<SlipLineError["code"], string> = {
+  PRICE_CHANGED: "Oran değişti",
+  CONFLICT: "Bu seçim diğer seçimlerle birleştirilemez",
+  SUSPENDED: "Bahis askıya alındı",
+  FIXTURE_STARTED: "Maç başladı",
+  UNAVAILABLE: "Bahis artık mevcut değil",
+};
+
+/**
+ * Key used to attach line errors to a selection (slip line IDs without the index suffix)
+ */
+function selectionKeyOf(selection: BetslipSelection): string {
+  return `${selection.fixtureId}-${selection.marketKey}-${selection.selectionKey}`;
+}
+
 function cn(...classes: (string | undefined)[]): string {
   return classes.filter(Boolean).join(" ");
 }
@@ -25,19 +71,72 @@ function cn(...classes: (string | undefined)[]): string {
 export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
   const router = useRouter();
   const [isPlacingBet, setIsPlacingBet] = useState(false);
+  const [lineErrors, setLineErrors] = useState<Record<string, SlipLineError>>({});
   const selections = useBetslipStore((state) => state.selections);
   const stake = useBetslipStore((state) => state.stake);
   const removeSelection = useBetslipStore((state) => state.removeSelection);
+  const updateSelectionOdds = useBetslipStore((state) => state.updateSelectionOdds);
   const setStake = useBetslipStore((state) => state.setStake);
+  const priceChangePolicy = useBetslipStore((state) => state.priceChangePolicy);
+  const setPriceChangePolicy = useBetslipStore((state) => state.setPriceChangePolicy);
+  const betType = useBetslipStore((state) => state.betType);
+  const setBetType = useBetslipStore((state) => state.setBetType);
+  const systemSize = useBetslipStore((state) => state.systemSize);
+  const setSystemSize = useBetslipStore((state) => state.setSystemSize);
   const clearBetslip = useBetslipStore((state) => state.clearBetslip);
 
-  // Calculate potential return
+  // Fall back to an accumulator when the chosen bet type no longer fits the selections
+  const availableBetTypes = getAvailableBetTypes(selections.length);
+  const activeBetType: BetType = availableBetTypes.includes(betType) ? betType : "accumulator";
+  const systemSizes = Array.from({ length: Math.max(selections.length - 2, 0) }, (_, i) => i + 2);
+  const activeSystemSize = systemSizes.includes(systemSize) ? systemSize : 2;
+
+  // Calculate combinations, total stake and potential return
   const totalOdds = selections.length > 0
     ? selections.reduce((acc, selection) => acc * selection.odds, 1)
     : 0;
-  const potentialReturn = stake > 0 && selections.length > 0
-    ? stake * totalOdds
-    : 0;
+  const lines = transformSelectionsToLines(selections);
+  const summary = calculateBetSummary(lines, activeBetType, stake, activeSystemSize);
+  const potentialReturn = summary.maxReturn;
+
+  // Same key for repeated submits of the same slip, so a double-click places one bet
+  const placeBetKey = useIdempotencyKey([
+    lines,
+    stake,
+    priceChangePolicy,
+    activeBetType,
+    activeSystemSize,
+  ]);
+
+  // Same-fixture conflicts within the bets of the chosen type (the dealer setting is enforced on placement)
+  const correlationIssues: Record<string, CorrelationIssue> = {};
+  if (calculateBetSummary(lines, activeBetType, 1, activeSystemSize).combinationCount > 0) {
+    const combinations = buildBetCombinations(lines, activeBetType, 1, activeSystemSize);
+    const issues = checkCorrelations(
+      lines.map((line) => ({
+        id: line.id,
+        fixtureId: line.fixtureId,
+        marketKey: line.market,
+        selectionKey: line.selection,
+        marketId: line.marketId,
+      })),
+      {},
+      combinations
+    );
+    issues.forEach((issue) => {
+      issue.selectionIds.forEach((id) => {
+        const selection = selections[lines.findIndex((line) => line.id === id)];
+        if (!selection) return;
+        const key = selectionKeyOf(selection);
+        if (!correlationIssues[key] || issue.severity === "error") {
+          correlationIssues[key] = issue;
+        }
+      });
+    });
+  }
+  const hasCorrelationErrors = Object.values(correlationIssues).some(
+    (issue) => issue.severity === "error"
+  );
 
   const handleStakeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -67,7 +166,18 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
       return;
     }
 
+    if (summary.combinationCount === 0) {
+      toast.error("Seçilen bahis türü bu kupon için kullanılamaz");
+      return;
+    }
+
+    if (hasCorrelationErrors) {
+      toast.error("Kuponunuzda birleştirilemeyen seçimler var");
+      return;
+    }
+
     setIsPlacingBet(true);
+    setLineErrors({});
 
     try {
       const userResult = await getCurrentUserAction();
@@ -83,7 +193,6 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
         return;
       }
 
-      const lines = transformSelectionsToLines(selections);
       const oddsSnapshot = createOddsSnapshot(selections);
 
       const result = await createSlipAction({
@@ -91,13 +200,32 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
         dealerId: userResult.dealerId,
         stake,
         lines,
+        priceChangePolicy,
+        betType: activeBetType,
+        ...(activeBetType === "system" && { systemSize: activeSystemSize }),
+        idempotencyKey: placeBetKey.getKey(),
       });
 
       if (result.success) {
+        placeBetKey.renew();
         toast.success("Bahis başarıyla alındı! Bol şans!");
         clearBetslip();
         if (onClose) onClose();
         router.push("/my/slips");
+      } else if (result.lineErrors && result.lineErrors.length > 0) {
+        // Attach errors to selections and show the new odds so the user can re-confirm
+        const errors: Record<string, SlipLineError> = {};
+        result.lineErrors.forEach((lineError) => {
+          const index = lines.findIndex((line) => line.id === lineError.lineId);
+          const selection = selections[index];
+          if (!selection) return;
+          errors[selectionKeyOf(selection)] = lineError;
+          if (lineError.code === "PRICE_CHANGED" && lineError.currentOdds) {
+            updateSelectionOdds(index, lineError.currentOdds);
+          }
+        });
+        setLineErrors(errors);
+        toast.error("Kuponunuzdaki bazı bahisler güncellendi. Lütfen kontrol edin.");
       } else {
         toast.error(result.error || "Bahis alınamadı. Lütfen tekrar deneyin.");
       }
@@ -140,11 +268,20 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
           selections.map((sel, index) => {
             const selectionLabel = getSelectionLabel(sel.selectionKey, sel.marketKey);
             const marketLabel = getMarketLabel(sel.marketKey);
+            const lineError = lineErrors[selectionKeyOf(sel)];
+            const correlationIssue = correlationIssues[selectionKeyOf(sel)];
             
             return (
               <div
-                key={`${sel.fixtureId}-${sel.marketKey}-${sel.selectionKey}`}
-                className="bg-[#1f1f26] rounded-xl p-3 relative group border border-transparent hover:border-white/10 transition-all shadow-lg"
+                key={selectionKeyOf(sel)}
+                className={cn(
+                  "bg-[#1f1f26] rounded-xl p-3 relative group border transition-all shadow-lg",
+                  lineError || correlationIssue?.severity === "error"
+                    ? "border-red-500/50"
+                    : correlationIssue
+                    ? "border-yellow-500/40"
+                    : "border-transparent hover:border-white/10"
+                )}
               >
                 <button
                   onClick={() => removeSelection(index)}
@@ -171,6 +308,25 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
                 <div className="absolute bottom-3 right-3 bg-[#00ffa3]/10 text-[#00ffa3] px-2 py-0.5 rounded text-xs font-bold border border-[#00ffa3]/20">
                   {sel.odds.toFixed(2)}
                 </div>
+
+                {lineError && (
+                  <div className="mt-2 text-[10px] font-bold text-red-400">
+                    {LINE_ERROR_LABELS[lineError.code]}
+                    {lineError.code === "PRICE_CHANGED" && lineError.currentOdds
+                      ? ` (yeni oran: ${lineError.currentOdds.toFixed(2)})`
+                      : ""}
+                  </div>
+                )}
+                {!lineError && correlationIssue && (
+                  <div
+                    className={cn(
+                      "mt-2 text-[10px] font-bold",
+                      correlationIssue.severity === "error" ? "text-red-400" : "text-yellow-400"
+                    )}
+                  >
+                    {CORRELATION_LABELS[correlationIssue.code]}
+                  </div>
+                )}
               </div>
             );
           })
@@ -181,13 +337,49 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
       <div className="p-4 bg-[#0b0b0f] border-t border-white/10 space-y-4">
         {/* Bahis Miktarı Girişi */}
         <div className="space-y-2">
-          <div className="flex justify-between text-[10px] text-gray-400 font-bold uppercase">
-            <span>Toplam Oran</span>
-            <span className="text-[#00ffa3]">
-              {selections.length > 0 ? totalOdds.toFixed(2) : "0.00"}
-            </span>
+          {/* Bahis Türü */}
+          <div className="flex gap-2">
+            <select
+              value={activeBetType}
+              onChange={(e) => setBetType(e.target.value as BetType)}
+              disabled={selections.length === 0}
+              className="flex-1 bg-[#15151a] border border-white/10 rounded-xl py-2 px-3 text-xs text-gray-300 focus:outline-none focus:border-[#00ffa3] transition-all"
+            >
+              {availableBetTypes.map((type) => (
+                <option key={type} value={type}>
+                  {BET_TYPE_LABELS[type] ?? betTypes[type].label}
+                </option>
+              ))}
+            </select>
+            {activeBetType === "system" && (
+              <select
+                value={activeSystemSize}
+                onChange={(e) => setSystemSize(Number(e.target.value))}
+                className="bg-[#15151a] border border-white/10 rounded-xl py-2 px-3 text-xs text-gray-300 focus:outline-none focus:border-[#00ffa3] transition-all"
+              >
+                {systemSizes.map((size) => (
+                  <option key={size} value={size}>
+                    {size} / {selections.length}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
+          {activeBetType === "accumulator" ? (
+            <div className="flex justify-between text-[10px] text-gray-400 font-bold uppercase">
+              <span>Toplam Oran</span>
+              <span className="text-[#00ffa3]">
+                {selections.length > 0 ? totalOdds.toFixed(2) : "0.00"}
+              </span>
+            </div>
+          ) : (
+            <div className="flex justify-between text-[10px] text-gray-400 font-bold uppercase">
+              <span>Kupon Sayısı</span>
+              <span className="text-[#00ffa3]">{summary.combinationCount}</span>
+            </div>
+          )}
+
           <div className="relative group">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-sm font-bold group-focus-within:text-[#00ffa3] transition-colors">
               ₺
@@ -196,15 +388,36 @@ export function RightBetslip({ isOpen = true, onClose }: RightBetslipProps) {
               type="number"
               value={stake || ""}
               onChange={handleStakeChange}
-              placeholder="Bahis Miktarı"
+              placeholder={activeBetType === "accumulator" ? "Bahis Miktarı" : "Kupon Başı Tutar"}
               className="w-full bg-[#15151a] border border-white/10 rounded-xl py-3 pl-8 pr-4 text-white font-bold focus:outline-none focus:border-[#00ffa3] focus:shadow-[0_0_15px_rgba(0,255,163,0.1)] transition-all"
             />
           </div>
         </div>
 
+        {/* Oran Değişikliği Tercihi */}
+        <select
+          value={priceChangePolicy}
+          onChange={(e) => setPriceChangePolicy(e.target.value as PriceChangePolicy)}
+          className="w-full bg-[#15151a] border border-white/10 rounded-xl py-2 px-3 text-xs text-gray-300 focus:outline-none focus:border-[#00ffa3] transition-all"
+        >
+          {PRICE_CHANGE_POLICY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
         {/* Kazanç Özeti */}
+        {summary.combinationCount > 1 && (
+          <div className="flex justify-between text-xs text-gray-400 px-1">
+            <span>Toplam Bahis</span>
+            <span className="font-bold text-white">₺{summary.totalStake.toFixed(2)}</span>
+          </div>
+        )}
         <div className="bg-[#15151a] rounded-xl p-3 flex justify-between items-center border border-white/5">
-          <span className="text-xs text-gray-400">Olası Kazanç</span>
+          <span className="text-xs text-gray-400">
+            {summary.combinationCount > 1 ? "Maks. Kazanç" : "Olası Kazanç"}
+          </span>
           <span className="text-lg font-black text-white tracking-tight">
             ₺{potentialReturn.toFixed(2)}
           </span>
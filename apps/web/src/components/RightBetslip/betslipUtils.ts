@@ -6,6 +6,7 @@ export interface SlipLine {
   market: string;
   selection: string;
   odds: number;
+  marketId?: number;
 }
 
 /**
@@ -20,6 +21,7 @@ export function transformSelectionsToLines(
     market: selection.marketKey,
     selection: selection.selectionKey,
     odds: selection.odds,
+    ...(selection.marketId !== undefined && { marketId: selection.marketId }),
   }));
 }
 
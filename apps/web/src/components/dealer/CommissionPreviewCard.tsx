@@ -0,0 +1,40 @@
+import type { CommissionPreview } from "@/server/services/commissionService";
+
+interface CommissionPreviewCardProps {
+  preview: CommissionPreview;
+}
+
+export function CommissionPreviewCard({ preview }: CommissionPreviewCardProps) {
+  const end = new Date(new Date(preview.periodEnd).getTime() - 1);
+  const figures = [
+    { label: "Slips", value: String(preview.slipCount) },
+    { label: "Turnover", value: preview.turnover.toFixed(2) },
+    { label: "Payouts", value: preview.payouts.toFixed(2) },
+    { label: "Net Revenue", value: preview.netRevenue.toFixed(2) },
+    ...(preview.subDealerCommission > 0
+      ? [{ label: "Sub-Dealer Commission", value: preview.subDealerCommission.toFixed(2) }]
+      : []),
+    { label: "Commission so far", value: preview.commission.toFixed(2) },
+  ];
+
+  return (
+    <div className="p-6 bg-dark-surface border border-dark-border rounded">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">Current Period</h2>
+        <p className="text-text-secondary text-sm">
+          {preview.periodStart.slice(0, 10)} – {end.toISOString().slice(0, 10)} ·{" "}
+          {preview.plan.type === "revenue_share" ? "Revenue share" : "Turnover commission"}{" "}
+          {(preview.plan.rate * 100).toFixed(1)}%
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {figures.map((figure) => (
+          <div key={figure.label}>
+            <p className="text-text-secondary text-sm font-medium mb-1">{figure.label}</p>
+            <p className="text-text-primary text-xl font-bold">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
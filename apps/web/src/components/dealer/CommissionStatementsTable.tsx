@@ -0,0 +1,124 @@
+import type { CommissionStatementView } from "@/server/services/commissionService";
+
+interface CommissionStatementsTableProps {
+  statements: CommissionStatementView[];
+  onApprove?: (statementId: string) => void; // Shows an approve button on drafts
+  approvingId?: string | null;
+}
+
+function formatPeriod(statement: CommissionStatementView): string {
+  const start = new Date(statement.periodStart);
+  // periodEnd is exclusive
+  const end = new Date(new Date(statement.periodEnd).getTime() - 1);
+  return `${start.toISOString().slice(0, 10)} – ${end.toISOString().slice(0, 10)}`;
+}
+
+export function CommissionStatementsTable({
+  statements,
+  onApprove,
+  approvingId,
+}: CommissionStatementsTableProps) {
+  const headers = [
+    "Period",
+    "Plan",
+    "Slips",
+    "Turnover",
+    "Payouts",
+    "Net Revenue",
+    "Sub-Dealers",
+    "Commission",
+    "Status",
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-dark-border border border-dark-border">
+        <thead className="bg-dark-surface">
+          <tr>
+            {headers.map((header) => (
+              <th
+                key={header}
+                className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+              >
+                {header}
+              </th>
+            ))}
+            {onApprove && <th className="px-6 py-3" />}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-dark-border bg-dark-surface">
+          {statements.length === 0 ? (
+            <tr>
+              <td
+                colSpan={headers.length + (onApprove ? 1 : 0)}
+                className="px-6 py-4 text-center text-text-muted"
+              >
+                No statements yet
+              </td>
+            </tr>
+          ) : (
+            statements.map((statement) => (
+              <tr key={statement.id} className="hover:bg-dark-hover transition-colors">
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+                  {formatPeriod(statement)}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                  {statement.plan.type === "revenue_share" ? "Revenue share" : "Turnover"}{" "}
+                  {(statement.plan.rate * 100).toFixed(1)}%
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                  {statement.slipCount}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+                  {statement.turnover.toFixed(2)}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+                  {statement.payouts.toFixed(2)}
+                </td>
+                <td
+                  className={`whitespace-nowrap px-6 py-4 text-sm ${
+                    statement.netRevenue < 0 ? "text-red-400" : "text-text-primary"
+                  }`}
+                >
+                  {statement.netRevenue.toFixed(2)}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                  {statement.subDealerCommission > 0
+                    ? `−${statement.subDealerCommission.toFixed(2)}`
+                    : "-"}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm font-bold text-text-primary">
+                  {statement.commission.toFixed(2)}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm">
+                  <span
+                    className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${
+                      statement.status === "approved"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/30"
+                        : "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30"
+                    }`}
+                  >
+                    {statement.status}
+                  </span>
+                </td>
+                {onApprove && (
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    {statement.status === "draft" && (
+                      <button
+                        onClick={() => onApprove(statement.id)}
+                        disabled={approvingId === statement.id}
+                        className="rounded bg-accent-primary px-3 py-1 text-xs text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {approvingId === statement.id ? "Approving..." : "Approve & Post"}
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
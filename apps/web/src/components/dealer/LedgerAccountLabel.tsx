@@ -0,0 +1,25 @@
+import Link from "next/link";
+import { formatLedgerAccount, parseLedgerAccount } from "@/features/ledger";
+
+interface LedgerAccountLabelProps {
+  account: string;
+  userEmails: Record<string, string | undefined>;
+  linkUsers?: boolean; // Link user wallets to the dealer user detail page
+}
+
+export function LedgerAccountLabel({ account, userEmails, linkUsers }: LedgerAccountLabelProps) {
+  const { type, ownerId } = parseLedgerAccount(account);
+  if (type !== "user_wallet" || !ownerId) {
+    return <span>{formatLedgerAccount(account)}</span>;
+  }
+
+  const label = userEmails[ownerId] || ownerId;
+  if (!linkUsers) {
+    return <span>{label}</span>;
+  }
+  return (
+    <Link href={`/dealer/users/${ownerId}`} className="text-accent-primary hover:underline">
+      {label}
+    </Link>
+  );
+}
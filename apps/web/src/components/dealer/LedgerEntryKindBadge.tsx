@@ -0,0 +1,29 @@
+import type { LedgerEntryKind } from "@/server/repositories/types";
+
+interface LedgerEntryKindBadgeProps {
+  kind: LedgerEntryKind;
+}
+
+export function LedgerEntryKindBadge({ kind }: LedgerEntryKindBadgeProps) {
+  const styles = {
+    deposit: "bg-green-500/20 text-green-400 border border-green-500/30",
+    withdrawal: "bg-red-500/20 text-red-400 border border-red-500/30",
+    withdrawal_hold: "bg-rose-500/20 text-rose-300 border border-rose-500/30",
+    withdrawal_release: "bg-sky-500/20 text-sky-300 border border-sky-500/30",
+    float_transfer: "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30",
+    stake: "bg-orange-500/20 text-orange-400 border border-orange-500/30",
+    settlement: "bg-purple-500/20 text-purple-400 border border-purple-500/30",
+    refund: "bg-blue-500/20 text-blue-400 border border-blue-500/30",
+    cashout: "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30",
+    adjustment: "bg-gray-500/20 text-gray-400 border border-gray-500/30",
+    commission: "bg-teal-500/20 text-teal-400 border border-teal-500/30",
+  };
+
+  return (
+    <span
+      className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${styles[kind]}`}
+    >
+      {kind}
+    </span>
+  );
+}
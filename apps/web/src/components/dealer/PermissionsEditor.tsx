@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { setUserPermissionsAction } from "@/server/actions/userActions";
+import { PERMISSIONS, ROLE_PERMISSIONS, type Permission } from "@/features/rbac/permissions";
+import type { Role } from "@/features/rbac/types";
+
+interface PermissionsEditorProps {
+  uid: string;
+  role: Role;
+  permissions?: Permission[]; // Granted on top of the role's defaults
+  onSaved?: () => void;
+}
+
+/**
+ * Checkbox grid of every permission; the role's defaults are always held and cannot be unticked
+ */
+export function PermissionsEditor({ uid, role, permissions, onSaved }: PermissionsEditorProps) {
+  const [granted, setGranted] = useState<Permission[]>(permissions ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const defaults = ROLE_PERMISSIONS[role];
+
+  const toggle = (permission: Permission) => {
+    setGranted((current) =>
+      current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission]
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await setUserPermissionsAction({ uid, permissions: granted });
+      if (result.success) {
+        toast.success("Permissions updated");
+        onSaved?.();
+      } else {
+        toast.error(result.error || "Failed to update permissions");
+      }
+    } catch (error) {
+      console.error("Error updating permissions:", error);
+      toast.error("Failed to update permissions");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {PERMISSIONS.map((permission) => {
+          const isDefault = defaults.includes(permission);
+          return (
+            <label
+              key={permission}
+              className={`flex items-center gap-2 text-sm ${
+                isDefault ? "text-text-muted" : "text-text-primary"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={isDefault || granted.includes(permission)}
+                disabled={isDefault || isSaving}
+                onChange={() => toggle(permission)}
+                className="accent-accent-primary"
+              />
+              {permission}
+            </label>
+          );
+        })}
+      </div>
+      <p className="text-xs text-text-muted">
+        Greyed-out permissions come with the {role} role. Changes apply on the account&apos;s next
+        token refresh.
+      </p>
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="rounded bg-accent-primary px-4 py-2 text-dark-bg font-medium hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? "Saving..." : "Save Permissions"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import type { ReportGranularity } from "@/features/reports/periods";
+
+interface ReportExportPanelProps {
+  dealerId?: string; // Superadmin: restrict the report to one dealer
+  defaultStartDate?: string;
+  defaultEndDate?: string;
+}
+
+function firstOfMonth(): string {
+  const date = new Date();
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function ReportExportPanel({
+  dealerId,
+  defaultStartDate,
+  defaultEndDate,
+}: ReportExportPanelProps) {
+  const [form, setForm] = useState({
+    granularity: "day" as ReportGranularity,
+    startDate: defaultStartDate || firstOfMonth(),
+    endDate: defaultEndDate || new Date().toISOString().slice(0, 10),
+  });
+
+  const exportUrl = (format: "csv" | "xlsx"): string => {
+    const params = new URLSearchParams({ format, ...form });
+    if (dealerId) {
+      params.set("dealerId", dealerId);
+    }
+    return `/api/reports/transactions?${params.toString()}`;
+  };
+
+  const isValid = Boolean(form.startDate && form.endDate && form.startDate <= form.endDate);
+
+  return (
+    <div className="mb-6 p-6 bg-dark-surface border border-dark-border rounded">
+      <h2 className="text-lg font-semibold mb-1 text-text-primary">Period-Close Report</h2>
+      <p className="text-text-secondary text-sm mb-4">
+        Opening balance, credits, debits, stakes, payouts and closing balance per user and
+        dealer for each period (UTC).
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label
+            htmlFor="reportGranularity"
+            className="block text-sm font-medium text-text-secondary mb-2"
+          >
+            Period
+          </label>
+          <select
+            id="reportGranularity"
+            value={form.granularity}
+            onChange={(e) =>
+              setForm({ ...form, granularity: e.target.value as ReportGranularity })
+            }
+            className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly (Monday–Sunday)</option>
+            <option value="month">Monthly</option>
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="reportStartDate"
+            className="block text-sm font-medium text-text-secondary mb-2"
+          >
+            From
+          </label>
+          <input
+            id="reportStartDate"
+            type="date"
+            value={form.startDate}
+            onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="reportEndDate"
+            className="block text-sm font-medium text-text-secondary mb-2"
+          >
+            To
+          </label>
+          <input
+            id="reportEndDate"
+            type="date"
+            value={form.endDate}
+            onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+          />
+        </div>
+        <div className="flex items-end gap-2">
+          {(["csv", "xlsx"] as const).map((format) => (
+            <a
+              key={format}
+              href={isValid ? exportUrl(format) : undefined}
+              aria-disabled={!isValid}
+              className={`rounded bg-dark-bg border border-dark-border px-4 py-2 text-text-primary hover:bg-dark-hover transition-colors ${
+                isValid ? "" : "opacity-50 pointer-events-none"
+              }`}
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { cancelSlipAction, voidSlipLineAction } from "@/server/actions/slipActions";
+import type { SlipLine } from "@/server/repositories/types";
+
+interface SlipActionsPanelProps {
+  slipId: string;
+  status: string;
+  lines: SlipLine[];
+}
+
+/**
+ * Cancel a pending slip or void individual lines (dealer/superadmin)
+ * Slips flagged for settlement review take the same actions
+ */
+export function SlipActionsPanel({ slipId, status, lines }: SlipActionsPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  if (status !== "pending" && status !== "review") {
+    return <span className="text-text-muted">-</span>;
+  }
+
+  const handleCancel = async () => {
+    if (!reason.trim()) {
+      toast.error("Please enter a reason");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await cancelSlipAction({ slipId, reason: reason.trim() });
+      if (result.success) {
+        toast.success("Slip cancelled and stake refunded");
+        setReason("");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to cancel slip");
+      }
+    } catch (error) {
+      console.error("Error cancelling slip:", error);
+      toast.error("Failed to cancel slip");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVoidLine = async (lineId: string) => {
+    if (!reason.trim()) {
+      toast.error("Please enter a reason");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await voidSlipLineAction({ slipId, lineId, reason: reason.trim() });
+      if (result.success) {
+        toast.success("Line voided");
+        setReason("");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to void line");
+      }
+    } catch (error) {
+      console.error("Error voiding line:", error);
+      toast.error("Failed to void line");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="rounded bg-dark-bg border border-dark-border px-3 py-1 text-xs text-text-primary hover:bg-dark-hover transition-colors"
+      >
+        Manage
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 min-w-[280px]">
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (e.g. fixture postponed)"
+        className="w-full px-2 py-1 bg-dark-bg border border-dark-border rounded text-xs text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+      />
+      <ul className="space-y-1">
+        {lines.map((line) => (
+          <li key={line.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-text-secondary truncate">
+              {line.fixtureId} · {line.market} · {line.selection} @ {line.odds.toFixed(2)}
+            </span>
+            {line.result === "void" ? (
+              <span className="text-text-muted">void</span>
+            ) : (
+              <button
+                onClick={() => handleVoidLine(line.id)}
+                disabled={isSubmitting}
+                className="rounded border border-dark-border px-2 py-0.5 text-text-primary hover:bg-dark-hover disabled:opacity-50 transition-colors"
+              >
+                Void
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          onClick={handleCancel}
+          disabled={isSubmitting}
+          className="rounded bg-red-600 px-3 py-1 text-xs text-white hover:bg-red-700 disabled:opacity-50 transition-colors"
+        >
+          Cancel Slip
+        </button>
+        <button
+          onClick={() => setIsOpen(false)}
+          disabled={isSubmitting}
+          className="rounded border border-dark-border px-3 py-1 text-xs text-text-primary hover:bg-dark-hover disabled:opacity-50 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
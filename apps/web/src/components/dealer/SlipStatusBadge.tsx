@@ -1,16 +1,22 @@
 interface SlipStatusBadgeProps {
   status: string;
+  reason?: string; // Shown on hover, e.g. why settlement flagged the slip for review
 }
 
-export function SlipStatusBadge({ status }: SlipStatusBadgeProps) {
+export function SlipStatusBadge({ status, reason }: SlipStatusBadgeProps) {
   const getStatusStyles = (status: string) => {
     switch (status.toLowerCase()) {
       case "pending":
         return "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30";
+      case "review":
+        return "bg-orange-500/20 text-orange-400 border border-orange-500/30";
       case "won":
         return "bg-green-500/20 text-green-400 border border-green-500/30";
+      case "cashed_out":
+        return "bg-blue-500/20 text-blue-400 border border-blue-500/30";
       case "lost":
         return "bg-red-500/20 text-red-400 border border-red-500/30";
+      case "void":
       case "cancelled":
         return "bg-gray-500/20 text-gray-400 border border-gray-500/30";
       default:
@@ -20,6 +26,7 @@ export function SlipStatusBadge({ status }: SlipStatusBadgeProps) {
 
   return (
     <span
+      title={reason}
       className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${getStatusStyles(status)}`}
     >
       {status}
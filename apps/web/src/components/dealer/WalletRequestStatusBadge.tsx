@@ -0,0 +1,20 @@
+import type { WalletRequestStatus } from "@/server/repositories/types";
+
+interface WalletRequestStatusBadgeProps {
+  status: WalletRequestStatus;
+}
+
+export function WalletRequestStatusBadge({ status }: WalletRequestStatusBadgeProps) {
+  const styles: Record<WalletRequestStatus, string> = {
+    pending: "bg-yellow-500/20 text-yellow-400 border border-yellow-500/30",
+    approved: "bg-green-500/20 text-green-400 border border-green-500/30",
+    rejected: "bg-red-500/20 text-red-400 border border-red-500/30",
+    cancelled: "bg-gray-500/20 text-gray-400 border border-gray-500/30",
+  };
+
+  return (
+    <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${styles[status]}`}>
+      {status}
+    </span>
+  );
+}
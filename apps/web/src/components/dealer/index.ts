@@ -1,4 +1,11 @@
 export { UserStatusBadge } from "./UserStatusBadge";
-export { TransactionTypeBadge } from "./TransactionTypeBadge";
+export { LedgerEntryKindBadge } from "./LedgerEntryKindBadge";
+export { LedgerAccountLabel } from "./LedgerAccountLabel";
 export { SlipStatusBadge } from "./SlipStatusBadge";
+export { WalletRequestStatusBadge } from "./WalletRequestStatusBadge";
 
+export { SlipActionsPanel } from "./SlipActionsPanel";
+export { CommissionStatementsTable } from "./CommissionStatementsTable";
+export { CommissionPreviewCard } from "./CommissionPreviewCard";
+export { ReportExportPanel } from "./ReportExportPanel";
+export { PermissionsEditor } from "./PermissionsEditor";
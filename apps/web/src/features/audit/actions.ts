@@ -0,0 +1,25 @@
+import type { AuditAction } from "@/server/repositories/types";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "user.create",
+  "user.set_role",
+  "user.ban",
+  "user.unban",
+  "user.set_permissions",
+  "staff.update",
+  "wallet.credit",
+  "wallet.debit",
+  "dealer.create",
+  "dealer.update_settings",
+  "dealer.update_cashout_margin",
+  "dealer_float.transfer",
+  "commission.update_plan",
+  "commission.close",
+  "commission.approve",
+  "slip.cancel",
+  "slip.void_line",
+  "ledger.migrate",
+  "permissions.sync",
+  "wallet_request.approve",
+  "wallet_request.reject",
+];
@@ -0,0 +1,71 @@
+/**
+ * Dealer as placed in the hierarchy, with its float rolled up over its subtree
+ */
+export interface DealerTreeNode {
+  dealerId: string;
+  name: string;
+  parentDealerId?: string;
+  depth: number; // 0 for the roots of the tree
+  float: number;
+  networkFloat: number; // Own float plus the float of every dealer beneath it
+  children: DealerTreeNode[];
+}
+
+/**
+ * Ancestor path of a dealer created under a parent: the parent's ancestors, then the parent
+ */
+export function getAncestorDealerIds(parent?: {
+  dealerId: string;
+  ancestorDealerIds?: string[];
+}): string[] {
+  return parent ? [...(parent.ancestorDealerIds ?? []), parent.dealerId] : [];
+}
+
+/**
+ * Build the dealer tree from a flat list
+ * Dealers whose parent is not in the list become roots; children are sorted by name
+ */
+export function buildDealerTree(
+  dealers: { dealerId: string; name: string; parentDealerId?: string }[],
+  floats: Record<string, number>
+): DealerTreeNode[] {
+  const nodes = new Map<string, DealerTreeNode>(
+    dealers.map((dealer) => [
+      dealer.dealerId,
+      {
+        dealerId: dealer.dealerId,
+        name: dealer.name,
+        parentDealerId: dealer.parentDealerId,
+        depth: 0,
+        float: floats[dealer.dealerId] ?? 0,
+        networkFloat: 0,
+        children: [],
+      },
+    ])
+  );
+
+  const roots: DealerTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentDealerId ? nodes.get(node.parentDealerId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const finish = (node: DealerTreeNode, depth: number): number => {
+    node.depth = depth;
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.networkFloat =
+      node.float + node.children.reduce((sum, child) => sum + finish(child, depth + 1), 0);
+    return node.networkFloat;
+  };
+  roots.sort((a, b) => a.name.localeCompare(b.name));
+  roots.forEach((root) => finish(root, 0));
+
+  return roots;
+}
+
+/**
+ * Tree nodes in display order (each dealer followed by its subtree)
+ */
+export function flattenDealerTree(roots: DealerTreeNode[]): DealerTreeNode[] {
+  return roots.flatMap((root) => [root, ...flattenDealerTree(root.children)]);
+}
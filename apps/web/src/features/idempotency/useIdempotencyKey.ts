@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+
+/**
+ * Client-generated idempotency key for a money-moving submission
+ * getKey() returns the same key for repeated submits of the same inputs (double-clicks, retries
+ * after a network error), so the server answers them with the original result. A new key is
+ * generated when the inputs change or after renew(), called once a submission succeeded
+ */
+export function useIdempotencyKey(inputs: unknown[]): {
+  getKey: () => string;
+  renew: () => void;
+} {
+  const current = useRef<{ signature: string; key: string } | null>(null);
+  const signature = JSON.stringify(inputs);
+
+  const getKey = useCallback(() => {
+    if (!current.current || current.current.signature !== signature) {
+      current.current = { signature, key: crypto.randomUUID() };
+    }
+    return current.current.key;
+  }, [signature]);
+
+  const renew = useCallback(() => {
+    current.current = null;
+  }, []);
+
+  return { getKey, renew };
+}
@@ -0,0 +1,167 @@
+import type {
+  LedgerAccountType,
+  LedgerEntryDocument,
+  LedgerEntryKind,
+  LedgerPosting,
+} from "@/server/repositories/types";
+
+export const LEDGER_ENTRY_KINDS: LedgerEntryKind[] = [
+  "deposit",
+  "withdrawal",
+  "withdrawal_hold",
+  "withdrawal_release",
+  "float_transfer",
+  "stake",
+  "settlement",
+  "refund",
+  "cashout",
+  "adjustment",
+  "commission",
+];
+
+/**
+ * Ledger account IDs
+ */
+export const ledgerAccounts = {
+  house: (): string => "house",
+  userWallet: (uid: string): string => `user:${uid}`,
+  dealerFloat: (dealerId: string): string => `float:${dealerId}`,
+  stakesInPlay: (dealerId: string): string => `stakes:${dealerId}`,
+  payouts: (dealerId: string): string => `payouts:${dealerId}`, // Only on older settlement entries
+  pendingWithdrawals: (dealerId: string): string => `withdrawals:${dealerId}`,
+};
+
+const PREFIX_TYPES: Record<string, LedgerAccountType> = {
+  user: "user_wallet",
+  float: "dealer_float",
+  stakes: "stakes_in_play",
+  payouts: "payouts",
+  withdrawals: "pending_withdrawals",
+};
+
+/**
+ * Parse a ledger account ID into its type and owner (uid or dealerId)
+ */
+export function parseLedgerAccount(account: string): { type: LedgerAccountType; ownerId?: string } {
+  if (account === "house") {
+    return { type: "house" };
+  }
+  const separator = account.indexOf(":");
+  const type = PREFIX_TYPES[account.slice(0, separator)];
+  if (separator < 0 || !type) {
+    throw new Error(`Unknown ledger account: ${account}`);
+  }
+  return { type, ownerId: account.slice(separator + 1) };
+}
+
+/**
+ * Human-readable label of a ledger account
+ */
+export function formatLedgerAccount(account: string): string {
+  const { type, ownerId } = parseLedgerAccount(account);
+  switch (type) {
+    case "house":
+      return "House";
+    case "user_wallet":
+      return ownerId!;
+    case "dealer_float":
+      return `Float (${ownerId})`;
+    case "stakes_in_play":
+      return `Stakes in play (${ownerId})`;
+    case "payouts":
+      return `Payouts (${ownerId})`;
+    case "pending_withdrawals":
+      return `Pending withdrawals (${ownerId})`;
+  }
+}
+
+/**
+ * Net amount an entry posts to an account (0 when the account is not part of the entry)
+ */
+export function getPostingAmount(
+  entry: Pick<LedgerEntryDocument, "postings">,
+  account: string
+): number {
+  return entry.postings
+    .filter((posting) => posting.account === account)
+    .reduce((acc, posting) => acc + posting.amount, 0);
+}
+
+/**
+ * Postings that close a won, lost or cashed-out slip
+ * The stake leaves stakes in play and the payout goes to the user; the dealer's float takes the
+ * difference, so a winning slip charges the float the winnings instead of crediting the stake
+ */
+export function slipPayoutPostings(
+  slip: { userId: string; dealerId: string; stake: number },
+  payout: number
+): LedgerPosting[] {
+  const floatAmount = Math.round((slip.stake - payout) * 100) / 100;
+  return [
+    { account: ledgerAccounts.stakesInPlay(slip.dealerId), amount: -slip.stake },
+    ...(floatAmount !== 0
+      ? [{ account: ledgerAccounts.dealerFloat(slip.dealerId), amount: floatAmount }]
+      : []),
+    ...(payout > 0 ? [{ account: ledgerAccounts.userWallet(slip.userId), amount: payout }] : []),
+  ];
+}
+
+/**
+ * Amount a settlement or cash-out entry paid to user wallets
+ */
+export function getEntryPayout(entry: Pick<LedgerEntryDocument, "postings">): number {
+  return entry.postings
+    .filter(
+      (posting) => posting.amount > 0 && parseLedgerAccount(posting.account).type === "user_wallet"
+    )
+    .reduce((acc, posting) => acc + posting.amount, 0);
+}
+
+/**
+ * Balance of an account from its ledger entries
+ */
+export function computeAccountBalance(
+  account: string,
+  entries: Pick<LedgerEntryDocument, "postings">[]
+): number {
+  const balance = entries.reduce((acc, entry) => acc + getPostingAmount(entry, account), 0);
+  return Math.round(balance * 100) / 100;
+}
+
+/**
+ * Gross amount of an entry (sum of its positive postings)
+ */
+export function getEntryAmount(entry: Pick<LedgerEntryDocument, "postings">): number {
+  return entry.postings.reduce((acc, posting) => acc + Math.max(posting.amount, 0), 0);
+}
+
+/**
+ * Validate that postings balance (sum to zero) and every amount is a finite, non-zero number
+ */
+export function assertBalancedPostings(postings: LedgerPosting[]): void {
+  if (postings.length < 2) {
+    throw new Error("Ledger entry needs at least two postings");
+  }
+  if (postings.some((posting) => !Number.isFinite(posting.amount) || posting.amount === 0)) {
+    throw new Error("Ledger postings must be non-zero amounts");
+  }
+  const sum = postings.reduce((acc, posting) => acc + posting.amount, 0);
+  if (Math.abs(sum) >= 0.005) {
+    throw new Error(`Ledger postings do not balance (${sum.toFixed(2)})`);
+  }
+}
+
+/**
+ * Accounts an entry draws from (negative postings) and pays into (positive postings)
+ */
+export function getEntryParties(entry: Pick<LedgerEntryDocument, "postings">): {
+  from: string[];
+  to: string[];
+} {
+  const from = new Set<string>();
+  const to = new Set<string>();
+  for (const posting of entry.postings) {
+    (posting.amount < 0 ? from : to).add(posting.account);
+  }
+  return { from: Array.from(from), to: Array.from(to) };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { LiveFixtureDTO, LiveOddsUpdate, MarketOdds, OddsDTO } from "@repo/shared/types";
+
+const STREAM_URL = "/api/stream/live";
+
+/**
+ * Delay before reopening a stream the browser gave up on (e.g. after an error response)
+ */
+const REOPEN_DELAY_MS = 30 * 1000;
+
+function selectionKey(market: MarketOdds): string {
+  return `${market.marketId ?? ""}|${market.market}|${market.selection}|${market.line ?? ""}`;
+}
+
+/**
+ * Replace listed fixtures with their streamed versions
+ * A fixture missing from the list (e.g. one that just kicked off) triggers a refetch instead
+ */
+function patchFixtures(queryClient: QueryClient, fixtures: LiveFixtureDTO[]): void {
+  let hasUnlisted = false;
+  queryClient.setQueryData<LiveFixtureDTO[]>(["livescores"], (current) => {
+    if (!current) {
+      return current;
+    }
+    const updates = new Map(fixtures.map((fixture) => [String(fixture.fixtureId), fixture]));
+    const next = current.map((fixture) => {
+      const update = updates.get(String(fixture.fixtureId));
+      if (!update) {
+        return fixture;
+      }
+      updates.delete(String(fixture.fixtureId));
+      return { ...fixture, ...update };
+    });
+    hasUnlisted = updates.size > 0;
+    return next;
+  });
+
+  if (hasUnlisted) {
+    void queryClient.invalidateQueries({ queryKey: ["livescores"] });
+  }
+}
+
+/**
+ * Replace changed selections in the cached in-play odds of each fixture
+ * Fixtures whose odds were never loaded are skipped; their rows fetch the full odds when shown
+ */
+function patchOdds(queryClient: QueryClient, updates: LiveOddsUpdate[]): void {
+  for (const update of updates) {
+    queryClient.setQueryData<OddsDTO>(["odds", "inplay", update.fixtureId], (current) => {
+      if (!current) {
+        return current;
+      }
+      const changed = new Map(update.markets.map((market) => [selectionKey(market), market]));
+      const markets = current.markets.map((market) => {
+        const key = selectionKey(market);
+        const replacement = changed.get(key);
+        if (!replacement) {
+          return market;
+        }
+        changed.delete(key);
+        return replacement;
+      });
+      return { ...current, markets: [...markets, ...changed.values()] };
+    });
+  }
+}
+
+/**
+ * Keep the live fixtures and in-play odds queries up to date from /api/stream/live
+ * Returns whether the stream is connected, so callers can poll less often while it is
+ */
+export function useLiveStream(): boolean {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reopenTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+      source = new EventSource(STREAM_URL);
+      source.onopen = () => setConnected(true);
+      source.onerror = () => {
+        setConnected(false);
+        // The browser retries dropped connections itself but gives up after an error response
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          reopenTimer = setTimeout(open, REOPEN_DELAY_MS);
+        }
+      };
+      source.addEventListener("fixtures", (event) => {
+        patchFixtures(queryClient, JSON.parse((event as MessageEvent<string>).data));
+      });
+      source.addEventListener("odds", (event) => {
+        patchOdds(queryClient, JSON.parse((event as MessageEvent<string>).data));
+      });
+    };
+
+    open();
+
+    return () => {
+      clearTimeout(reopenTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [queryClient]);
+
+  return connected;
+}
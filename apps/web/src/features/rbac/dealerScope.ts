@@ -0,0 +1,39 @@
+import "server-only";
+import type { AuthUser } from "@/lib/auth/serverAuth";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import type { Role } from "./types";
+
+/**
+ * Whether a dealer falls within another dealer's scope
+ * A dealer's scope is itself and every dealer beneath it in the hierarchy
+ */
+export async function isDealerInScope(
+  scopeDealerId: string | undefined,
+  dealerId: string | undefined
+): Promise<boolean> {
+  if (!scopeDealerId || !dealerId) {
+    return false;
+  }
+  if (scopeDealerId === dealerId) {
+    return true;
+  }
+  const dealer = await getDealer(dealerId);
+  return dealer?.ancestorDealerIds?.includes(scopeDealerId) ?? false;
+}
+
+/**
+ * Whether a caller's scope covers every dealer (superadmin)
+ */
+export function hasGlobalScope(caller: AuthUser): boolean {
+  return (caller.role as Role | undefined) === "superadmin";
+}
+
+/**
+ * Whether a caller can manage a dealer: global scope, or a dealer whose scope includes it
+ */
+export async function canManageDealer(caller: AuthUser, dealerId: string | undefined) {
+  if (hasGlobalScope(caller)) {
+    return true;
+  }
+  return isDealerInScope(caller.dealerId as string | undefined, dealerId);
+}
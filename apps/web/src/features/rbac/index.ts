@@ -1,4 +1,7 @@
 export * from "./types";
+export * from "./permissions";
 export * from "./requireRole";
+export * from "./requirePermission";
 export * from "./requireDealerScope";
+export * from "./dealerScope";
 export * from "./useRole";
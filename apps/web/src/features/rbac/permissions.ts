@@ -0,0 +1,100 @@
+import type { Role } from "./types";
+
+/**
+ * Every permission an account can hold
+ */
+export const PERMISSIONS = [
+  "user.view",
+  "user.create",
+  "user.ban",
+  "user.permissions",
+  "wallet.credit",
+  "wallet.debit",
+  "float.view",
+  "float.transfer",
+  "ledger.view",
+  "ledger.migrate",
+  "slip.view",
+  "slip.void",
+  "liability.view",
+  "reports.export",
+  "dealer.manage",
+  "dealer.settings",
+  "staff.manage",
+  "commission.view",
+  "commission.manage",
+  "audit.view",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions each role holds by default
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  superadmin: PERMISSIONS,
+  dealer: [
+    "user.view",
+    "user.create",
+    "user.ban",
+    "wallet.credit",
+    "wallet.debit",
+    "float.view",
+    "ledger.view",
+    "slip.view",
+    "slip.void",
+    "liability.view",
+    "reports.export",
+    "dealer.settings",
+    "staff.manage",
+    "commission.view",
+  ],
+  staff: [], // Granted per account
+  user: [],
+};
+
+/**
+ * Starting points for a staff account's permissions
+ */
+export const STAFF_PRESETS: Record<"cashier" | "view_only", readonly Permission[]> = {
+  cashier: ["user.view", "wallet.credit", "float.view", "slip.view"],
+  view_only: ["user.view", "float.view", "ledger.view", "slip.view", "liability.view"],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Effective permissions of an account: its role's defaults plus any granted individually
+ */
+export function getPermissions(role: unknown, grants?: unknown): Permission[] {
+  const defaults = ROLE_PERMISSIONS[role as Role] ?? [];
+  const granted = Array.isArray(grants) ? grants.filter(isPermission) : [];
+  return PERMISSIONS.filter(
+    (permission) => defaults.includes(permission) || granted.includes(permission)
+  );
+}
+
+/**
+ * Whether an account's claims carry a permission
+ * Role defaults always apply, so tokens issued before permissions were mirrored still work
+ */
+export function hasPermission(claims: Record<string, unknown>, permission: Permission): boolean {
+  return getPermissions(claims.role, claims.permissions).includes(permission);
+}
+
+/**
+ * Custom claims for an account, with its effective permissions mirrored for firestore.rules
+ */
+export function buildUserClaims(
+  role: Role,
+  dealerId?: string,
+  grants?: Permission[]
+): { role: Role; dealerId?: string; permissions: Permission[] } {
+  return {
+    role,
+    ...(dealerId && { dealerId }),
+    permissions: getPermissions(role, grants),
+  };
+}
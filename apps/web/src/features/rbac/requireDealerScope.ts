@@ -1,13 +1,14 @@
 import "server-only";
 import { redirect } from "next/navigation";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { isDealerInScope } from "./dealerScope";
 import type { Role } from "./types";
 
 /**
  * Require access to a specific dealer scope
  * Allows access if:
  * - User is superadmin, OR
- * - User's dealerId claim matches the requested dealerId
+ * - User's dealerId claim matches the requested dealerId or one of its ancestors
  * Redirects to login if not authenticated, throws error if access denied
  */
 export async function requireDealerScope(dealerId: string) {
@@ -25,8 +26,8 @@ export async function requireDealerScope(dealerId: string) {
     return user;
   }
 
-  // Check if user's dealerId matches the requested dealerId
-  if (!userDealerId || userDealerId !== dealerId) {
+  // Check if the requested dealer is the user's dealer or one beneath it
+  if (!(await isDealerInScope(userDealerId, dealerId))) {
     throw new Error(`Access denied: No access to dealer '${dealerId}'`);
   }
 
@@ -0,0 +1,36 @@
+import "server-only";
+import { redirect } from "next/navigation";
+import { getServerAuthUser, type AuthUser } from "@/lib/auth/serverAuth";
+import { hasPermission, type Permission } from "./permissions";
+
+interface RequirePermissionOptions {
+  redirectTo?: string; // Pages: redirect to login when signed out, here when the permission is missing
+}
+
+/**
+ * Require a permission from the authenticated user
+ * Throws "Unauthorized" when signed out and "Access denied" when the permission is missing,
+ * unless redirectTo is given (pages)
+ */
+export async function requirePermission(
+  permission: Permission,
+  options?: RequirePermissionOptions
+): Promise<AuthUser> {
+  const user = await getServerAuthUser();
+
+  if (!user) {
+    if (options?.redirectTo) {
+      redirect("/login");
+    }
+    throw new Error("Unauthorized");
+  }
+
+  if (!hasPermission(user, permission)) {
+    if (options?.redirectTo) {
+      redirect(options.redirectTo);
+    }
+    throw new Error(`Access denied: Requires permission '${permission}'`);
+  }
+
+  return user;
+}
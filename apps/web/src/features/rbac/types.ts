@@ -1,7 +1,8 @@
 /**
  * User role type for RBAC
+ * staff: a dealer's cashier or clerk, holding only the permissions granted to the account
  */
-export type Role = "superadmin" | "dealer" | "user";
+export type Role = "superadmin" | "dealer" | "staff" | "user";
 
 /**
  * User custom claims interface
@@ -9,4 +10,5 @@ export type Role = "superadmin" | "dealer" | "user";
 export interface UserClaims {
   role: Role;
   dealerId?: string;
+  permissions?: string[]; // Effective permissions, mirrored for firestore.rules
 }
@@ -0,0 +1,22 @@
+export type ReportCell = string | number;
+
+/**
+ * Escape a CSV cell (RFC 4180)
+ * Cells starting with a formula character are prefixed with a quote so spreadsheets
+ * do not evaluate them
+ */
+export function escapeCsvCell(value: ReportCell): string {
+  if (typeof value === "number") {
+    return String(value);
+  }
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV line, terminated by CRLF
+ */
+export function toCsvLine(cells: ReportCell[]): string {
+  return cells.map(escapeCsvCell).join(",") + "\r\n";
+}
@@ -0,0 +1,3 @@
+export * from "./periods";
+export * from "./csv";
+export * from "./xlsx";
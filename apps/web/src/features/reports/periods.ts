@@ -0,0 +1,38 @@
+export type ReportGranularity = "day" | "week" | "month";
+
+export interface PeriodRange {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+/**
+ * Period (UTC) containing a date
+ * Weeks start on Monday
+ */
+export function getPeriodRange(granularity: ReportGranularity, date: Date): PeriodRange {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (granularity) {
+    case "day":
+      return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) };
+    case "week": {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return {
+        start: new Date(Date.UTC(year, month, day - daysSinceMonday)),
+        end: new Date(Date.UTC(year, month, day - daysSinceMonday + 7)),
+      };
+    }
+    case "month":
+      return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+}
+
+/**
+ * Label of a period (start date as YYYY-MM-DD, YYYY-MM for months)
+ */
+export function formatPeriodLabel(granularity: ReportGranularity, range: PeriodRange): string {
+  const iso = range.start.toISOString();
+  return granularity === "month" ? iso.slice(0, 7) : iso.slice(0, 10);
+}
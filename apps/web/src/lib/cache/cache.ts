@@ -1,21 +1,44 @@
+import "server-only";
+import { RedisCacheBackend } from "./redis";
+
 /**
- * In-memory TTL cache implementation
- * Pluggable design - can be replaced with Redis later
+ * Cache backends
+ * The in-memory backend is per server instance; set REDIS_URL (redis:// or rediss://) to share one
+ * Redis-protocol cache between every instance
  */
 
+export interface CacheBackend {
+  /**
+   * Get cached data by key; null if the key doesn't exist or has expired
+   */
+  get<T>(key: string): Promise<T | null>;
+  /**
+   * Set cached data with TTL (time to live in milliseconds)
+   */
+  set<T>(key: string, data: T, ttlMs: number): Promise<void>;
+  /**
+   * Set cached data only if the key doesn't exist; returns whether it was set
+   * Used as a short-lived lock between instances
+   */
+  setIfAbsent<T>(key: string, data: T, ttlMs: number): Promise<boolean>;
+  /**
+   * Delete a key
+   */
+  delete(key: string): Promise<void>;
+}
+
 export interface CacheEntry<T> {
   data: T;
   expiresAt: number;
 }
 
-class TTLCache {
+/**
+ * In-memory TTL cache (per server instance)
+ */
+export class MemoryCacheBackend implements CacheBackend {
   private cache = new Map<string, CacheEntry<unknown>>();
 
-  /**
-   * Get cached data by key
-   * Returns null if key doesn't exist or has expired
-   */
-  get<T>(key: string): T | null {
+  private read<T>(key: string): T | null {
     const entry = this.cache.get(key);
     if (!entry) {
       return null;
@@ -30,17 +53,29 @@ class TTLCache {
     return entry.data as T;
   }
 
-  /**
-   * Set cached data with TTL (time to live in milliseconds)
-   */
-  set<T>(key: string, data: T, ttl: number): void {
-    const expiresAt = Date.now() + ttl;
+  async get<T>(key: string): Promise<T | null> {
+    return this.read<T>(key);
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
     this.cache.set(key, {
       data,
-      expiresAt,
+      expiresAt: Date.now() + ttlMs,
     });
   }
 
+  async setIfAbsent<T>(key: string, data: T, ttlMs: number): Promise<boolean> {
+    if (this.read(key) !== null) {
+      return false;
+    }
+    await this.set(key, data, ttlMs);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
   /**
    * Clear expired entries from cache
    */
@@ -53,13 +88,6 @@ class TTLCache {
     }
   }
 
-  /**
-   * Clear all cache entries
-   */
-  clear(): void {
-    this.cache.clear();
-  }
-
   /**
    * Get cache size (number of entries)
    */
@@ -68,48 +96,65 @@ class TTLCache {
   }
 }
 
-// Singleton instance
-const cache = new TTLCache();
-
-// Periodic cleanup - clear expired entries every 5 minutes
-if (typeof setInterval !== "undefined") {
-  setInterval(() => {
-    cache.clearExpired();
-  }, 5 * 60 * 1000); // 5 minutes
-}
+let backend: CacheBackend | null = null;
 
 /**
- * Get cached data by key
+ * Shared cache backend (Redis when REDIS_URL is set, otherwise in-memory)
  */
-export function getCache<T>(key: string): T | null {
-  return cache.get<T>(key);
+export function getCacheBackend(): CacheBackend {
+  if (!backend) {
+    const redisUrl = process.env.REDIS_URL;
+    if (redisUrl) {
+      backend = new RedisCacheBackend(redisUrl);
+    } else {
+      const memory = new MemoryCacheBackend();
+      // Periodic cleanup - clear expired entries every 5 minutes
+      if (typeof setInterval !== "undefined") {
+        setInterval(() => {
+          memory.clearExpired();
+        }, 5 * 60 * 1000).unref?.();
+      }
+      backend = memory;
+    }
+  }
+  return backend;
 }
 
 /**
- * Set cached data with TTL (time to live in milliseconds)
+ * Replace the cache backend (e.g. with a MemoryCacheBackend or a local Redis in scripts)
  */
-export function setCache<T>(key: string, data: T, ttl: number): void {
-  cache.set(key, data, ttl);
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
 }
 
 /**
- * Clear expired cache entries
+ * Get cached data by key
+ * A failing backend counts as a miss, so callers fall back to the source
  */
-export function clearExpiredCache(): void {
-  cache.clearExpired();
+export async function getCache<T>(key: string): Promise<T | null> {
+  try {
+    return await getCacheBackend().get<T>(key);
+  } catch (error) {
+    console.error(`[cache] Error reading ${key}:`, error);
+    return null;
+  }
 }
 
 /**
- * Clear all cache entries
+ * Set cached data with TTL (time to live in milliseconds)
+ * Failures are logged, not thrown
  */
-export function clearCache(): void {
-  cache.clear();
+export async function setCache<T>(key: string, data: T, ttl: number): Promise<void> {
+  try {
+    await getCacheBackend().set(key, data, ttl);
+  } catch (error) {
+    console.error(`[cache] Error writing ${key}:`, error);
+  }
 }
 
 /**
- * Get cache size
+ * Delete cached data by key
  */
-export function getCacheSize(): number {
-  return cache.size();
+export function deleteCache(key: string): Promise<void> {
+  return getCacheBackend().delete(key);
 }
-
@@ -0,0 +1,193 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+
+/**
+ * Fixture cache versions
+ * The fixtures sync job bumps cache_state/cacheVersion and records the fixtures it saw change under
+ * cache_state/cacheVersion/changes/{version}. Every instance follows those records and puts the
+ * versions into its cache keys, so a change drops the keys of the affected fixtures (and of fixture
+ * lists) while everything else keeps being served
+ * Fixtures without a change record are at the baseline version stored on cache_state/cacheVersion,
+ * which the sync job raises when it prunes old records, so every instance builds the same keys
+ */
+
+const CACHE_STATE_COLLECTION = "cache_state";
+const CACHE_VERSION_DOC_ID = "cacheVersion";
+const CHANGES_COLLECTION = "changes";
+
+const LOAD_TIMEOUT_MS = 2000;
+const RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Change record written by the sync job; all: true changes every fixture
+ */
+interface CacheChange {
+  version: number;
+  fixtureIds: number[];
+  all: boolean;
+}
+
+/**
+ * Cache version document written by the sync job
+ */
+interface CacheVersionState {
+  version?: number;
+  baselineVersion?: number;
+}
+
+let currentVersion = 0;
+// Version of every fixture without a change record
+let baselineVersion = 0;
+const fixtureVersions = new Map<number, number>();
+
+let loading: Promise<void> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+function stateDoc() {
+  return db.collection(CACHE_STATE_COLLECTION).doc(CACHE_VERSION_DOC_ID);
+}
+
+function changesCollection() {
+  return stateDoc().collection(CHANGES_COLLECTION);
+}
+
+/**
+ * Apply a change record
+ * Records may arrive out of order or twice, so versions only move forward
+ */
+function applyChange(change: CacheChange): void {
+  currentVersion = Math.max(currentVersion, change.version);
+
+  if (change.all) {
+    applyBaseline(change.version);
+    return;
+  }
+
+  for (const fixtureId of change.fixtureIds) {
+    if (change.version > Math.max(baselineVersion, fixtureVersions.get(fixtureId) ?? 0)) {
+      fixtureVersions.set(fixtureId, change.version);
+    }
+  }
+}
+
+/**
+ * Raise the baseline and forget the fixture versions it covers
+ */
+function applyBaseline(version: number): void {
+  if (version <= baselineVersion) {
+    return;
+  }
+  baselineVersion = version;
+  for (const [fixtureId, known] of fixtureVersions.entries()) {
+    if (known <= baselineVersion) {
+      fixtureVersions.delete(fixtureId);
+    }
+  }
+}
+
+function applyState(state: CacheVersionState | undefined): void {
+  currentVersion = Math.max(currentVersion, Number(state?.version ?? 0));
+  applyBaseline(Number(state?.baselineVersion ?? 0));
+}
+
+/**
+ * Read the baseline and replay every change record above it
+ * Records pruned in between are covered by the raised baseline the state listener delivers
+ */
+async function loadVersions(): Promise<void> {
+  const state = await stateDoc().get();
+  applyState(state.data() as CacheVersionState | undefined);
+
+  const changes = await changesCollection()
+    .where("version", ">", baselineVersion)
+    .orderBy("version")
+    .get();
+  changes.docs.forEach((doc) => applyChange(doc.data() as CacheChange));
+}
+
+/**
+ * Follow the baseline and new change records; the listeners are re-created after an error
+ */
+function subscribe(): void {
+  unsubscribe?.();
+
+  const onError = (error: Error) => {
+    if (!unsubscribe) {
+      return;
+    }
+    console.error("[cache] Cache version listener failed:", error);
+    unsubscribe();
+    unsubscribe = null;
+    setTimeout(subscribe, RETRY_DELAY_MS).unref?.();
+  };
+
+  const stopState = stateDoc().onSnapshot(
+    (snapshot) => applyState(snapshot.data() as CacheVersionState | undefined),
+    onError
+  );
+  const stopChanges = changesCollection()
+    .where("version", ">", currentVersion)
+    .onSnapshot((snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        if (change.type === "added") {
+          applyChange(change.doc.data() as CacheChange);
+        }
+      });
+    }, onError);
+
+  unsubscribe = () => {
+    stopState();
+    stopChanges();
+  };
+}
+
+/**
+ * Start following versions once per instance and wait briefly for the first load
+ * Until it completes keys use version 0; a failed load is retried after a delay
+ */
+async function ensureVersions(): Promise<void> {
+  if (!loading) {
+    loading = loadVersions()
+      .then(subscribe)
+      .catch((error) => {
+        console.error("[cache] Error loading cache versions:", error);
+        setTimeout(() => {
+          loading = null;
+        }, RETRY_DELAY_MS).unref?.();
+      });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    loading,
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, LOAD_TIMEOUT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Version of one fixture's data; changes only when the sync job reports that fixture
+ */
+export async function getFixtureCacheVersion(fixtureId: number): Promise<number> {
+  await ensureVersions();
+  return Math.max(baselineVersion, fixtureVersions.get(fixtureId) ?? 0);
+}
+
+/**
+ * Cache key tag of data spanning many fixtures (fixture lists, livescores); changes with every version
+ */
+export async function getCacheVersionTag(): Promise<string> {
+  await ensureVersions();
+  return `v${currentVersion}`;
+}
+
+/**
+ * Cache key tag of the given fixtures' data, e.g. "123@41,456@38"
+ */
+export async function getFixtureCacheTag(fixtureIds: number[]): Promise<string> {
+  const sorted = Array.from(new Set(fixtureIds)).sort((a, b) => a - b);
+  const versions = await Promise.all(sorted.map(getFixtureCacheVersion));
+  return sorted.map((fixtureId, index) => `${fixtureId}@${versions[index]}`).join(",");
+}
@@ -0,0 +1,81 @@
+import "server-only";
+import { createClient } from "redis";
+import type { CacheBackend } from "./cache";
+
+/**
+ * Redis cache backend
+ * Works with a local redis-server, managed Redis and any Redis-compatible server
+ * (redis://[user:password@]host:port[/db], rediss:// for TLS)
+ */
+
+const CONNECT_TIMEOUT_MS = 2000;
+const KEY_PREFIX = "cache:";
+
+/**
+ * Reconnect attempts before giving up on a connection; the next command connects again
+ */
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Cache backend storing JSON values in Redis with millisecond TTLs
+ * Commands sent while the connection is down fail immediately instead of queueing, so callers
+ * fall back to the source
+ */
+export class RedisCacheBackend implements CacheBackend {
+  private readonly client: RedisClient;
+  private connecting: Promise<unknown> | null = null;
+
+  constructor(url: string) {
+    this.client = createClient({
+      url,
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectStrategy: (retries, cause) =>
+          retries >= MAX_RECONNECT_ATTEMPTS ? cause : Math.min(100 * 2 ** retries, 1000),
+      },
+    });
+    this.client.on("error", (error: Error) => {
+      console.error("[cache] Redis connection error:", error.message);
+    });
+  }
+
+  private async connect(): Promise<RedisClient> {
+    if (!this.client.isOpen) {
+      this.connecting ??= this.client.connect().finally(() => {
+        this.connecting = null;
+      });
+      await this.connecting;
+    }
+    return this.client;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const client = await this.connect();
+    const reply = await client.get(KEY_PREFIX + key);
+    return reply === null ? null : (JSON.parse(reply) as T);
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    const client = await this.connect();
+    await client.set(KEY_PREFIX + key, JSON.stringify(data), {
+      PX: Math.max(1, Math.ceil(ttlMs)),
+    });
+  }
+
+  async setIfAbsent<T>(key: string, data: T, ttlMs: number): Promise<boolean> {
+    const client = await this.connect();
+    const reply = await client.set(KEY_PREFIX + key, JSON.stringify(data), {
+      PX: Math.max(1, Math.ceil(ttlMs)),
+      NX: true,
+    });
+    return reply === "OK";
+  }
+
+  async delete(key: string): Promise<void> {
+    const client = await this.connect();
+    await client.del(KEY_PREFIX + key);
+  }
+}
@@ -0,0 +1,126 @@
+import "server-only";
+import { getCache, getCacheBackend, setCache } from "./cache";
+
+/**
+ * Stale-while-revalidate cache with request coalescing on top of the shared cache backend
+ */
+
+export interface CachePolicy {
+  ttlMs: number; // Served as fresh for this long
+  staleMs: number; // Then served stale for this long while one caller refreshes it in the background
+}
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+interface SwrEntry<T> {
+  data: T;
+  freshUntil: number;
+}
+
+/**
+ * How long an instance may hold the refresh lock of a key
+ * Other instances missing the same key wait for its result up to this long
+ */
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_POLL_MS = 100;
+
+/**
+ * Loads in progress in this instance, so concurrent misses for a key share one upstream call
+ */
+const inflight = new Map<string, Promise<SwrEntry<unknown>>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Load a key and store it, once per instance at a time
+ * Across instances the refresh lock elects one loader. When another instance holds it, a stale
+ * entry is kept as is; without one the caller waits for the other instance's entry and only loads
+ * itself if it doesn't appear in time
+ */
+function load<T>(
+  key: string,
+  policy: CachePolicy,
+  loader: () => Promise<T>,
+  stale: SwrEntry<T> | null
+): Promise<SwrEntry<T>> {
+  const existing = inflight.get(key);
+  if (existing) {
+    return existing as Promise<SwrEntry<T>>;
+  }
+
+  const promise = (async (): Promise<SwrEntry<T>> => {
+    const backend = getCacheBackend();
+    const lockKey = `${key}:lock`;
+
+    let locked = true;
+    try {
+      locked = await backend.setIfAbsent(lockKey, Date.now(), LOCK_TTL_MS);
+    } catch (error) {
+      console.error(`[cache] Error locking ${key}:`, error);
+    }
+
+    if (!locked && stale) {
+      return stale;
+    }
+    if (!locked) {
+      for (let waited = 0; waited < LOCK_TTL_MS; waited += LOCK_POLL_MS) {
+        await sleep(LOCK_POLL_MS);
+        const entry = await getCache<SwrEntry<T>>(key);
+        if (entry && entry.freshUntil > Date.now()) {
+          return entry;
+        }
+      }
+    }
+
+    try {
+      const entry: SwrEntry<T> = { data: await loader(), freshUntil: Date.now() + policy.ttlMs };
+      await setCache(key, entry, policy.ttlMs + policy.staleMs);
+      return entry;
+    } finally {
+      if (locked) {
+        backend.delete(lockKey).catch(() => undefined);
+      }
+    }
+  })();
+
+  inflight.set(key, promise);
+  promise.then(
+    () => inflight.delete(key),
+    () => inflight.delete(key)
+  );
+  return promise;
+}
+
+/**
+ * Get a value through the cache
+ * Fresh entries are returned as is. Stale entries are returned immediately and refreshed in the
+ * background (a failed refresh keeps the stale entry). Misses load the value; concurrent misses for
+ * the same key share one load. Loader errors are not cached and propagate to every waiting caller
+ */
+export async function cached<T>(
+  key: string,
+  policy: CachePolicy,
+  loader: () => Promise<T>
+): Promise<{ data: T; status: CacheStatus }> {
+  // A failing backend counts as a miss, so callers still get data
+  const entry = await getCache<SwrEntry<T>>(key);
+
+  if (entry && entry.freshUntil > Date.now()) {
+    return { data: entry.data, status: "hit" };
+  }
+
+  if (entry) {
+    // Only one instance refreshes; the others keep serving the stale entry
+    if (!inflight.has(key)) {
+      load(key, policy, loader, entry).catch((error) => {
+        console.error(`[cache] Error refreshing ${key}:`, error);
+      });
+    }
+    return { data: entry.data, status: "stale" };
+  }
+
+  const loaded = await load(key, policy, loader, null);
+  return { data: loaded.data, status: "miss" };
+}
@@ -0,0 +1,142 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { cached, type CachePolicy } from "@/lib/cache/swr";
+import { getCacheVersionTag, getFixtureCacheTag } from "@/lib/cache/cacheVersion";
+
+/**
+ * Shared caching for /api/sm route handlers
+ * Responses are cached per route policy, path and query in the shared cache backend, so every
+ * server instance serves the same entry and concurrent misses make one SportMonks call
+ * Fixture, livescore and odds keys also carry the fixture cache version, so entries are dropped as
+ * soon as the sync job reports a change: per fixture when the request names one, otherwise on any change
+ */
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * TTL policies by how quickly the data changes
+ */
+export const SM_CACHE_POLICIES = {
+  // Countries, leagues, seasons, stages, rounds, types and states
+  reference: { ttlMs: 6 * HOUR, staleMs: 24 * HOUR },
+  // Teams, players and squads
+  entity: { ttlMs: HOUR, staleMs: 6 * HOUR },
+  standings: { ttlMs: 10 * MINUTE, staleMs: HOUR },
+  // Fixture lists and single fixtures (scores and states of live fixtures come from livescores)
+  fixtures: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  livescores: { ttlMs: 5 * SECOND, staleMs: 15 * SECOND },
+  prematchOdds: { ttlMs: 30 * SECOND, staleMs: 2 * MINUTE },
+  inplayOdds: { ttlMs: 3 * SECOND, staleMs: 10 * SECOND },
+  // Recorded price movement; new snapshots arrive with every ingestion pass
+  oddsHistory: { ttlMs: 30 * SECOND, staleMs: MINUTE },
+  // "Latest" feeds return only what changed in the last seconds, so they are never served stale
+  latest: { ttlMs: 2 * SECOND, staleMs: 0 },
+} satisfies Record<string, CachePolicy>;
+
+export type SmCachePolicy = keyof typeof SM_CACHE_POLICIES;
+
+/**
+ * Policies whose data changes with fixtures
+ */
+const VERSIONED_POLICIES = new Set<SmCachePolicy>([
+  "fixtures",
+  "livescores",
+  "prematchOdds",
+  "inplayOdds",
+  "latest",
+]);
+
+interface CachedResponse {
+  status: number;
+  body: string;
+  contentType: string | null;
+}
+
+/**
+ * Non-2xx handler response; passed through to the caller and never cached
+ */
+class UncachedResponseError extends Error {
+  constructor(readonly response: CachedResponse) {
+    super(`Uncached response (${response.status})`);
+  }
+}
+
+/**
+ * Fixtures a request is about: the fixtureId query parameter or a /fixtures/{id} or
+ * /by-fixture/{id} path segment
+ */
+function requestFixtureIds(request: NextRequest): number[] {
+  const fromQuery = request.nextUrl.searchParams.get("fixtureId");
+  const fromPath = request.nextUrl.pathname.match(/\/(?:fixtures|by-fixture)\/(\d+)(?:\/|$)/)?.[1];
+  return (fromQuery ?? fromPath ?? "")
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Cache key of a request: policy, path and query parameters in a stable order, plus the version tag
+ * of versioned policies
+ */
+async function requestCacheKey(policy: SmCachePolicy, request: NextRequest): Promise<string> {
+  const params = Array.from(request.nextUrl.searchParams.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const key = `sm:${policy}:${request.nextUrl.pathname}?${params}`;
+
+  if (!VERSIONED_POLICIES.has(policy)) {
+    return key;
+  }
+  const fixtureIds = requestFixtureIds(request);
+  const tag =
+    fixtureIds.length > 0 ? await getFixtureCacheTag(fixtureIds) : await getCacheVersionTag();
+  return `${key}#${tag}`;
+}
+
+function toResponse(cachedResponse: CachedResponse, cacheStatus: string): NextResponse {
+  const headers = new Headers({ "X-Cache": cacheStatus });
+  if (cachedResponse.contentType) {
+    headers.set("Content-Type", cachedResponse.contentType);
+  }
+  return new NextResponse(cachedResponse.body, { status: cachedResponse.status, headers });
+}
+
+/**
+ * Wrap an /api/sm GET handler with the shared cache
+ * Successful responses are cached under the route's policy with stale-while-revalidate; error
+ * responses pass through uncached. X-Cache reports hit, stale, miss or bypass
+ */
+export function withSmCache<C>(
+  policy: SmCachePolicy,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    try {
+      const { data, status } = await cached(
+        await requestCacheKey(policy, request),
+        SM_CACHE_POLICIES[policy],
+        async (): Promise<CachedResponse> => {
+          const response = await handler(request, context);
+          const result = {
+            status: response.status,
+            body: await response.text(),
+            contentType: response.headers.get("Content-Type"),
+          };
+          if (!response.ok) {
+            throw new UncachedResponseError(result);
+          }
+          return result;
+        }
+      );
+      return toResponse(data, status);
+    } catch (error) {
+      if (error instanceof UncachedResponseError) {
+        return toResponse(error.response, "bypass");
+      }
+      throw error;
+    }
+  };
+}
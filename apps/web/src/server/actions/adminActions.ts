@@ -2,21 +2,34 @@
 
 import { z } from "zod";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import { createDealer as createDealerDoc } from "@/server/repositories/dealers.repository";
-import { createUser as createUserDoc } from "@/server/repositories/users.repository";
+import {
+  createDealer as createDealerDoc,
+  getDealer,
+  updateDealer as updateDealerDoc,
+} from "@/server/repositories/dealers.repository";
+import { createUser as createUserDoc, listAllUsers } from "@/server/repositories/users.repository";
+import {
+  migrateLegacyTransactions,
+  type LedgerMigrationResult,
+} from "@/server/services/ledgerMigrationService";
+import { recordAuditLog } from "@/server/services/auditService";
 import { auth } from "@/lib/firebase-admin/admin";
-import type { Role } from "@/features/rbac/types";
+import { getAncestorDealerIds } from "@/features/dealers";
+import { canManageDealer, hasGlobalScope } from "@/features/rbac/dealerScope";
+import { buildUserClaims, getPermissions, hasPermission } from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
 
 // Zod schemas
 const DealerIdSchema = z.string().min(1).regex(/^[a-zA-Z0-9_-]+$/, "Invalid dealerId format");
 const NameSchema = z.string().min(1).max(200, "Name must be at most 200 characters");
 const EmailSchema = z.string().email("Invalid email format");
 const PasswordSchema = z.string().min(6, "Password must be at least 6 characters");
-const RoleSchema = z.enum(["superadmin", "dealer", "user"]);
+const RoleSchema = z.enum(["superadmin", "dealer", "staff", "user"]);
 
 const CreateDealerActionSchema = z.object({
   dealerId: DealerIdSchema,
   name: NameSchema,
+  parentDealerId: DealerIdSchema.optional(),
 });
 
 const CreateUserActionSchema = z.object({
@@ -26,6 +39,11 @@ const CreateUserActionSchema = z.object({
   dealerId: z.string().optional(),
 });
 
+const UpdateDealerCashoutMarginActionSchema = z.object({
+  dealerId: DealerIdSchema,
+  cashoutMargin: z.number().min(0, "Margin cannot be negative").max(0.5, "Margin must be at most 50%"),
+});
+
 export interface CreateDealerActionResult {
   success: boolean;
   dealerId?: string;
@@ -39,8 +57,8 @@ export interface CreateUserActionResult {
 }
 
 /**
- * Server action to create a dealer (superadmin only)
- * Validates superadmin role and creates dealer document
+ * Server action to create a dealer (dealer.manage)
+ * Creates the dealer document, optionally under a parent dealer
  */
 export async function createDealerAction(
   params: z.infer<typeof CreateDealerActionSchema>
@@ -50,22 +68,34 @@ export async function createDealerAction(
     const validated = CreateDealerActionSchema.parse(params);
 
     // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
+    const caller = await requirePermission("dealer.manage");
 
-    // Only superadmin can create dealers
-    if (callerRole !== "superadmin") {
-      return { success: false, error: "Access denied: Only superadmin can create dealers" };
+    // A sub-dealer stores its parent and the full path of dealers above it
+    let hierarchy = {};
+    if (validated.parentDealerId) {
+      const parent = await getDealer(validated.parentDealerId);
+      if (!parent) {
+        return { success: false, error: "Parent dealer not found" };
+      }
+      hierarchy = {
+        parentDealerId: validated.parentDealerId,
+        ancestorDealerIds: getAncestorDealerIds({ dealerId: validated.parentDealerId, ...parent }),
+      };
     }
 
     // Create dealer document in Firestore
     await createDealerDoc(validated.dealerId, {
       name: validated.name,
       createdBy: caller.uid,
+      ...hierarchy,
+    });
+
+    await recordAuditLog(caller, {
+      action: "dealer.create",
+      targetType: "dealer",
+      targetId: validated.dealerId,
+      dealerId: validated.dealerId,
+      after: { name: validated.name, parentDealerId: validated.parentDealerId },
     });
 
     return { success: true, dealerId: validated.dealerId };
@@ -86,9 +116,8 @@ export async function createDealerAction(
 }
 
 /**
- * Server action to create a user (superadmin only)
- * Validates superadmin role and creates user in Auth and Firestore
- * Can assign dealerId (optional)
+ * Server action to create a user with any role (user.create)
+ * Creates the user in Auth and Firestore; can assign dealerId (optional)
  */
 export async function createUserActionAdmin(
   params: z.infer<typeof CreateUserActionSchema>
@@ -97,17 +126,28 @@ export async function createUserActionAdmin(
     // Validate input
     const validated = CreateUserActionSchema.parse(params);
 
-    // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
+    // Get caller and validate RBAC and dealer scope
+    const caller = await requirePermission("user.create");
+    const inScope = validated.dealerId
+      ? await canManageDealer(caller, validated.dealerId)
+      : hasGlobalScope(caller);
+    if (!inScope) {
+      return { success: false, error: "Access denied: Can only create users in your dealer scope" };
     }
 
-    const callerRole = caller.role as Role | undefined;
+    if (validated.role === "staff" && !validated.dealerId) {
+      return { success: false, error: "Staff accounts need a dealer" };
+    }
 
-    // Only superadmin can use this action
-    if (callerRole !== "superadmin") {
-      return { success: false, error: "Access denied: Only superadmin can create users" };
+    // No account can be given permissions its creator does not hold
+    const notHeld = getPermissions(validated.role).filter(
+      (permission) => !hasPermission(caller, permission)
+    );
+    if (notHeld.length > 0) {
+      return {
+        success: false,
+        error: `Access denied: Cannot create a ${validated.role} (missing ${notHeld.join(", ")})`,
+      };
     }
 
     // Create user in Firebase Auth
@@ -116,17 +156,11 @@ export async function createUserActionAdmin(
       password: validated.password,
     });
 
-    // Set custom claims based on role
-    const claims: { role: Role; dealerId?: string } = { role: validated.role };
-    
-    if (validated.role === "dealer" && validated.dealerId) {
-      claims.dealerId = validated.dealerId;
-    } else if (validated.dealerId) {
-      // If user belongs to a dealer, set dealerId
-      claims.dealerId = validated.dealerId;
-    }
-
-    await auth.setCustomUserClaims(userRecord.uid, claims);
+    // Set custom claims based on role, with the role's permissions mirrored
+    await auth.setCustomUserClaims(
+      userRecord.uid,
+      buildUserClaims(validated.role, validated.dealerId)
+    );
 
     // Create user document in Firestore
     await createUserDoc(userRecord.uid, {
@@ -135,6 +169,19 @@ export async function createUserActionAdmin(
       status: "active",
     });
 
+    await recordAuditLog(caller, {
+      action: "user.create",
+      targetType: "user",
+      targetId: userRecord.uid,
+      dealerId: validated.dealerId,
+      after: {
+        email: validated.email,
+        role: validated.role,
+        dealerId: validated.dealerId,
+        status: "active",
+      },
+    });
+
     return { success: true, uid: userRecord.uid };
   } catch (error) {
     console.error("Error creating user:", error);
@@ -155,3 +202,128 @@ export async function createUserActionAdmin(
   }
 }
 
+export interface UpdateDealerCashoutMarginActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Server action to set a dealer's cash-out margin (dealer.manage)
+ * cashoutMargin is a fraction (0.05 = 5%) taken off the fair cash-out value
+ */
+export async function updateDealerCashoutMarginAction(
+  params: z.infer<typeof UpdateDealerCashoutMarginActionSchema>
+): Promise<UpdateDealerCashoutMarginActionResult> {
+  try {
+    const validated = UpdateDealerCashoutMarginActionSchema.parse(params);
+
+    const caller = await requirePermission("dealer.manage");
+
+    const dealer = await getDealer(validated.dealerId);
+    await updateDealerDoc(validated.dealerId, { cashoutMargin: validated.cashoutMargin });
+
+    await recordAuditLog(caller, {
+      action: "dealer.update_cashout_margin",
+      targetType: "dealer",
+      targetId: validated.dealerId,
+      dealerId: validated.dealerId,
+      before: { cashoutMargin: dealer?.cashoutMargin },
+      after: { cashoutMargin: validated.cashoutMargin },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating dealer cash-out margin:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface MigrateLedgerActionResult {
+  success: boolean;
+  result?: LedgerMigrationResult;
+  error?: string;
+}
+
+/**
+ * Server action to migrate legacy transactions to the double-entry ledger (ledger.migrate)
+ */
+export async function migrateLedgerAction(): Promise<MigrateLedgerActionResult> {
+  try {
+    const result = await migrateLegacyTransactions();
+
+    const caller = await getServerAuthUser();
+    if (caller) {
+      await recordAuditLog(caller, {
+        action: "ledger.migrate",
+        targetType: "ledger",
+        targetId: "ledger",
+        after: { ...result },
+      });
+    }
+
+    return { success: true, result };
+  } catch (error) {
+    console.error("Error migrating ledger:", error);
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface SyncPermissionClaimsActionResult {
+  success: boolean;
+  updated?: number;
+  error?: string;
+}
+
+/**
+ * Server action to rewrite every account's custom claims with its current effective permissions
+ * Needed once for accounts created before permissions were mirrored into claims, and after the
+ * role defaults change (user.permissions across every dealer)
+ */
+export async function syncPermissionClaimsAction(): Promise<SyncPermissionClaimsActionResult> {
+  try {
+    const caller = await requirePermission("user.permissions");
+    if (!hasGlobalScope(caller)) {
+      return { success: false, error: "Access denied: Requires access to every dealer" };
+    }
+
+    const users = await listAllUsers();
+    let updated = 0;
+    for (const user of users) {
+      try {
+        const userRecord = await auth.getUser(user.uid);
+        await auth.setCustomUserClaims(user.uid, {
+          ...userRecord.customClaims,
+          ...buildUserClaims(user.role, user.dealerId, user.permissions),
+        });
+        updated++;
+      } catch (error) {
+        // Documents without an Auth account have no claims to update
+        console.error(`Error syncing permission claims for ${user.uid}:`, error);
+      }
+    }
+
+    await recordAuditLog(caller, {
+      action: "permissions.sync",
+      targetType: "user",
+      targetId: "all",
+      after: { users: users.length, updated },
+    });
+
+    return { success: true, updated };
+  } catch (error) {
+    console.error("Error syncing permission claims:", error);
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
@@ -0,0 +1,150 @@
+"use server";
+
+import { z } from "zod";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import { recordAuditLog } from "@/server/services/auditService";
+import {
+  approveCommissionStatement,
+  closeCommissionStatement,
+  updateCommissionPlan,
+} from "@/server/services/commissionService";
+
+// Zod schemas
+const DealerIdSchema = z.string().min(1);
+
+const UpdateCommissionPlanActionSchema = z.object({
+  dealerId: DealerIdSchema,
+  type: z.enum(["revenue_share", "turnover"]),
+  rate: z.number().positive("Rate must be positive").max(1, "Rate must be at most 100%"),
+  period: z.enum(["weekly", "monthly"]),
+});
+
+const CloseCommissionStatementActionSchema = z.object({
+  dealerId: DealerIdSchema,
+  periodDate: z.string().refine((value) => !isNaN(Date.parse(value)), "Invalid period date"),
+});
+
+const ApproveCommissionStatementActionSchema = z.object({
+  statementId: z.string().min(1),
+});
+
+export interface UpdateCommissionPlanActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface CloseCommissionStatementActionResult {
+  success: boolean;
+  statementId?: string;
+  error?: string;
+}
+
+export interface ApproveCommissionStatementActionResult {
+  success: boolean;
+  commission?: number;
+  error?: string;
+}
+
+function toActionError(error: unknown): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+  }
+  if (error instanceof Error) {
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: "An error occurred" };
+}
+
+/**
+ * Server action to set a dealer's commission plan (commission.manage)
+ */
+export async function updateCommissionPlanAction(
+  params: z.infer<typeof UpdateCommissionPlanActionSchema>
+): Promise<UpdateCommissionPlanActionResult> {
+  try {
+    const { dealerId, ...plan } = UpdateCommissionPlanActionSchema.parse(params);
+
+    const dealer = await getDealer(dealerId);
+    await updateCommissionPlan(dealerId, plan);
+
+    const caller = await getServerAuthUser();
+    if (caller) {
+      await recordAuditLog(caller, {
+        action: "commission.update_plan",
+        targetType: "dealer",
+        targetId: dealerId,
+        dealerId,
+        before: dealer?.commissionPlan && { ...dealer.commissionPlan },
+        after: { ...plan },
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating commission plan:", error);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Server action to close (or recompute) a dealer's statement for the period containing
+ * periodDate (commission.manage)
+ */
+export async function closeCommissionStatementAction(
+  params: z.infer<typeof CloseCommissionStatementActionSchema>
+): Promise<CloseCommissionStatementActionResult> {
+  try {
+    const validated = CloseCommissionStatementActionSchema.parse(params);
+
+    const statementId = await closeCommissionStatement(
+      validated.dealerId,
+      new Date(validated.periodDate)
+    );
+
+    const caller = await getServerAuthUser();
+    if (caller) {
+      await recordAuditLog(caller, {
+        action: "commission.close",
+        targetType: "commission_statement",
+        targetId: statementId,
+        dealerId: validated.dealerId,
+        after: { status: "draft", periodDate: validated.periodDate },
+      });
+    }
+
+    return { success: true, statementId };
+  } catch (error) {
+    console.error("Error closing commission statement:", error);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Server action to approve a statement and post the commission to the ledger (commission.manage)
+ */
+export async function approveCommissionStatementAction(
+  params: z.infer<typeof ApproveCommissionStatementActionSchema>
+): Promise<ApproveCommissionStatementActionResult> {
+  try {
+    const validated = ApproveCommissionStatementActionSchema.parse(params);
+
+    const commission = await approveCommissionStatement(validated.statementId);
+
+    const caller = await getServerAuthUser();
+    if (caller) {
+      await recordAuditLog(caller, {
+        action: "commission.approve",
+        targetType: "commission_statement",
+        targetId: validated.statementId,
+        before: { status: "draft" },
+        after: { status: "approved", commission },
+      });
+    }
+
+    return { success: true, commission };
+  } catch (error) {
+    console.error("Error approving commission statement:", error);
+    return toActionError(error);
+  }
+}
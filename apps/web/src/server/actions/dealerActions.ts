@@ -0,0 +1,129 @@
+"use server";
+
+import { z } from "zod";
+import { getDealer, updateDealer as updateDealerDoc } from "@/server/repositories/dealers.repository";
+import { recordAuditLog } from "@/server/services/auditService";
+import { rebuildDealerExposure } from "@/server/services/riskService";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+
+// Zod schemas
+const AmountSchema = z.number().positive("Limits must be positive");
+
+const DealerLimitsSchema = z
+  .object({
+    minStake: AmountSchema.optional(),
+    maxStake: AmountSchema.optional(),
+    maxPayout: AmountSchema.optional(),
+    maxSelections: z.number().int().positive("Max selections must be positive").optional(),
+    minTotalOdds: z.number().min(1, "Min total odds must be at least 1.00").optional(),
+    maxFixtureLiability: AmountSchema.optional(),
+    maxMarketLiability: AmountSchema.optional(),
+  })
+  .refine(
+    (limits) =>
+      limits.minStake === undefined ||
+      limits.maxStake === undefined ||
+      limits.minStake <= limits.maxStake,
+    { message: "Min stake cannot be greater than max stake" }
+  );
+
+const UpdateDealerSettingsActionSchema = z.object({
+  dealerId: z.string().min(1),
+  allowSameGameCombos: z.boolean(),
+  limits: DealerLimitsSchema,
+});
+
+const RebuildLiabilityActionSchema = z.object({
+  dealerId: z.string().min(1),
+});
+
+export interface UpdateDealerSettingsActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Server action to update a dealer's betting settings and risk limits
+ * Requires dealer.settings and the dealer in the caller's scope
+ * Limits left out are removed (not enforced)
+ */
+export async function updateDealerSettingsAction(
+  params: z.infer<typeof UpdateDealerSettingsActionSchema>
+): Promise<UpdateDealerSettingsActionResult> {
+  try {
+    const validated = UpdateDealerSettingsActionSchema.parse(params);
+
+    const caller = await requirePermission("dealer.settings");
+    if (!(await canManageDealer(caller, validated.dealerId))) {
+      return { success: false, error: "Access denied: Can only update dealer settings in your scope" };
+    }
+
+    // Drop unset limits (Firestore does not store undefined values)
+    const limits = Object.fromEntries(
+      Object.entries(validated.limits).filter(([, value]) => value !== undefined)
+    );
+
+    const dealer = await getDealer(validated.dealerId);
+    await updateDealerDoc(validated.dealerId, {
+      allowSameGameCombos: validated.allowSameGameCombos,
+      limits,
+    });
+
+    await recordAuditLog(caller, {
+      action: "dealer.update_settings",
+      targetType: "dealer",
+      targetId: validated.dealerId,
+      dealerId: validated.dealerId,
+      before: { allowSameGameCombos: dealer?.allowSameGameCombos, limits: dealer?.limits },
+      after: { allowSameGameCombos: validated.allowSameGameCombos, limits },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating dealer settings:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface RebuildLiabilityActionResult {
+  success: boolean;
+  slipCount?: number;
+  error?: string;
+}
+
+/**
+ * Server action to rebuild a dealer's liability aggregates from their pending slips
+ * Requires liability.view and the dealer in the caller's scope
+ */
+export async function rebuildLiabilityAction(
+  params: z.infer<typeof RebuildLiabilityActionSchema>
+): Promise<RebuildLiabilityActionResult> {
+  try {
+    const validated = RebuildLiabilityActionSchema.parse(params);
+
+    const caller = await requirePermission("liability.view");
+    if (!(await canManageDealer(caller, validated.dealerId))) {
+      return { success: false, error: "Access denied: Can only rebuild liability in your scope" };
+    }
+
+    const slipCount = await rebuildDealerExposure(validated.dealerId);
+
+    return { success: true, slipCount };
+  } catch (error) {
+    console.error("Error rebuilding liability:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
@@ -0,0 +1,122 @@
+"use server";
+
+import { z } from "zod";
+import {
+  COOL_OFF_DAYS,
+  SELF_EXCLUSION_DAYS,
+  startOwnRestriction,
+  updateOwnLimits,
+} from "@/server/services/responsibleGamingService";
+import type { PeriodLimits, UserLimits } from "@/server/repositories/types";
+
+// Zod schemas
+const AmountSchema = z.number().positive("Limits must be positive");
+
+const PeriodLimitsSchema = z.object({
+  daily: AmountSchema.optional(),
+  weekly: AmountSchema.optional(),
+  monthly: AmountSchema.optional(),
+});
+
+const UpdateLimitsActionSchema = z.object({
+  deposit: PeriodLimitsSchema,
+  loss: PeriodLimitsSchema,
+  maxStake: AmountSchema.optional(),
+});
+
+const StartRestrictionActionSchema = z
+  .object({
+    type: z.enum(["cool_off", "self_exclusion"]),
+    days: z.number().int().positive(),
+  })
+  .refine(
+    ({ type, days }) =>
+      (type === "cool_off" ? (COOL_OFF_DAYS as readonly number[]) : SELF_EXCLUSION_DAYS).includes(
+        days
+      ),
+    { message: "Invalid restriction period" }
+  );
+
+export interface UpdateLimitsActionResult {
+  success: boolean;
+  effectiveAt?: string; // When the requested limits are fully in force
+  pending?: boolean; // True when some limits only apply after the waiting period
+  error?: string;
+}
+
+export interface StartRestrictionActionResult {
+  success: boolean;
+  until?: string;
+  error?: string;
+}
+
+/**
+ * Drop unset periods (Firestore does not store undefined values)
+ */
+function compactPeriods(limits: PeriodLimits): PeriodLimits | undefined {
+  const compacted = Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== undefined)
+  ) as PeriodLimits;
+  return Object.keys(compacted).length > 0 ? compacted : undefined;
+}
+
+/**
+ * Server action to set the caller's own deposit, loss and stake limits
+ * Stricter limits apply immediately; looser or removed limits apply after a waiting period
+ */
+export async function updateMyLimitsAction(
+  params: z.infer<typeof UpdateLimitsActionSchema>
+): Promise<UpdateLimitsActionResult> {
+  try {
+    const validated = UpdateLimitsActionSchema.parse(params);
+
+    const limits: UserLimits = {};
+    const deposit = compactPeriods(validated.deposit);
+    const loss = compactPeriods(validated.loss);
+    if (deposit) limits.deposit = deposit;
+    if (loss) limits.loss = loss;
+    if (validated.maxStake !== undefined) limits.maxStake = validated.maxStake;
+
+    const effectiveAt = await updateOwnLimits(limits);
+
+    return {
+      success: true,
+      effectiveAt: effectiveAt.toISOString(),
+      pending: effectiveAt.getTime() > Date.now(),
+    };
+  } catch (error) {
+    console.error("Error updating limits:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action to start a cool-off or self-exclusion for the caller
+ * Cannot be undone before it ends
+ */
+export async function startRestrictionAction(
+  params: z.infer<typeof StartRestrictionActionSchema>
+): Promise<StartRestrictionActionResult> {
+  try {
+    const validated = StartRestrictionActionSchema.parse(params);
+
+    const until = await startOwnRestriction(validated.type, validated.days);
+
+    return { success: true, until: until.toISOString() };
+  } catch (error) {
+    console.error("Error starting restriction:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
@@ -1,30 +1,73 @@
 "use server";
 
 import { z } from "zod";
-import { createSlip, listUserSlips, listDealerSlips, listAllSlipsService } from "@/server/services/slipService";
+import {
+  createSlip,
+  SlipLineRejectedError,
+  cancelSlip,
+  voidSlipLine,
+  listUserSlips,
+  listDealerSlips,
+  listAllSlipsService,
+} from "@/server/services/slipService";
+import { acceptCashout } from "@/server/services/cashoutService";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import type { Role } from "@/features/rbac/types";
+import { getSlip } from "@/server/repositories/slips.repository";
+import { recordAuditLog } from "@/server/services/auditService";
+import { canManageDealer, hasGlobalScope } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import type { SlipLineError } from "@repo/shared/types";
+import { betTypes, type BetType } from "@repo/shared/betting";
 
 // Zod schemas for validation
+const IdempotencyKeySchema = z
+  .string()
+  .min(8)
+  .max(128)
+  .regex(/^[a-zA-Z0-9_-]+$/, "Invalid idempotency key");
+
 const SlipLineSchema = z.object({
   id: z.string().min(1),
   fixtureId: z.union([z.string(), z.number()]),
   market: z.string().min(1),
   selection: z.string().min(1),
   odds: z.number().positive("Odds must be positive"),
+  marketId: z.number().int().positive().optional(),
 });
 
 const CreateSlipActionSchema = z.object({
   uid: z.string().min(1),
   dealerId: z.string().min(1),
-  stake: z.number().positive("Stake must be positive"),
+  stake: z.number().positive("Stake must be positive"), // Stake per combination
   lines: z.array(SlipLineSchema).min(1, "At least one line is required"),
+  priceChangePolicy: z.enum(["accept_any", "accept_higher", "reject_any"]),
+  betType: z.enum(Object.keys(betTypes) as [BetType, ...BetType[]]),
+  systemSize: z.number().int().min(2).optional(),
+  idempotencyKey: IdempotencyKeySchema,
+});
+
+const CancelSlipActionSchema = z.object({
+  slipId: z.string().min(1),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+const VoidSlipLineActionSchema = z.object({
+  slipId: z.string().min(1),
+  lineId: z.string().min(1),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+const AcceptCashoutActionSchema = z.object({
+  slipId: z.string().min(1),
+  expectedAmount: z.number().positive("Amount must be positive"),
+  idempotencyKey: IdempotencyKeySchema,
 });
 
 export interface CreateSlipActionResult {
   success: boolean;
   slipId?: string;
   error?: string;
+  lineErrors?: SlipLineError[]; // Per-line rejections (odds re-validation, conflicts)
 }
 
 /**
@@ -53,6 +96,121 @@ export async function createSlipAction(
     const slipId = await createSlip(validated);
 
     return { success: true, slipId };
+  } catch (error) {
+    if (error instanceof SlipLineRejectedError) {
+      return { success: false, error: error.message, lineErrors: error.lineErrors };
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface SlipActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Server action to cancel a pending slip and refund the stake
+ * Dealer (own dealerId) or superadmin only
+ */
+export async function cancelSlipAction(
+  params: z.infer<typeof CancelSlipActionSchema>
+): Promise<SlipActionResult> {
+  try {
+    const validated = CancelSlipActionSchema.parse(params);
+
+    const slip = await getSlip(validated.slipId);
+    await cancelSlip(validated);
+
+    const caller = await getServerAuthUser();
+    if (caller && slip) {
+      await recordAuditLog(caller, {
+        action: "slip.cancel",
+        targetType: "slip",
+        targetId: validated.slipId,
+        dealerId: slip.dealerId,
+        before: { status: slip.status },
+        after: { status: "cancelled", reason: validated.reason },
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action to void a single line of a pending slip
+ * Dealer (own dealerId) or superadmin only
+ */
+export async function voidSlipLineAction(
+  params: z.infer<typeof VoidSlipLineActionSchema>
+): Promise<SlipActionResult> {
+  try {
+    const validated = VoidSlipLineActionSchema.parse(params);
+
+    const slip = await getSlip(validated.slipId);
+    await voidSlipLine(validated);
+
+    const caller = await getServerAuthUser();
+    if (caller && slip) {
+      await recordAuditLog(caller, {
+        action: "slip.void_line",
+        targetType: "slip",
+        targetId: validated.slipId,
+        dealerId: slip.dealerId,
+        before: {
+          lineId: validated.lineId,
+          lineResult: slip.lines.find((line) => line.id === validated.lineId)?.result,
+        },
+        after: { lineId: validated.lineId, lineResult: "void", reason: validated.reason },
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface AcceptCashoutActionResult {
+  success: boolean;
+  amount?: number;
+  error?: string;
+}
+
+/**
+ * Server action to accept a cash-out quote for one of the caller's slips
+ * The slip is repriced server-side and settled at that amount atomically
+ */
+export async function acceptCashoutAction(
+  params: z.infer<typeof AcceptCashoutActionSchema>
+): Promise<AcceptCashoutActionResult> {
+  try {
+    const validated = AcceptCashoutActionSchema.parse(params);
+
+    const amount = await acceptCashout(validated);
+
+    return { success: true, amount };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return { success: false, error: error.errors.map((e) => e.message).join(", ") };
@@ -89,19 +247,9 @@ export async function listUserSlipsAction() {
  */
 export async function listDealerSlipsAction(dealerId: string) {
   try {
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      throw new Error("Unauthorized");
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    if (callerRole !== "dealer" && callerRole !== "superadmin") {
-      throw new Error("Access denied: Only dealers or superadmins can list dealer slips");
-    }
-
-    const callerDealerId = caller.dealerId as string | undefined;
-    if (callerRole === "dealer" && (!callerDealerId || callerDealerId !== dealerId)) {
-      throw new Error("Access denied: Dealer can only list slips for their own dealerId");
+    const caller = await requirePermission("slip.view");
+    if (!(await canManageDealer(caller, dealerId))) {
+      throw new Error("Access denied: Can only list slips in your dealer scope");
     }
 
     const slips = await listDealerSlips(dealerId);
@@ -115,18 +263,13 @@ export async function listDealerSlipsAction(dealerId: string) {
 }
 
 /**
- * Server action to list all slips (superadmin only)
+ * Server action to list all slips (slip.view across every dealer)
  */
 export async function listAllSlipsAction() {
   try {
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      throw new Error("Unauthorized");
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    if (callerRole !== "superadmin") {
-      throw new Error("Access denied: Only superadmin can list all slips");
+    const caller = await requirePermission("slip.view");
+    if (!hasGlobalScope(caller)) {
+      throw new Error("Access denied: Listing all slips requires access to every dealer");
     }
 
     const slips = await listAllSlipsService();
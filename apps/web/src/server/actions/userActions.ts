@@ -4,7 +4,18 @@ import { z } from "zod";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
 import { getUser, createUser as createUserDoc, updateUser } from "@/server/repositories/users.repository";
 import { auth } from "@/lib/firebase-admin/admin";
+import { recordAuditLog } from "@/server/services/auditService";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import {
+  buildUserClaims,
+  getPermissions,
+  hasPermission,
+  PERMISSIONS,
+  type Permission,
+} from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import type { Role } from "@/features/rbac/types";
+import type { StaffLimits } from "@/server/repositories/types";
 
 // Zod schemas
 const UidSchema = z.string().min(1).regex(/^[a-zA-Z0-9_-]+$/, "Invalid UID format");
@@ -12,10 +23,21 @@ const EmailSchema = z.string().email("Invalid email format");
 const PasswordSchema = z.string().min(6, "Password must be at least 6 characters");
 const DealerIdSchema = z.string().min(1);
 
+const PermissionsSchema = z.array(z.enum(PERMISSIONS));
+
+const StaffLimitsSchema = z.object({
+  perTransaction: z.number().positive("Limit per transaction must be positive").optional(),
+  daily: z.number().positive("Daily limit must be positive").optional(),
+});
+
 const CreateUserActionSchema = z.object({
   email: EmailSchema,
   password: PasswordSchema,
   dealerId: DealerIdSchema,
+  // Staff accounts hold only the permissions given here, within their cash limits
+  role: z.enum(["user", "staff"]).default("user"),
+  permissions: PermissionsSchema.optional(),
+  staffLimits: StaffLimitsSchema.optional(),
 });
 
 const BanUserActionSchema = z.object({
@@ -26,6 +48,17 @@ const UnbanUserActionSchema = z.object({
   uid: UidSchema,
 });
 
+const SetUserPermissionsActionSchema = z.object({
+  uid: UidSchema,
+  permissions: PermissionsSchema,
+});
+
+const UpdateStaffActionSchema = z.object({
+  uid: UidSchema,
+  permissions: PermissionsSchema,
+  staffLimits: StaffLimitsSchema,
+});
+
 export interface GetCurrentUserResult {
   success: boolean;
   uid?: string;
@@ -38,6 +71,7 @@ export interface GetCurrentUserActionResult {
   uid?: string;
   role?: Role;
   dealerId?: string;
+  permissions?: Permission[];
   error?: string;
 }
 
@@ -57,6 +91,16 @@ export interface UnbanUserActionResult {
   error?: string;
 }
 
+export interface SetUserPermissionsActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UpdateStaffActionResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Server action to get current user info (uid and dealerId)
  */
@@ -75,6 +119,7 @@ export async function getCurrentUserAction(): Promise<GetCurrentUserActionResult
       uid: caller.uid,
       role,
       dealerId,
+      permissions: getPermissions(role, caller.permissions),
     };
   } catch (error) {
     console.error("Error getting current user:", error);
@@ -86,33 +131,31 @@ export async function getCurrentUserAction(): Promise<GetCurrentUserActionResult
 }
 
 /**
- * Server action to create a user
+ * Server action to create a user, or a staff account (staff.manage)
  * Validates dealer scope and creates user in Auth and Firestore
  */
 export async function createUserAction(
-  params: z.infer<typeof CreateUserActionSchema>
+  params: z.input<typeof CreateUserActionSchema>
 ): Promise<CreateUserActionResult> {
   try {
     // Validate input
     const validated = CreateUserActionSchema.parse(params);
+    const isStaff = validated.role === "staff";
 
-    // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    const callerDealerId = caller.dealerId as string | undefined;
-
-    // Only dealers can create users (superadmins would use different flow)
-    if (callerRole !== "dealer") {
-      return { success: false, error: "Access denied: Only dealers can create users" };
+    // Get caller and validate RBAC and dealer scope
+    const caller = await requirePermission(isStaff ? "staff.manage" : "user.create");
+    if (!(await canManageDealer(caller, validated.dealerId))) {
+      return { success: false, error: "Access denied: Can only create users in your dealer scope" };
     }
 
-    // Validate dealer scope
-    if (!callerDealerId || callerDealerId !== validated.dealerId) {
-      return { success: false, error: "Access denied: Dealer can only create users for their own dealerId" };
+    // Staff can only be given permissions the caller holds
+    const permissions = isStaff ? Array.from(new Set(validated.permissions ?? [])) : undefined;
+    const notHeld = (permissions ?? []).filter((permission) => !hasPermission(caller, permission));
+    if (notHeld.length > 0) {
+      return {
+        success: false,
+        error: `Access denied: Cannot grant permissions you do not hold (${notHeld.join(", ")})`,
+      };
     }
 
     // Create user in Firebase Auth
@@ -121,17 +164,35 @@ export async function createUserAction(
       password: validated.password,
     });
 
-    // Set custom claims (role='user', dealerId)
-    await auth.setCustomUserClaims(userRecord.uid, {
-      role: "user",
-      dealerId: validated.dealerId,
-    });
+    // Set custom claims (role, dealerId, permissions)
+    await auth.setCustomUserClaims(
+      userRecord.uid,
+      buildUserClaims(validated.role, validated.dealerId, permissions)
+    );
 
     // Create user document in Firestore
+    const staff = isStaff
+      ? { permissions, staffLimits: definedLimits(validated.staffLimits) }
+      : {};
     await createUserDoc(userRecord.uid, {
-      role: "user",
+      role: validated.role,
       dealerId: validated.dealerId,
       status: "active",
+      ...staff,
+    });
+
+    await recordAuditLog(caller, {
+      action: "user.create",
+      targetType: "user",
+      targetId: userRecord.uid,
+      dealerId: validated.dealerId,
+      after: {
+        email: validated.email,
+        role: validated.role,
+        dealerId: validated.dealerId,
+        status: "active",
+        ...staff,
+      },
     });
 
     return { success: true, uid: userRecord.uid };
@@ -166,22 +227,7 @@ export async function banUserAction(
     const validated = BanUserActionSchema.parse(params);
 
     // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    const callerDealerId = caller.dealerId as string | undefined;
-
-    // Only dealers can ban users
-    if (callerRole !== "dealer") {
-      return { success: false, error: "Access denied: Only dealers can ban users" };
-    }
-
-    if (!callerDealerId) {
-      return { success: false, error: "Access denied: Dealer must have a dealerId" };
-    }
+    const caller = await requirePermission("user.ban");
 
     // Get user to verify they belong to dealer
     const user = await getUser(validated.uid);
@@ -190,13 +236,22 @@ export async function banUserAction(
     }
 
     // Validate dealer scope
-    if (user.dealerId !== callerDealerId) {
+    if (!(await canManageDealer(caller, user.dealerId))) {
       return { success: false, error: "Access denied: User does not belong to dealer" };
     }
 
     // Update user status to 'banned'
     await updateUser(validated.uid, { status: "banned" });
 
+    await recordAuditLog(caller, {
+      action: "user.ban",
+      targetType: "user",
+      targetId: validated.uid,
+      dealerId: user.dealerId,
+      before: { status: user.status },
+      after: { status: "banned" },
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error banning user:", error);
@@ -222,22 +277,7 @@ export async function unbanUserAction(
     const validated = UnbanUserActionSchema.parse(params);
 
     // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    const callerDealerId = caller.dealerId as string | undefined;
-
-    // Only dealers can unban users
-    if (callerRole !== "dealer") {
-      return { success: false, error: "Access denied: Only dealers can unban users" };
-    }
-
-    if (!callerDealerId) {
-      return { success: false, error: "Access denied: Dealer must have a dealerId" };
-    }
+    const caller = await requirePermission("user.ban");
 
     // Get user to verify they belong to dealer
     const user = await getUser(validated.uid);
@@ -246,13 +286,22 @@ export async function unbanUserAction(
     }
 
     // Validate dealer scope
-    if (user.dealerId !== callerDealerId) {
+    if (!(await canManageDealer(caller, user.dealerId))) {
       return { success: false, error: "Access denied: User does not belong to dealer" };
     }
 
     // Update user status to 'active'
     await updateUser(validated.uid, { status: "active" });
 
+    await recordAuditLog(caller, {
+      action: "user.unban",
+      targetType: "user",
+      targetId: validated.uid,
+      dealerId: user.dealerId,
+      before: { status: user.status },
+      after: { status: "active" },
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error unbanning user:", error);
@@ -265,3 +314,134 @@ export async function unbanUserAction(
     return { success: false, error: "An error occurred" };
   }
 }
+
+/**
+ * Server action to set the permissions granted to a user on top of their role's defaults
+ * Callers can only grant permissions they hold themselves, to users in their dealer scope.
+ * The effective permissions are mirrored into the user's custom claims
+ */
+export async function setUserPermissionsAction(
+  params: z.infer<typeof SetUserPermissionsActionSchema>
+): Promise<SetUserPermissionsActionResult> {
+  try {
+    const validated = SetUserPermissionsActionSchema.parse(params);
+
+    const caller = await requirePermission("user.permissions");
+
+    const user = await getUser(validated.uid);
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (!(await canManageDealer(caller, user.dealerId))) {
+      return { success: false, error: "Access denied: User does not belong to dealer" };
+    }
+
+    const notHeld = validated.permissions.filter((permission) => !hasPermission(caller, permission));
+    if (notHeld.length > 0) {
+      return {
+        success: false,
+        error: `Access denied: Cannot grant permissions you do not hold (${notHeld.join(", ")})`,
+      };
+    }
+
+    const permissions = Array.from(new Set(validated.permissions));
+    await updateUser(validated.uid, { permissions });
+
+    const userRecord = await auth.getUser(validated.uid);
+    await auth.setCustomUserClaims(validated.uid, {
+      ...userRecord.customClaims,
+      ...buildUserClaims(user.role, user.dealerId, permissions),
+    });
+
+    await recordAuditLog(caller, {
+      action: "user.set_permissions",
+      targetType: "user",
+      targetId: validated.uid,
+      dealerId: user.dealerId,
+      before: { permissions: user.permissions ?? [] },
+      after: { permissions },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting user permissions:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action to change a staff account's permissions and cash limits (staff.manage)
+ * Callers can only grant permissions they hold themselves, to staff in their dealer scope
+ */
+export async function updateStaffAction(
+  params: z.infer<typeof UpdateStaffActionSchema>
+): Promise<UpdateStaffActionResult> {
+  try {
+    const validated = UpdateStaffActionSchema.parse(params);
+
+    const caller = await requirePermission("staff.manage");
+
+    const staff = await getUser(validated.uid);
+    if (!staff || staff.role !== "staff") {
+      return { success: false, error: "Staff account not found" };
+    }
+
+    if (!(await canManageDealer(caller, staff.dealerId))) {
+      return { success: false, error: "Access denied: Staff account does not belong to dealer" };
+    }
+
+    const notHeld = validated.permissions.filter((permission) => !hasPermission(caller, permission));
+    if (notHeld.length > 0) {
+      return {
+        success: false,
+        error: `Access denied: Cannot grant permissions you do not hold (${notHeld.join(", ")})`,
+      };
+    }
+
+    const permissions = Array.from(new Set(validated.permissions));
+    const staffLimits = definedLimits(validated.staffLimits);
+    await updateUser(validated.uid, { permissions, staffLimits });
+
+    const userRecord = await auth.getUser(validated.uid);
+    await auth.setCustomUserClaims(validated.uid, {
+      ...userRecord.customClaims,
+      ...buildUserClaims("staff", staff.dealerId, permissions),
+    });
+
+    await recordAuditLog(caller, {
+      action: "staff.update",
+      targetType: "user",
+      targetId: validated.uid,
+      dealerId: staff.dealerId,
+      before: { permissions: staff.permissions ?? [], staffLimits: staff.staffLimits ?? {} },
+      after: { permissions, staffLimits },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating staff account:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Drop unset limits (Firestore does not store undefined values)
+ */
+function definedLimits(limits?: StaffLimits): StaffLimits {
+  return Object.fromEntries(
+    Object.entries(limits ?? {}).filter(([, value]) => value !== undefined)
+  ) as StaffLimits;
+}
@@ -1,20 +1,35 @@
 "use server";
 
 import { z } from "zod";
-import { creditUser, debitUser } from "@/server/services/walletService";
+import { creditUser, debitUser, transferDealerFloat } from "@/server/services/walletService";
+import {
+  approveWalletRequest,
+  cancelWalletRequest,
+  rejectWalletRequest,
+  submitWalletRequest,
+} from "@/server/services/walletRequestService";
+import { getWalletRequest } from "@/server/repositories/walletRequests.repository";
+import { recordAuditLog } from "@/server/services/auditService";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import type { Role } from "@/features/rbac/types";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 
 // Zod schemas for validation
 const UidSchema = z.string().min(1).regex(/^[a-zA-Z0-9_-]+$/, "Invalid UID format");
 const AmountSchema = z.number().positive("Amount must be positive");
 const ReasonSchema = z.string().min(1).max(500, "Reason must be between 1 and 500 characters");
+const IdempotencyKeySchema = z
+  .string()
+  .min(8)
+  .max(128)
+  .regex(/^[a-zA-Z0-9_-]+$/, "Invalid idempotency key");
 
 const CreditUserActionSchema = z.object({
   userUid: UidSchema,
   dealerId: z.string().min(1),
   amount: AmountSchema,
   reason: ReasonSchema,
+  idempotencyKey: IdempotencyKeySchema,
 });
 
 const DebitUserActionSchema = z.object({
@@ -22,6 +37,31 @@ const DebitUserActionSchema = z.object({
   dealerId: z.string().min(1),
   amount: AmountSchema,
   reason: ReasonSchema,
+  idempotencyKey: IdempotencyKeySchema,
+});
+
+const TransferDealerFloatActionSchema = z.object({
+  dealerId: z.string().min(1),
+  amount: AmountSchema,
+  direction: z.enum(["fund", "withdraw"]),
+  reason: ReasonSchema,
+  idempotencyKey: IdempotencyKeySchema,
+});
+
+const SubmitWalletRequestActionSchema = z.object({
+  type: z.enum(["deposit", "withdrawal"]),
+  amount: AmountSchema,
+  note: z.string().max(500, "Note must be at most 500 characters").optional(),
+  idempotencyKey: IdempotencyKeySchema,
+});
+
+const WalletRequestIdSchema = z.object({
+  requestId: z.string().min(1),
+});
+
+const RejectWalletRequestActionSchema = z.object({
+  requestId: z.string().min(1),
+  reason: z.string().max(500, "Reason must be at most 500 characters").optional(),
 });
 
 export interface CreditUserActionResult {
@@ -47,30 +87,27 @@ export async function creditUserAction(
     // Validate input
     const validated = CreditUserActionSchema.parse(params);
 
-    // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    if (callerRole !== "dealer" && callerRole !== "superadmin") {
-      return { success: false, error: "Access denied: Only dealers or superadmins can credit users" };
-    }
-
-    const callerDealerId = caller.dealerId as string | undefined;
-    if (callerRole === "dealer" && (!callerDealerId || callerDealerId !== validated.dealerId)) {
-      return { success: false, error: "Access denied: Dealer can only credit users in their dealerId" };
+    // Get caller and validate RBAC and dealer scope
+    const caller = await requirePermission("wallet.credit");
+    if (!(await canManageDealer(caller, validated.dealerId))) {
+      return { success: false, error: "Access denied: Can only credit users in your dealer scope" };
     }
 
-    // Call wallet service
+    // Call wallet service (the caller is recorded as the actor)
     const transactionId = await creditUser({
-      dealerUid: callerRole === "dealer" ? caller.uid : undefined,
-      superadminUid: callerRole === "superadmin" ? caller.uid : undefined,
       userUid: validated.userUid,
       dealerId: validated.dealerId,
       amount: validated.amount,
       reason: validated.reason,
+      idempotencyKey: validated.idempotencyKey,
+    });
+
+    await recordAuditLog(caller, {
+      action: "wallet.credit",
+      targetType: "user",
+      targetId: validated.userUid,
+      dealerId: validated.dealerId,
+      after: { amount: validated.amount, reason: validated.reason, ledgerEntryKey: transactionId },
     });
 
     return { success: true, transactionId };
@@ -96,30 +133,27 @@ export async function debitUserAction(
     // Validate input
     const validated = DebitUserActionSchema.parse(params);
 
-    // Get caller and validate RBAC
-    const caller = await getServerAuthUser();
-    if (!caller) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const callerRole = caller.role as Role | undefined;
-    if (callerRole !== "dealer" && callerRole !== "superadmin") {
-      return { success: false, error: "Access denied: Only dealers or superadmins can debit users" };
-    }
-
-    const callerDealerId = caller.dealerId as string | undefined;
-    if (callerRole === "dealer" && (!callerDealerId || callerDealerId !== validated.dealerId)) {
-      return { success: false, error: "Access denied: Dealer can only debit users in their dealerId" };
+    // Get caller and validate RBAC and dealer scope
+    const caller = await requirePermission("wallet.debit");
+    if (!(await canManageDealer(caller, validated.dealerId))) {
+      return { success: false, error: "Access denied: Can only debit users in your dealer scope" };
     }
 
-    // Call wallet service
+    // Call wallet service (the caller is recorded as the actor)
     const transactionId = await debitUser({
-      dealerUid: callerRole === "dealer" ? caller.uid : undefined,
-      superadminUid: callerRole === "superadmin" ? caller.uid : undefined,
       userUid: validated.userUid,
       dealerId: validated.dealerId,
       amount: validated.amount,
       reason: validated.reason,
+      idempotencyKey: validated.idempotencyKey,
+    });
+
+    await recordAuditLog(caller, {
+      action: "wallet.debit",
+      targetType: "user",
+      targetId: validated.userUid,
+      dealerId: validated.dealerId,
+      after: { amount: validated.amount, reason: validated.reason, ledgerEntryKey: transactionId },
     });
 
     return { success: true, transactionId };
@@ -133,3 +167,191 @@ export async function debitUserAction(
     return { success: false, error: "An error occurred" };
   }
 }
+
+export interface TransferDealerFloatActionResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+}
+
+/**
+ * Server action to fund or withdraw a dealer's float (float.transfer)
+ */
+export async function transferDealerFloatAction(
+  params: z.infer<typeof TransferDealerFloatActionSchema>
+): Promise<TransferDealerFloatActionResult> {
+  try {
+    const validated = TransferDealerFloatActionSchema.parse(params);
+
+    const caller = await requirePermission("float.transfer");
+
+    const transactionId = await transferDealerFloat(validated);
+
+    await recordAuditLog(caller, {
+      action: "dealer_float.transfer",
+      targetType: "dealer",
+      targetId: validated.dealerId,
+      dealerId: validated.dealerId,
+      after: {
+        direction: validated.direction,
+        amount: validated.amount,
+        reason: validated.reason,
+        ledgerEntryKey: transactionId,
+      },
+    });
+
+    return { success: true, transactionId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+export interface WalletRequestActionResult {
+  success: boolean;
+  requestId?: string;
+  transactionId?: string;
+  error?: string;
+}
+
+/**
+ * Server action for a user to request a deposit or withdrawal
+ * Withdrawals hold the amount until the request is decided
+ */
+export async function submitWalletRequestAction(
+  params: z.infer<typeof SubmitWalletRequestActionSchema>
+): Promise<WalletRequestActionResult> {
+  try {
+    const validated = SubmitWalletRequestActionSchema.parse(params);
+
+    const requestId = await submitWalletRequest({
+      ...validated,
+      note: validated.note?.trim() || undefined,
+    });
+
+    return { success: true, requestId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action for a user to cancel their own pending request
+ */
+export async function cancelWalletRequestAction(
+  params: z.infer<typeof WalletRequestIdSchema>
+): Promise<WalletRequestActionResult> {
+  try {
+    const validated = WalletRequestIdSchema.parse(params);
+
+    await cancelWalletRequest(validated.requestId);
+
+    return { success: true, requestId: validated.requestId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action to approve a pending request, posting its deposit or withdrawal
+ * Requires wallet.credit (deposits) or wallet.debit (withdrawals) and the user's dealer in scope
+ */
+export async function approveWalletRequestAction(
+  params: z.infer<typeof WalletRequestIdSchema>
+): Promise<WalletRequestActionResult> {
+  try {
+    const validated = WalletRequestIdSchema.parse(params);
+
+    const request = await getWalletRequest(validated.requestId);
+    const transactionId = await approveWalletRequest(validated.requestId);
+
+    const caller = await getServerAuthUser();
+    if (caller && request) {
+      await recordAuditLog(caller, {
+        action: "wallet_request.approve",
+        targetType: "wallet_request",
+        targetId: validated.requestId,
+        dealerId: request.dealerId,
+        before: { status: request.status },
+        after: {
+          status: "approved",
+          type: request.type,
+          userId: request.userId,
+          amount: request.amount,
+          ledgerEntryKey: transactionId,
+        },
+      });
+    }
+
+    return { success: true, requestId: validated.requestId, transactionId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
+
+/**
+ * Server action to reject a pending request, releasing a withdrawal's held amount
+ * Requires wallet.credit (deposits) or wallet.debit (withdrawals) and the user's dealer in scope
+ */
+export async function rejectWalletRequestAction(
+  params: z.infer<typeof RejectWalletRequestActionSchema>
+): Promise<WalletRequestActionResult> {
+  try {
+    const validated = RejectWalletRequestActionSchema.parse(params);
+    const reason = validated.reason?.trim() || undefined;
+
+    const request = await getWalletRequest(validated.requestId);
+    await rejectWalletRequest(validated.requestId, reason);
+
+    const caller = await getServerAuthUser();
+    if (caller && request) {
+      await recordAuditLog(caller, {
+        action: "wallet_request.reject",
+        targetType: "wallet_request",
+        targetId: validated.requestId,
+        dealerId: request.dealerId,
+        before: { status: request.status },
+        after: {
+          status: "rejected",
+          type: request.type,
+          userId: request.userId,
+          amount: request.amount,
+          reason,
+        },
+      });
+    }
+
+    return { success: true, requestId: validated.requestId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "An error occurred" };
+  }
+}
@@ -0,0 +1,86 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { AuditAction, AuditLogDocument } from "./types";
+import { FieldValue, Query, Timestamp } from "firebase-admin/firestore";
+
+const COLLECTION = "auditLogs";
+
+export type CreateAuditLogData = Omit<AuditLogDocument, "createdAt">;
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  actorUid?: string;
+  targetId?: string;
+  dealerId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * Append an audit log entry
+ * Entries are created with a generated ID and never updated
+ */
+export async function createAuditLog(data: CreateAuditLogData): Promise<string> {
+  try {
+    const ref = db.collection(COLLECTION).doc();
+    await ref.create({
+      ...data,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return ref.id;
+  } catch (error) {
+    console.error(`Error creating audit log for ${data.action}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List audit log entries (newest first)
+ * Optional filters: action, actorUid, targetId, dealerId, date range, limit
+ */
+export async function listAuditLogs(
+  filters?: AuditLogFilters
+): Promise<(AuditLogDocument & { id: string })[]> {
+  try {
+    let query: Query = db.collection(COLLECTION);
+
+    if (filters?.action) {
+      query = query.where("action", "==", filters.action);
+    }
+
+    if (filters?.actorUid) {
+      query = query.where("actorUid", "==", filters.actorUid);
+    }
+
+    if (filters?.targetId) {
+      query = query.where("targetId", "==", filters.targetId);
+    }
+
+    if (filters?.dealerId) {
+      query = query.where("dealerId", "==", filters.dealerId);
+    }
+
+    if (filters?.startDate) {
+      query = query.where("createdAt", ">=", Timestamp.fromDate(filters.startDate));
+    }
+
+    if (filters?.endDate) {
+      query = query.where("createdAt", "<=", Timestamp.fromDate(filters.endDate));
+    }
+
+    query = query.orderBy("createdAt", "desc");
+
+    if (filters?.limit) {
+      query = query.limit(filters.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as AuditLogDocument & { id: string }
+    );
+  } catch (error) {
+    console.error("Error listing audit logs:", error);
+    throw error;
+  }
+}
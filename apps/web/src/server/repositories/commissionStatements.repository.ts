@@ -0,0 +1,53 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { CommissionStatementDocument } from "./types";
+
+const COLLECTION = "commissionStatements";
+
+/**
+ * Commission statement document ID for a dealer and period
+ */
+export function commissionStatementId(dealerId: string, periodStart: Date): string {
+  return `${dealerId}_${periodStart.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Get a commission statement by ID
+ */
+export async function getCommissionStatement(
+  statementId: string
+): Promise<CommissionStatementDocument | null> {
+  try {
+    const doc = await db.collection(COLLECTION).doc(statementId).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return doc.data() as CommissionStatementDocument;
+  } catch (error) {
+    console.error(`Error getting commission statement ${statementId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List a dealer's commission statements (newest period first)
+ */
+export async function listDealerCommissionStatements(
+  dealerId: string,
+  limit = 24
+): Promise<(CommissionStatementDocument & { id: string })[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("dealerId", "==", dealerId)
+      .orderBy("periodStart", "desc")
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as CommissionStatementDocument & { id: string }
+    );
+  } catch (error) {
+    console.error(`Error listing commission statements for dealer ${dealerId}:`, error);
+    throw error;
+  }
+}
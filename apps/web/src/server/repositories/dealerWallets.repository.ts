@@ -0,0 +1,79 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { DealerWalletDocument } from "./types";
+import { getAccountBalanceInTransaction } from "./ledger.repository";
+import { ledgerAccounts } from "@/features/ledger";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "dealerWallets";
+
+/**
+ * Get a dealer wallet document by dealer ID
+ */
+export async function getDealerWallet(dealerId: string): Promise<DealerWalletDocument | null> {
+  try {
+    const doc = await db.collection(COLLECTION).doc(dealerId).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return doc.data() as DealerWalletDocument;
+  } catch (error) {
+    console.error(`Error getting dealer wallet ${dealerId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the float of several dealers
+ * Dealers without a wallet document have not been funded yet (0)
+ */
+export async function getDealerFloats(dealerIds: string[]): Promise<Record<string, number>> {
+  try {
+    if (dealerIds.length === 0) {
+      return {};
+    }
+    const docs = await db.getAll(...dealerIds.map((id) => db.collection(COLLECTION).doc(id)));
+    return Object.fromEntries(
+      docs.map((doc) => [doc.id, doc.exists ? (doc.data() as DealerWalletDocument).balance : 0])
+    );
+  } catch (error) {
+    console.error("Error getting dealer floats:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read a dealer's float inside a Firestore transaction
+ * Wallets that do not exist yet are initialized from the ledger
+ */
+export async function getDealerFloatInTransaction(
+  transaction: Transaction,
+  dealerId: string
+): Promise<number> {
+  const walletRef = db.collection(COLLECTION).doc(dealerId);
+  const walletDoc = await transaction.get(walletRef);
+  if (walletDoc.exists) {
+    return (walletDoc.data() as DealerWalletDocument).balance;
+  }
+
+  return getAccountBalanceInTransaction(transaction, ledgerAccounts.dealerFloat(dealerId));
+}
+
+/**
+ * Write a dealer's float inside a Firestore transaction
+ */
+export function setDealerFloatInTransaction(
+  transaction: Transaction,
+  dealerId: string,
+  balance: number
+): void {
+  const walletRef = db.collection(COLLECTION).doc(dealerId);
+  transaction.set(
+    walletRef,
+    {
+      balance,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
@@ -72,6 +72,34 @@ export async function listAllDealers(): Promise<(DealerDocument & { dealerId: st
   }
 }
 
+/**
+ * List every dealer beneath a dealer (sub-dealers, their sub-dealers, ...)
+ */
+export async function listDescendantDealers(
+  dealerId: string
+): Promise<(DealerDocument & { dealerId: string })[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("ancestorDealerIds", "array-contains", dealerId)
+      .get();
+    return snapshot.docs.map(
+      (doc) => ({ dealerId: doc.id, ...doc.data() }) as DealerDocument & { dealerId: string }
+    );
+  } catch (error) {
+    console.error(`Error listing sub-dealers of ${dealerId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Dealer IDs of a dealer's subtree: the dealer itself followed by every dealer beneath it
+ */
+export async function listDealerSubtreeIds(dealerId: string): Promise<string[]> {
+  const descendants = await listDescendantDealers(dealerId);
+  return [dealerId, ...descendants.map((dealer) => dealer.dealerId)];
+}
+
 /**
  * List all dealers (alias for backwards compatibility)
  * @deprecated Use listAllDealers instead
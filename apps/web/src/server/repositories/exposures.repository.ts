@@ -0,0 +1,83 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { ExposureDocument, FixtureExposure } from "./types";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "exposures";
+
+/**
+ * Exposure document ID for a dealer and fixture
+ */
+export function exposureDocId(dealerId: string, fixtureId: string): string {
+  return `${dealerId}_${fixtureId}`;
+}
+
+/**
+ * Read a dealer's exposure on several fixtures inside a Firestore transaction
+ * Fixtures without an exposure document are returned with zero liability
+ */
+export async function getExposuresInTransaction(
+  transaction: Transaction,
+  dealerId: string,
+  fixtureIds: string[]
+): Promise<Map<string, FixtureExposure>> {
+  const exposures = new Map<string, FixtureExposure>();
+  if (fixtureIds.length === 0) {
+    return exposures;
+  }
+
+  const refs = fixtureIds.map((fixtureId) =>
+    db.collection(COLLECTION).doc(exposureDocId(dealerId, fixtureId))
+  );
+  const docs = await transaction.getAll(...refs);
+
+  docs.forEach((doc, index) => {
+    const data = doc.data() as ExposureDocument | undefined;
+    exposures.set(fixtureIds[index]!, {
+      liability: data?.liability ?? 0,
+      stake: data?.stake ?? 0,
+      markets: data?.markets ?? {},
+      selections: data?.selections ?? {},
+    });
+  });
+
+  return exposures;
+}
+
+/**
+ * Write a dealer's exposure on a fixture inside a Firestore transaction
+ */
+export function setExposureInTransaction(
+  transaction: Transaction,
+  dealerId: string,
+  fixtureId: string,
+  exposure: FixtureExposure
+): void {
+  transaction.set(db.collection(COLLECTION).doc(exposureDocId(dealerId, fixtureId)), {
+    dealerId,
+    fixtureId,
+    ...exposure,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * List a dealer's fixtures with open liability (highest first)
+ */
+export async function listDealerExposures(
+  dealerId: string
+): Promise<(ExposureDocument & { id: string })[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("dealerId", "==", dealerId)
+      .where("liability", ">", 0)
+      .orderBy("liability", "desc")
+      .get();
+
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as ExposureDocument) }));
+  } catch (error) {
+    console.error(`Error listing exposures for dealer ${dealerId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,135 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { FixtureDayDocument, FixtureDocument } from "./types";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+
+const COLLECTION = "fixtures";
+const DAYS_COLLECTION = "fixtureDays";
+const SYNC_STATE_COLLECTION = "sync_state";
+const SYNC_FIXTURES_LATEST_DOC_ID = "syncFixturesLatest";
+
+/**
+ * Maximum number of writes per batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * List read model fixtures kicking off on the given days (YYYY-MM-DD, inclusive)
+ */
+export async function listFixturesByDates(
+  startDate: string,
+  endDate: string
+): Promise<FixtureDocument[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("date", ">=", startDate)
+      .where("date", "<=", endDate)
+      .get();
+
+    return snapshot.docs
+      .map((doc) => doc.data() as FixtureDocument)
+      .sort((a, b) => a.kickoffTime.toMillis() - b.kickoffTime.toMillis());
+  } catch (error) {
+    console.error("Error listing fixtures by dates:", error);
+    throw error;
+  }
+}
+
+/**
+ * List read model fixtures kicking off between two times
+ */
+export async function listFixturesByKickoff(from: Date, to: Date): Promise<FixtureDocument[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("kickoffTime", ">=", Timestamp.fromDate(from))
+      .where("kickoffTime", "<=", Timestamp.fromDate(to))
+      .orderBy("kickoffTime")
+      .get();
+
+    return snapshot.docs.map((doc) => doc.data() as FixtureDocument);
+  } catch (error) {
+    console.error("Error listing fixtures by kickoff:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the coverage records of several days, keyed by date
+ */
+export async function getFixtureDays(dates: string[]): Promise<Map<string, FixtureDayDocument>> {
+  const days = new Map<string, FixtureDayDocument>();
+  if (dates.length === 0) {
+    return days;
+  }
+
+  try {
+    const docs = await db.getAll(...dates.map((date) => db.collection(DAYS_COLLECTION).doc(date)));
+    docs.forEach((doc) => {
+      if (doc.exists) {
+        days.set(doc.id, doc.data() as FixtureDayDocument);
+      }
+    });
+    return days;
+  } catch (error) {
+    console.error("Error getting fixture days:", error);
+    throw error;
+  }
+}
+
+/**
+ * Write the complete fixture list of a day fetched from SportMonks and mark the day covered
+ * Fixtures the sync job updated after fetchedAt are newer than the fetched copy and are kept
+ */
+export async function backfillFixtureDay(
+  date: string,
+  fixtures: Omit<FixtureDocument, "updatedAt">[],
+  fetchedAt: Date
+): Promise<void> {
+  try {
+    for (let i = 0; i < fixtures.length; i += BATCH_SIZE) {
+      const chunk = fixtures.slice(i, i + BATCH_SIZE);
+      const refs = chunk.map((fixture) =>
+        db.collection(COLLECTION).doc(String(fixture.fixtureId))
+      );
+      const existing = await db.getAll(...refs);
+
+      const batch = db.batch();
+      chunk.forEach((fixture, index) => {
+        const current = existing[index]!.data() as FixtureDocument | undefined;
+        if (current?.updatedAt && current.updatedAt.toMillis() > fetchedAt.getTime()) {
+          return;
+        }
+        batch.set(refs[index]!, { ...fixture, updatedAt: FieldValue.serverTimestamp() });
+      });
+      await batch.commit();
+    }
+
+    await db.collection(DAYS_COLLECTION).doc(date).set({
+      date,
+      fixtureCount: fixtures.length,
+      coveredAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`Error backfilling fixtures of ${date}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * When the fixtures sync job last completed a run (null if it never ran)
+ */
+export async function getFixturesLastSyncedAt(): Promise<Date | null> {
+  try {
+    const doc = await db
+      .collection(SYNC_STATE_COLLECTION)
+      .doc(SYNC_FIXTURES_LATEST_DOC_ID)
+      .get();
+    const lastSyncAt = doc.data()?.lastSyncAt as Timestamp | undefined;
+    return lastSyncAt ? lastSyncAt.toDate() : null;
+  } catch (error) {
+    console.error("Error getting fixtures sync state:", error);
+    throw error;
+  }
+}
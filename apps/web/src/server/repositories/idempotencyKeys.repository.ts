@@ -0,0 +1,107 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { IdempotencyKeyDocument, IdempotentOperation } from "./types";
+import { FieldValue, Timestamp, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "idempotencyKeys";
+
+/**
+ * How long a key is remembered; repeats after that run the operation again
+ */
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A client-generated key for one operation of one caller
+ */
+export interface IdempotencyScope {
+  uid: string;
+  operation: IdempotentOperation;
+  key: string;
+}
+
+export interface IdempotentResult {
+  resultId: string;
+  amount?: number;
+}
+
+/**
+ * Scope of an optional client key (null when the caller sent none)
+ */
+export function idempotencyScope(
+  uid: string,
+  operation: IdempotentOperation,
+  key: string | undefined
+): IdempotencyScope | null {
+  return key ? { uid, operation, key } : null;
+}
+
+function keyRef(scope: IdempotencyScope) {
+  return db.collection(COLLECTION).doc(`${scope.uid}_${scope.key}`);
+}
+
+/**
+ * Result recorded under a key, or null when the key is unused or expired
+ * Throws when the key was used for a different operation
+ */
+function toResult(
+  scope: IdempotencyScope,
+  data: IdempotencyKeyDocument | undefined
+): IdempotentResult | null {
+  if (!data || data.expiresAt.toMillis() <= Date.now()) {
+    return null;
+  }
+  if (data.operation !== scope.operation) {
+    throw new Error("Idempotency key was already used for a different operation");
+  }
+  return {
+    resultId: data.resultId,
+    ...(data.amount !== undefined && { amount: data.amount }),
+  };
+}
+
+/**
+ * Get the result recorded under a key (outside a transaction)
+ * Used to answer repeats before re-running validations
+ */
+export async function getIdempotentResult(
+  scope: IdempotencyScope
+): Promise<IdempotentResult | null> {
+  try {
+    const doc = await keyRef(scope).get();
+    return toResult(scope, doc.data() as IdempotencyKeyDocument | undefined);
+  } catch (error) {
+    console.error(`Error getting idempotency key ${scope.key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Read the result recorded under a key inside a Firestore transaction
+ * Must be called before any write of the transaction
+ */
+export async function readIdempotentResultInTransaction(
+  transaction: Transaction,
+  scope: IdempotencyScope
+): Promise<IdempotentResult | null> {
+  const doc = await transaction.get(keyRef(scope));
+  return toResult(scope, doc.data() as IdempotencyKeyDocument | undefined);
+}
+
+/**
+ * Record the result of an operation under its key inside the operation's transaction
+ * An expired key is overwritten
+ */
+export function saveIdempotentResultInTransaction(
+  transaction: Transaction,
+  scope: IdempotencyScope,
+  result: IdempotentResult
+): void {
+  transaction.set(keyRef(scope), {
+    uid: scope.uid,
+    operation: scope.operation,
+    resultId: result.resultId,
+    ...(result.amount !== undefined && { amount: result.amount }),
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+  });
+}
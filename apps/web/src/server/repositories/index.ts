@@ -3,3 +3,15 @@ export * from "./users.repository";
 export * from "./dealers.repository";
 export * from "./transactions.repository";
 export * from "./slips.repository";
+export * from "./wallets.repository";
+export * from "./exposures.repository";
+export * from "./dealerWallets.repository";
+export * from "./ledger.repository";
+export * from "./commissionStatements.repository";
+export * from "./auditLogs.repository";
+export * from "./idempotencyKeys.repository";
+export * from "./walletRequests.repository";
+export * from "./fixtures.repository";
+export * from "./oddsSnapshots.repository";
+export * from "./staffCashUsage.repository";
+export * from "./userLimitUsage.repository";
@@ -0,0 +1,298 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import { assertBalancedPostings, computeAccountBalance } from "@/features/ledger";
+import type { LedgerEntryDocument, LedgerEntryKind, LedgerPosting } from "./types";
+import {
+  FieldValue,
+  Query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Timestamp,
+  Transaction,
+} from "firebase-admin/firestore";
+
+const COLLECTION = "ledger";
+const META_COLLECTION = "ledgerMeta";
+const SEQUENCE_DOC = "sequence";
+
+/**
+ * Entry to post to the ledger
+ * createdAt defaults to the server timestamp (migrated entries keep their original date)
+ */
+export interface LedgerEntryInput {
+  idempotencyKey: string;
+  kind: LedgerEntryKind;
+  postings: LedgerPosting[];
+  dealerId: string;
+  slipId?: string;
+  walletRequestId?: string;
+  actorUid?: string;
+  reason: string;
+  legacyTransactionId?: string;
+  createdAt?: Timestamp;
+}
+
+export interface LedgerFilters {
+  dealerId?: string;
+  dealerIds?: string[]; // Several dealers (e.g. a dealer's subtree); takes precedence over dealerId
+  kind?: LedgerEntryKind;
+  account?: string; // Only entries posting to this account
+  actorUid?: string; // Only entries initiated by this caller
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * Generate an idempotency key for an entry without a natural one
+ */
+export function newLedgerKey(): string {
+  return db.collection(COLLECTION).doc().id;
+}
+
+/**
+ * Read the next ledger sequence number inside a Firestore transaction
+ * Must be called before any write of the transaction
+ */
+export async function readLedgerSequenceInTransaction(transaction: Transaction): Promise<number> {
+  const sequenceDoc = await transaction.get(db.collection(META_COLLECTION).doc(SEQUENCE_DOC));
+  return sequenceDoc.exists ? (sequenceDoc.data() as { next: number }).next : 1;
+}
+
+/**
+ * Write ledger entries inside a Firestore transaction
+ * Entries get consecutive sequence numbers starting at nextSequence. The entry ID is its
+ * idempotency key and entries are created (never overwritten), so a key can only be posted once
+ */
+export function writeLedgerEntriesInTransaction(
+  transaction: Transaction,
+  nextSequence: number,
+  entries: LedgerEntryInput[]
+): void {
+  entries.forEach((entry, index) => {
+    assertBalancedPostings(entry.postings);
+
+    const { createdAt, slipId, walletRequestId, actorUid, legacyTransactionId, ...data } = entry;
+    transaction.create(db.collection(COLLECTION).doc(entry.idempotencyKey), {
+      ...data,
+      ...(slipId && { slipId }),
+      ...(walletRequestId && { walletRequestId }),
+      ...(actorUid && { actorUid }),
+      ...(legacyTransactionId && { legacyTransactionId }),
+      sequence: nextSequence + index,
+      accounts: Array.from(new Set(entry.postings.map((posting) => posting.account))),
+      createdAt: createdAt ?? FieldValue.serverTimestamp(),
+    });
+  });
+
+  transaction.set(db.collection(META_COLLECTION).doc(SEQUENCE_DOC), {
+    next: nextSequence + entries.length,
+  });
+}
+
+/**
+ * Get a ledger entry by idempotency key
+ */
+export async function getLedgerEntry(
+  idempotencyKey: string
+): Promise<LedgerEntryDocument | null> {
+  try {
+    const doc = await db.collection(COLLECTION).doc(idempotencyKey).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return doc.data() as LedgerEntryDocument;
+  } catch (error) {
+    console.error(`Error getting ledger entry ${idempotencyKey}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List ledger entries (newest first, by sequence)
+ * Optional filters: dealerId or dealerIds, kind, account, date range, limit
+ */
+export async function listLedgerEntries(
+  filters?: LedgerFilters
+): Promise<(LedgerEntryDocument & { id: string })[]> {
+  try {
+    // Several dealers: "in" takes at most 30 values, so query in chunks and merge
+    if (filters?.dealerIds) {
+      const entries: (LedgerEntryDocument & { id: string })[] = [];
+      for (let i = 0; i < filters.dealerIds.length; i += 30) {
+        const snapshot = await buildLedgerQuery(filters)
+          .where("dealerId", "in", filters.dealerIds.slice(i, i + 30))
+          .get();
+        entries.push(
+          ...snapshot.docs.map(
+            (doc) => ({ id: doc.id, ...doc.data() }) as LedgerEntryDocument & { id: string }
+          )
+        );
+      }
+      entries.sort((a, b) => b.sequence - a.sequence);
+      return filters.limit ? entries.slice(0, filters.limit) : entries;
+    }
+
+    let query = buildLedgerQuery(filters);
+    if (filters?.dealerId) {
+      query = query.where("dealerId", "==", filters.dealerId);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as LedgerEntryDocument & { id: string }
+    );
+  } catch (error) {
+    console.error("Error listing ledger entries:", error);
+    throw error;
+  }
+}
+
+/**
+ * Ledger query for every filter except the dealer (newest first, by sequence)
+ * Date filters apply to createdAt; the order stays on sequence
+ */
+function buildLedgerQuery(filters?: LedgerFilters): Query {
+  let query: Query = db.collection(COLLECTION);
+
+  if (filters?.kind) {
+    query = query.where("kind", "==", filters.kind);
+  }
+
+  if (filters?.account) {
+    query = query.where("accounts", "array-contains", filters.account);
+  }
+
+  if (filters?.actorUid) {
+    query = query.where("actorUid", "==", filters.actorUid);
+  }
+
+  if (filters?.startDate) {
+    query = query.where("createdAt", ">=", Timestamp.fromDate(filters.startDate));
+  }
+
+  if (filters?.endDate) {
+    query = query.where("createdAt", "<=", Timestamp.fromDate(filters.endDate));
+  }
+
+  query = query.orderBy("sequence", "desc");
+
+  if (filters?.limit) {
+    query = query.limit(filters.limit);
+  }
+
+  return query;
+}
+
+/**
+ * Compute an account balance from the ledger inside a Firestore transaction
+ * Used to initialize cached balances that do not exist yet
+ */
+export async function getAccountBalanceInTransaction(
+  transaction: Transaction,
+  account: string
+): Promise<number> {
+  const snapshot = await transaction.get(
+    db.collection(COLLECTION).where("accounts", "array-contains", account)
+  );
+  return computeAccountBalance(
+    account,
+    snapshot.docs.map((doc) => doc.data() as LedgerEntryDocument)
+  );
+}
+
+/**
+ * List the entries of an account created since a date inside a Firestore transaction
+ */
+export async function listAccountEntriesInTransaction(
+  transaction: Transaction,
+  account: string,
+  startDate: Date
+): Promise<LedgerEntryDocument[]> {
+  const snapshot = await transaction.get(
+    db
+      .collection(COLLECTION)
+      .where("accounts", "array-contains", account)
+      .where("createdAt", ">=", Timestamp.fromDate(startDate))
+  );
+  return snapshot.docs.map((doc) => doc.data() as LedgerEntryDocument);
+}
+
+/**
+ * Iterate ledger entries in sequence order, one page at a time
+ * Optional filters: dealerIds (several dealers, e.g. a dealer's subtree), endDate (inclusive)
+ */
+export async function* iterateLedgerEntries(filters?: {
+  dealerIds?: string[];
+  endDate?: Date;
+  pageSize?: number;
+}): AsyncGenerator<LedgerEntryDocument & { id: string }> {
+  let query: Query = db.collection(COLLECTION);
+
+  if (filters?.endDate) {
+    query = query.where("createdAt", "<=", Timestamp.fromDate(filters.endDate));
+  }
+
+  query = query.orderBy("sequence", "asc");
+  const pageSize = filters?.pageSize ?? 500;
+
+  if (!filters?.dealerIds) {
+    yield* iterateQuery(query, pageSize);
+    return;
+  }
+
+  // "in" takes at most 30 values, so page through each chunk and merge them by sequence
+  const sources: AsyncGenerator<LedgerEntryDocument & { id: string }>[] = [];
+  for (let i = 0; i < filters.dealerIds.length; i += 30) {
+    const chunk = filters.dealerIds.slice(i, i + 30);
+    sources.push(iterateQuery(query.where("dealerId", "in", chunk), pageSize));
+  }
+
+  const heads = await Promise.all(sources.map(nextEntry));
+  for (;;) {
+    let index = -1;
+    heads.forEach((head, i) => {
+      if (head && (index < 0 || head.sequence < heads[index]!.sequence)) {
+        index = i;
+      }
+    });
+    if (index < 0) {
+      return;
+    }
+    yield heads[index]!;
+    heads[index] = await nextEntry(sources[index]);
+  }
+}
+
+async function nextEntry<T>(source: AsyncGenerator<T>): Promise<T | null> {
+  const result = await source.next();
+  return result.done ? null : result.value;
+}
+
+/**
+ * Page through a ledger query ordered by sequence
+ */
+async function* iterateQuery(
+  query: Query,
+  pageSize: number
+): AsyncGenerator<LedgerEntryDocument & { id: string }> {
+  let lastDoc: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let snapshot: QuerySnapshot;
+    try {
+      snapshot = await (lastDoc ? query.startAfter(lastDoc) : query).limit(pageSize).get();
+    } catch (error) {
+      console.error("Error iterating ledger entries:", error);
+      throw error;
+    }
+
+    for (const doc of snapshot.docs) {
+      yield { id: doc.id, ...doc.data() } as LedgerEntryDocument & { id: string };
+    }
+
+    if (snapshot.docs.length < pageSize) {
+      return;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
@@ -0,0 +1,63 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { OddsSnapshotDocument } from "./types";
+import { FieldValue } from "firebase-admin/firestore";
+
+const COLLECTION = "oddsSnapshots";
+
+/**
+ * Maximum number of writes per batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Snapshot document ID; the same change ingested twice maps to the same document
+ */
+function snapshotDocId(snapshot: Omit<OddsSnapshotDocument, "recordedAt">): string {
+  return `${snapshot.source}_${snapshot.oddId}_${snapshot.changedAt.toMillis()}`;
+}
+
+/**
+ * Save odds snapshots
+ */
+export async function saveOddsSnapshots(
+  snapshots: Omit<OddsSnapshotDocument, "recordedAt">[]
+): Promise<void> {
+  try {
+    for (let i = 0; i < snapshots.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const snapshot of snapshots.slice(i, i + BATCH_SIZE)) {
+        batch.set(db.collection(COLLECTION).doc(snapshotDocId(snapshot)), {
+          ...snapshot,
+          recordedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Error saving odds snapshots:", error);
+    throw error;
+  }
+}
+
+/**
+ * List the most recent snapshots of a fixture (optionally one market), oldest first
+ */
+export async function listOddsSnapshots(
+  fixtureId: number,
+  marketId: number | undefined,
+  limit: number
+): Promise<OddsSnapshotDocument[]> {
+  try {
+    let query = db.collection(COLLECTION).where("fixtureId", "==", fixtureId);
+    if (marketId !== undefined) {
+      query = query.where("marketId", "==", marketId);
+    }
+
+    const snapshot = await query.orderBy("changedAt", "desc").limit(limit).get();
+    return snapshot.docs.map((doc) => doc.data() as OddsSnapshotDocument).reverse();
+  } catch (error) {
+    console.error("Error listing odds snapshots:", error);
+    throw error;
+  }
+}
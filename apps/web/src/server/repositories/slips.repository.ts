@@ -70,7 +70,7 @@ export async function updateSlip(
 export async function getUserSlips(
   userId: string,
   filters?: SlipFilters
-): Promise<SlipDocument[]> {
+): Promise<(SlipDocument & { id: string })[]> {
   try {
     let query: Query = db.collection(COLLECTION)
       .where("userId", "==", userId)
@@ -92,7 +92,7 @@ export async function getUserSlips(
     }
 
     const snapshot = await query.get();
-    return snapshot.docs.map((doc) => doc.data() as SlipDocument);
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SlipDocument & { id: string });
   } catch (error) {
     console.error(`Error getting slips for user ${userId}:`, error);
     throw error;
@@ -105,7 +105,7 @@ export async function getUserSlips(
 export async function getDealerSlips(
   dealerId: string,
   filters?: SlipFilters
-): Promise<SlipDocument[]> {
+): Promise<(SlipDocument & { id: string })[]> {
   try {
     let query: Query = db.collection(COLLECTION)
       .where("dealerId", "==", dealerId)
@@ -127,13 +127,39 @@ export async function getDealerSlips(
     }
 
     const snapshot = await query.get();
-    return snapshot.docs.map((doc) => doc.data() as SlipDocument);
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SlipDocument & { id: string });
   } catch (error) {
     console.error(`Error getting slips for dealer ${dealerId}:`, error);
     throw error;
   }
 }
 
+/**
+ * Get slips of several dealers (e.g. a dealer's subtree), newest first
+ * Firestore "in" queries take at most 30 values, so dealerIds are queried in chunks
+ */
+export async function getSlipsByDealerIds(
+  dealerIds: string[]
+): Promise<(SlipDocument & { id: string })[]> {
+  try {
+    const slips: (SlipDocument & { id: string })[] = [];
+    for (let i = 0; i < dealerIds.length; i += 30) {
+      const snapshot = await db
+        .collection(COLLECTION)
+        .where("dealerId", "in", dealerIds.slice(i, i + 30))
+        .orderBy("createdAt", "desc")
+        .get();
+      slips.push(
+        ...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SlipDocument & { id: string })
+      );
+    }
+    return slips.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+  } catch (error) {
+    console.error(`Error getting slips for dealers ${dealerIds.join(", ")}:`, error);
+    throw error;
+  }
+}
+
 /**
  * List all slips (superadmin only)
  */
@@ -0,0 +1,56 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { StaffCashUsageDocument } from "./types";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "staffCashUsage";
+
+function usageRef(uid: string, date: string) {
+  return db.collection(COLLECTION).doc(`${uid}_${date}`);
+}
+
+/**
+ * Cash a staff account moved on a day (YYYY-MM-DD, UTC)
+ */
+export async function getStaffCashUsage(uid: string, date: string): Promise<number> {
+  try {
+    const doc = await usageRef(uid, date).get();
+    return doc.exists ? (doc.data() as StaffCashUsageDocument).amount : 0;
+  } catch (error) {
+    console.error(`Error getting cash usage of staff ${uid} on ${date}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Read a staff account's cash usage of a day inside a Firestore transaction
+ */
+export async function getStaffCashUsageInTransaction(
+  transaction: Transaction,
+  uid: string,
+  date: string
+): Promise<number> {
+  const doc = await transaction.get(usageRef(uid, date));
+  return doc.exists ? (doc.data() as StaffCashUsageDocument).amount : 0;
+}
+
+/**
+ * Add to a staff account's cash usage of a day inside a Firestore transaction
+ */
+export function addStaffCashUsageInTransaction(
+  transaction: Transaction,
+  uid: string,
+  date: string,
+  amount: number
+): void {
+  transaction.set(
+    usageRef(uid, date),
+    {
+      uid,
+      date,
+      amount: FieldValue.increment(amount),
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
@@ -1,15 +1,117 @@
 import type { Timestamp } from "firebase-admin/firestore";
+import type { BetCombination, BetType } from "@repo/shared/betting";
+import type { Permission } from "@/features/rbac/permissions";
 
 /**
  * User document structure in Firestore
  */
 export interface UserDocument {
-  role: "superadmin" | "dealer" | "user";
+  role: "superadmin" | "dealer" | "staff" | "user";
   dealerId?: string;
   status: "active" | "banned";
+  permissions?: Permission[]; // Granted on top of the role's defaults
+  staffLimits?: StaffLimits; // Staff accounts only
+  // Responsible gaming controls set by the user
+  limits?: UserLimits;
+  pendingLimits?: PendingUserLimits | null; // Increase waiting for its effective date
+  coolOffUntil?: Timestamp;
+  selfExcludedUntil?: Timestamp;
   createdAt: Timestamp;
 }
 
+/**
+ * Cash a staff account can move on user wallets (credits plus debits; unset fields are not enforced)
+ */
+export interface StaffLimits {
+  perTransaction?: number;
+  daily?: number; // Per UTC day
+}
+
+/**
+ * Cash a staff account moved on user wallets in one UTC day (staffCashUsage/{uid}_{date})
+ * Updated in the transaction that posts each credit or debit, so the daily limit holds under concurrency
+ */
+export interface StaffCashUsageDocument {
+  uid: string;
+  date: string; // YYYY-MM-DD (UTC)
+  amount: number; // Credits plus debits
+  updatedAt: Timestamp;
+}
+
+/**
+ * Limit per rolling period (unset periods are not enforced)
+ */
+export interface PeriodLimits {
+  daily?: number; // Last 24 hours
+  weekly?: number; // Last 7 days
+  monthly?: number; // Last 30 days
+}
+
+export type LimitPeriod = keyof PeriodLimits;
+
+/**
+ * Responsible gaming limits of a user
+ */
+export interface UserLimits {
+  deposit?: PeriodLimits; // Dealer credits to the user
+  loss?: PeriodLimits; // Stakes minus returns
+  maxStake?: number; // Total stake of a slip
+}
+
+/**
+ * Deposits and net losses of a user per UTC day (userLimitUsage/{uid}), covering the last 30 days
+ * Updated in the transaction that moves the money, so concurrent deposits and slips can't exceed limits
+ */
+export interface UserLimitUsageDocument {
+  days: Record<string, UserDayUsage>; // Keyed by YYYY-MM-DD (UTC)
+  updatedAt: Timestamp;
+}
+
+export interface UserDayUsage {
+  deposits: number;
+  losses: number; // Stakes minus returns (negative when the user is ahead)
+}
+
+/**
+ * Limits that loosen the current ones only apply after a waiting period
+ */
+export interface PendingUserLimits {
+  limits: UserLimits;
+  effectiveAt: Timestamp;
+  requestedAt: Timestamp;
+}
+
+/**
+ * Risk limits configured by a dealer (unset fields are not enforced)
+ */
+export interface DealerLimits {
+  minStake?: number; // Total stake of a slip
+  maxStake?: number;
+  maxPayout?: number; // Maximum return of a single slip
+  maxSelections?: number;
+  minTotalOdds?: number; // Applies to every combination of a slip
+  maxFixtureLiability?: number; // Open potential returns on one fixture
+  maxMarketLiability?: number; // Open potential returns on one market of a fixture
+}
+
+/**
+ * How a dealer is paid
+ * revenue_share: rate of net gaming revenue (stakes minus payouts), nothing when revenue is negative
+ * turnover: rate of settled stakes
+ */
+export type CommissionPlanType = "revenue_share" | "turnover";
+
+export type CommissionPeriod = "weekly" | "monthly";
+
+/**
+ * Commission plan configured by a superadmin on a dealer
+ */
+export interface CommissionPlan {
+  type: CommissionPlanType;
+  rate: number; // Fraction (e.g. 0.25 = 25%)
+  period: CommissionPeriod; // Statement period (weeks start on Monday, UTC)
+}
+
 /**
  * Dealer document structure in Firestore
  */
@@ -17,19 +119,244 @@ export interface DealerDocument {
   name: string;
   createdAt: Timestamp;
   createdBy: string; // uid of creator
+  cashoutMargin?: number; // Fraction kept on cash-out (e.g. 0.05 = 5%)
+  allowSameGameCombos?: boolean; // Allow selections from the same fixture in one bet (default true)
+  limits?: DealerLimits;
+  commissionPlan?: CommissionPlan;
+  parentDealerId?: string; // Master dealer this dealer sits under (absent for top-level dealers)
+  ancestorDealerIds?: string[]; // Every dealer above this one, top-level first
 }
 
 /**
- * Transaction document structure in Firestore
+ * Legacy single-row transaction types (transactions collection)
+ * credit/debit/refund moved a user's balance; float_credit/float_debit moved a dealer's float
+ */
+export type TransactionType =
+  | "credit"
+  | "debit"
+  | "adjustment"
+  | "refund"
+  | "float_credit"
+  | "float_debit";
+
+/**
+ * Legacy transaction document structure in Firestore (transactions/{txId})
+ * Replaced by the double-entry ledger; only read to migrate existing entries
  */
 export interface TransactionDocument {
-  type: "credit" | "debit" | "adjustment";
+  type: TransactionType;
   amount: number;
   fromUid: string;
   toUid: string;
   dealerId: string;
   createdAt: Timestamp;
   reason: string;
+  slipId?: string; // Set on slip stake / payout / refund transactions
+}
+
+/**
+ * Account types of the double-entry ledger
+ * user_wallet: a user's balance (user:{uid})
+ * dealer_float: funds a dealer can credit to users (float:{dealerId})
+ * house: the operator, funds dealer floats, adjustments and commissions (house)
+ * stakes_in_play: stakes of a dealer's pending slips (stakes:{dealerId})
+ * payouts: returns paid to a dealer's users on settled and cashed-out slips (payouts:{dealerId})
+ * pending_withdrawals: funds held for a dealer's users' open withdrawal requests (withdrawals:{dealerId})
+ */
+export type LedgerAccountType =
+  | "user_wallet"
+  | "dealer_float"
+  | "house"
+  | "stakes_in_play"
+  | "payouts"
+  | "pending_withdrawals";
+
+export type LedgerEntryKind =
+  | "deposit" // dealer float -> user
+  | "withdrawal" // user (or pending withdrawals, for requests) -> dealer float
+  | "withdrawal_hold" // user -> pending withdrawals, when a withdrawal is requested
+  | "withdrawal_release" // pending withdrawals -> user, when the request is rejected or cancelled
+  | "float_transfer" // house <-> dealer float
+  | "stake" // user -> stakes in play
+  | "settlement" // stakes in play -> dealer float, payouts -> user
+  | "refund" // stakes in play -> user
+  | "cashout" // as settlement, at the cash-out amount
+  | "adjustment" // house <-> user
+  | "commission"; // house -> dealer float
+
+/**
+ * One side of a ledger entry; amounts are signed and the postings of an entry sum to zero
+ * An account's balance is the sum of its postings
+ */
+export interface LedgerPosting {
+  account: string;
+  amount: number;
+}
+
+/**
+ * Ledger entry document structure in Firestore (ledger/{idempotencyKey})
+ * Entries are immutable; sequence is allocated from ledgerMeta/sequence in the writing transaction
+ * and is the ledger's posting order (listing, paging and reports)
+ */
+export interface LedgerEntryDocument {
+  sequence: number;
+  idempotencyKey: string;
+  kind: LedgerEntryKind;
+  postings: LedgerPosting[];
+  accounts: string[]; // Accounts of the postings, for array-contains queries
+  dealerId: string;
+  slipId?: string;
+  walletRequestId?: string; // Set on entries of a deposit or withdrawal request
+  actorUid?: string; // Caller that initiated the entry (unset for scheduled settlement)
+  reason: string;
+  legacyTransactionId?: string; // Set on entries migrated from the transactions collection
+  createdAt: Timestamp;
+}
+
+export type CommissionStatementStatus = "draft" | "approved";
+
+/**
+ * Commission statement document structure in Firestore
+ * (commissionStatements/{dealerId}_{periodStart as YYYY-MM-DD})
+ * Figures come from the settlement and cash-out ledger entries of the period. Drafts can be
+ * recomputed; approving posts the commission to the ledger and freezes the statement
+ */
+export interface CommissionStatementDocument {
+  dealerId: string;
+  periodStart: Timestamp;
+  periodEnd: Timestamp; // Exclusive
+  plan: CommissionPlan; // Plan in force when the statement was closed
+  slipCount: number; // Settled and cashed-out slips
+  turnover: number; // Stakes of those slips
+  payouts: number; // Returns paid on those slips
+  netRevenue: number; // turnover - payouts
+  subDealerCommission?: number; // Earned by sub-dealers on the same slips, deducted from commission
+  commission: number;
+  status: CommissionStatementStatus;
+  closedBy: string;
+  closedAt: Timestamp;
+  approvedBy?: string;
+  approvedAt?: Timestamp;
+  ledgerEntryKey?: string; // Set on approval
+}
+
+export type AuditAction =
+  | "user.create"
+  | "user.set_role"
+  | "user.ban"
+  | "user.unban"
+  | "user.set_permissions"
+  | "staff.update"
+  | "wallet.credit"
+  | "wallet.debit"
+  | "dealer.create"
+  | "dealer.update_settings"
+  | "dealer.update_cashout_margin"
+  | "dealer_float.transfer"
+  | "commission.update_plan"
+  | "commission.close"
+  | "commission.approve"
+  | "slip.cancel"
+  | "slip.void_line"
+  | "ledger.migrate"
+  | "permissions.sync"
+  | "wallet_request.approve"
+  | "wallet_request.reject";
+
+export type AuditTargetType =
+  | "user"
+  | "dealer"
+  | "slip"
+  | "commission_statement"
+  | "ledger"
+  | "wallet_request";
+
+/**
+ * Audit log document structure in Firestore (auditLogs/{logId})
+ * Append-only record of a privileged action, written server-side after the action succeeds
+ */
+export interface AuditLogDocument {
+  action: AuditAction;
+  actorUid: string;
+  actorRole: string;
+  actorDealerId?: string; // Dealer scope of the actor
+  targetType: AuditTargetType;
+  targetId: string;
+  dealerId?: string; // Dealer the target belongs to
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Timestamp;
+}
+
+export type IdempotentOperation =
+  | "slip.create"
+  | "slip.cashout"
+  | "wallet.credit"
+  | "wallet.debit"
+  | "dealer_float.transfer"
+  | "wallet_request.create";
+
+/**
+ * Idempotency key document structure in Firestore (idempotencyKeys/{uid}_{key})
+ * Written in the same transaction as the operation it guards; removed by a TTL policy on expiresAt
+ */
+export interface IdempotencyKeyDocument {
+  uid: string; // Caller the key belongs to
+  operation: IdempotentOperation;
+  resultId: string; // Slip ID or ledger entry key created by the operation
+  amount?: number; // Amount paid, for operations returning one (cash-out)
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+export type WalletRequestType = "deposit" | "withdrawal";
+
+export type WalletRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+/**
+ * Deposit or withdrawal request submitted by a user (walletRequests/{requestId})
+ * A withdrawal's amount is held in the dealer's pending withdrawals account from submission until
+ * the request is decided, so it cannot be staked meanwhile
+ */
+export interface WalletRequestDocument {
+  userId: string;
+  dealerId: string;
+  type: WalletRequestType;
+  amount: number;
+  note?: string; // From the user
+  status: WalletRequestStatus;
+  holdEntryKey?: string; // Withdrawals: hold posted on submission
+  ledgerEntryKey?: string; // Deposit or withdrawal posted on approval, release on rejection or cancellation
+  decidedBy?: string; // Dealer or staff member who approved or rejected the request
+  decisionReason?: string; // Set on rejection
+  decidedAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+/**
+ * Wallet document structure in Firestore (wallets/{uid})
+ * Cached balance of the user_wallet account, updated in the same Firestore transaction as
+ * every ledger write that posts to it
+ */
+export interface WalletDocument {
+  balance: number;
+  updatedAt: Timestamp;
+  // Set by the reconciliation job
+  ledgerBalance?: number; // Balance recomputed from the ledger
+  drift?: number; // balance - ledgerBalance (0 when consistent)
+  reconciledAt?: Timestamp;
+}
+
+/**
+ * Dealer float document structure in Firestore (dealerWallets/{dealerId})
+ * Cached balance of the dealer_float account, updated in the same Firestore transaction as
+ * every ledger write that posts to it
+ */
+export interface DealerWalletDocument {
+  balance: number;
+  updatedAt: Timestamp;
 }
 
 /**
@@ -41,6 +368,103 @@ export interface SlipLine {
   market: string;
   selection: string;
   odds: number;
+  marketId?: number; // SportMonks market ID, used for settlement
+  result?: "won" | "lost" | "void" | "half_won" | "half_lost"; // Set when the slip is settled
+  // Set when a dealer/superadmin voids the line manually
+  voidedBy?: string;
+  voidReason?: string;
+  voidedAt?: Timestamp;
+}
+
+/**
+ * One bet of a slip (a single, a double, ... or the full accumulator)
+ */
+export interface SlipCombination extends BetCombination {
+  payout?: number; // Set when the slip is settled
+}
+
+/**
+ * Liability on one fixture: potential returns and stakes of the open bets covering it
+ * selections is keyed by market key, then selection
+ */
+export interface FixtureExposure {
+  liability: number;
+  stake: number;
+  markets: Record<string, number>;
+  selections: Record<string, Record<string, { liability: number; stake: number }>>;
+}
+
+/**
+ * Exposure a slip adds to each fixture it covers, keyed by fixture ID
+ */
+export type SlipExposure = Record<string, FixtureExposure>;
+
+/**
+ * Open liability of a dealer on a fixture (exposures/{dealerId}_{fixtureId})
+ * Sum of the exposure of the dealer's pending slips; released when a slip is closed
+ */
+export interface ExposureDocument extends FixtureExposure {
+  dealerId: string;
+  fixtureId: string;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Normalized fixture in the read model (fixtures/{fixtureId})
+ * Written by the fixtures sync job (functions/src/repositories/fixtures.repository.ts) and by
+ * backfills of days fetched from SportMonks
+ */
+export interface FixtureDocument {
+  fixtureId: number;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamLogo: string | null;
+  awayTeamLogo: string | null;
+  kickoffAt: string; // SportMonks starting_at ("YYYY-MM-DD HH:mm:ss", UTC)
+  kickoffTime: Timestamp;
+  date: string; // Kickoff date (YYYY-MM-DD, UTC)
+  leagueId: number | null;
+  leagueName: string | null;
+  leagueLogo: string | null;
+  countryId: number | null;
+  state: string | null;
+  isLive: boolean;
+  isStarted: boolean;
+  isFinished: boolean;
+  hasOdds: boolean | null;
+  score: { home: number; away: number } | null;
+  source: "sync" | "backfill";
+  updatedAt: Timestamp;
+}
+
+/**
+ * Day whose complete fixture list was backfilled into the read model (fixtureDays/{YYYY-MM-DD})
+ * The sync job keeps covered days current from then on
+ */
+export interface FixtureDayDocument {
+  date: string;
+  fixtureCount: number;
+  coveredAt: Timestamp;
+}
+
+export type OddsSnapshotSource = "prematch" | "inplay";
+
+/**
+ * One price of a selection at a point in time (oddsSnapshots/{source}_{oddId}_{changedAt ms})
+ * Written for every odd the SportMonks "latest" feeds report as changed
+ */
+export interface OddsSnapshotDocument {
+  fixtureId: number;
+  marketId: number;
+  bookmakerId: number;
+  oddId: number; // SportMonks odd ID (one selection of a market at one bookmaker)
+  selection: string; // SportMonks label, e.g. "1", "X", "Over"
+  line: string | null; // Total or handicap of line markets
+  odds: number;
+  suspended: boolean;
+  source: OddsSnapshotSource;
+  changedAt: Timestamp; // Bookmaker update time, or the ingestion time when SportMonks omits it
+  recordedAt: Timestamp;
 }
 
 /**
@@ -49,11 +473,25 @@ export interface SlipLine {
 export interface SlipDocument {
   userId: string;
   dealerId: string;
-  status: string;
-  stake: number;
-  potentialReturn: number;
+  status: string; // "review": open, but settlement needs a dealer to void lines or cancel
+  reviewReason?: string; // Set by settlement when it flags the slip for review
+  reviewFlaggedAt?: Timestamp;
+  stake: number; // Total stake over all combinations
+  potentialReturn: number; // Maximum return (every line won)
   lines: SlipLine[];
   oddsSnapshot: Record<string, number>;
+  // Slips created before bet types are a single accumulator without these fields
+  betType?: BetType;
+  unitStake?: number; // Stake per combination
+  systemSize?: number; // Selections per combination for system bets
+  combinations?: SlipCombination[];
+  exposure?: SlipExposure; // Liability reserved on placement (slips created before limits have none)
+  payout?: number; // Amount credited on settlement
+  settledAt?: Timestamp;
+  // Set when a dealer/superadmin cancels the slip
+  cancelledBy?: string;
+  cancelReason?: string;
+  cancelledAt?: Timestamp;
   createdAt: Timestamp;
 }
 
@@ -62,5 +500,4 @@ export interface SlipDocument {
  */
 export type CreateUserData = Omit<UserDocument, "createdAt">;
 export type CreateDealerData = Omit<DealerDocument, "createdAt">;
-export type CreateTransactionData = Omit<TransactionDocument, "createdAt">;
 export type CreateSlipData = Omit<SlipDocument, "createdAt">;
@@ -0,0 +1,31 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { UserDayUsage, UserLimitUsageDocument } from "./types";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "userLimitUsage";
+
+/**
+ * Read a user's daily limit usage inside a Firestore transaction (null if it was never recorded)
+ */
+export async function getUserLimitUsageInTransaction(
+  transaction: Transaction,
+  uid: string
+): Promise<Record<string, UserDayUsage> | null> {
+  const doc = await transaction.get(db.collection(COLLECTION).doc(uid));
+  return doc.exists ? (doc.data() as UserLimitUsageDocument).days : null;
+}
+
+/**
+ * Write a user's daily limit usage inside a Firestore transaction
+ */
+export function setUserLimitUsageInTransaction(
+  transaction: Transaction,
+  uid: string,
+  days: Record<string, UserDayUsage>
+): void {
+  transaction.set(db.collection(COLLECTION).doc(uid), {
+    days,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
@@ -89,13 +89,40 @@ export async function listUsersByDealerId(
   }
 }
 
+/**
+ * List users of several dealers (e.g. a dealer's subtree)
+ * Firestore "in" queries take at most 30 values, so dealerIds are queried in chunks
+ */
+export async function listUsersByDealerIds(
+  dealerIds: string[]
+): Promise<(UserDocument & { uid: string })[]> {
+  try {
+    const users: (UserDocument & { uid: string })[] = [];
+    for (let i = 0; i < dealerIds.length; i += 30) {
+      const snapshot = await db
+        .collection(COLLECTION)
+        .where("dealerId", "in", dealerIds.slice(i, i + 30))
+        .get();
+      users.push(
+        ...snapshot.docs.map(
+          (doc) => ({ uid: doc.id, ...doc.data() }) as UserDocument & { uid: string }
+        )
+      );
+    }
+    return users;
+  } catch (error) {
+    console.error(`Error listing users for dealers ${dealerIds.join(", ")}:`, error);
+    throw error;
+  }
+}
+
 /**
  * List all users (superadmin only)
  * Optional filters: dealerId, role
  */
 export async function listAllUsers(filters?: {
   dealerId?: string;
-  role?: "superadmin" | "dealer" | "user";
+  role?: "superadmin" | "dealer" | "staff" | "user";
 }): Promise<(UserDocument & { uid: string })[]> {
   try {
     let query: Query = db.collection(COLLECTION) as Query;
@@ -0,0 +1,127 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { WalletRequestDocument } from "./types";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "walletRequests";
+
+/**
+ * Generate the ID of a new wallet request
+ */
+export function newWalletRequestId(): string {
+  return db.collection(COLLECTION).doc().id;
+}
+
+/**
+ * Get a wallet request by ID
+ */
+export async function getWalletRequest(
+  requestId: string
+): Promise<(WalletRequestDocument & { id: string }) | null> {
+  try {
+    const doc = await db.collection(COLLECTION).doc(requestId).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return { id: doc.id, ...doc.data() } as WalletRequestDocument & { id: string };
+  } catch (error) {
+    console.error(`Error getting wallet request ${requestId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List a user's wallet requests (newest first)
+ */
+export async function listUserWalletRequests(
+  userId: string,
+  limit = 50
+): Promise<(WalletRequestDocument & { id: string })[]> {
+  try {
+    const snapshot = await db
+      .collection(COLLECTION)
+      .where("userId", "==", userId)
+      .orderBy("createdAt", "desc")
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as WalletRequestDocument & { id: string }
+    );
+  } catch (error) {
+    console.error(`Error listing wallet requests for user ${userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * List the wallet requests of several dealers' users (newest first)
+ */
+export async function listWalletRequestsByDealerIds(
+  dealerIds: string[],
+  limit = 200
+): Promise<(WalletRequestDocument & { id: string })[]> {
+  try {
+    const requests: (WalletRequestDocument & { id: string })[] = [];
+    for (let i = 0; i < dealerIds.length; i += 30) {
+      const snapshot = await db
+        .collection(COLLECTION)
+        .where("dealerId", "in", dealerIds.slice(i, i + 30))
+        .orderBy("createdAt", "desc")
+        .limit(limit)
+        .get();
+      requests.push(
+        ...snapshot.docs.map(
+          (doc) => ({ id: doc.id, ...doc.data() }) as WalletRequestDocument & { id: string }
+        )
+      );
+    }
+    return requests
+      .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+      .slice(0, limit);
+  } catch (error) {
+    console.error(`Error listing wallet requests for dealers ${dealerIds.join(", ")}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Read a wallet request inside a Firestore transaction
+ * Must be called before any write of the transaction
+ */
+export async function getWalletRequestInTransaction(
+  transaction: Transaction,
+  requestId: string
+): Promise<WalletRequestDocument | null> {
+  const doc = await transaction.get(db.collection(COLLECTION).doc(requestId));
+  return doc.exists ? (doc.data() as WalletRequestDocument) : null;
+}
+
+/**
+ * Create a wallet request inside a Firestore transaction
+ */
+export function createWalletRequestInTransaction(
+  transaction: Transaction,
+  requestId: string,
+  request: Omit<WalletRequestDocument, "createdAt" | "decidedAt">
+): void {
+  transaction.create(db.collection(COLLECTION).doc(requestId), {
+    ...request,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Update a wallet request inside a Firestore transaction
+ */
+export function updateWalletRequestInTransaction(
+  transaction: Transaction,
+  requestId: string,
+  updates: Partial<Omit<WalletRequestDocument, "decidedAt">>
+): void {
+  transaction.update(db.collection(COLLECTION).doc(requestId), {
+    ...updates,
+    ...(updates.status && updates.status !== "pending" && {
+      decidedAt: FieldValue.serverTimestamp(),
+    }),
+  });
+}
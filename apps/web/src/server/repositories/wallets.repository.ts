@@ -0,0 +1,61 @@
+import "server-only";
+import { db } from "@/lib/firebase-admin/db";
+import type { WalletDocument } from "./types";
+import { getAccountBalanceInTransaction } from "./ledger.repository";
+import { ledgerAccounts } from "@/features/ledger";
+import { FieldValue, Transaction } from "firebase-admin/firestore";
+
+const COLLECTION = "wallets";
+
+/**
+ * Get a wallet document by user ID
+ */
+export async function getWallet(uid: string): Promise<WalletDocument | null> {
+  try {
+    const doc = await db.collection(COLLECTION).doc(uid).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return doc.data() as WalletDocument;
+  } catch (error) {
+    console.error(`Error getting wallet ${uid}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Read a wallet balance inside a Firestore transaction
+ * Wallets that do not exist yet are initialized from the ledger, so users created
+ * before wallet documents existed keep their balance
+ */
+export async function getWalletBalanceInTransaction(
+  transaction: Transaction,
+  uid: string
+): Promise<number> {
+  const walletRef = db.collection(COLLECTION).doc(uid);
+  const walletDoc = await transaction.get(walletRef);
+  if (walletDoc.exists) {
+    return (walletDoc.data() as WalletDocument).balance;
+  }
+
+  return getAccountBalanceInTransaction(transaction, ledgerAccounts.userWallet(uid));
+}
+
+/**
+ * Write a wallet balance inside a Firestore transaction
+ */
+export function setWalletBalanceInTransaction(
+  transaction: Transaction,
+  uid: string,
+  balance: number
+): void {
+  const walletRef = db.collection(COLLECTION).doc(uid);
+  transaction.set(
+    walletRef,
+    {
+      balance,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
@@ -0,0 +1,58 @@
+import "server-only";
+import { headers } from "next/headers";
+import type { AuthUser } from "@/lib/auth/serverAuth";
+import {
+  createAuditLog,
+  type CreateAuditLogData,
+} from "@/server/repositories/auditLogs.repository";
+import type { AuditAction, AuditTargetType } from "@/server/repositories/types";
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  dealerId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * Drop undefined values (Firestore does not store them)
+ */
+function definedValues(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Record a privileged action in the audit log
+ * Called once the action has succeeded; the actor, their role and dealer scope come from the
+ * caller's claims and the IP and user agent from the request headers. A failure to write the
+ * log is reported but does not fail the action that already happened
+ */
+export async function recordAuditLog(caller: AuthUser, entry: AuditEntry): Promise<void> {
+  try {
+    const requestHeaders = await headers();
+    const ip =
+      requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() ||
+      requestHeaders.get("x-real-ip") ||
+      undefined;
+
+    await createAuditLog(
+      definedValues({
+        action: entry.action,
+        actorUid: caller.uid,
+        actorRole: (caller.role as string | undefined) ?? "unknown",
+        actorDealerId: caller.dealerId as string | undefined,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        dealerId: entry.dealerId,
+        before: entry.before && definedValues(entry.before),
+        after: entry.after && definedValues(entry.after),
+        ip,
+        userAgent: requestHeaders.get("user-agent") ?? undefined,
+      }) as CreateAuditLogData
+    );
+  } catch (error) {
+    console.error(`Error recording audit log for ${entry.action} on ${entry.targetId}:`, error);
+  }
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SlipDocument, SlipLine } from "@/server/repositories/types";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getSlip } from "@/server/repositories/slips.repository";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import { getCurrentLinePrices } from "@/server/services/oddsService";
+import { buildBetCombinations } from "@repo/shared/betting";
+import { DEFAULT_CASHOUT_MARGIN, getCashoutQuote } from "./cashoutService";
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/firebase-admin/db", () => ({ db: {} }));
+vi.mock("@/lib/auth/serverAuth", () => ({ getServerAuthUser: vi.fn() }));
+vi.mock("@/server/repositories/slips.repository", () => ({ getSlip: vi.fn() }));
+vi.mock("@/server/repositories/dealers.repository", () => ({ getDealer: vi.fn() }));
+vi.mock("@/server/services/oddsService", () => ({ getCurrentLinePrices: vi.fn() }));
+
+function line(id: string, odds: number, result?: SlipLine["result"]): SlipLine {
+  return { id, fixtureId: id, market: "1X2", selection: "1", odds, result };
+}
+
+function slip(lines: SlipLine[], stake: number, overrides: Partial<SlipDocument> = {}): SlipDocument {
+  return {
+    userId: "user",
+    dealerId: "dealer",
+    status: "pending",
+    stake,
+    potentialReturn: stake * lines.reduce((acc, l) => acc * l.odds, 1),
+    lines,
+    oddsSnapshot: {},
+    ...overrides,
+  } as SlipDocument;
+}
+
+/**
+ * Quote a slip with the given current odds per line (null when a line is not priced)
+ */
+async function quote(value: SlipDocument, prices: Record<string, number | null>, margin?: number) {
+  vi.mocked(getSlip).mockResolvedValue(value);
+  vi.mocked(getDealer).mockResolvedValue(
+    (margin === undefined ? {} : { cashoutMargin: margin }) as Awaited<ReturnType<typeof getDealer>>
+  );
+  vi.mocked(getCurrentLinePrices).mockResolvedValue(new Map(Object.entries(prices)));
+  return getCashoutQuote("slip");
+}
+
+describe("getCashoutQuote", () => {
+  beforeEach(() => {
+    vi.mocked(getServerAuthUser).mockResolvedValue({ uid: "user" });
+  });
+
+  it("values an accumulator at stake * snapshot odds / current odds, less the margin", async () => {
+    // Odds shortened from 2.00 to 1.25 and from 3.00 to 1.50
+    const result = await quote(slip([line("a", 2), line("b", 3)], 10), { a: 1.25, b: 1.5 }, 0.1);
+    expect(result).toMatchObject({ available: true, fairValue: 32, amount: 28.8, margin: 0.1 });
+  });
+
+  it("takes the default margin when the dealer has none", async () => {
+    const result = await quote(slip([line("a", 2)], 10), { a: 1 });
+    expect(result.margin).toBe(DEFAULT_CASHOUT_MARGIN);
+    expect(result.amount).toBe(19);
+  });
+
+  it("prices from the odds snapshot when the slip has one", async () => {
+    const value = slip([line("a", 2)], 10, { oddsSnapshot: { "a-1X2-1": 2.5 } });
+    const result = await quote(value, { a: 2.5 }, 0);
+    expect(result.lines).toEqual([{ lineId: "a", snapshotOdds: 2.5, currentOdds: 2.5 }]);
+    expect(result.amount).toBe(10);
+  });
+
+  it("counts voided lines at 1.00 and does not reprice them", async () => {
+    const result = await quote(slip([line("a", 2), line("b", 3, "void")], 10), { a: 1 }, 0);
+    expect(vi.mocked(getCurrentLinePrices).mock.calls.at(-1)?.[0]).toEqual([line("a", 2)]);
+    expect(result.fairValue).toBe(20);
+  });
+
+  it("sums every combination of a multiple", async () => {
+    const lines = [line("a", 2), line("b", 2), line("c", 2)];
+    const combinations = buildBetCombinations(lines, "double", 5);
+    const value = slip(lines, 15, { combinations, potentialReturn: 60 });
+    // Each double: 5 * (2 / 1)^2 = 20
+    const result = await quote(value, { a: 1, b: 1, c: 1 }, 0);
+    expect(result.fairValue).toBe(60);
+    expect(result.amount).toBe(60);
+  });
+
+  it("never offers more than the potential return", async () => {
+    const result = await quote(slip([line("a", 2)], 10), { a: 1.01 }, 0);
+    expect(result.fairValue).toBe(19.8);
+    expect(result.amount).toBe(19.8);
+
+    const capped = await quote(slip([line("a", 2)], 10, { potentialReturn: 15 }), { a: 1.01 }, 0);
+    expect(capped.amount).toBe(15);
+  });
+
+  it("is unavailable when a line is not priced", async () => {
+    const result = await quote(slip([line("a", 2), line("b", 3)], 10), { a: 1.5, b: null });
+    expect(result).toMatchObject({
+      available: false,
+      amount: 0,
+      reason: "Some selections are not priced right now",
+    });
+  });
+
+  it("is unavailable for a slip that is not pending", async () => {
+    const result = await quote(slip([line("a", 2)], 10, { status: "won" }), { a: 1.5 });
+    expect(result).toMatchObject({ available: false, reason: "Slip is not pending" });
+  });
+
+  it("refuses another user's slip", async () => {
+    vi.mocked(getServerAuthUser).mockResolvedValue({ uid: "someone-else" });
+    await expect(quote(slip([line("a", 2)], 10), { a: 1.5 })).rejects.toThrow(
+      "Access denied: Can only cash out your own slips"
+    );
+  });
+});
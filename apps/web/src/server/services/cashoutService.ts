@@ -0,0 +1,262 @@
+import "server-only";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getSlip } from "@/server/repositories/slips.repository";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import {
+  getWalletBalanceInTransaction,
+  setWalletBalanceInTransaction,
+} from "@/server/repositories/wallets.repository";
+import {
+  getDealerFloatInTransaction,
+  setDealerFloatInTransaction,
+} from "@/server/repositories/dealerWallets.repository";
+import {
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+} from "@/server/repositories/ledger.repository";
+import {
+  getIdempotentResult,
+  idempotencyScope,
+  readIdempotentResultInTransaction,
+  saveIdempotentResultInTransaction,
+} from "@/server/repositories/idempotencyKeys.repository";
+import { slipPayoutPostings } from "@/features/ledger";
+import type { SlipDocument } from "@/server/repositories/types";
+import { getCurrentLinePrices } from "@/server/services/oddsService";
+import {
+  applyExposureInTransaction,
+  readExposuresInTransaction,
+} from "@/server/services/riskService";
+import {
+  readLimitUsageInTransaction,
+  recordLimitUsageInTransaction,
+} from "@/server/services/responsibleGamingService";
+import { getSlipCombinations } from "@repo/shared/betting";
+import { db } from "@/lib/firebase-admin/db";
+import { FieldValue } from "firebase-admin/firestore";
+
+/**
+ * Margin kept by the dealer when a dealer has not configured one (5%)
+ */
+export const DEFAULT_CASHOUT_MARGIN = 0.05;
+
+export interface CashoutQuoteLine {
+  lineId: string;
+  snapshotOdds: number;
+  currentOdds: number | null;
+}
+
+export interface CashoutQuote {
+  slipId: string;
+  available: boolean;
+  amount: number; // Amount offered to the user (after margin)
+  fairValue: number; // stake * snapshot odds / current odds, before margin
+  margin: number;
+  lines: CashoutQuoteLine[];
+  reason?: string; // Why cash-out is unavailable
+  quotedAt: string;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Price a pending slip for cash-out
+ * Each open line is repriced and every combination is valued at
+ * stake * product(snapshot odds) / product(current odds); the fair value is their sum.
+ * Voided lines count as 1.00 on both sides. The dealer margin is taken off the fair value and
+ * the offer never exceeds the slip's potential return
+ */
+async function priceSlip(slipId: string, slip: SlipDocument): Promise<CashoutQuote> {
+  const quotedAt = new Date().toISOString();
+  const unavailable = (reason: string, lines: CashoutQuoteLine[] = [], margin = 0): CashoutQuote => ({
+    slipId,
+    available: false,
+    amount: 0,
+    fairValue: 0,
+    margin,
+    lines,
+    reason,
+    quotedAt,
+  });
+
+  if (slip.status !== "pending") {
+    return unavailable("Slip is not pending");
+  }
+
+  const dealer = await getDealer(slip.dealerId);
+  const margin = dealer?.cashoutMargin ?? DEFAULT_CASHOUT_MARGIN;
+
+  const openLines = slip.lines.filter((line) => line.result !== "void");
+  const prices = await getCurrentLinePrices(openLines);
+
+  const lines: CashoutQuoteLine[] = openLines.map((line) => ({
+    lineId: line.id,
+    snapshotOdds:
+      slip.oddsSnapshot[`${line.fixtureId}-${line.market}-${line.selection}`] ?? line.odds,
+    currentOdds: prices.get(line.id) ?? null,
+  }));
+
+  if (lines.some((line) => line.currentOdds === null)) {
+    return unavailable("Some selections are not priced right now", lines, margin);
+  }
+
+  const ratios = new Map(lines.map((line) => [line.lineId, line.snapshotOdds / line.currentOdds!]));
+  const fairValue = getSlipCombinations(slip).reduce(
+    (acc, combo) =>
+      acc + combo.lineIds.reduce((value, id) => value * (ratios.get(id) ?? 1), combo.stake),
+    0
+  );
+  const amount = round2(Math.min(fairValue * (1 - margin), slip.potentialReturn));
+
+  if (amount <= 0) {
+    return unavailable("Cash-out value is too low", lines, margin);
+  }
+
+  return {
+    slipId,
+    available: true,
+    amount,
+    fairValue: round2(fairValue),
+    margin,
+    lines,
+    quotedAt,
+  };
+}
+
+/**
+ * Load a slip and validate the caller owns it
+ */
+async function getOwnSlip(slipId: string): Promise<SlipDocument> {
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+
+  const slip = await getSlip(slipId);
+  if (!slip) {
+    throw new Error("Slip not found");
+  }
+
+  if (slip.userId !== caller.uid) {
+    throw new Error("Access denied: Can only cash out your own slips");
+  }
+
+  return slip;
+}
+
+/**
+ * Get a cash-out quote for one of the caller's slips
+ */
+export async function getCashoutQuote(slipId: string): Promise<CashoutQuote> {
+  const slip = await getOwnSlip(slipId);
+  return priceSlip(slipId, slip);
+}
+
+export interface AcceptCashoutParams {
+  slipId: string;
+  expectedAmount: number; // Amount shown to the user
+  idempotencyKey?: string; // Client key; a repeat returns the amount originally paid
+}
+
+/**
+ * Accept a cash-out
+ * The slip is repriced server-side; if the offer dropped below the amount the user accepted,
+ * the cash-out is rejected so the user can review the new quote.
+ * The cash-out ledger entry (cashout_{slipId}), wallet and float updates, liability release and
+ * slip status change are atomic
+ * Returns the amount paid
+ */
+export async function acceptCashout(params: AcceptCashoutParams): Promise<number> {
+  const { slipId, expectedAmount, idempotencyKey } = params;
+
+  const slip = await getOwnSlip(slipId);
+
+  // A repeated request returns the original payout without repricing
+  const scope = idempotencyScope(slip.userId, "slip.cashout", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.amount ?? 0;
+  }
+
+  const quote = await priceSlip(slipId, slip);
+
+  if (!quote.available) {
+    throw new Error(quote.reason || "Cash-out is not available");
+  }
+
+  if (quote.amount < expectedAmount) {
+    throw new Error(`Cash-out amount changed to ${quote.amount.toFixed(2)}`);
+  }
+
+  return await db.runTransaction(async (transaction) => {
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.amount ?? 0;
+    }
+
+    const slipRef = db.collection("slips").doc(slipId);
+    const slipDoc = await transaction.get(slipRef);
+    const current = slipDoc.data() as SlipDocument | undefined;
+    if (!current || current.status !== "pending") {
+      throw new Error("Slip is no longer pending");
+    }
+
+    // Lines must not have changed (e.g. voided) since the quote
+    const currentOpenLines = current.lines.filter((line) => line.result !== "void").length;
+    if (currentOpenLines !== quote.lines.length) {
+      throw new Error("Slip changed, please request a new quote");
+    }
+
+    const balance = await getWalletBalanceInTransaction(transaction, current.userId);
+    const float = await getDealerFloatInTransaction(transaction, current.dealerId);
+    const limitUsage = await readLimitUsageInTransaction(transaction, current.userId);
+    const exposures = await readExposuresInTransaction(
+      transaction,
+      current.dealerId,
+      current.exposure
+    );
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+    applyExposureInTransaction(transaction, current.dealerId, exposures, {
+      previous: current.exposure,
+    });
+
+    // The stake leaves stakes in play; the dealer's float keeps what is left after the cash-out
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      {
+        idempotencyKey: `cashout_${slipId}`,
+        kind: "cashout",
+        postings: slipPayoutPostings(current, quote.amount),
+        dealerId: current.dealerId,
+        slipId,
+        actorUid: current.userId,
+        reason: "slip cash-out",
+      },
+    ]);
+
+    transaction.update(slipRef, {
+      status: "cashed_out",
+      payout: quote.amount,
+      settledAt: FieldValue.serverTimestamp(),
+    });
+
+    setDealerFloatInTransaction(
+      transaction,
+      current.dealerId,
+      round2(float + current.stake - quote.amount)
+    );
+    setWalletBalanceInTransaction(transaction, current.userId, balance + quote.amount);
+    recordLimitUsageInTransaction(transaction, current.userId, limitUsage, {
+      losses: -quote.amount,
+    });
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, {
+        resultId: `cashout_${slipId}`,
+        amount: quote.amount,
+      });
+    }
+
+    return quote.amount;
+  });
+}
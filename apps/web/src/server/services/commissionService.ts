@@ -0,0 +1,342 @@
+import "server-only";
+import {
+  getDealer,
+  listDescendantDealers,
+  updateDealer,
+} from "@/server/repositories/dealers.repository";
+import {
+  commissionStatementId,
+  listDealerCommissionStatements,
+} from "@/server/repositories/commissionStatements.repository";
+import {
+  listLedgerEntries,
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+} from "@/server/repositories/ledger.repository";
+import {
+  getDealerFloatInTransaction,
+  setDealerFloatInTransaction,
+} from "@/server/repositories/dealerWallets.repository";
+import type {
+  CommissionPeriod,
+  CommissionPlan,
+  CommissionStatementDocument,
+  CommissionStatementStatus,
+  DealerDocument,
+} from "@/server/repositories/types";
+import { getEntryPayout, getPostingAmount, ledgerAccounts } from "@/features/ledger";
+import { getPeriodRange, type PeriodRange } from "@/features/reports/periods";
+import { db } from "@/lib/firebase-admin/db";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+
+export interface CommissionFigures {
+  slipCount: number;
+  turnover: number;
+  payouts: number;
+  netRevenue: number;
+  subDealerCommission: number; // Earned by sub-dealers on the same business, deducted from commission
+  commission: number;
+}
+
+/**
+ * Commission statement as returned to pages (dates as ISO strings)
+ */
+export interface CommissionStatementView extends CommissionFigures {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  plan: CommissionPlan;
+  status: CommissionStatementStatus;
+  closedAt?: string;
+  approvedAt?: string;
+}
+
+/**
+ * Figures of the period in progress, not yet closed
+ */
+export interface CommissionPreview extends CommissionFigures {
+  periodStart: string;
+  periodEnd: string;
+  plan: CommissionPlan;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Statement period (UTC) containing a date; the end is exclusive
+ */
+export function getCommissionPeriod(period: CommissionPeriod, date: Date): PeriodRange {
+  return getPeriodRange(period === "monthly" ? "month" : "week", date);
+}
+
+/**
+ * Commission owed under a plan
+ * Revenue share pays nothing for a period with negative net revenue
+ */
+export function computeCommission(
+  plan: CommissionPlan,
+  turnover: number,
+  netRevenue: number
+): number {
+  const base = plan.type === "turnover" ? turnover : Math.max(netRevenue, 0);
+  return round2(base * plan.rate);
+}
+
+/**
+ * Sum the settled and cashed-out slips of a dealer's subtree over a period from the ledger
+ * Turnover is the stake leaving stakes in play, payouts what the entries paid to user wallets.
+ * The plan applies to the whole subtree; what the direct sub-dealers earn on the same business
+ * (including their own sub-dealers) is deducted so it is only paid once. A dealer without a plan
+ * earns nothing but still passes its subtree's commission up
+ */
+async function computeDealerFigures(
+  dealerId: string,
+  plan: CommissionPlan | undefined,
+  range: PeriodRange,
+  descendants?: (DealerDocument & { dealerId: string })[]
+): Promise<CommissionFigures> {
+  const subtree = descendants ?? (await listDescendantDealers(dealerId));
+  const dealerIds = [dealerId, ...subtree.map((dealer) => dealer.dealerId)];
+
+  const endDate = new Date(range.end.getTime() - 1);
+  const [settlements, cashouts] = await Promise.all([
+    listLedgerEntries({ dealerIds, kind: "settlement", startDate: range.start, endDate }),
+    listLedgerEntries({ dealerIds, kind: "cashout", startDate: range.start, endDate }),
+  ]);
+
+  let turnover = 0;
+  let payouts = 0;
+  for (const entry of [...settlements, ...cashouts]) {
+    turnover -= getPostingAmount(entry, ledgerAccounts.stakesInPlay(entry.dealerId));
+    payouts += getEntryPayout(entry);
+  }
+
+  let subDealerCommission = 0;
+  for (const child of subtree.filter((dealer) => dealer.parentDealerId === dealerId)) {
+    const childFigures = await computeDealerFigures(
+      child.dealerId,
+      child.commissionPlan,
+      range,
+      subtree.filter((dealer) => dealer.ancestorDealerIds?.includes(child.dealerId))
+    );
+    subDealerCommission += childFigures.commission + childFigures.subDealerCommission;
+  }
+
+  turnover = round2(turnover);
+  payouts = round2(payouts);
+  subDealerCommission = round2(subDealerCommission);
+  const netRevenue = round2(turnover - payouts);
+  const commission = plan ? computeCommission(plan, turnover, netRevenue) : 0;
+  return {
+    slipCount: settlements.length + cashouts.length,
+    turnover,
+    payouts,
+    netRevenue,
+    subDealerCommission,
+    commission: round2(Math.max(commission - subDealerCommission, 0)),
+  };
+}
+
+/**
+ * Validate the caller can manage commissions (commission.manage)
+ * Returns the caller's uid
+ */
+async function requireCommissionManager(): Promise<string> {
+  const caller = await requirePermission("commission.manage");
+  return caller.uid;
+}
+
+/**
+ * Validate the caller can view a dealer's commissions (commission.view, dealer in scope)
+ */
+async function requireCommissionViewer(dealerId: string): Promise<void> {
+  const caller = await requirePermission("commission.view");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only view commissions in your dealer scope");
+  }
+}
+
+function toStatementView(
+  id: string,
+  statement: CommissionStatementDocument
+): CommissionStatementView {
+  return {
+    id,
+    periodStart: statement.periodStart.toDate().toISOString(),
+    periodEnd: statement.periodEnd.toDate().toISOString(),
+    plan: statement.plan,
+    status: statement.status,
+    slipCount: statement.slipCount,
+    turnover: statement.turnover,
+    payouts: statement.payouts,
+    netRevenue: statement.netRevenue,
+    subDealerCommission: statement.subDealerCommission ?? 0,
+    commission: statement.commission,
+    closedAt: statement.closedAt?.toDate().toISOString(),
+    approvedAt: statement.approvedAt?.toDate().toISOString(),
+  };
+}
+
+/**
+ * Set a dealer's commission plan (commission.manage)
+ * Statements already closed keep the plan they were computed with
+ */
+export async function updateCommissionPlan(
+  dealerId: string,
+  plan: CommissionPlan
+): Promise<void> {
+  await requireCommissionManager();
+
+  const dealer = await getDealer(dealerId);
+  if (!dealer) {
+    throw new Error("Dealer not found");
+  }
+
+  await updateDealer(dealerId, { commissionPlan: plan });
+}
+
+/**
+ * List a dealer's commission statements (dealer in scope or superadmin)
+ */
+export async function getCommissionStatements(
+  dealerId: string
+): Promise<CommissionStatementView[]> {
+  await requireCommissionViewer(dealerId);
+
+  const statements = await listDealerCommissionStatements(dealerId);
+  return statements.map(({ id, ...statement }) => toStatementView(id, statement));
+}
+
+/**
+ * Figures of a dealer's current (open) period (dealer in scope or superadmin)
+ * Returns null when the dealer has no commission plan
+ */
+export async function getCommissionPreview(dealerId: string): Promise<CommissionPreview | null> {
+  await requireCommissionViewer(dealerId);
+
+  const dealer = await getDealer(dealerId);
+  const plan = dealer?.commissionPlan;
+  if (!plan) {
+    return null;
+  }
+
+  const range = getCommissionPeriod(plan.period, new Date());
+  const figures = await computeDealerFigures(dealerId, plan, range);
+  return {
+    ...figures,
+    periodStart: range.start.toISOString(),
+    periodEnd: range.end.toISOString(),
+    plan,
+  };
+}
+
+/**
+ * Close a dealer's statement for the period containing periodDate (commission.manage)
+ * The period must have ended. Closing again recomputes a draft; approved statements are final
+ * Returns the statement ID
+ */
+export async function closeCommissionStatement(
+  dealerId: string,
+  periodDate: Date
+): Promise<string> {
+  const callerUid = await requireCommissionManager();
+
+  const dealer = await getDealer(dealerId);
+  if (!dealer) {
+    throw new Error("Dealer not found");
+  }
+  const plan = dealer.commissionPlan;
+  if (!plan) {
+    throw new Error("Dealer has no commission plan");
+  }
+
+  const range = getCommissionPeriod(plan.period, periodDate);
+  if (range.end.getTime() > Date.now()) {
+    throw new Error("Period has not ended yet");
+  }
+
+  const figures = await computeDealerFigures(dealerId, plan, range);
+  const statementId = commissionStatementId(dealerId, range.start);
+  const statementRef = db.collection("commissionStatements").doc(statementId);
+
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(statementRef);
+    if ((existing.data() as CommissionStatementDocument | undefined)?.status === "approved") {
+      throw new Error("Statement is already approved");
+    }
+
+    transaction.set(statementRef, {
+      dealerId,
+      periodStart: Timestamp.fromDate(range.start),
+      periodEnd: Timestamp.fromDate(range.end),
+      plan,
+      ...figures,
+      status: "draft",
+      closedBy: callerUid,
+      closedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return statementId;
+}
+
+/**
+ * Approve a draft statement and post the commission to the ledger (commission.manage)
+ * The commission moves from the house to the dealer's float (ledger entry commission_{statementId})
+ * in the same transaction as the approval
+ * Returns the commission posted
+ */
+export async function approveCommissionStatement(statementId: string): Promise<number> {
+  const callerUid = await requireCommissionManager();
+
+  const statementRef = db.collection("commissionStatements").doc(statementId);
+
+  return await db.runTransaction(async (transaction) => {
+    const statementDoc = await transaction.get(statementRef);
+    const statement = statementDoc.data() as CommissionStatementDocument | undefined;
+    if (!statement) {
+      throw new Error("Statement not found");
+    }
+    if (statement.status !== "draft") {
+      throw new Error("Statement is already approved");
+    }
+
+    const float = await getDealerFloatInTransaction(transaction, statement.dealerId);
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+
+    // Nothing is posted for a period without commission
+    const ledgerEntryKey = `commission_${statementId}`;
+    if (statement.commission > 0) {
+      writeLedgerEntriesInTransaction(transaction, sequence, [
+        {
+          idempotencyKey: ledgerEntryKey,
+          kind: "commission",
+          postings: [
+            { account: ledgerAccounts.house(), amount: -statement.commission },
+            {
+              account: ledgerAccounts.dealerFloat(statement.dealerId),
+              amount: statement.commission,
+            },
+          ],
+          dealerId: statement.dealerId,
+          actorUid: callerUid,
+          reason: `commission ${statement.periodStart.toDate().toISOString().slice(0, 10)}`,
+        },
+      ]);
+      setDealerFloatInTransaction(transaction, statement.dealerId, float + statement.commission);
+    }
+
+    transaction.update(statementRef, {
+      status: "approved",
+      approvedBy: callerUid,
+      approvedAt: FieldValue.serverTimestamp(),
+      ...(statement.commission > 0 && { ledgerEntryKey }),
+    });
+
+    return statement.commission;
+  });
+}
@@ -0,0 +1,309 @@
+import "server-only";
+import type { FixtureDTO, LeagueDTO } from "@repo/shared/types";
+import type { SportMonksFixture } from "@/lib/sportmonks/schemas";
+import {
+  backfillFixtureDay,
+  getFixtureDays,
+  getFixturesLastSyncedAt,
+  listFixturesByDates,
+  listFixturesByKickoff,
+} from "@/server/repositories/fixtures.repository";
+import type { FixtureDocument } from "@/server/repositories/types";
+import { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Fixtures read model
+ * Fixture lists are served from the fixtures collection when the requested days are covered (their
+ * complete list was backfilled) and the sync job is current; otherwise they come from SportMonks and
+ * complete days are backfilled. When SportMonks fails, whatever the store holds is served instead
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * The sync job runs every 5 minutes; older sync state means the store may be missing changes
+ */
+const MAX_SYNC_LAG_MS = 15 * MINUTE;
+
+/**
+ * Covered days are refetched from SportMonks after this long as a safety net
+ */
+const COVERAGE_TTL_MS = DAY;
+
+/**
+ * Longer ranges are always fetched from SportMonks
+ */
+const MAX_STORE_RANGE_DAYS = 31;
+
+/**
+ * Fixtures that kicked off this long ago can still be in play
+ */
+const LIVE_WINDOW_MS = 4 * HOUR;
+
+/**
+ * Fixtures fetched from SportMonks for a store miss
+ */
+export interface UpstreamFixtures {
+  fixtures: FixtureDTO[];
+  raw: SportMonksFixture[]; // Same fixtures as returned by SportMonks, for the backfill
+  complete: boolean; // Whether this is the day's complete list (no filters, no further pages)
+}
+
+/**
+ * Days from start to end (YYYY-MM-DD, inclusive); null when the range is invalid or too long
+ */
+function daysBetween(startDate: string, endDate: string): string[] | null {
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+    return null;
+  }
+  if ((end - start) / DAY >= MAX_STORE_RANGE_DAYS) {
+    return null;
+  }
+
+  const days: string[] = [];
+  for (let time = start; time <= end; time += DAY) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Whether the store holds the complete, current fixture lists of the given days
+ * Store errors count as a miss, so a Firestore problem never breaks the listings
+ */
+async function isStoreCurrent(days: string[]): Promise<boolean> {
+  try {
+    const [lastSyncedAt, coverage] = await Promise.all([
+      getFixturesLastSyncedAt(),
+      getFixtureDays(days),
+    ]);
+    const now = Date.now();
+    if (!lastSyncedAt || now - lastSyncedAt.getTime() > MAX_SYNC_LAG_MS) {
+      return false;
+    }
+    return days.every((day) => {
+      const covered = coverage.get(day)?.coveredAt;
+      return Boolean(covered && now - covered.toMillis() < COVERAGE_TTL_MS);
+    });
+  } catch (error) {
+    console.error("[fixtureStore] Error checking store coverage:", error);
+    return false;
+  }
+}
+
+function toFixtureDTO(fixture: FixtureDocument): FixtureDTO {
+  return {
+    fixtureId: fixture.fixtureId,
+    teams: { home: fixture.homeTeam, away: fixture.awayTeam },
+    homeTeam: fixture.homeTeam,
+    awayTeam: fixture.awayTeam,
+    kickoffAt: fixture.kickoffAt,
+    leagueId: fixture.leagueId ?? undefined,
+    leagueName: fixture.leagueName ?? undefined,
+    isLive: fixture.isLive,
+    isFinished: fixture.isFinished,
+    isStarted: fixture.isStarted,
+    hasOdds: fixture.hasOdds ?? undefined,
+    score: fixture.score ?? undefined,
+    minute: null,
+    homeTeamLogo: fixture.homeTeamLogo,
+    awayTeamLogo: fixture.awayTeamLogo,
+    state: fixture.state,
+  };
+}
+
+/**
+ * Build a read model document from a normalized fixture and its SportMonks source
+ */
+function toFixtureDocument(
+  fixture: FixtureDTO,
+  raw: SportMonksFixture
+): Omit<FixtureDocument, "updatedAt"> | null {
+  const kickoff = raw.starting_at_timestamp
+    ? raw.starting_at_timestamp * 1000
+    : raw.starting_at
+      ? Date.parse(`${raw.starting_at.replace(" ", "T")}Z`)
+      : NaN;
+  if (Number.isNaN(kickoff)) {
+    return null;
+  }
+
+  const league = (raw as unknown as {
+    league?: { name?: string; image_path?: string | null; country_id?: number | null } | null;
+  }).league;
+  const kickoffTime = Timestamp.fromMillis(kickoff);
+
+  return {
+    fixtureId: raw.id,
+    homeTeam: fixture.teams.home,
+    awayTeam: fixture.teams.away,
+    homeTeamLogo: fixture.homeTeamLogo ?? null,
+    awayTeamLogo: fixture.awayTeamLogo ?? null,
+    kickoffAt: String(fixture.kickoffAt),
+    kickoffTime,
+    date: kickoffTime.toDate().toISOString().slice(0, 10),
+    leagueId: raw.league_id ?? null,
+    leagueName: fixture.leagueName ?? league?.name ?? null,
+    leagueLogo: league?.image_path ?? null,
+    countryId: league?.country_id ?? null,
+    state: fixture.state ?? null,
+    isLive: fixture.isLive,
+    isStarted: Boolean(fixture.isStarted),
+    isFinished: Boolean(fixture.isFinished),
+    hasOdds: fixture.hasOdds ?? null,
+    score: fixture.score ?? null,
+    source: "backfill",
+  };
+}
+
+/**
+ * Write a complete day fetched from SportMonks into the store; failures are logged, not thrown
+ */
+async function backfill(day: string, upstream: UpstreamFixtures, fetchedAt: Date): Promise<void> {
+  const documents = upstream.raw
+    .map((raw, index) => toFixtureDocument(upstream.fixtures[index]!, raw))
+    .filter((document): document is NonNullable<typeof document> => document !== null);
+
+  try {
+    await backfillFixtureDay(day, documents, fetchedAt);
+  } catch (error) {
+    console.error(`[fixtureStore] Error backfilling ${day}:`, error);
+  }
+}
+
+function filterByLeague(fixtures: FixtureDTO[], leagueId?: number): FixtureDTO[] {
+  return leagueId === undefined
+    ? fixtures
+    : fixtures.filter((fixture) => Number(fixture.leagueId) === leagueId);
+}
+
+/**
+ * Leagues of a set of fixtures, in order of first kickoff
+ * Null when a fixture's league name is unknown, since the sidebar can't show it
+ */
+function toLeagues(fixtures: FixtureDocument[]): LeagueDTO[] | null {
+  const leagues = new Map<number, LeagueDTO>();
+  for (const fixture of fixtures) {
+    if (fixture.leagueId === null || leagues.has(fixture.leagueId)) {
+      continue;
+    }
+    if (!fixture.leagueName) {
+      return null;
+    }
+    leagues.set(fixture.leagueId, {
+      leagueId: fixture.leagueId,
+      name: fixture.leagueName,
+      countryId: fixture.countryId ?? undefined,
+      logo: fixture.leagueLogo ?? undefined,
+      logoUrl: fixture.leagueLogo ?? undefined,
+    });
+  }
+  return Array.from(leagues.values());
+}
+
+/**
+ * Load from the store or SportMonks
+ * Returns the store result when the days are current, otherwise the upstream result; if SportMonks
+ * fails, a non-empty store result is served instead and the upstream error is rethrown otherwise
+ */
+async function readThrough<T>(
+  days: string[] | null,
+  fromStore: () => Promise<T | null>,
+  fromUpstream: () => Promise<T>,
+  isEmpty: (value: T) => boolean
+): Promise<T> {
+  const readStore = async (): Promise<T | null> => {
+    try {
+      return await fromStore();
+    } catch (error) {
+      console.error("[fixtureStore] Error reading store:", error);
+      return null;
+    }
+  };
+
+  if (days && (await isStoreCurrent(days))) {
+    const stored = await readStore();
+    if (stored !== null) {
+      return stored;
+    }
+  }
+
+  try {
+    return await fromUpstream();
+  } catch (error) {
+    const stored = days ? await readStore() : null;
+    if (stored !== null && !isEmpty(stored)) {
+      console.warn("[fixtureStore] SportMonks failed, serving fixtures from the store:", error);
+      return stored;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fixtures kicking off between two days (YYYY-MM-DD, inclusive), optionally of one league
+ * Complete single-day upstream lists are backfilled into the store
+ */
+export async function getFixturesByDateRange(
+  startDate: string,
+  endDate: string,
+  leagueId: number | undefined,
+  loadUpstream: () => Promise<UpstreamFixtures>
+): Promise<FixtureDTO[]> {
+  const days = daysBetween(startDate, endDate);
+
+  const fixtures = await readThrough(
+    days,
+    async () => (await listFixturesByDates(startDate, endDate)).map(toFixtureDTO),
+    async () => {
+      const fetchedAt = new Date();
+      const upstream = await loadUpstream();
+      if (upstream.complete && days?.length === 1) {
+        await backfill(days[0]!, upstream, fetchedAt);
+      }
+      return upstream.fixtures;
+    },
+    (fixtures) => fixtures.length === 0
+  );
+
+  return filterByLeague(fixtures, leagueId);
+}
+
+/**
+ * Leagues with fixtures kicking off on a day (YYYY-MM-DD)
+ */
+export async function getLeaguesByDate(
+  date: string,
+  loadUpstream: () => Promise<LeagueDTO[]>
+): Promise<LeagueDTO[]> {
+  return readThrough(
+    daysBetween(date, date),
+    async () => toLeagues(await listFixturesByDates(date, date)),
+    loadUpstream,
+    (leagues) => leagues.length === 0
+  );
+}
+
+/**
+ * Leagues with fixtures in play
+ */
+export async function getLiveLeagues(
+  loadUpstream: () => Promise<LeagueDTO[]>
+): Promise<LeagueDTO[]> {
+  const now = new Date();
+  const from = new Date(now.getTime() - LIVE_WINDOW_MS);
+
+  return readThrough(
+    daysBetween(from.toISOString().slice(0, 10), now.toISOString().slice(0, 10)),
+    async () => {
+      const fixtures = await listFixturesByKickoff(from, now);
+      return toLeagues(fixtures.filter((fixture) => fixture.isStarted && !fixture.isFinished));
+    },
+    loadUpstream,
+    (leagues) => leagues.length === 0
+  );
+}
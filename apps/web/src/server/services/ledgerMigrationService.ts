@@ -0,0 +1,297 @@
+import "server-only";
+import { listLegacyTransactions } from "@/server/repositories/transactions.repository";
+import { listAllUsers } from "@/server/repositories/users.repository";
+import { listAllDealers } from "@/server/repositories/dealers.repository";
+import { listAllSlips } from "@/server/repositories/slips.repository";
+import {
+  getAccountBalanceInTransaction,
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+  type LedgerEntryInput,
+} from "@/server/repositories/ledger.repository";
+import { setWalletBalanceInTransaction } from "@/server/repositories/wallets.repository";
+import { setDealerFloatInTransaction } from "@/server/repositories/dealerWallets.repository";
+import type { SlipDocument, TransactionDocument } from "@/server/repositories/types";
+import { ledgerAccounts, slipPayoutPostings } from "@/features/ledger";
+import { db } from "@/lib/firebase-admin/db";
+import { requirePermission } from "@/features/rbac/requirePermission";
+
+/**
+ * Entries written per Firestore transaction (well below the 500 writes limit)
+ */
+const MIGRATION_CHUNK_SIZE = 200;
+
+type LegacyTransaction = TransactionDocument & { id: string };
+
+export interface LedgerMigrationResult {
+  migrated: number; // Entries written by this run
+  skipped: number; // Entries already migrated by an earlier run
+  walletsRebuilt: number; // User wallets and dealer floats recomputed from the ledger
+}
+
+/**
+ * Key pairing a user credit/debit with the float entry written in the same Firestore transaction
+ * (both carry the same server timestamp)
+ */
+function pairKey(uid: string, amount: number, tx: TransactionDocument): string {
+  return `${uid}|${amount}|${tx.createdAt?.toMillis() ?? 0}`;
+}
+
+/**
+ * Take one matching float entry off a pairing multiset
+ */
+function takePair(pairs: Map<string, number>, key: string): boolean {
+  const count = pairs.get(key) ?? 0;
+  if (count === 0) {
+    return false;
+  }
+  pairs.set(key, count - 1);
+  return true;
+}
+
+/**
+ * Map legacy transactions to ledger entries
+ * Slip payouts (settle_/cashout_) and float entries paired with a user credit/debit are not mapped
+ * one to one; slip outcomes are rebuilt per slip by mapSettledSlips and paired float entries are
+ * implied by the deposit/withdrawal postings. Credits and debits written before dealer floats
+ * existed have no float entry and move funds against the house instead
+ */
+function mapLegacyTransactions(
+  transactions: LegacyTransaction[],
+  superadminUids: Set<string>
+): LedgerEntryInput[] {
+  const floatDebits = new Map<string, number>(); // Dealer float -> user (paired with credits)
+  const floatCredits = new Map<string, number>(); // User -> dealer float (paired with debits)
+  for (const tx of transactions) {
+    if (tx.slipId) {
+      continue;
+    }
+    if (tx.type === "float_debit" && !superadminUids.has(tx.toUid)) {
+      const key = pairKey(tx.toUid, tx.amount, tx);
+      floatDebits.set(key, (floatDebits.get(key) ?? 0) + 1);
+    } else if (tx.type === "float_credit" && !superadminUids.has(tx.fromUid)) {
+      const key = pairKey(tx.fromUid, tx.amount, tx);
+      floatCredits.set(key, (floatCredits.get(key) ?? 0) + 1);
+    }
+  }
+
+  const entries: LedgerEntryInput[] = [];
+  for (const tx of transactions) {
+    const base = {
+      idempotencyKey: `legacy_${tx.id}`,
+      dealerId: tx.dealerId,
+      ...(tx.slipId && { slipId: tx.slipId }),
+      reason: tx.reason,
+      legacyTransactionId: tx.id,
+      createdAt: tx.createdAt,
+    };
+    const stakes = ledgerAccounts.stakesInPlay(tx.dealerId);
+    const float = ledgerAccounts.dealerFloat(tx.dealerId);
+    const house = ledgerAccounts.house();
+
+    if (tx.id.startsWith("settle_") || tx.id.startsWith("cashout_")) {
+      continue;
+    }
+
+    switch (tx.type) {
+      case "debit":
+        if (tx.slipId || tx.reason === "slip creation") {
+          entries.push({
+            ...base,
+            kind: "stake",
+            postings: [
+              { account: ledgerAccounts.userWallet(tx.fromUid), amount: -tx.amount },
+              { account: stakes, amount: tx.amount },
+            ],
+          });
+        } else {
+          const paired = takePair(floatCredits, pairKey(tx.fromUid, tx.amount, tx));
+          entries.push({
+            ...base,
+            kind: "withdrawal",
+            postings: [
+              { account: ledgerAccounts.userWallet(tx.fromUid), amount: -tx.amount },
+              { account: paired ? float : house, amount: tx.amount },
+            ],
+          });
+        }
+        break;
+      case "refund":
+        entries.push({
+          ...base,
+          kind: "refund",
+          postings: [
+            { account: stakes, amount: -tx.amount },
+            { account: ledgerAccounts.userWallet(tx.toUid), amount: tx.amount },
+          ],
+        });
+        break;
+      case "credit": {
+        if (tx.slipId) {
+          continue;
+        }
+        const paired = takePair(floatDebits, pairKey(tx.toUid, tx.amount, tx));
+        entries.push({
+          ...base,
+          kind: "deposit",
+          postings: [
+            { account: paired ? float : house, amount: -tx.amount },
+            { account: ledgerAccounts.userWallet(tx.toUid), amount: tx.amount },
+          ],
+        });
+        break;
+      }
+      case "adjustment": {
+        // Adjustments paid to the dealer or a superadmin take funds from the user
+        const fromUser = tx.toUid === tx.dealerId || superadminUids.has(tx.toUid);
+        const uid = fromUser ? tx.fromUid : tx.toUid;
+        const amount = fromUser ? -tx.amount : tx.amount;
+        entries.push({
+          ...base,
+          kind: "adjustment",
+          postings: [
+            { account: house, amount: -amount },
+            { account: ledgerAccounts.userWallet(uid), amount },
+          ],
+        });
+        break;
+      }
+      case "float_credit":
+      case "float_debit": {
+        // Only transfers with a superadmin are mapped; other float entries are implied above
+        const fund = tx.type === "float_credit" && superadminUids.has(tx.fromUid);
+        const withdraw = tx.type === "float_debit" && superadminUids.has(tx.toUid);
+        if (tx.slipId || (!fund && !withdraw)) {
+          continue;
+        }
+        const amount = fund ? tx.amount : -tx.amount;
+        entries.push({
+          ...base,
+          kind: "float_transfer",
+          postings: [
+            { account: house, amount: -amount },
+            { account: float, amount },
+          ],
+        });
+        break;
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Build the outcome entry of every settled or cashed-out slip
+ * Slips refunded by a dealer/superadmin (refund_{slipId}) are already covered by their refund
+ */
+function mapSettledSlips(
+  slips: (SlipDocument & { id: string })[],
+  refundedSlipIds: Set<string>
+): LedgerEntryInput[] {
+  const entries: LedgerEntryInput[] = [];
+  for (const slip of slips) {
+    if (refundedSlipIds.has(slip.id)) {
+      continue;
+    }
+    const stakes = ledgerAccounts.stakesInPlay(slip.dealerId);
+    const user = ledgerAccounts.userWallet(slip.userId);
+    const payout = slip.payout ?? 0;
+    const base = {
+      idempotencyKey: `legacy_settle_${slip.id}`,
+      dealerId: slip.dealerId,
+      slipId: slip.id,
+      createdAt: slip.settledAt ?? slip.createdAt,
+    };
+
+    if (slip.status === "void") {
+      entries.push({
+        ...base,
+        kind: "refund",
+        postings: [
+          { account: stakes, amount: -slip.stake },
+          { account: user, amount: slip.stake },
+        ],
+        reason: "slip void refund",
+      });
+    } else if (slip.status === "won" || slip.status === "lost" || slip.status === "cashed_out") {
+      entries.push({
+        ...base,
+        kind: slip.status === "cashed_out" ? "cashout" : "settlement",
+        postings: slipPayoutPostings(slip, payout),
+        reason: slip.status === "cashed_out" ? "slip cash-out" : "slip payout",
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Migrate the legacy transactions collection to the double-entry ledger (superadmin only)
+ * Safe to run more than once: entries already migrated are skipped. Cached user wallets and dealer
+ * floats are recomputed from the ledger afterwards
+ */
+export async function migrateLegacyTransactions(): Promise<LedgerMigrationResult> {
+  await requirePermission("ledger.migrate");
+
+  const [transactions, users, dealers, slips] = await Promise.all([
+    listLegacyTransactions(),
+    listAllUsers(),
+    listAllDealers(),
+    listAllSlips(),
+  ]);
+
+  const superadminUids = new Set(
+    users.filter((user) => user.role === "superadmin").map((user) => user.uid)
+  );
+  const refundedSlipIds = new Set(
+    transactions.filter((tx) => tx.id.startsWith("refund_") && tx.slipId).map((tx) => tx.slipId!)
+  );
+
+  const entries = [
+    ...mapLegacyTransactions(transactions, superadminUids),
+    ...mapSettledSlips(slips, refundedSlipIds),
+  ].sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0));
+
+  let migrated = 0;
+  for (let i = 0; i < entries.length; i += MIGRATION_CHUNK_SIZE) {
+    const chunk = entries.slice(i, i + MIGRATION_CHUNK_SIZE);
+    migrated += await db.runTransaction(async (transaction) => {
+      const existing = await transaction.getAll(
+        ...chunk.map((entry) => db.collection("ledger").doc(entry.idempotencyKey))
+      );
+      const sequence = await readLedgerSequenceInTransaction(transaction);
+      const pending = chunk.filter((_, index) => !existing[index].exists);
+      if (pending.length > 0) {
+        writeLedgerEntriesInTransaction(transaction, sequence, pending);
+      }
+      return pending.length;
+    });
+  }
+
+  // Recompute cached balances so they match the migrated ledger
+  const players = users.filter((user) => user.role === "user");
+  for (const user of players) {
+    await db.runTransaction(async (transaction) => {
+      const balance = await getAccountBalanceInTransaction(
+        transaction,
+        ledgerAccounts.userWallet(user.uid)
+      );
+      setWalletBalanceInTransaction(transaction, user.uid, balance);
+    });
+  }
+  for (const dealer of dealers) {
+    await db.runTransaction(async (transaction) => {
+      const float = await getAccountBalanceInTransaction(
+        transaction,
+        ledgerAccounts.dealerFloat(dealer.dealerId)
+      );
+      setDealerFloatInTransaction(transaction, dealer.dealerId, float);
+    });
+  }
+
+  return {
+    migrated,
+    skipped: entries.length - migrated,
+    walletsRebuilt: players.length + dealers.length,
+  };
+}
@@ -0,0 +1,254 @@
+import "server-only";
+import type { LiveFixtureDTO, LiveOddsUpdate } from "@repo/shared/types";
+import { sportmonksClient } from "@/lib/sportmonks/client";
+import {
+  normalizeLiveFixtures,
+  normalizeOdds,
+  transformOddsArrayToMarketsFormat,
+} from "@/lib/sportmonks/dto";
+import {
+  SportMonksFixtureSchema,
+  SportMonksMultiResponseSchema,
+  SportMonksOddsSchema,
+  SportMonksResponseSchema,
+} from "@/lib/sportmonks/schemas";
+
+/**
+ * Live stream poller
+ * While at least one /api/stream/live client is connected, one poller per instance reads the
+ * SportMonks "latest" livescores and in-play odds feeds (changes of the last 10 seconds) and passes on
+ * only the fixtures and prices that differ from what it saw before
+ */
+
+export type LiveStreamEvent =
+  | { type: "fixtures"; data: LiveFixtureDTO[] }
+  | { type: "odds"; data: LiveOddsUpdate[] };
+
+type LiveStreamListener = (event: LiveStreamEvent) => void;
+
+/**
+ * Poll interval; SportMonks recommends 5-8 seconds, and anything above 10 seconds misses changes
+ */
+const POLL_INTERVAL_MS = 5 * 1000;
+const IDLE_POLL_INTERVAL_MS = 8 * 1000;
+
+/**
+ * Consecutive passes without changes before polling at the idle interval
+ */
+const IDLE_AFTER_EMPTY_PASSES = 5;
+
+/**
+ * Longest pause after consecutive failures; clients fall back to polling in the meantime
+ */
+const MAX_BACKOFF_MS = 60 * 1000;
+
+/**
+ * Fixtures and odds not reported for this long are dropped from the diff cache
+ */
+const FORGET_AFTER_MS = 6 * 60 * 60 * 1000;
+
+// Same as /api/sm/livescores, so streamed fixtures replace listed ones field for field
+const LIVESCORES_INCLUDE = "participants:name,short_code,image_path;scores;periods";
+
+// Bet365, the bookmaker of the in-play prices shown in the live list
+const INPLAY_BOOKMAKER_ID = 2;
+
+/**
+ * Fields whose changes SportMonks reports in /livescores/latest
+ */
+const TRACKED_FIELDS = [
+  "state_id",
+  "venue_id",
+  "name",
+  "starting_at",
+  "starting_at_timestamp",
+  "result_info",
+  "leg",
+  "length",
+] as const;
+
+type LatestOdd = Parameters<typeof transformOddsArrayToMarketsFormat>[1][number] & {
+  fixture_id: number;
+  bookmaker_id?: number | null;
+};
+
+interface SeenValue {
+  signature: string;
+  seenAt: number;
+}
+
+const listeners = new Set<LiveStreamListener>();
+const fixtureSignatures = new Map<number, SeenValue>();
+const oddSignatures = new Map<number, SeenValue>();
+
+// Whether the poll loop is running (a pass in flight or scheduled)
+let active = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let failedPasses = 0;
+let emptyPasses = 0;
+
+/**
+ * Record a value and report whether it differs from the one seen before
+ */
+function hasChanged(seen: Map<number, SeenValue>, id: number, signature: string): boolean {
+  const known = seen.get(id);
+  seen.set(id, { signature, seenAt: Date.now() });
+  return known?.signature !== signature;
+}
+
+function forgetOldValues(seen: Map<number, SeenValue>): void {
+  const cutoff = Date.now() - FORGET_AFTER_MS;
+  for (const [id, known] of seen.entries()) {
+    if (known.seenAt < cutoff) {
+      seen.delete(id);
+    }
+  }
+}
+
+function emit(event: LiveStreamEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[liveStream] Listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Fixtures whose tracked fields changed since the last pass
+ */
+async function pollLivescores(): Promise<LiveFixtureDTO[]> {
+  const response = await sportmonksClient.getLivescoresLatest({ include: LIVESCORES_INCLUDE });
+  const validated = SportMonksResponseSchema.parse(response);
+  const items: unknown[] = Array.isArray(validated.data)
+    ? validated.data
+    : validated.data && typeof validated.data === "object"
+      ? [validated.data]
+      : [];
+
+  const changed = items.filter((item) => {
+    const fixture = item as Record<string, unknown>;
+    if (typeof fixture.id !== "number") {
+      return false;
+    }
+    const signature = JSON.stringify(TRACKED_FIELDS.map((field) => fixture[field] ?? null));
+    return hasChanged(fixtureSignatures, fixture.id, signature);
+  });
+
+  return normalizeLiveFixtures(changed.map((item) => SportMonksFixtureSchema.parse(item)));
+}
+
+/**
+ * In-play prices that changed since the last pass, grouped by fixture
+ */
+async function pollInplayOdds(): Promise<LiveOddsUpdate[]> {
+  const response = await sportmonksClient.getInplayOddsLatest({
+    filters: `bookmakers:${INPLAY_BOOKMAKER_ID}`,
+  });
+  const validated = SportMonksMultiResponseSchema.parse(response);
+
+  const changedByFixture = new Map<number, LatestOdd[]>();
+  for (const item of validated.data) {
+    const odd = item as LatestOdd;
+    if (
+      typeof odd.id !== "number" ||
+      !odd.fixture_id ||
+      !odd.market_id ||
+      !odd.label ||
+      !odd.value ||
+      (odd.bookmaker_id && odd.bookmaker_id !== INPLAY_BOOKMAKER_ID)
+    ) {
+      continue;
+    }
+
+    const signature = `${odd.value}|${Boolean(odd.suspended || odd.stopped)}`;
+    if (hasChanged(oddSignatures, odd.id, signature)) {
+      const changed = changedByFixture.get(odd.fixture_id) ?? [];
+      changed.push(odd);
+      changedByFixture.set(odd.fixture_id, changed);
+    }
+  }
+
+  const updates: LiveOddsUpdate[] = [];
+  for (const [fixtureId, odds] of changedByFixture) {
+    const { markets } = normalizeOdds(
+      SportMonksOddsSchema.parse(transformOddsArrayToMarketsFormat(fixtureId, odds))
+    );
+    if (markets.length > 0) {
+      updates.push({ fixtureId, markets });
+    }
+  }
+  return updates;
+}
+
+/**
+ * Delay before the next pass: exponential backoff after failures, the idle interval after a run of
+ * passes without changes
+ */
+function nextDelay(): number {
+  if (failedPasses > 0) {
+    return Math.min(POLL_INTERVAL_MS * 2 ** failedPasses, MAX_BACKOFF_MS);
+  }
+  return emptyPasses >= IDLE_AFTER_EMPTY_PASSES ? IDLE_POLL_INTERVAL_MS : POLL_INTERVAL_MS;
+}
+
+/**
+ * One pass over both feeds; a failing feed is logged and the other is still streamed
+ */
+async function poll(): Promise<void> {
+  timer = null;
+
+  const [fixtures, odds] = await Promise.allSettled([pollLivescores(), pollInplayOdds()]);
+  if (fixtures.status === "fulfilled" && fixtures.value.length > 0) {
+    emit({ type: "fixtures", data: fixtures.value });
+  }
+  if (odds.status === "fulfilled" && odds.value.length > 0) {
+    emit({ type: "odds", data: odds.value });
+  }
+  if (fixtures.status === "rejected") {
+    console.error("[liveStream] Error polling latest livescores:", fixtures.reason);
+  }
+  if (odds.status === "rejected") {
+    console.error("[liveStream] Error polling latest in-play odds:", odds.reason);
+  }
+
+  failedPasses =
+    fixtures.status === "rejected" && odds.status === "rejected" ? failedPasses + 1 : 0;
+  const changed =
+    (fixtures.status === "fulfilled" && fixtures.value.length > 0) ||
+    (odds.status === "fulfilled" && odds.value.length > 0);
+  emptyPasses = changed ? 0 : emptyPasses + 1;
+
+  forgetOldValues(fixtureSignatures);
+  forgetOldValues(oddSignatures);
+
+  if (listeners.size === 0) {
+    active = false;
+    return;
+  }
+  timer = setTimeout(() => void poll(), nextDelay());
+}
+
+/**
+ * Receive live changes; the poller runs only while there are subscribers
+ * Returns a function that unsubscribes
+ */
+export function subscribeToLiveStream(listener: LiveStreamListener): () => void {
+  listeners.add(listener);
+  if (!active) {
+    active = true;
+    failedPasses = 0;
+    emptyPasses = 0;
+    void poll();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && timer) {
+      clearTimeout(timer);
+      timer = null;
+      active = false;
+    }
+  };
+}
@@ -0,0 +1,321 @@
+import "server-only";
+import type {
+  MarketOdds,
+  OddsDTO,
+  PriceChangePolicy,
+  SlipLineError,
+} from "@repo/shared/types";
+import { sportmonksClient } from "@/lib/sportmonks/client";
+import {
+  SportMonksFixtureSchema,
+  SportMonksOddsSchema,
+  SportMonksSingleResponseSchema,
+} from "@/lib/sportmonks/schemas";
+import {
+  normalizeFixture,
+  normalizeOdds,
+  transformOddsArrayToMarketsFormat,
+} from "@/lib/sportmonks/dto";
+import { getCache, setCache } from "@/lib/cache/cache";
+import { getFixtureCacheVersion } from "@/lib/cache/cacheVersion";
+import type { SlipLine } from "@/server/repositories/types";
+
+/**
+ * Bookmaker used for all prices (same default as OddsDisplay)
+ */
+const BOOKMAKER_FILTER = "bookmakers:2";
+
+/**
+ * Current prices are cached briefly so a burst of quotes/placements hits SportMonks once
+ */
+const ODDS_CACHE_TTL_MS = 5 * 1000;
+const FIXTURE_STATUS_CACHE_TTL_MS = 30 * 1000;
+
+export interface CurrentMarketOdds {
+  odds: OddsDTO;
+  source: "inplay" | "prematch";
+}
+
+export interface FixtureStatus {
+  isStarted: boolean;
+  isFinished: boolean;
+}
+
+type FlatOdds = Parameters<typeof transformOddsArrayToMarketsFormat>[1];
+
+/**
+ * Resolve the SportMonks market ID of a slip line
+ * Lines created before marketId was stored fall back to the legacy market keys
+ */
+export function resolveLineMarketId(line: Pick<SlipLine, "market" | "marketId">): number | null {
+  if (line.marketId) return line.marketId;
+  if (line.market === "1X2") return 1;
+  if (line.market === "BTTS") return 14;
+  if (/^OU-?\d+(\.\d+)?$/.test(line.market)) return 80;
+  return null;
+}
+
+/**
+ * Convert a by-fixture-and-market odds response to an OddsDTO
+ * Handles the flat odds array format and the fixture-with-odds format
+ */
+function toOddsDTO(fixtureId: number, response: unknown): OddsDTO | null {
+  if (!response || typeof response !== "object" || !("data" in response)) {
+    return null;
+  }
+
+  const data = (response as { data: unknown }).data;
+  let flat: unknown[] | null = null;
+
+  if (Array.isArray(data)) {
+    flat = data;
+  } else if (data && typeof data === "object") {
+    const odds = (data as Record<string, unknown>).odds;
+    if (Array.isArray(odds)) {
+      flat = odds;
+    }
+  }
+
+  if (!flat || flat.length === 0) {
+    return null;
+  }
+
+  const odds = SportMonksOddsSchema.parse(
+    transformOddsArrayToMarketsFormat(fixtureId, flat as FlatOdds)
+  );
+  return normalizeOdds(odds);
+}
+
+/**
+ * Fetch current odds for a fixture market
+ * The feed follows the fixture's state: in-play prices once it has started, pre-match before.
+ * Callers that already loaded the status pass it in; otherwise it is read (and cached) here
+ */
+export async function getCurrentMarketOdds(
+  fixtureId: number,
+  marketId: number,
+  status?: FixtureStatus
+): Promise<CurrentMarketOdds | null> {
+  let isStarted: boolean;
+  try {
+    ({ isStarted } = status ?? (await getFixtureStatus(fixtureId)));
+  } catch (error) {
+    console.error(`Error getting status for fixture ${fixtureId}:`, error);
+    return null;
+  }
+  const source: CurrentMarketOdds["source"] = isStarted ? "inplay" : "prematch";
+
+  const version = await getFixtureCacheVersion(fixtureId);
+  const cacheKey = `odds:current:${fixtureId}@${version}:${marketId}:${source}`;
+  const cached = await getCache<CurrentMarketOdds | null>(cacheKey);
+  if (cached !== null) {
+    return cached;
+  }
+
+  let odds: OddsDTO | null;
+  try {
+    const response =
+      source === "inplay"
+        ? await sportmonksClient.getInplayOddsByFixtureAndMarket(fixtureId, marketId, {
+            filters: BOOKMAKER_FILTER,
+          })
+        : await sportmonksClient.getPrematchOddsByFixtureAndMarket(fixtureId, marketId, {
+            filters: BOOKMAKER_FILTER,
+          });
+    odds = toOddsDTO(fixtureId, response);
+  } catch (error) {
+    console.error(
+      `Error fetching ${source} odds for fixture ${fixtureId}, market ${marketId}:`,
+      error
+    );
+    return null;
+  }
+
+  if (!odds || odds.markets.length === 0) {
+    return null;
+  }
+
+  const current: CurrentMarketOdds = { odds, source };
+  await setCache(cacheKey, current, ODDS_CACHE_TTL_MS);
+  return current;
+}
+
+/**
+ * Get whether a fixture has started or finished
+ * A fixture counts as started once its state says so or its kickoff time has passed
+ */
+export async function getFixtureStatus(fixtureId: number): Promise<FixtureStatus> {
+  const version = await getFixtureCacheVersion(fixtureId);
+  const cacheKey = `fixture:status:${fixtureId}@${version}`;
+  const cached = await getCache<FixtureStatus>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await sportmonksClient.getFixtureById(fixtureId, { include: "state" });
+  const validated = SportMonksSingleResponseSchema.parse(response);
+  const fixture = normalizeFixture(SportMonksFixtureSchema.parse(validated.data));
+
+  const kickoffPassed = new Date(fixture.kickoffAt).getTime() <= Date.now();
+  const status: FixtureStatus = {
+    isStarted: Boolean(fixture.isStarted || fixture.isLive || fixture.isFinished || kickoffPassed),
+    isFinished: Boolean(fixture.isFinished),
+  };
+
+  await setCache(cacheKey, status, FIXTURE_STATUS_CACHE_TTL_MS);
+  return status;
+}
+
+/**
+ * Find the OddsDTO entry for a slip line
+ * Over/under lines are stored as "Over 2.5" while OddsDTO keeps the line separately
+ */
+export function findLineOdds(
+  odds: OddsDTO,
+  line: Pick<SlipLine, "market" | "selection">
+): MarketOdds | null {
+  return (
+    odds.markets.find(
+      (m) =>
+        m.market === line.market &&
+        (m.selection === line.selection || `${m.selection} ${m.line}` === line.selection)
+    ) ?? null
+  );
+}
+
+/**
+ * Find the current price of a slip line in an OddsDTO
+ * Returns null when the selection is no longer offered or is suspended
+ */
+export function findLinePrice(
+  odds: OddsDTO,
+  line: Pick<SlipLine, "market" | "selection">
+): number | null {
+  const match = findLineOdds(odds, line);
+  if (!match || match.stopped || match.odds <= 0) {
+    return null;
+  }
+  return match.odds;
+}
+
+/**
+ * Get the current price for each slip line
+ * Lines are grouped by fixture and market so each market is fetched once
+ * Returns a map of line ID -> current odds (null when unavailable)
+ */
+export async function getCurrentLinePrices(
+  lines: SlipLine[]
+): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>();
+  const groups = new Map<string, { fixtureId: number; marketId: number; lines: SlipLine[] }>();
+
+  for (const line of lines) {
+    const marketId = resolveLineMarketId(line);
+    const fixtureId = Number(line.fixtureId);
+    if (!marketId || Number.isNaN(fixtureId)) {
+      prices.set(line.id, null);
+      continue;
+    }
+
+    const key = `${fixtureId}-${marketId}`;
+    if (!groups.has(key)) {
+      groups.set(key, { fixtureId, marketId, lines: [] });
+    }
+    groups.get(key)!.lines.push(line);
+  }
+
+  await Promise.all(
+    Array.from(groups.values()).map(async (group) => {
+      const current = await getCurrentMarketOdds(group.fixtureId, group.marketId);
+      for (const line of group.lines) {
+        prices.set(line.id, current ? findLinePrice(current.odds, line) : null);
+      }
+    })
+  );
+
+  return prices;
+}
+
+export interface RevalidatedLines {
+  lines: SlipLine[]; // Lines priced at the accepted (server-side) odds
+  errors: SlipLineError[];
+}
+
+/**
+ * Re-validate slip lines against current SportMonks prices before placement
+ * Rejects lines that cannot be priced, fixtures that have started or finished, suspended
+ * selections, and price changes not allowed by the policy
+ */
+export async function revalidateLinePrices(
+  lines: SlipLine[],
+  policy: PriceChangePolicy
+): Promise<RevalidatedLines> {
+  const errors: SlipLineError[] = [];
+  const priced: SlipLine[] = [];
+
+  const fixtureIds = Array.from(new Set(lines.map((line) => Number(line.fixtureId))));
+  const statuses = new Map<number, FixtureStatus | null>();
+  await Promise.all(
+    fixtureIds.map(async (fixtureId) => {
+      try {
+        statuses.set(fixtureId, await getFixtureStatus(fixtureId));
+      } catch (error) {
+        console.error(`Error getting status for fixture ${fixtureId}:`, error);
+        statuses.set(fixtureId, null);
+      }
+    })
+  );
+
+  for (const line of lines) {
+    const fixtureId = Number(line.fixtureId);
+    const marketId = resolveLineMarketId(line);
+    const status = statuses.get(fixtureId);
+
+    if (!marketId || !status) {
+      errors.push({ lineId: line.id, code: "UNAVAILABLE", message: "Selection cannot be priced" });
+      continue;
+    }
+
+    if (status.isFinished) {
+      errors.push({ lineId: line.id, code: "FIXTURE_STARTED", message: "Fixture has finished" });
+      continue;
+    }
+
+    // Bets are only taken before kickoff, whichever feed (pre-match or in-play) still prices the line
+    if (status.isStarted) {
+      errors.push({ lineId: line.id, code: "FIXTURE_STARTED", message: "Fixture has started" });
+      continue;
+    }
+
+    const current = await getCurrentMarketOdds(fixtureId, marketId, status);
+    const match = current ? findLineOdds(current.odds, line) : null;
+
+    if (!current || !match || match.odds <= 0) {
+      errors.push({ lineId: line.id, code: "UNAVAILABLE", message: "Selection is no longer offered" });
+      continue;
+    }
+
+    if (match.stopped) {
+      errors.push({ lineId: line.id, code: "SUSPENDED", message: "Selection is suspended" });
+      continue;
+    }
+
+    const changed = match.odds !== line.odds;
+    const rejected =
+      (policy === "reject_any" && changed) ||
+      (policy === "accept_higher" && match.odds < line.odds);
+    if (rejected) {
+      errors.push({
+        lineId: line.id,
+        code: "PRICE_CHANGED",
+        message: `Odds changed from ${line.odds.toFixed(2)} to ${match.odds.toFixed(2)}`,
+        currentOdds: match.odds,
+      });
+      continue;
+    }
+
+    priced.push({ ...line, odds: match.odds });
+  }
+
+  return { lines: priced, errors };
+}
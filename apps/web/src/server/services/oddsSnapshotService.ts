@@ -0,0 +1,175 @@
+import "server-only";
+import type { OddsHistoryDTO, OddsHistorySeries } from "@repo/shared/types";
+import { sportmonksClient } from "@/lib/sportmonks/client";
+import {
+  SportMonksMultiResponseSchema,
+  SportMonksOddsSchema,
+  type SportMonksOdds,
+} from "@/lib/sportmonks/schemas";
+import {
+  listOddsSnapshots,
+  saveOddsSnapshots,
+} from "@/server/repositories/oddsSnapshots.repository";
+import type { OddsSnapshotDocument, OddsSnapshotSource } from "@/server/repositories/types";
+import { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Bookmakers whose prices are recorded when ODDS_SNAPSHOT_BOOKMAKERS is not set
+ * (Bet365, the bookmaker of every price shown and accepted)
+ */
+const DEFAULT_BOOKMAKER_IDS = [2];
+
+/**
+ * Maximum number of snapshots returned by one history request
+ */
+const HISTORY_LIMIT = 2000;
+
+const SOURCES: OddsSnapshotSource[] = ["prematch", "inplay"];
+
+/**
+ * Bookmaker IDs to record (ODDS_SNAPSHOT_BOOKMAKERS, comma-separated)
+ */
+function snapshotBookmakerIds(): number[] {
+  const ids = (process.env.ODDS_SNAPSHOT_BOOKMAKERS ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return ids.length > 0 ? ids : DEFAULT_BOOKMAKER_IDS;
+}
+
+/**
+ * Parse a SportMonks time ("YYYY-MM-DD HH:mm:ss" in UTC, or ISO 8601)
+ */
+function parseSportmonksTime(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Fetch the odds a SportMonks "latest" feed reports as changed (the last 10 seconds)
+ */
+async function fetchLatestOdds(
+  source: OddsSnapshotSource,
+  bookmakerIds: number[]
+): Promise<SportMonksOdds[]> {
+  const opts = { filters: `bookmakers:${bookmakerIds.join(",")}` };
+  const response =
+    source === "prematch"
+      ? await sportmonksClient.getPrematchOddsLatest(opts)
+      : await sportmonksClient.getInplayOddsLatest(opts);
+
+  const validated = SportMonksMultiResponseSchema.parse(response);
+  return validated.data.flatMap((item) => {
+    const parsed = SportMonksOddsSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function toSnapshot(
+  odd: SportMonksOdds,
+  source: OddsSnapshotSource,
+  ingestedAt: number
+): Omit<OddsSnapshotDocument, "recordedAt"> | null {
+  const odds = Number(odd.value);
+  if (!odd.market_id || !odd.bookmaker_id || !(odds > 0)) {
+    return null;
+  }
+
+  return {
+    fixtureId: odd.fixture_id,
+    marketId: odd.market_id,
+    bookmakerId: odd.bookmaker_id,
+    oddId: odd.id,
+    selection: odd.label || odd.name || "",
+    line: odd.total || odd.handicap || null,
+    odds,
+    suspended: Boolean(odd.suspended || odd.stopped),
+    source,
+    changedAt: Timestamp.fromMillis(
+      parseSportmonksTime(odd.latest_bookmaker_update) ?? ingestedAt
+    ),
+  };
+}
+
+/**
+ * Record the pre-match and in-play prices changed since the last pass
+ * A failing feed is logged and skipped; throws only when both fail
+ * Returns the number of snapshots written per feed
+ */
+export async function ingestLatestOdds(): Promise<Record<OddsSnapshotSource, number>> {
+  const bookmakerIds = snapshotBookmakerIds();
+  const ingestedAt = Date.now();
+
+  const results = await Promise.allSettled(
+    SOURCES.map((source) => fetchLatestOdds(source, bookmakerIds))
+  );
+
+  const counts: Record<OddsSnapshotSource, number> = { prematch: 0, inplay: 0 };
+  const snapshots: Omit<OddsSnapshotDocument, "recordedAt">[] = [];
+  results.forEach((result, index) => {
+    const source = SOURCES[index]!;
+    if (result.status === "rejected") {
+      console.error(`[oddsSnapshots] Error fetching latest ${source} odds:`, result.reason);
+      return;
+    }
+
+    for (const odd of result.value) {
+      const snapshot = bookmakerIds.includes(odd.bookmaker_id ?? 0)
+        ? toSnapshot(odd, source, ingestedAt)
+        : null;
+      if (snapshot) {
+        snapshots.push(snapshot);
+        counts[source] += 1;
+      }
+    }
+  });
+
+  if (results.every((result) => result.status === "rejected")) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  await saveOddsSnapshots(snapshots);
+  return counts;
+}
+
+/**
+ * Recorded price movement of a fixture, optionally limited to one market and bookmaker
+ * Only the most recent snapshots are returned for busy fixtures
+ */
+export async function getOddsHistory(
+  fixtureId: number,
+  marketId?: number,
+  bookmakerId?: number
+): Promise<OddsHistoryDTO> {
+  const snapshots = await listOddsSnapshots(fixtureId, marketId, HISTORY_LIMIT);
+
+  const series = new Map<string, OddsHistorySeries>();
+  for (const snapshot of snapshots) {
+    if (bookmakerId !== undefined && snapshot.bookmakerId !== bookmakerId) {
+      continue;
+    }
+
+    const key = `${snapshot.marketId}|${snapshot.bookmakerId}|${snapshot.selection}|${snapshot.line ?? ""}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        marketId: snapshot.marketId,
+        bookmakerId: snapshot.bookmakerId,
+        selection: snapshot.selection,
+        line: snapshot.line,
+        points: [],
+      };
+      series.set(key, entry);
+    }
+    entry.points.push({
+      at: snapshot.changedAt.toDate().toISOString(),
+      odds: snapshot.odds,
+      suspended: snapshot.suspended,
+    });
+  }
+
+  return { fixtureId, series: Array.from(series.values()) };
+}
@@ -0,0 +1,347 @@
+import "server-only";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import { auth } from "@/lib/firebase-admin/admin";
+import {
+  getDealer,
+  listAllDealers,
+  listDescendantDealers,
+} from "@/server/repositories/dealers.repository";
+import {
+  iterateLedgerEntries,
+  type LedgerFilters,
+} from "@/server/repositories/ledger.repository";
+import type { LedgerEntryDocument } from "@/server/repositories/types";
+import { getPostingAmount, ledgerAccounts, parseLedgerAccount } from "@/features/ledger";
+import {
+  formatPeriodLabel,
+  getPeriodRange,
+  type PeriodRange,
+  type ReportCell,
+  type ReportGranularity,
+} from "@/features/reports";
+import { hasGlobalScope, isDealerInScope } from "@/features/rbac/dealerScope";
+
+const MAX_REPORT_PERIODS = 400;
+
+export const TRANSACTION_REPORT_COLUMNS = [
+  "Period",
+  "Scope",
+  "ID",
+  "Name",
+  "Dealer",
+  "Opening",
+  "Credits",
+  "Debits",
+  "Stakes",
+  "Payouts",
+  "Closing",
+];
+
+/**
+ * Report options; the date range and dealer are the ledger filters of the transactions pages
+ * endDate is inclusive: the report runs to the end of the period containing it. dealerId may be any
+ * dealer for superadmin; dealers get their own or a sub-dealer's report
+ */
+export interface TransactionReportOptions
+  extends Required<Pick<LedgerFilters, "startDate" | "endDate">>,
+    Pick<LedgerFilters, "dealerId"> {
+  granularity: ReportGranularity;
+}
+
+/**
+ * One user wallet or dealer float over one period
+ * User: closing = opening + credits − debits − stakes + payouts
+ * Dealer: closing = opening + credits − debits + stakes − payouts (settled stakes taken into the
+ * float and the payouts and cash-outs charged to it)
+ */
+export interface TransactionReportRow {
+  period: string;
+  scope: "user" | "dealer";
+  id: string;
+  name: string;
+  dealerId: string;
+  opening: number;
+  credits: number;
+  debits: number;
+  stakes: number;
+  payouts: number;
+  closing: number;
+}
+
+export interface TransactionReport {
+  dealerId?: string;
+  rows: AsyncGenerator<TransactionReportRow>;
+}
+
+interface PeriodActivity {
+  credits: number;
+  debits: number;
+  stakes: number;
+  payouts: number;
+  net: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Resolve the dealer a report is scoped to (undefined: all dealers)
+ * Superadmin may pick any dealer or none; dealers get their own or one in their subtree
+ */
+async function resolveReportDealerId(requestedDealerId?: string): Promise<string | undefined> {
+  const caller = await requirePermission("reports.export");
+
+  if (hasGlobalScope(caller)) {
+    return requestedDealerId;
+  }
+
+  const callerDealerId = caller.dealerId as string | undefined;
+  if (!callerDealerId) {
+    throw new Error("Access denied: Reports are limited to your dealer scope");
+  }
+  if (requestedDealerId && !(await isDealerInScope(callerDealerId, requestedDealerId))) {
+    throw new Error("Access denied: Can only export reports in your dealer scope");
+  }
+  return requestedDealerId ?? callerDealerId;
+}
+
+/**
+ * Email of each user, falling back to the uid
+ */
+async function resolveUserEmails(uids: string[], emails: Map<string, string>): Promise<void> {
+  const missing = uids.filter((uid) => !emails.has(uid));
+  for (let i = 0; i < missing.length; i += 100) {
+    const chunk = missing.slice(i, i + 100);
+    try {
+      const result = await auth.getUsers(chunk.map((uid) => ({ uid })));
+      for (const userRecord of result.users) {
+        emails.set(userRecord.uid, userRecord.email || userRecord.uid);
+      }
+    } catch (error) {
+      console.error("Error getting user emails for report:", error);
+    }
+    for (const uid of chunk) {
+      if (!emails.has(uid)) {
+        emails.set(uid, uid);
+      }
+    }
+  }
+}
+
+/**
+ * Add an entry's postings to the period activity of the user wallets and dealer floats it touches
+ */
+function applyEntry(
+  entry: LedgerEntryDocument,
+  activity: Map<string, PeriodActivity>,
+  accountDealers: Map<string, string>
+): void {
+  const activityOf = (account: string): PeriodActivity => {
+    let current = activity.get(account);
+    if (!current) {
+      current = { credits: 0, debits: 0, stakes: 0, payouts: 0, net: 0 };
+      activity.set(account, current);
+    }
+    return current;
+  };
+
+  const isSlipOutcome = entry.kind === "settlement" || entry.kind === "cashout";
+
+  for (const { account, amount } of entry.postings) {
+    const { type, ownerId } = parseLedgerAccount(account);
+
+    if (type === "user_wallet") {
+      accountDealers.set(account, entry.dealerId);
+      const current = activityOf(account);
+      current.net += amount;
+      if (entry.kind === "stake") {
+        current.stakes -= amount;
+      } else if (["settlement", "refund", "cashout"].includes(entry.kind)) {
+        current.payouts += amount;
+      } else if (entry.kind === "withdrawal_release") {
+        // Reverses the hold of a rejected or cancelled withdrawal request
+        current.debits -= amount;
+      } else if (amount > 0) {
+        current.credits += amount;
+      } else {
+        current.debits -= amount;
+      }
+    } else if (type === "dealer_float" && !isSlipOutcome) {
+      accountDealers.set(account, ownerId!);
+      const current = activityOf(account);
+      current.net += amount;
+      if (amount > 0) {
+        current.credits += amount;
+      } else {
+        current.debits -= amount;
+      }
+    }
+  }
+
+  if (isSlipOutcome) {
+    // The float keeps the settled stake less what it paid out; entries posted before payouts
+    // were charged to the float kept the whole stake
+    const float = ledgerAccounts.dealerFloat(entry.dealerId);
+    const stakes = -getPostingAmount(entry, ledgerAccounts.stakesInPlay(entry.dealerId));
+    const kept = getPostingAmount(entry, float);
+    accountDealers.set(float, entry.dealerId);
+    const current = activityOf(float);
+    current.net += kept;
+    current.stakes += stakes;
+    current.payouts += stakes - kept;
+  }
+}
+
+/**
+ * Period-close report of user wallets and dealer floats, built from the ledger
+ * The ledger is read oldest first up to the end of the range so opening balances include all
+ * earlier entries. Rows are yielded period by period, dealers before users, for every account
+ * with activity in the period or a non-zero balance
+ */
+export async function createTransactionReport(
+  options: TransactionReportOptions
+): Promise<TransactionReport> {
+  const dealerId = await resolveReportDealerId(options.dealerId);
+
+  const range: PeriodRange = {
+    start: getPeriodRange(options.granularity, options.startDate).start,
+    end: getPeriodRange(options.granularity, options.endDate).end,
+  };
+  if (range.start >= range.end) {
+    throw new Error("Start date must be before end date");
+  }
+
+  let periodCount = 0;
+  for (let period = range.start; period < range.end; periodCount++) {
+    if (periodCount >= MAX_REPORT_PERIODS) {
+      throw new Error(`Reports are limited to ${MAX_REPORT_PERIODS} periods`);
+    }
+    period = getPeriodRange(options.granularity, period).end;
+  }
+
+  // A dealer's report covers its sub-dealers' floats and users too
+  const dealerNames = new Map<string, string>();
+  let dealerIds: string[] | undefined;
+  if (dealerId) {
+    const [dealer, descendants] = await Promise.all([
+      getDealer(dealerId),
+      listDescendantDealers(dealerId),
+    ]);
+    dealerNames.set(dealerId, dealer?.name ?? dealerId);
+    for (const descendant of descendants) {
+      dealerNames.set(descendant.dealerId, descendant.name);
+    }
+    dealerIds = Array.from(dealerNames.keys());
+  } else {
+    for (const dealer of await listAllDealers()) {
+      dealerNames.set(dealer.dealerId, dealer.name);
+    }
+  }
+
+  return { dealerId, rows: generateRows(options.granularity, range, dealerIds, dealerNames) };
+}
+
+async function* generateRows(
+  granularity: ReportGranularity,
+  range: PeriodRange,
+  dealerIds: string[] | undefined,
+  dealerNames: Map<string, string>
+): AsyncGenerator<TransactionReportRow> {
+  const balances = new Map<string, number>();
+  const accountDealers = new Map<string, string>();
+  const userEmails = new Map<string, string>();
+  let activity = new Map<string, PeriodActivity>();
+  let period = getPeriodRange(granularity, range.start);
+
+  async function* closePeriod(): AsyncGenerator<TransactionReportRow> {
+    for (const [account, current] of activity) {
+      balances.set(account, (balances.get(account) ?? 0) + current.net);
+    }
+
+    const accounts = Array.from(balances.keys())
+      .filter((account) => activity.has(account) || round2(balances.get(account)!) !== 0)
+      .sort((a, b) => {
+        const aIsFloat = a.startsWith("float:");
+        const bIsFloat = b.startsWith("float:");
+        return aIsFloat === bIsFloat ? a.localeCompare(b) : aIsFloat ? -1 : 1;
+      });
+
+    const uids = accounts
+      .filter((account) => account.startsWith("user:"))
+      .map((account) => parseLedgerAccount(account).ownerId!);
+    await resolveUserEmails(uids, userEmails);
+
+    const label = formatPeriodLabel(granularity, period);
+    for (const account of accounts) {
+      const { type, ownerId } = parseLedgerAccount(account);
+      const current = activity.get(account);
+      const closing = balances.get(account)!;
+      const accountDealerId = accountDealers.get(account)!;
+
+      yield {
+        period: label,
+        scope: type === "dealer_float" ? "dealer" : "user",
+        id: ownerId!,
+        name:
+          type === "dealer_float"
+            ? dealerNames.get(ownerId!) ?? ownerId!
+            : userEmails.get(ownerId!) ?? ownerId!,
+        dealerId: accountDealerId,
+        opening: round2(closing - (current?.net ?? 0)),
+        credits: round2(current?.credits ?? 0),
+        debits: round2(current?.debits ?? 0),
+        stakes: round2(current?.stakes ?? 0),
+        payouts: round2(current?.payouts ?? 0),
+        closing: round2(closing),
+      };
+    }
+
+    activity = new Map();
+  }
+
+  const endDate = new Date(range.end.getTime() - 1);
+  for await (const entry of iterateLedgerEntries({ dealerIds, endDate })) {
+    const createdAt = entry.createdAt.toDate();
+
+    // Entries before the range only build up the opening balances
+    if (createdAt < range.start) {
+      const opening = new Map<string, PeriodActivity>();
+      applyEntry(entry, opening, accountDealers);
+      for (const [account, current] of opening) {
+        balances.set(account, (balances.get(account) ?? 0) + current.net);
+      }
+      continue;
+    }
+
+    while (createdAt >= period.end) {
+      yield* closePeriod();
+      period = getPeriodRange(granularity, period.end);
+    }
+    applyEntry(entry, activity, accountDealers);
+  }
+
+  while (period.start < range.end) {
+    yield* closePeriod();
+    period = getPeriodRange(granularity, period.end);
+  }
+}
+
+/**
+ * Cells of a report row, in TRANSACTION_REPORT_COLUMNS order
+ */
+export function toReportCells(row: TransactionReportRow): ReportCell[] {
+  return [
+    row.period,
+    row.scope === "dealer" ? "Dealer" : "User",
+    row.id,
+    row.name,
+    row.dealerId,
+    row.opening,
+    row.credits,
+    row.debits,
+    row.stakes,
+    row.payouts,
+    row.closing,
+  ];
+}
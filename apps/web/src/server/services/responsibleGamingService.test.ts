@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { splitLimitChange } from "./responsibleGamingService";
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/firebase-admin/db", () => ({ db: {} }));
+vi.mock("@/lib/auth/serverAuth", () => ({ getServerAuthUser: vi.fn() }));
+
+describe("splitLimitChange", () => {
+  it("applies a first limit immediately", () => {
+    expect(splitLimitChange({}, { deposit: { daily: 100 }, maxStake: 50 })).toEqual({
+      immediate: { deposit: { daily: 100 }, maxStake: 50 },
+      hasIncrease: false,
+    });
+  });
+
+  it("applies a lower limit immediately", () => {
+    expect(splitLimitChange({ loss: { weekly: 500 } }, { loss: { weekly: 200 } })).toEqual({
+      immediate: { loss: { weekly: 200 } },
+      hasIncrease: false,
+    });
+  });
+
+  it("keeps the current limit when it is raised", () => {
+    expect(splitLimitChange({ deposit: { daily: 100 } }, { deposit: { daily: 300 } })).toEqual({
+      immediate: { deposit: { daily: 100 } },
+      hasIncrease: true,
+    });
+  });
+
+  it("keeps the current limit when it is removed", () => {
+    expect(splitLimitChange({ maxStake: 20, loss: { monthly: 1000 } }, {})).toEqual({
+      immediate: { maxStake: 20, loss: { monthly: 1000 } },
+      hasIncrease: true,
+    });
+  });
+
+  it("splits a mixed change field by field", () => {
+    const { immediate, hasIncrease } = splitLimitChange(
+      { deposit: { daily: 100, weekly: 500 }, maxStake: 50 },
+      { deposit: { daily: 50, weekly: 800, monthly: 2000 }, maxStake: 25 }
+    );
+    expect(immediate).toEqual({
+      deposit: { daily: 50, weekly: 500, monthly: 2000 },
+      maxStake: 25,
+    });
+    expect(hasIncrease).toBe(true);
+  });
+
+  it("does not count an unchanged limit as an increase", () => {
+    const limits = { deposit: { daily: 100 }, loss: { weekly: 300 }, maxStake: 10 };
+    expect(splitLimitChange(limits, { ...limits })).toEqual({ immediate: limits, hasIncrease: false });
+  });
+});
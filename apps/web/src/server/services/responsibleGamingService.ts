@@ -0,0 +1,505 @@
+import "server-only";
+import { getServerAuthUser } from "@/lib/auth/serverAuth";
+import { getUser, updateUser } from "@/server/repositories/users.repository";
+import { listAccountEntriesInTransaction } from "@/server/repositories/ledger.repository";
+import {
+  getUserLimitUsageInTransaction,
+  setUserLimitUsageInTransaction,
+} from "@/server/repositories/userLimitUsage.repository";
+import type {
+  LedgerEntryKind,
+  LimitPeriod,
+  PeriodLimits,
+  UserDayUsage,
+  UserDocument,
+  UserLimits,
+} from "@/server/repositories/types";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { hasPermission } from "@/features/rbac/permissions";
+import type { Role } from "@/features/rbac/types";
+import { getPostingAmount, ledgerAccounts } from "@/features/ledger";
+import { db } from "@/lib/firebase-admin/db";
+import { Timestamp, type Transaction } from "firebase-admin/firestore";
+
+/**
+ * Limits that loosen the current ones take effect after this delay (24 hours)
+ */
+export const LIMIT_INCREASE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Durations a user can choose from, in days
+ */
+export const COOL_OFF_DAYS = [1, 7, 30] as const;
+export const SELF_EXCLUSION_DAYS = [180, 365, 1825] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC days each period covers, today included
+ */
+const PERIOD_DAYS: Record<LimitPeriod, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+const PERIODS = Object.keys(PERIOD_DAYS) as LimitPeriod[];
+
+export type RestrictionType = "cool_off" | "self_exclusion";
+
+export interface UserRestriction {
+  type: RestrictionType;
+  until: Date;
+}
+
+/**
+ * Deposits and net losses of a user over each period
+ */
+export interface UserActivity {
+  deposits: Record<LimitPeriod, number>;
+  losses: Record<LimitPeriod, number>; // Stakes minus returns (negative when the user is ahead)
+}
+
+/**
+ * Serializable view of a user's controls, limits in force and usage
+ */
+export interface ResponsibleGamingStatus {
+  limits: UserLimits;
+  pendingLimits: { limits: UserLimits; effectiveAt: string } | null;
+  restriction: { type: RestrictionType; until: string } | null;
+  activity: UserActivity;
+}
+
+/**
+ * Limits in force for a user
+ * A pending increase replaces the current limits once its effective date has passed
+ */
+export function getEffectiveLimits(user: UserDocument, now = new Date()): UserLimits {
+  if (user.pendingLimits && user.pendingLimits.effectiveAt.toMillis() <= now.getTime()) {
+    return user.pendingLimits.limits;
+  }
+  return user.limits ?? {};
+}
+
+/**
+ * Active cool-off or self-exclusion of a user (self-exclusion wins when both are set)
+ */
+export function getActiveRestriction(user: UserDocument, now = new Date()): UserRestriction | null {
+  if (user.selfExcludedUntil && user.selfExcludedUntil.toMillis() > now.getTime()) {
+    return { type: "self_exclusion", until: user.selfExcludedUntil.toDate() };
+  }
+  if (user.coolOffUntil && user.coolOffUntil.toMillis() > now.getTime()) {
+    return { type: "cool_off", until: user.coolOffUntil.toDate() };
+  }
+  return null;
+}
+
+/**
+ * Entry kinds that move money between a user and their slips (stake out, returns in)
+ */
+const SLIP_KINDS: LedgerEntryKind[] = ["stake", "settlement", "refund", "cashout"];
+
+/**
+ * Daily usage of a user, keyed by UTC day
+ */
+export type UserLimitUsage = Record<string, UserDayUsage>;
+
+function utcDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * First UTC day (YYYY-MM-DD) of a period ending today
+ */
+function periodStart(period: LimitPeriod, now: Date): string {
+  return utcDate(now.getTime() - (PERIOD_DAYS[period] - 1) * DAY_MS);
+}
+
+/**
+ * Read a user's limit usage inside the transaction that moves their money
+ * Users without a usage document yet are initialized from their ledger entries of the last 30 days
+ */
+export async function readLimitUsageInTransaction(
+  transaction: Transaction,
+  uid: string,
+  now = new Date()
+): Promise<UserLimitUsage> {
+  const stored = await getUserLimitUsageInTransaction(transaction, uid);
+  if (stored) {
+    return stored;
+  }
+
+  const account = ledgerAccounts.userWallet(uid);
+  const since = new Date(`${periodStart("monthly", now)}T00:00:00Z`);
+  const entries = await listAccountEntriesInTransaction(transaction, account, since);
+
+  const usage: UserLimitUsage = {};
+  for (const entry of entries) {
+    const isSlipEntry = SLIP_KINDS.includes(entry.kind);
+    if (entry.kind !== "deposit" && !isSlipEntry) {
+      continue;
+    }
+    // Entries still carrying a pending server timestamp are the newest ones
+    const createdAt = entry.createdAt ? entry.createdAt.toMillis() : now.getTime();
+    const day = (usage[utcDate(createdAt)] ??= { deposits: 0, losses: 0 });
+    // Stakes post negative and returns positive amounts to the user's wallet
+    const amount = getPostingAmount(entry, account);
+    if (isSlipEntry) {
+      day.losses -= amount;
+    } else {
+      day.deposits += amount;
+    }
+  }
+  return usage;
+}
+
+/**
+ * Add deposits or losses to today's usage inside the transaction that moves the money
+ * Call after all of the transaction's reads; days older than the monthly period are dropped
+ */
+export function recordLimitUsageInTransaction(
+  transaction: Transaction,
+  uid: string,
+  usage: UserLimitUsage,
+  change: Partial<UserDayUsage>,
+  now = new Date()
+): void {
+  const today = utcDate(now.getTime());
+  const oldest = periodStart("monthly", now);
+
+  const days: UserLimitUsage = {};
+  for (const [date, day] of Object.entries(usage)) {
+    if (date >= oldest) {
+      days[date] = day;
+    }
+  }
+  const current = days[today] ?? { deposits: 0, losses: 0 };
+  days[today] = {
+    deposits: current.deposits + (change.deposits ?? 0),
+    losses: current.losses + (change.losses ?? 0),
+  };
+
+  setUserLimitUsageInTransaction(transaction, uid, days);
+}
+
+/**
+ * Sum a user's daily usage into each period
+ */
+function toActivity(usage: UserLimitUsage, now: Date): UserActivity {
+  const activity: UserActivity = {
+    deposits: { daily: 0, weekly: 0, monthly: 0 },
+    losses: { daily: 0, weekly: 0, monthly: 0 },
+  };
+
+  for (const [date, day] of Object.entries(usage)) {
+    for (const period of PERIODS) {
+      if (date >= periodStart(period, now)) {
+        activity.deposits[period] += day.deposits;
+        activity.losses[period] += day.losses;
+      }
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * Deposits and net losses of a user over each period (today, the last 7 and the last 30 UTC days)
+ */
+export async function getUserActivity(uid: string, now = new Date()): Promise<UserActivity> {
+  const usage = await db.runTransaction((transaction) =>
+    readLimitUsageInTransaction(transaction, uid, now)
+  );
+  return toActivity(usage, now);
+}
+
+/**
+ * First period whose limit would be exceeded by adding amount to the usage, if any
+ */
+function findExceededPeriod(
+  limits: PeriodLimits | undefined,
+  usage: Record<LimitPeriod, number>,
+  amount: number
+): LimitPeriod | null {
+  for (const period of PERIODS) {
+    const limit = limits?.[period];
+    if (limit !== undefined && usage[period] + amount > limit) {
+      return period;
+    }
+  }
+  return null;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Reject betting while a cool-off or self-exclusion is active
+ */
+export function assertBettingAllowed(user: UserDocument): void {
+  const restriction = getActiveRestriction(user);
+  if (!restriction) {
+    return;
+  }
+
+  const until = restriction.until.toISOString();
+  throw new Error(
+    restriction.type === "self_exclusion"
+      ? `Access denied: Self-excluded until ${until}`
+      : `Access denied: Cool-off period until ${until}`
+  );
+}
+
+/**
+ * Validate a slip's total stake against the user's stake limit
+ * The loss limit is checked by checkStakeLimitsInTransaction when the stake is posted
+ */
+export function validateUserStakeLimits(user: UserDocument, stake: number): void {
+  const limits = getEffectiveLimits(user);
+  if (limits.maxStake !== undefined && stake > limits.maxStake) {
+    throw new Error(`Limit exceeded: Stake limit is ${limits.maxStake.toFixed(2)}`);
+  }
+}
+
+/**
+ * Check a slip's total stake against the user's loss limits inside the transaction that posts it
+ * The whole stake counts as a loss until the slip settles
+ * Returns the usage to record the stake on
+ */
+export async function checkStakeLimitsInTransaction(
+  transaction: Transaction,
+  uid: string,
+  user: UserDocument,
+  stake: number
+): Promise<UserLimitUsage> {
+  const now = new Date();
+  const usage = await readLimitUsageInTransaction(transaction, uid, now);
+
+  const limits = getEffectiveLimits(user, now);
+  const period = findExceededPeriod(limits.loss, toActivity(usage, now).losses, stake);
+  if (period) {
+    throw new Error(
+      `Limit exceeded: ${capitalize(period)} loss limit is ${limits.loss![period]!.toFixed(2)}`
+    );
+  }
+  return usage;
+}
+
+/**
+ * Reject deposits to self-excluded users
+ */
+export function assertDepositAllowed(user: UserDocument): void {
+  if (getActiveRestriction(user)?.type === "self_exclusion") {
+    throw new Error("Access denied: User is self-excluded");
+  }
+}
+
+/**
+ * Validate a deposit against the user's deposit limits ahead of the transaction (e.g. on a request)
+ * Self-excluded users cannot receive deposits
+ */
+export async function validateUserDepositLimits(
+  uid: string,
+  user: UserDocument,
+  amount: number
+): Promise<void> {
+  assertDepositAllowed(user);
+
+  if (getEffectiveLimits(user).deposit) {
+    await db.runTransaction((transaction) =>
+      checkDepositLimitsInTransaction(transaction, uid, user, amount)
+    );
+  }
+}
+
+/**
+ * Check a deposit against the user's deposit limits inside the transaction that posts it
+ * Returns the usage to record the deposit on
+ */
+export async function checkDepositLimitsInTransaction(
+  transaction: Transaction,
+  uid: string,
+  user: UserDocument,
+  amount: number
+): Promise<UserLimitUsage> {
+  const now = new Date();
+  const usage = await readLimitUsageInTransaction(transaction, uid, now);
+
+  const limits = getEffectiveLimits(user, now);
+  const period = findExceededPeriod(limits.deposit, toActivity(usage, now).deposits, amount);
+  if (period) {
+    throw new Error(
+      `Limit exceeded: ${capitalize(period)} deposit limit is ${limits.deposit![period]!.toFixed(2)}`
+    );
+  }
+  return usage;
+}
+
+/**
+ * Stricter of two limit values (undefined means no limit)
+ */
+function stricter(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+function isLooser(current: number | undefined, next: number | undefined): boolean {
+  return current !== undefined && (next === undefined || next > current);
+}
+
+function stricterPeriods(current?: PeriodLimits, next?: PeriodLimits): PeriodLimits | undefined {
+  const merged: PeriodLimits = {};
+  for (const period of PERIODS) {
+    const value = stricter(current?.[period], next?.[period]);
+    if (value !== undefined) {
+      merged[period] = value;
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * Split requested limits into the part that applies now and whether a looser part must wait
+ * Every field of the immediate limits is the stricter of the current and requested value
+ */
+export function splitLimitChange(
+  current: UserLimits,
+  next: UserLimits
+): { immediate: UserLimits; hasIncrease: boolean } {
+  const hasIncrease =
+    isLooser(current.maxStake, next.maxStake) ||
+    PERIODS.some(
+      (period) =>
+        isLooser(current.deposit?.[period], next.deposit?.[period]) ||
+        isLooser(current.loss?.[period], next.loss?.[period])
+    );
+
+  const immediate: UserLimits = {};
+  const deposit = stricterPeriods(current.deposit, next.deposit);
+  const loss = stricterPeriods(current.loss, next.loss);
+  const maxStake = stricter(current.maxStake, next.maxStake);
+  if (deposit) immediate.deposit = deposit;
+  if (loss) immediate.loss = loss;
+  if (maxStake !== undefined) immediate.maxStake = maxStake;
+
+  return { immediate, hasIncrease };
+}
+
+/**
+ * Validate the caller can read a user's controls (the user, or user.view with the user in scope)
+ */
+async function requireResponsibleGamingReader(uid: string): Promise<UserDocument> {
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+
+  const user = await getUser(uid);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const allowed =
+    caller.uid === uid ||
+    (hasPermission(caller, "user.view") && (await canManageDealer(caller, user.dealerId)));
+  if (!allowed) {
+    throw new Error("Access denied: Cannot view this user's limits");
+  }
+
+  return user;
+}
+
+/**
+ * Get a user's limits, pending increase, restriction and current usage
+ */
+export async function getResponsibleGamingStatus(uid: string): Promise<ResponsibleGamingStatus> {
+  const user = await requireResponsibleGamingReader(uid);
+  const now = new Date();
+  const pending =
+    user.pendingLimits && user.pendingLimits.effectiveAt.toMillis() > now.getTime()
+      ? user.pendingLimits
+      : null;
+  const restriction = getActiveRestriction(user, now);
+
+  return {
+    limits: getEffectiveLimits(user, now),
+    pendingLimits: pending
+      ? { limits: pending.limits, effectiveAt: pending.effectiveAt.toDate().toISOString() }
+      : null,
+    restriction: restriction
+      ? { type: restriction.type, until: restriction.until.toISOString() }
+      : null,
+    activity: await getUserActivity(uid, now),
+  };
+}
+
+/**
+ * Load the calling user (role 'user' only)
+ */
+async function requireSelf(): Promise<{ uid: string; user: UserDocument }> {
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+
+  if ((caller.role as Role | undefined) !== "user") {
+    throw new Error("Access denied: Only users can manage their own limits");
+  }
+
+  const user = await getUser(caller.uid);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return { uid: caller.uid, user };
+}
+
+/**
+ * Set the caller's own limits
+ * Stricter limits apply immediately; looser ones (including removed limits) are stored as a
+ * pending change that applies after LIMIT_INCREASE_DELAY_MS. A new request replaces any pending one.
+ * Returns when the requested limits take full effect
+ */
+export async function updateOwnLimits(next: UserLimits): Promise<Date> {
+  const { uid, user } = await requireSelf();
+  const now = new Date();
+  const { immediate, hasIncrease } = splitLimitChange(getEffectiveLimits(user, now), next);
+
+  if (!hasIncrease) {
+    await updateUser(uid, { limits: immediate, pendingLimits: null });
+    return now;
+  }
+
+  const effectiveAt = new Date(now.getTime() + LIMIT_INCREASE_DELAY_MS);
+  await updateUser(uid, {
+    limits: immediate,
+    pendingLimits: {
+      limits: next,
+      effectiveAt: Timestamp.fromDate(effectiveAt),
+      requestedAt: Timestamp.fromDate(now),
+    },
+  });
+  return effectiveAt;
+}
+
+/**
+ * Start a cool-off or self-exclusion for the caller
+ * A running restriction can be extended but never shortened
+ * Returns the end of the restriction
+ */
+export async function startOwnRestriction(type: RestrictionType, days: number): Promise<Date> {
+  const allowedDays: readonly number[] = type === "cool_off" ? COOL_OFF_DAYS : SELF_EXCLUSION_DAYS;
+  if (!allowedDays.includes(days)) {
+    throw new Error("Invalid restriction period");
+  }
+
+  const { uid, user } = await requireSelf();
+  const field = type === "cool_off" ? "coolOffUntil" : "selfExcludedUntil";
+  const requested = Date.now() + days * DAY_MS;
+  const until = new Date(Math.max(requested, user[field]?.toMillis() ?? 0));
+
+  await updateUser(uid, { [field]: Timestamp.fromDate(until) });
+  return until;
+}
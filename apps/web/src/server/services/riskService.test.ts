@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SlipCombination, SlipLine } from "@/server/repositories/types";
+import { computeSlipExposure } from "./riskService";
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/firebase-admin/db", () => ({ db: {} }));
+
+function line(
+  id: string,
+  fixtureId: string | number,
+  market: string,
+  selection: string,
+  result?: SlipLine["result"]
+): SlipLine {
+  return { id, fixtureId, market, selection, odds: 2, result };
+}
+
+function combo(lineIds: string[], stake: number, potentialReturn: number): SlipCombination {
+  return { lineIds, stake, potentialReturn };
+}
+
+describe("computeSlipExposure", () => {
+  it("counts a single against its fixture, market and selection", () => {
+    expect(computeSlipExposure([line("a", 1, "1X2", "1")], [combo(["a"], 10, 25)])).toEqual({
+      "1": {
+        liability: 25,
+        stake: 10,
+        markets: { "1X2": 25 },
+        selections: { "1X2": { "1": { liability: 25, stake: 10 } } },
+      },
+    });
+  });
+
+  it("counts an accumulator in full against every fixture it covers", () => {
+    const exposure = computeSlipExposure(
+      [line("a", 1, "1X2", "1"), line("b", 2, "BTTS", "Yes")],
+      [combo(["a", "b"], 10, 40)]
+    );
+    expect(exposure["1"]).toMatchObject({ liability: 40, stake: 10, markets: { "1X2": 40 } });
+    expect(exposure["2"]).toMatchObject({ liability: 40, stake: 10, markets: { BTTS: 40 } });
+  });
+
+  it("counts a combination once per fixture and market but per selection", () => {
+    const exposure = computeSlipExposure(
+      [line("a", 1, "OU2.5", "Over"), line("b", 1, "OU2.5", "Under"), line("c", 1, "1X2", "1")],
+      [combo(["a", "b", "c"], 5, 30)]
+    );
+    expect(exposure["1"]).toEqual({
+      liability: 30,
+      stake: 5,
+      markets: { "OU2.5": 30, "1X2": 30 },
+      selections: {
+        "OU2.5": { Over: { liability: 30, stake: 5 }, Under: { liability: 30, stake: 5 } },
+        "1X2": { "1": { liability: 30, stake: 5 } },
+      },
+    });
+  });
+
+  it("adds up the combinations of a multiple", () => {
+    const lines = [line("a", 1, "1X2", "1"), line("b", 2, "1X2", "2"), line("c", 3, "1X2", "X")];
+    const exposure = computeSlipExposure(lines, [
+      combo(["a", "b"], 2.5, 10.1),
+      combo(["a", "c"], 2.5, 10.2),
+      combo(["b", "c"], 2.5, 10.4),
+    ]);
+    expect(exposure["1"]).toMatchObject({ liability: 20.3, stake: 5 });
+    expect(exposure["2"]).toMatchObject({ liability: 20.5, stake: 5 });
+    expect(exposure["3"]).toMatchObject({ liability: 20.6, stake: 5 });
+    expect(exposure["1"]!.selections["1X2"]!["1"]).toEqual({ liability: 20.3, stake: 5 });
+  });
+
+  it("leaves voided lines out", () => {
+    const exposure = computeSlipExposure(
+      [line("a", 1, "1X2", "1"), line("b", 2, "1X2", "1", "void")],
+      [combo(["a", "b"], 10, 20)]
+    );
+    expect(Object.keys(exposure)).toEqual(["1"]);
+  });
+
+  it("treats numeric and string fixture IDs alike", () => {
+    const exposure = computeSlipExposure(
+      [line("a", 7, "1X2", "1"), line("b", "7", "BTTS", "No")],
+      [combo(["a"], 1, 2), combo(["b"], 1, 3)]
+    );
+    expect(Object.keys(exposure)).toEqual(["7"]);
+    expect(exposure["7"]).toMatchObject({ liability: 5, stake: 2 });
+  });
+});
@@ -0,0 +1,344 @@
+import "server-only";
+import { FieldValue, type DocumentReference, type Transaction } from "firebase-admin/firestore";
+import { db } from "@/lib/firebase-admin/db";
+import {
+  exposureDocId,
+  getExposuresInTransaction,
+  listDealerExposures,
+  setExposureInTransaction,
+} from "@/server/repositories/exposures.repository";
+import { getDealerSlips } from "@/server/repositories/slips.repository";
+import { getSlipCombinations } from "@repo/shared/betting";
+import type {
+  DealerLimits,
+  FixtureExposure,
+  SlipCombination,
+  SlipExposure,
+  SlipLine,
+} from "@/server/repositories/types";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface SlipLimitCheck {
+  stake: number; // Total stake
+  potentialReturn: number;
+  lines: SlipLine[];
+  combinations: SlipCombination[];
+}
+
+/**
+ * Validate a slip against a dealer's stake, payout, selection and odds limits
+ * Throws with a user-facing message on the first limit exceeded
+ */
+export function validateSlipLimits(limits: DealerLimits | undefined, slip: SlipLimitCheck): void {
+  if (!limits) return;
+
+  if (limits.minStake !== undefined && slip.stake < limits.minStake) {
+    throw new Error(`Limit exceeded: Minimum stake is ${limits.minStake.toFixed(2)}`);
+  }
+
+  if (limits.maxStake !== undefined && slip.stake > limits.maxStake) {
+    throw new Error(`Limit exceeded: Maximum stake is ${limits.maxStake.toFixed(2)}`);
+  }
+
+  if (limits.maxPayout !== undefined && slip.potentialReturn > limits.maxPayout) {
+    throw new Error(`Limit exceeded: Maximum payout per slip is ${limits.maxPayout.toFixed(2)}`);
+  }
+
+  if (limits.maxSelections !== undefined && slip.lines.length > limits.maxSelections) {
+    throw new Error(`Limit exceeded: Maximum ${limits.maxSelections} selections per slip`);
+  }
+
+  if (limits.minTotalOdds !== undefined) {
+    const lowest = Math.min(...slip.combinations.map((combo) => combo.potentialReturn / combo.stake));
+    if (lowest < limits.minTotalOdds) {
+      throw new Error(`Limit exceeded: Minimum total odds is ${limits.minTotalOdds.toFixed(2)}`);
+    }
+  }
+}
+
+/**
+ * Exposure a slip puts on each fixture, market and selection
+ * A combination counts its full potential return and stake once against every fixture, market
+ * and selection it covers
+ */
+export function computeSlipExposure(
+  lines: SlipLine[],
+  combinations: SlipCombination[]
+): SlipExposure {
+  const linesById = new Map(lines.map((line) => [line.id, line]));
+  const exposure: SlipExposure = {};
+
+  for (const combo of combinations) {
+    const openLines = combo.lineIds
+      .map((id) => linesById.get(id))
+      .filter((line): line is SlipLine => !!line && line.result !== "void");
+
+    const fixtures = new Set(openLines.map((line) => String(line.fixtureId)));
+    for (const fixtureId of fixtures) {
+      const fixture = (exposure[fixtureId] ??= { liability: 0, stake: 0, markets: {}, selections: {} });
+      fixture.liability = round2(fixture.liability + combo.potentialReturn);
+      fixture.stake = round2(fixture.stake + combo.stake);
+    }
+
+    const markets = new Set<string>();
+    for (const line of openLines) {
+      const fixture = exposure[String(line.fixtureId)]!;
+      const marketKey = `${line.fixtureId}|${line.market}`;
+      if (!markets.has(marketKey)) {
+        markets.add(marketKey);
+        fixture.markets[line.market] = round2((fixture.markets[line.market] ?? 0) + combo.potentialReturn);
+      }
+
+      const selections = (fixture.selections[line.market] ??= {});
+      const selection = (selections[line.selection] ??= { liability: 0, stake: 0 });
+      selection.liability = round2(selection.liability + combo.potentialReturn);
+      selection.stake = round2(selection.stake + combo.stake);
+    }
+  }
+
+  return exposure;
+}
+
+/**
+ * Add (sign 1) or remove (sign -1) a slip's exposure on one fixture
+ * Amounts never go below zero and emptied markets/selections are dropped
+ */
+export function mergeFixtureExposure(
+  base: FixtureExposure,
+  change: FixtureExposure | undefined,
+  sign: 1 | -1
+): FixtureExposure {
+  const apply = (value: number, amount: number) => round2(Math.max(value + sign * amount, 0));
+
+  if (!change) {
+    return base;
+  }
+
+  const markets = { ...base.markets };
+  for (const [market, amount] of Object.entries(change.markets)) {
+    markets[market] = apply(markets[market] ?? 0, amount);
+    if (markets[market] === 0) delete markets[market];
+  }
+
+  const selections: FixtureExposure["selections"] = {};
+  for (const [market, entries] of Object.entries(base.selections)) {
+    selections[market] = { ...entries };
+  }
+  for (const [market, entries] of Object.entries(change.selections ?? {})) {
+    const marketSelections = (selections[market] ??= {});
+    for (const [selection, amounts] of Object.entries(entries)) {
+      const current = marketSelections[selection] ?? { liability: 0, stake: 0 };
+      const next = {
+        liability: apply(current.liability, amounts.liability),
+        stake: apply(current.stake, amounts.stake),
+      };
+      if (next.liability === 0 && next.stake === 0) {
+        delete marketSelections[selection];
+      } else {
+        marketSelections[selection] = next;
+      }
+    }
+    if (Object.keys(marketSelections).length === 0) delete selections[market];
+  }
+
+  return {
+    liability: apply(base.liability, change.liability),
+    stake: apply(base.stake, change.stake ?? 0),
+    markets,
+    selections,
+  };
+}
+
+/**
+ * Read the exposure documents touched by a change in slip exposure
+ * Must be called before any write in the transaction
+ */
+export async function readExposuresInTransaction(
+  transaction: Transaction,
+  dealerId: string,
+  ...exposures: (SlipExposure | undefined)[]
+): Promise<Map<string, FixtureExposure>> {
+  const fixtureIds = new Set<string>();
+  exposures.forEach((exposure) => Object.keys(exposure ?? {}).forEach((id) => fixtureIds.add(id)));
+  return getExposuresInTransaction(transaction, dealerId, Array.from(fixtureIds));
+}
+
+/**
+ * Apply a slip's exposure change (reserve `next`, release `previous`) to the dealer's exposures
+ * When limits are given, throws if a fixture or market liability would exceed them
+ * (only fixtures whose liability increases are checked)
+ */
+export function applyExposureInTransaction(
+  transaction: Transaction,
+  dealerId: string,
+  current: Map<string, FixtureExposure>,
+  change: { next?: SlipExposure; previous?: SlipExposure },
+  limits?: DealerLimits
+): void {
+  const updated = new Map<string, FixtureExposure>();
+
+  current.forEach((exposure, fixtureId) => {
+    const add = change.next?.[fixtureId];
+    const remove = change.previous?.[fixtureId];
+    const next = mergeFixtureExposure(mergeFixtureExposure(exposure, add, 1), remove, -1);
+
+    if (limits && next.liability > exposure.liability) {
+      if (limits.maxFixtureLiability !== undefined && next.liability > limits.maxFixtureLiability) {
+        throw new Error(`Limit exceeded: Maximum liability on fixture ${fixtureId} reached`);
+      }
+      if (limits.maxMarketLiability !== undefined) {
+        for (const market of Object.keys(add?.markets ?? {})) {
+          if ((next.markets[market] ?? 0) > limits.maxMarketLiability) {
+            throw new Error(
+              `Limit exceeded: Maximum liability on ${market} for fixture ${fixtureId} reached`
+            );
+          }
+        }
+      }
+    }
+
+    updated.set(fixtureId, next);
+  });
+
+  updated.forEach((exposure, fixtureId) => {
+    setExposureInTransaction(transaction, dealerId, fixtureId, exposure);
+  });
+}
+
+export interface SelectionLiability {
+  selection: string;
+  liability: number; // Potential returns if the selection wins
+  stake: number;
+  net: number; // Dealer result if the selection wins and every other bet on the market loses
+}
+
+export interface MarketLiability {
+  market: string;
+  liability: number;
+  stake: number;
+  selections: SelectionLiability[];
+  worstCase: SelectionLiability | null;
+}
+
+export interface FixtureLiability {
+  fixtureId: string;
+  liability: number;
+  stake: number;
+  markets: MarketLiability[];
+  worstCase: (SelectionLiability & { market: string }) | null;
+}
+
+/**
+ * Build the liability view of one fixture from its exposure
+ * The worst-case outcome of a market is the selection with the lowest net result; for multiples the
+ * stake of the whole combination is attributed to each fixture it covers, so the view is conservative
+ */
+export function toFixtureLiability(fixtureId: string, exposure: FixtureExposure): FixtureLiability {
+  const markets: MarketLiability[] = Object.entries(exposure.selections ?? {}).map(
+    ([market, entries]) => {
+      const stake = round2(Object.values(entries).reduce((acc, entry) => acc + entry.stake, 0));
+      const selections = Object.entries(entries)
+        .map(([selection, entry]) => ({
+          selection,
+          liability: entry.liability,
+          stake: entry.stake,
+          net: round2(stake - entry.liability),
+        }))
+        .sort((a, b) => a.net - b.net);
+
+      return {
+        market,
+        liability: exposure.markets[market] ?? 0,
+        stake,
+        selections,
+        worstCase: selections[0] ?? null,
+      };
+    }
+  );
+
+  markets.sort((a, b) => (a.worstCase?.net ?? 0) - (b.worstCase?.net ?? 0));
+  const worst = markets[0];
+
+  return {
+    fixtureId,
+    liability: exposure.liability,
+    stake: exposure.stake ?? 0,
+    markets,
+    worstCase: worst?.worstCase ? { ...worst.worstCase, market: worst.market } : null,
+  };
+}
+
+/**
+ * Liability of a dealer on every fixture with open bets (worst fixtures first)
+ * Reads the exposure aggregates maintained on slip placement and close, not the slips
+ */
+export async function getDealerLiability(dealerId: string): Promise<FixtureLiability[]> {
+  const exposures = await listDealerExposures(dealerId);
+  return exposures
+    .map((exposure) => toFixtureLiability(exposure.fixtureId, exposure))
+    .sort((a, b) => (a.worstCase?.net ?? 0) - (b.worstCase?.net ?? 0));
+}
+
+/**
+ * Rebuild a dealer's exposure aggregates from their pending slips
+ * Used to backfill slips placed before liability tracking and to repair drift.
+ * Slips without a stored exposure get one so it is released when they close.
+ * Not atomic with slip placement: run it while the dealer is not taking bets
+ * Returns the number of pending slips processed
+ */
+export async function rebuildDealerExposure(dealerId: string): Promise<number> {
+  // Slips flagged for settlement review still hold their liability
+  const slips = [
+    ...(await getDealerSlips(dealerId, { status: "pending" })),
+    ...(await getDealerSlips(dealerId, { status: "review" })),
+  ];
+  const existing = await listDealerExposures(dealerId);
+
+  const totals = new Map<string, FixtureExposure>();
+  const writes: { ref: DocumentReference; data: Record<string, unknown>; update?: boolean }[] = [];
+
+  for (const slip of slips) {
+    const exposure =
+      slip.exposure ?? computeSlipExposure(slip.lines, getSlipCombinations(slip));
+    if (!slip.exposure) {
+      writes.push({ ref: db.collection("slips").doc(slip.id), data: { exposure }, update: true });
+    }
+
+    for (const [fixtureId, fixture] of Object.entries(exposure)) {
+      const base = totals.get(fixtureId) ?? { liability: 0, stake: 0, markets: {}, selections: {} };
+      totals.set(fixtureId, mergeFixtureExposure(base, fixture, 1));
+    }
+  }
+
+  // Fixtures without pending slips are reset to zero
+  for (const exposure of existing) {
+    if (!totals.has(exposure.fixtureId)) {
+      totals.set(exposure.fixtureId, { liability: 0, stake: 0, markets: {}, selections: {} });
+    }
+  }
+
+  totals.forEach((exposure, fixtureId) => {
+    writes.push({
+      ref: db.collection("exposures").doc(exposureDocId(dealerId, fixtureId)),
+      data: { dealerId, fixtureId, ...exposure, updatedAt: FieldValue.serverTimestamp() },
+    });
+  });
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < writes.length; i += 400) {
+    const batch = db.batch();
+    writes.slice(i, i + 400).forEach(({ ref, data, update }) => {
+      if (update) {
+        batch.update(ref, data);
+      } else {
+        batch.set(ref, data);
+      }
+    });
+    await batch.commit();
+  }
+
+  return slips.length;
+}
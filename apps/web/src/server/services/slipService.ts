@@ -1,26 +1,104 @@
 import "server-only";
 import { getServerAuthUser } from "@/lib/auth/serverAuth";
 import { getUser } from "@/server/repositories/users.repository";
-import { getUserBalance } from "@/server/services/walletService";
-import { getUserSlips, getDealerSlips, listAllSlips } from "@/server/repositories/slips.repository";
-import type { CreateSlipData, SlipLine, SlipDocument } from "@/server/repositories/types";
+import {
+  getWalletBalanceInTransaction,
+  setWalletBalanceInTransaction,
+} from "@/server/repositories/wallets.repository";
+import {
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+  type LedgerEntryInput,
+} from "@/server/repositories/ledger.repository";
+import {
+  getIdempotentResult,
+  idempotencyScope,
+  readIdempotentResultInTransaction,
+  saveIdempotentResultInTransaction,
+} from "@/server/repositories/idempotencyKeys.repository";
+import { ledgerAccounts } from "@/features/ledger";
+import { getSlip, getUserSlips, getDealerSlips, getSlipsByDealerIds, listAllSlips } from "@/server/repositories/slips.repository";
+import type {
+  CreateSlipData,
+  DealerDocument,
+  SlipCombination,
+  SlipLine,
+  SlipDocument,
+} from "@/server/repositories/types";
+import type { PriceChangePolicy, SlipLineError } from "@repo/shared/types";
+import {
+  buildBetCombinations,
+  checkCorrelations,
+  getSlipCombinations,
+  type BetType,
+} from "@repo/shared/betting";
+import { getDealer, listDealerSubtreeIds } from "@/server/repositories/dealers.repository";
+import { revalidateLinePrices } from "@/server/services/oddsService";
+import {
+  applyExposureInTransaction,
+  computeSlipExposure,
+  readExposuresInTransaction,
+  validateSlipLimits,
+} from "@/server/services/riskService";
+import {
+  assertBettingAllowed,
+  checkStakeLimitsInTransaction,
+  readLimitUsageInTransaction,
+  recordLimitUsageInTransaction,
+  validateUserStakeLimits,
+} from "@/server/services/responsibleGamingService";
 import { db } from "@/lib/firebase-admin/db";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 import type { Role } from "@/features/rbac/types";
-import { FieldValue } from "firebase-admin/firestore";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Statuses of slips that are still open; "review" slips wait for a dealer instead of settlement
+ */
+const OPEN_SLIP_STATUSES = ["pending", "review"];
 
 export interface CreateSlipParams {
   uid: string;
   dealerId: string;
-  stake: number;
+  stake: number; // Stake per combination
   lines: SlipLine[];
+  priceChangePolicy: PriceChangePolicy;
+  betType: BetType;
+  systemSize?: number;
+  idempotencyKey?: string; // Client key; a repeat returns the original slip ID
+}
+
+/**
+ * Thrown when one or more slip lines are rejected at placement
+ * (price re-validation or same-fixture conflicts)
+ */
+export class SlipLineRejectedError extends Error {
+  constructor(
+    public readonly lineErrors: SlipLineError[],
+    message: string
+  ) {
+    super(message);
+    this.name = "SlipLineRejectedError";
+  }
 }
 
 /**
  * Create a slip with atomic balance check
- * Validates user role and status, checks balance, and creates slip with debit transaction atomically
+ * Validates user role, status and responsible gaming limits, re-prices every line server-side,
+ * then checks the dealer's limits and liability and the balance, and creates slip with debit
+ * transaction atomically
  */
 export async function createSlip(params: CreateSlipParams): Promise<string> {
-  const { uid, dealerId, stake, lines } = params;
+  const {
+    uid,
+    dealerId,
+    stake: unitStake,
+    priceChangePolicy,
+    betType,
+    systemSize,
+    idempotencyKey,
+  } = params;
 
   // Get caller's auth info
   const caller = await getServerAuthUser();
@@ -39,6 +117,13 @@ export async function createSlip(params: CreateSlipParams): Promise<string> {
     throw new Error("Access denied: Only users can create slips");
   }
 
+  // A repeated request returns the original slip without revalidating prices
+  const scope = idempotencyScope(uid, "slip.create", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.resultId;
+  }
+
   // Get user document to check status
   const user = await getUser(uid);
   if (!user) {
@@ -55,17 +140,51 @@ export async function createSlip(params: CreateSlipParams): Promise<string> {
     throw new Error("Access denied: User does not belong to dealer");
   }
 
-  // Compute balance from ledger
-  const balance = await getUserBalance(uid);
+  // No betting during a cool-off or self-exclusion
+  assertBettingAllowed(user);
+
+  // Reject conflicting or correlated selections that end up in the same bet
+  const dealer = await getDealer(dealerId);
+  const conflicts = checkCorrelations(
+    params.lines.map((line) => ({
+      id: line.id,
+      fixtureId: line.fixtureId,
+      marketKey: line.market,
+      selectionKey: line.selection,
+      marketId: line.marketId,
+    })),
+    { allowSameGame: dealer?.allowSameGameCombos ?? true },
+    buildBetCombinations(params.lines, betType, unitStake, systemSize)
+  ).filter((issue) => issue.severity === "error");
+  if (conflicts.length > 0) {
+    throw new SlipLineRejectedError(
+      conflicts.map((issue) => ({
+        lineId: issue.selectionIds[1],
+        code: "CONFLICT",
+        message: issue.message,
+      })),
+      "Some selections cannot be combined"
+    );
+  }
 
-  // Check if balance is sufficient
-  if (balance < stake) {
-    throw new Error("Insufficient balance");
+  // Re-price every line; client-sent odds are only used to detect price changes
+  const revalidated = await revalidateLinePrices(params.lines, priceChangePolicy);
+  if (revalidated.errors.length > 0) {
+    throw new SlipLineRejectedError(
+      revalidated.errors,
+      "Some selections are no longer available at the requested odds"
+    );
   }
+  const lines = revalidated.lines;
 
-  // Calculate potential return (stake * total odds)
-  const totalOdds = lines.reduce((acc, line) => acc * line.odds, 1);
-  const potentialReturn = stake * totalOdds;
+  // Split the slip into its bets at the server-side odds
+  const combinations = buildBetCombinations(lines, betType, unitStake, systemSize);
+  const stake = Math.round(unitStake * combinations.length * 100) / 100;
+  const potentialReturn = combinations.reduce((acc, combo) => acc + combo.potentialReturn, 0);
+  const exposure = computeSlipExposure(lines, combinations);
+
+  // Check the user's own stake limit (loss limits are checked in the transaction below)
+  validateUserStakeLimits(user, stake);
 
   // Create odds snapshot (immutable snapshot of lines at creation time)
   const oddsSnapshot: Record<string, number> = {};
@@ -82,47 +201,290 @@ export async function createSlip(params: CreateSlipParams): Promise<string> {
     potentialReturn,
     lines,
     oddsSnapshot,
+    betType,
+    unitStake,
+    ...(betType === "system" && { systemSize }),
+    combinations,
+    exposure,
   };
 
-  // Use Firestore transaction for atomic writes (debit transaction and slip creation)
-  // Note: Balance check is done before transaction for performance
-  // In a production system, you might want to implement atomic balance checking within the transaction
+  // Use Firestore transaction for atomic writes (limits, balance check, stake entry and slip creation)
   return await db.runTransaction(async (transaction) => {
-    // Create debit transaction document
-    // For debit transactions, toUid can be dealerId (dealers don't have separate uids)
-    // This matches the pattern used in walletService.debitUser
-    const txDocRef = db.collection("transactions").doc();
-    transaction.set(txDocRef, {
-      type: "debit",
-      amount: stake,
-      fromUid: uid,
-      toUid: dealerId, // Using dealerId as toUid (dealer identifier)
-      dealerId,
-      reason: "slip creation",
-      createdAt: FieldValue.serverTimestamp(),
-    });
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.resultId;
+    }
+
+    // Limits are read inside the transaction so concurrent slips cannot exceed them
+    const dealerDoc = await transaction.get(db.collection("dealers").doc(dealerId));
+    const limits = (dealerDoc.data() as DealerDocument | undefined)?.limits;
+    validateSlipLimits(limits, { stake, potentialReturn, lines, combinations });
+
+    // Check if balance is sufficient
+    const balance = await getWalletBalanceInTransaction(transaction, uid);
+    if (balance < stake) {
+      throw new Error("Insufficient balance");
+    }
+
+    // The user's loss limits, against usage that concurrent slips and deposits update atomically
+    const limitUsage = await checkStakeLimitsInTransaction(transaction, uid, user, stake);
+
+    // Reserve liability on every fixture of the slip
+    const exposures = await readExposuresInTransaction(transaction, dealerId, exposure);
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+    applyExposureInTransaction(transaction, dealerId, exposures, { next: exposure }, limits);
 
-    // Create slip document
     const slipDocRef = db.collection("slips").doc();
+
+    // The stake moves from the user's wallet into the dealer's stakes in play
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      {
+        idempotencyKey: `stake_${slipDocRef.id}`,
+        kind: "stake",
+        postings: [
+          { account: ledgerAccounts.userWallet(uid), amount: -stake },
+          { account: ledgerAccounts.stakesInPlay(dealerId), amount: stake },
+        ],
+        dealerId,
+        slipId: slipDocRef.id,
+        actorUid: uid,
+        reason: "slip creation",
+      },
+    ]);
+
+    // Create slip document
     transaction.set(slipDocRef, {
       ...slipData,
       createdAt: FieldValue.serverTimestamp(),
     });
 
+    setWalletBalanceInTransaction(transaction, uid, balance - stake);
+    recordLimitUsageInTransaction(transaction, uid, limitUsage, { losses: stake });
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, { resultId: slipDocRef.id });
+    }
+
     return slipDocRef.id;
   });
 }
 
+/**
+ * Validate that the caller can void slips of a dealer (slip.void, dealer in scope)
+ * Returns the caller's uid
+ */
+async function requireSlipManager(dealerId: string): Promise<string> {
+  const caller = await requirePermission("slip.void");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only manage slips in your dealer scope");
+  }
+
+  return caller.uid;
+}
+
+/**
+ * Ledger entry refunding a slip's stake from stakes in play to the user
+ */
+function refundEntry(
+  slipId: string,
+  slip: SlipDocument,
+  actorUid: string,
+  reason: string
+): LedgerEntryInput {
+  return {
+    idempotencyKey: `refund_${slipId}`,
+    kind: "refund",
+    postings: [
+      { account: ledgerAccounts.stakesInPlay(slip.dealerId), amount: -slip.stake },
+      { account: ledgerAccounts.userWallet(slip.userId), amount: slip.stake },
+    ],
+    dealerId: slip.dealerId,
+    slipId,
+    actorUid,
+    reason,
+  };
+}
+
+export interface CancelSlipParams {
+  slipId: string;
+  reason: string;
+}
+
+/**
+ * Cancel a pending (or review) slip and refund the stake
+ * The refund moves the stake from stakes in play back to the user (ledger entry refund_{slipId}),
+ * written in the same transaction as the status change and the wallet update
+ */
+export async function cancelSlip(params: CancelSlipParams): Promise<void> {
+  const { slipId, reason } = params;
+
+  const slip = await getSlip(slipId);
+  if (!slip) {
+    throw new Error("Slip not found");
+  }
+
+  const callerUid = await requireSlipManager(slip.dealerId);
+
+  await db.runTransaction(async (transaction) => {
+    const slipRef = db.collection("slips").doc(slipId);
+    const slipDoc = await transaction.get(slipRef);
+    const current = slipDoc.data() as SlipDocument | undefined;
+    if (!current || !OPEN_SLIP_STATUSES.includes(current.status)) {
+      throw new Error("Only pending slips can be cancelled");
+    }
+
+    const balance = await getWalletBalanceInTransaction(transaction, current.userId);
+    const limitUsage = await readLimitUsageInTransaction(transaction, current.userId);
+    const exposures = await readExposuresInTransaction(
+      transaction,
+      current.dealerId,
+      current.exposure
+    );
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+    applyExposureInTransaction(transaction, current.dealerId, exposures, {
+      previous: current.exposure,
+    });
+
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      refundEntry(slipId, current, callerUid, `slip cancelled: ${reason}`),
+    ]);
+
+    transaction.update(slipRef, {
+      status: "cancelled",
+      payout: current.stake,
+      cancelledBy: callerUid,
+      cancelReason: reason,
+      cancelledAt: FieldValue.serverTimestamp(),
+    });
+
+    setWalletBalanceInTransaction(transaction, current.userId, balance + current.stake);
+    recordLimitUsageInTransaction(transaction, current.userId, limitUsage, {
+      losses: -current.stake,
+    });
+  });
+}
+
+export interface VoidSlipLineParams {
+  slipId: string;
+  lineId: string;
+  reason: string;
+}
+
+/**
+ * Void a single line of a pending (or review) slip (e.g. postponed or abandoned fixture)
+ * The line is priced at 1.00 and the potential return of every combination is recomputed.
+ * If every line ends up void, the slip is voided and the stake refunded; otherwise a slip flagged
+ * for review goes back to settlement
+ */
+export async function voidSlipLine(params: VoidSlipLineParams): Promise<void> {
+  const { slipId, lineId, reason } = params;
+
+  const slip = await getSlip(slipId);
+  if (!slip) {
+    throw new Error("Slip not found");
+  }
+
+  const callerUid = await requireSlipManager(slip.dealerId);
+
+  await db.runTransaction(async (transaction) => {
+    const slipRef = db.collection("slips").doc(slipId);
+    const slipDoc = await transaction.get(slipRef);
+    const current = slipDoc.data() as SlipDocument | undefined;
+    if (!current || !OPEN_SLIP_STATUSES.includes(current.status)) {
+      throw new Error("Only lines of pending slips can be voided");
+    }
+
+    const line = current.lines.find((l) => l.id === lineId);
+    if (!line) {
+      throw new Error("Line not found");
+    }
+    if (line.result === "void") {
+      throw new Error("Line is already void");
+    }
+
+    const now = Timestamp.now();
+    const lines: SlipLine[] = current.lines.map((l) =>
+      l.id === lineId
+        ? { ...l, result: "void", voidedBy: callerUid, voidReason: reason, voidedAt: now }
+        : l
+    );
+
+    // Voided lines count as odds 1.00
+    const oddsById = new Map(lines.map((l) => [l.id, l.result === "void" ? 1 : l.odds]));
+    const combinations: SlipCombination[] = getSlipCombinations(current).map((combo) => ({
+      ...combo,
+      potentialReturn:
+        Math.round(
+          combo.lineIds.reduce((acc, id) => acc * (oddsById.get(id) ?? 1), combo.stake) * 100
+        ) / 100,
+    }));
+    const potentialReturn = combinations.reduce((acc, combo) => acc + combo.potentialReturn, 0);
+    // Legacy accumulator slips keep their single-bet shape
+    const combinationUpdate = current.combinations ? { combinations } : {};
+
+    // Re-reserve liability without the voided line (released entirely when every line is void)
+    const allVoid = lines.every((l) => l.result === "void");
+    const exposure = computeSlipExposure(lines, combinations);
+    const exposures = await readExposuresInTransaction(
+      transaction,
+      current.dealerId,
+      current.exposure,
+      exposure
+    );
+
+    if (allVoid) {
+      const balance = await getWalletBalanceInTransaction(transaction, current.userId);
+      const limitUsage = await readLimitUsageInTransaction(transaction, current.userId);
+      const sequence = await readLedgerSequenceInTransaction(transaction);
+
+      applyExposureInTransaction(transaction, current.dealerId, exposures, {
+        previous: current.exposure,
+      });
+
+      writeLedgerEntriesInTransaction(transaction, sequence, [
+        refundEntry(slipId, current, callerUid, `slip void: ${reason}`),
+      ]);
+
+      transaction.update(slipRef, {
+        status: "void",
+        lines,
+        ...combinationUpdate,
+        potentialReturn,
+        payout: current.stake,
+        settledAt: FieldValue.serverTimestamp(),
+      });
+
+      setWalletBalanceInTransaction(transaction, current.userId, balance + current.stake);
+      recordLimitUsageInTransaction(transaction, current.userId, limitUsage, {
+        losses: -current.stake,
+      });
+      return;
+    }
+
+    // Legacy slips without reserved exposure are left out of liability tracking
+    if (current.exposure) {
+      applyExposureInTransaction(transaction, current.dealerId, exposures, {
+        next: exposure,
+        previous: current.exposure,
+      });
+    }
+
+    transaction.update(slipRef, {
+      status: "pending",
+      lines,
+      ...combinationUpdate,
+      ...(current.exposure && { exposure }),
+      potentialReturn,
+    });
+  });
+}
+
 /**
  * List slips for a specific user
  * Returns slips with id field
  */
 export async function listUserSlips(uid: string): Promise<(SlipDocument & { id: string })[]> {
   try {
-    const slips = await getUserSlips(uid);
-    // getUserSlips returns SlipDocument[] - we'll need to handle id in pages
-    // For MVP, return slips as-is - pages can use index or implement id fetching
-    return slips as unknown as (SlipDocument & { id: string })[];
+    return await getUserSlips(uid);
   } catch (error) {
     console.error(`Error listing slips for user ${uid}:`, error);
     throw error;
@@ -130,13 +492,15 @@ export async function listUserSlips(uid: string): Promise<(SlipDocument & { id:
 }
 
 /**
- * List slips for a specific dealer
+ * List slips for a specific dealer and every sub-dealer beneath it
  * Returns slips with id field
  */
 export async function listDealerSlips(dealerId: string): Promise<(SlipDocument & { id: string })[]> {
   try {
-    const slips = await getDealerSlips(dealerId);
-    return slips as unknown as (SlipDocument & { id: string })[];
+    const dealerIds = await listDealerSubtreeIds(dealerId);
+    return dealerIds.length === 1
+      ? await getDealerSlips(dealerId)
+      : await getSlipsByDealerIds(dealerIds);
   } catch (error) {
     console.error(`Error listing slips for dealer ${dealerId}:`, error);
     throw error;
@@ -0,0 +1,90 @@
+import "server-only";
+import { getUser } from "@/server/repositories/users.repository";
+import {
+  addStaffCashUsageInTransaction,
+  getStaffCashUsage,
+  getStaffCashUsageInTransaction,
+} from "@/server/repositories/staffCashUsage.repository";
+import type { AuthUser } from "@/lib/auth/serverAuth";
+import type { Transaction } from "firebase-admin/firestore";
+
+/**
+ * Daily limit of a staff account, checked and recorded inside the transaction that moves the cash
+ */
+export interface StaffCashAllowance {
+  uid: string;
+  date: string; // UTC day the cash counts against
+  daily?: number;
+}
+
+function utcDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Cash a staff account moved on user wallets (credits plus debits) today (UTC)
+ */
+export async function getStaffCashMoved(uid: string): Promise<number> {
+  return getStaffCashUsage(uid, utcDate());
+}
+
+/**
+ * Validate a credit or debit against the caller's per-transaction staff cash limit
+ * Only applies to staff accounts; banned staff cannot move cash at all
+ * Returns the allowance whose daily limit is checked inside the money transaction (null for non-staff)
+ */
+export async function validateStaffCashLimits(
+  caller: AuthUser,
+  amount: number
+): Promise<StaffCashAllowance | null> {
+  if (caller.role !== "staff") {
+    return null;
+  }
+
+  const staff = await getUser(caller.uid);
+  if (!staff || staff.status !== "active") {
+    throw new Error("Access denied: Staff account is not active");
+  }
+
+  const limits = staff.staffLimits;
+  if (limits?.perTransaction !== undefined && amount > limits.perTransaction) {
+    throw new Error(
+      `Limit exceeded: Staff limit per transaction is ${limits.perTransaction.toFixed(2)}`
+    );
+  }
+
+  return { uid: caller.uid, date: utcDate(), daily: limits?.daily };
+}
+
+/**
+ * Check the daily staff limit against the usage read in the money transaction (do this with its reads)
+ */
+export async function checkStaffCashInTransaction(
+  transaction: Transaction,
+  allowance: StaffCashAllowance | null,
+  amount: number
+): Promise<void> {
+  if (!allowance || allowance.daily === undefined) {
+    return;
+  }
+
+  const moved = await getStaffCashUsageInTransaction(transaction, allowance.uid, allowance.date);
+  if (moved + amount > allowance.daily) {
+    throw new Error(
+      `Limit exceeded: Staff daily limit is ${allowance.daily.toFixed(2)} (${moved.toFixed(2)} used)`
+    );
+  }
+}
+
+/**
+ * Record cash moved by a staff account in the money transaction (do this with its writes)
+ */
+export function recordStaffCashInTransaction(
+  transaction: Transaction,
+  allowance: StaffCashAllowance | null,
+  amount: number
+): void {
+  if (allowance) {
+    addStaffCashUsageInTransaction(transaction, allowance.uid, allowance.date, amount);
+  }
+}
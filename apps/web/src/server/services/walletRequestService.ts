@@ -0,0 +1,296 @@
+import "server-only";
+import { getServerAuthUser, type AuthUser } from "@/lib/auth/serverAuth";
+import { getUser } from "@/server/repositories/users.repository";
+import {
+  getWalletBalanceInTransaction,
+  setWalletBalanceInTransaction,
+} from "@/server/repositories/wallets.repository";
+import {
+  newLedgerKey,
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+} from "@/server/repositories/ledger.repository";
+import {
+  getIdempotentResult,
+  idempotencyScope,
+  readIdempotentResultInTransaction,
+  saveIdempotentResultInTransaction,
+} from "@/server/repositories/idempotencyKeys.repository";
+import {
+  createWalletRequestInTransaction,
+  getWalletRequest,
+  getWalletRequestInTransaction,
+  listUserWalletRequests,
+  listWalletRequestsByDealerIds,
+  newWalletRequestId,
+  updateWalletRequestInTransaction,
+} from "@/server/repositories/walletRequests.repository";
+import { listDealerSubtreeIds } from "@/server/repositories/dealers.repository";
+import type {
+  WalletRequestDocument,
+  WalletRequestStatus,
+  WalletRequestType,
+} from "@/server/repositories/types";
+import { creditUser, debitUser } from "@/server/services/walletService";
+import { validateUserDepositLimits } from "@/server/services/responsibleGamingService";
+import { ledgerAccounts } from "@/features/ledger";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import type { Permission } from "@/features/rbac/permissions";
+import { requirePermission } from "@/features/rbac/requirePermission";
+import type { Role } from "@/features/rbac/types";
+import { db } from "@/lib/firebase-admin/db";
+
+/**
+ * Permission needed to decide a request of each type
+ */
+const DECIDE_PERMISSION: Record<WalletRequestType, Permission> = {
+  deposit: "wallet.credit",
+  withdrawal: "wallet.debit",
+};
+
+export interface SubmitWalletRequestParams {
+  type: WalletRequestType;
+  amount: number;
+  note?: string;
+  idempotencyKey?: string; // Client key; a repeat returns the original request ID
+}
+
+/**
+ * Submit a deposit or withdrawal request for the caller's own wallet (role 'user' only)
+ * Deposits are checked against the user's deposit limits up front; the limits are enforced atomically
+ * when the approving credit posts the deposit (creditUser). Withdrawals are checked against
+ * the balance and the amount is held (user wallet -> pending withdrawals) in the same transaction
+ * that creates the request, so it cannot be staked while the request is open
+ * Returns the request ID
+ */
+export async function submitWalletRequest(params: SubmitWalletRequestParams): Promise<string> {
+  const { type, amount, note, idempotencyKey } = params;
+
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+  if ((caller.role as Role | undefined) !== "user") {
+    throw new Error("Access denied: Only users can submit wallet requests");
+  }
+
+  // A repeated request returns the original request
+  const scope = idempotencyScope(caller.uid, "wallet_request.create", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.resultId;
+  }
+
+  const user = await getUser(caller.uid);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  if (user.status !== "active") {
+    throw new Error("Access denied: User account is not active");
+  }
+  if (!user.dealerId) {
+    throw new Error("User has no dealer");
+  }
+  const dealerId = user.dealerId;
+
+  if (type === "deposit") {
+    await validateUserDepositLimits(caller.uid, user, amount);
+  }
+
+  return await db.runTransaction(async (transaction) => {
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.resultId;
+    }
+
+    const requestId = newWalletRequestId();
+    const request: Omit<WalletRequestDocument, "createdAt" | "decidedAt"> = {
+      userId: caller.uid,
+      dealerId,
+      type,
+      amount,
+      ...(note && { note }),
+      status: "pending",
+    };
+
+    if (type === "withdrawal") {
+      const balance = await getWalletBalanceInTransaction(transaction, caller.uid);
+      if (balance < amount) {
+        throw new Error("Insufficient balance");
+      }
+      const sequence = await readLedgerSequenceInTransaction(transaction);
+
+      const holdKey = newLedgerKey();
+      writeLedgerEntriesInTransaction(transaction, sequence, [
+        {
+          idempotencyKey: holdKey,
+          kind: "withdrawal_hold",
+          postings: [
+            { account: ledgerAccounts.userWallet(caller.uid), amount: -amount },
+            { account: ledgerAccounts.pendingWithdrawals(dealerId), amount },
+          ],
+          dealerId,
+          walletRequestId: requestId,
+          actorUid: caller.uid,
+          reason: "Withdrawal requested",
+        },
+      ]);
+      setWalletBalanceInTransaction(transaction, caller.uid, balance - amount);
+      request.holdEntryKey = holdKey;
+    }
+
+    createWalletRequestInTransaction(transaction, requestId, request);
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, { resultId: requestId });
+    }
+    return requestId;
+  });
+}
+
+/**
+ * Close a pending request without moving cash to or from the dealer
+ * A withdrawal's held amount is released back to the user in the same transaction
+ */
+async function closeWalletRequest(
+  requestId: string,
+  status: Extract<WalletRequestStatus, "rejected" | "cancelled">,
+  actorUid: string,
+  reason?: string
+): Promise<void> {
+  await db.runTransaction(async (transaction) => {
+    const request = await getWalletRequestInTransaction(transaction, requestId);
+    if (!request) {
+      throw new Error("Request not found");
+    }
+    if (request.status !== "pending") {
+      throw new Error(`Request is already ${request.status}`);
+    }
+
+    const updates: Partial<WalletRequestDocument> = {
+      status,
+      ...(status === "rejected" && { decidedBy: actorUid }),
+      ...(reason && { decisionReason: reason }),
+    };
+
+    if (request.type === "withdrawal") {
+      const balance = await getWalletBalanceInTransaction(transaction, request.userId);
+      const sequence = await readLedgerSequenceInTransaction(transaction);
+
+      const releaseKey = newLedgerKey();
+      writeLedgerEntriesInTransaction(transaction, sequence, [
+        {
+          idempotencyKey: releaseKey,
+          kind: "withdrawal_release",
+          postings: [
+            {
+              account: ledgerAccounts.pendingWithdrawals(request.dealerId),
+              amount: -request.amount,
+            },
+            { account: ledgerAccounts.userWallet(request.userId), amount: request.amount },
+          ],
+          dealerId: request.dealerId,
+          walletRequestId: requestId,
+          actorUid,
+          reason:
+            status === "rejected" ? "Withdrawal request rejected" : "Withdrawal request cancelled",
+        },
+      ]);
+      setWalletBalanceInTransaction(transaction, request.userId, balance + request.amount);
+      updates.ledgerEntryKey = releaseKey;
+    }
+
+    updateWalletRequestInTransaction(transaction, requestId, updates);
+  });
+}
+
+/**
+ * Validate the caller can decide a request: the permission for its type and its dealer in scope
+ */
+async function requireRequestDecider(
+  requestId: string
+): Promise<{ caller: AuthUser; request: WalletRequestDocument }> {
+  const request = await getWalletRequest(requestId);
+  if (!request) {
+    throw new Error("Request not found");
+  }
+
+  const caller = await requirePermission(DECIDE_PERMISSION[request.type]);
+  if (!(await canManageDealer(caller, request.dealerId))) {
+    throw new Error("Access denied: Can only decide requests in your dealer scope");
+  }
+
+  return { caller, request };
+}
+
+/**
+ * Approve a pending request
+ * Posts the deposit (dealer float -> user) or withdrawal (held funds -> dealer float) through
+ * walletService, which applies the same limits and checks as a manual credit or debit
+ * Returns the ledger entry key
+ */
+export async function approveWalletRequest(requestId: string): Promise<string> {
+  const { request } = await requireRequestDecider(requestId);
+  const label = request.type === "deposit" ? "Deposit request" : "Withdrawal request";
+
+  // The caller is recorded as the actor and decider
+  const params = {
+    userUid: request.userId,
+    dealerId: request.dealerId,
+    amount: request.amount,
+    reason: request.note ? `${label}: ${request.note}` : label,
+    walletRequestId: requestId,
+  };
+  return request.type === "deposit" ? creditUser(params) : debitUser(params);
+}
+
+/**
+ * Reject a pending request, releasing a withdrawal's held amount back to the user
+ */
+export async function rejectWalletRequest(requestId: string, reason?: string): Promise<void> {
+  const { caller } = await requireRequestDecider(requestId);
+  await closeWalletRequest(requestId, "rejected", caller.uid, reason);
+}
+
+/**
+ * Cancel one of the caller's own pending requests
+ */
+export async function cancelWalletRequest(requestId: string): Promise<void> {
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+
+  const request = await getWalletRequest(requestId);
+  if (!request || request.userId !== caller.uid) {
+    throw new Error("Request not found");
+  }
+
+  await closeWalletRequest(requestId, "cancelled", caller.uid);
+}
+
+/**
+ * List the caller's own wallet requests (newest first)
+ */
+export async function getMyWalletRequests(): Promise<(WalletRequestDocument & { id: string })[]> {
+  const caller = await getServerAuthUser();
+  if (!caller) {
+    throw new Error("Unauthorized");
+  }
+
+  return listUserWalletRequests(caller.uid);
+}
+
+/**
+ * List the wallet requests of a dealer's users and every sub-dealer's users (newest first)
+ * Requires user.view and the dealer in the caller's scope
+ */
+export async function getDealerWalletRequests(
+  dealerId: string
+): Promise<(WalletRequestDocument & { id: string })[]> {
+  const caller = await requirePermission("user.view");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only view requests in your dealer scope");
+  }
+
+  return listWalletRequestsByDealerIds(await listDealerSubtreeIds(dealerId));
+}
@@ -1,37 +1,64 @@
 import "server-only";
-import { getServerAuthUser } from "@/lib/auth/serverAuth";
-import { getUserTransactions } from "@/server/repositories/transactions.repository";
 import { getUser } from "@/server/repositories/users.repository";
-import type { CreateTransactionData } from "@/server/repositories/types";
+import {
+  getWallet,
+  getWalletBalanceInTransaction,
+  setWalletBalanceInTransaction,
+} from "@/server/repositories/wallets.repository";
+import {
+  getDealerFloatInTransaction,
+  getDealerWallet,
+  setDealerFloatInTransaction,
+} from "@/server/repositories/dealerWallets.repository";
+import { getDealer } from "@/server/repositories/dealers.repository";
+import {
+  newLedgerKey,
+  readLedgerSequenceInTransaction,
+  writeLedgerEntriesInTransaction,
+} from "@/server/repositories/ledger.repository";
+import {
+  getIdempotentResult,
+  idempotencyScope,
+  readIdempotentResultInTransaction,
+  saveIdempotentResultInTransaction,
+} from "@/server/repositories/idempotencyKeys.repository";
+import {
+  getWalletRequestInTransaction,
+  updateWalletRequestInTransaction,
+} from "@/server/repositories/walletRequests.repository";
+import type {
+  WalletRequestDocument,
+  WalletRequestType,
+} from "@/server/repositories/types";
+import { ledgerAccounts } from "@/features/ledger";
+import {
+  assertDepositAllowed,
+  checkDepositLimitsInTransaction,
+  recordLimitUsageInTransaction,
+} from "@/server/services/responsibleGamingService";
+import {
+  checkStaffCashInTransaction,
+  recordStaffCashInTransaction,
+  validateStaffCashLimits,
+} from "@/server/services/staffService";
 import { db } from "@/lib/firebase-admin/db";
-import type { Role } from "@/features/rbac/types";
-import { FieldValue } from "firebase-admin/firestore";
+import { canManageDealer } from "@/features/rbac/dealerScope";
+import { requirePermission } from "@/features/rbac/requirePermission";
 
 /**
- * Get user balance by summing transactions
- * Balance = sum(credit transactions to user) - sum(debit transactions from user)
- * Uses index-friendly query (getUserTransactions uses toUid and fromUid filters)
- * Future optimization: Use cached balance document
+ * Get user balance
+ * Reads the cached wallet document; falls back to summing the user's ledger account for users without one
  */
 export async function getUserBalance(uid: string): Promise<number> {
   try {
-    // Get all transactions where user is involved (fromUid or toUid) - index-friendly query
-    const allTransactions = await getUserTransactions(uid);
-
-    // Calculate balance: credits add (toUid matches), debits subtract (fromUid matches)
-    let balance = 0;
-    for (const tx of allTransactions) {
-      if (tx.toUid === uid && tx.type === "credit") {
-        balance += tx.amount;
-      } else if (tx.fromUid === uid && tx.type === "debit") {
-        balance -= tx.amount;
-      }
+    const wallet = await getWallet(uid);
+    if (wallet) {
+      return wallet.balance;
     }
 
-    return balance;
-
-    // TODO: Future optimization - cache balance in a balance document
-    // and update it atomically with transactions using Firestore transactions
+    return await db.runTransaction((transaction) =>
+      getWalletBalanceInTransaction(transaction, uid)
+    );
   } catch (error) {
     console.error(`Error getting balance for user ${uid}:`, error);
     throw error;
@@ -45,41 +72,67 @@ export interface CreditUserParams {
   dealerId: string;
   amount: number;
   reason: string;
+  idempotencyKey?: string; // Client key; a repeat returns the original ledger entry key
+  walletRequestId?: string; // Deposit request approved by this credit
+}
+
+/**
+ * Check that a wallet request can be approved by a credit or debit with the given details
+ */
+function assertApprovableRequest(
+  request: WalletRequestDocument | null,
+  type: WalletRequestType,
+  userUid: string,
+  dealerId: string,
+  amount: number
+): void {
+  if (!request || request.type !== type) {
+    throw new Error(`${type === "deposit" ? "Deposit" : "Withdrawal"} request not found`);
+  }
+  if (request.status !== "pending") {
+    throw new Error(`Request is already ${request.status}`);
+  }
+  if (request.userId !== userUid || request.dealerId !== dealerId || request.amount !== amount) {
+    throw new Error("Request does not match the approval");
+  }
 }
 
 /**
  * Credit a user's wallet (add funds)
- * Validates RBAC and dealer scope server-side
+ * The amount is drawn from the dealer's float; fails when the float is exhausted
+ * Validates RBAC, dealer scope, the user's deposit limits and staff cash limits server-side
+ * With walletRequestId the credit approves that pending deposit request in the same transaction
  */
 export async function creditUser(
   params: CreditUserParams
 ): Promise<string> {
-  const { dealerUid, superadminUid, userUid, dealerId, amount, reason } =
-    params;
-
-  // Get caller's auth info
-  const caller = await getServerAuthUser();
-  if (!caller) {
-    throw new Error("Unauthorized");
-  }
+  const {
+    dealerUid,
+    superadminUid,
+    userUid,
+    dealerId,
+    amount,
+    reason,
+    idempotencyKey,
+    walletRequestId,
+  } = params;
 
-  const callerRole = caller.role as Role | undefined;
-  const callerDealerId = caller.dealerId as string | undefined;
+  // Validate RBAC and dealer scope: scoped callers can only credit users beneath their dealer
+  const caller = await requirePermission("wallet.credit");
   const callerUid = caller.uid;
 
-  // Validate RBAC: Must be dealer or superadmin
-  if (callerRole !== "dealer" && callerRole !== "superadmin") {
-    throw new Error("Access denied: Only dealers or superadmins can credit users");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only credit users in your dealer scope");
+  }
+  if (dealerUid && dealerUid !== callerUid) {
+    throw new Error("Access denied: Can only credit as yourself");
   }
 
-  // Validate dealer scope: If dealer, can only credit users in their dealerId
-  if (callerRole === "dealer") {
-    if (!callerDealerId || callerDealerId !== dealerId) {
-      throw new Error("Access denied: Dealer can only credit users in their dealerId");
-    }
-    if (dealerUid && dealerUid !== callerUid) {
-      throw new Error("Access denied: Dealer can only credit as themselves");
-    }
+  // A repeated request returns the original entry
+  const scope = idempotencyScope(callerUid, "wallet.credit", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.resultId;
   }
 
   // Validate user exists and belongs to dealer (if dealer)
@@ -88,37 +141,76 @@ export async function creditUser(
     throw new Error("User not found");
   }
 
-  if (callerRole === "dealer" && user.dealerId !== dealerId) {
+  if (user.dealerId !== dealerId) {
     throw new Error("Access denied: User does not belong to dealer");
   }
 
-  // Determine fromUid (the one crediting)
-  const fromUid =
-    superadminUid || dealerUid || (callerRole === "superadmin" ? callerUid : dealerUid);
+  // Deposits count against the user's own deposit limits and the staff member's cash limits
+  assertDepositAllowed(user);
+  const staffAllowance = await validateStaffCashLimits(caller, amount);
+
+  // Determine the actor (the one crediting)
+  const actorUid =
+    superadminUid || dealerUid || callerUid;
 
-  if (!fromUid) {
+  if (!actorUid) {
     throw new Error("Invalid caller: dealerUid or superadminUid required");
   }
 
-  // Create credit transaction using Firestore transaction for extensibility
-  const transactionData: CreateTransactionData = {
-    type: "credit",
-    amount,
-    fromUid,
-    toUid: userUid,
-    dealerId,
-    reason,
-  };
-
-  // Use Firestore transaction for atomic writes (extensible for future multi-write operations)
+  // Post the deposit (dealer float -> user wallet) and update both cached balances atomically
   return await db.runTransaction(async (transaction) => {
-    const docRef = db.collection("transactions").doc();
-    transaction.set(docRef, {
-      ...transactionData,
-      createdAt: FieldValue.serverTimestamp(),
-    });
-    // Future: Could update cached balance here atomically
-    return docRef.id;
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.resultId;
+    }
+    if (walletRequestId) {
+      assertApprovableRequest(
+        await getWalletRequestInTransaction(transaction, walletRequestId),
+        "deposit",
+        userUid,
+        dealerId,
+        amount
+      );
+    }
+    const float = await getDealerFloatInTransaction(transaction, dealerId);
+    if (float < amount) {
+      throw new Error("Insufficient dealer float");
+    }
+    await checkStaffCashInTransaction(transaction, staffAllowance, amount);
+    const limitUsage = await checkDepositLimitsInTransaction(transaction, userUid, user, amount);
+    const balance = await getWalletBalanceInTransaction(transaction, userUid);
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+
+    const entryKey = newLedgerKey();
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      {
+        idempotencyKey: entryKey,
+        kind: "deposit",
+        postings: [
+          { account: ledgerAccounts.dealerFloat(dealerId), amount: -amount },
+          { account: ledgerAccounts.userWallet(userUid), amount },
+        ],
+        dealerId,
+        walletRequestId,
+        actorUid,
+        reason,
+      },
+    ]);
+    setWalletBalanceInTransaction(transaction, userUid, balance + amount);
+    setDealerFloatInTransaction(transaction, dealerId, float - amount);
+    recordStaffCashInTransaction(transaction, staffAllowance, amount);
+    recordLimitUsageInTransaction(transaction, userUid, limitUsage, { deposits: amount });
+    if (walletRequestId) {
+      updateWalletRequestInTransaction(transaction, walletRequestId, {
+        status: "approved",
+        ledgerEntryKey: entryKey,
+        decidedBy: actorUid,
+      });
+    }
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, { resultId: entryKey });
+    }
+    return entryKey;
   });
 }
 
@@ -129,39 +221,45 @@ export interface DebitUserParams {
   dealerId: string;
   amount: number;
   reason: string;
+  idempotencyKey?: string; // Client key; a repeat returns the original ledger entry key
+  walletRequestId?: string; // Withdrawal request approved by this debit
 }
 
 /**
  * Debit a user's wallet (remove funds)
- * Validates RBAC and dealer scope server-side
+ * The amount flows back into the dealer's float
+ * With walletRequestId the debit approves that pending withdrawal request in the same transaction;
+ * the amount then comes out of the funds held for the request rather than the user's balance
+ * Validates RBAC, dealer scope and staff cash limits server-side
  */
 export async function debitUser(params: DebitUserParams): Promise<string> {
-  const { dealerUid, superadminUid, userUid, dealerId, amount, reason } =
-    params;
-
-  // Get caller's auth info
-  const caller = await getServerAuthUser();
-  if (!caller) {
-    throw new Error("Unauthorized");
-  }
+  const {
+    dealerUid,
+    superadminUid,
+    userUid,
+    dealerId,
+    amount,
+    reason,
+    idempotencyKey,
+    walletRequestId,
+  } = params;
 
-  const callerRole = caller.role as Role | undefined;
-  const callerDealerId = caller.dealerId as string | undefined;
+  // Validate RBAC and dealer scope: scoped callers can only debit users beneath their dealer
+  const caller = await requirePermission("wallet.debit");
   const callerUid = caller.uid;
 
-  // Validate RBAC: Must be dealer or superadmin
-  if (callerRole !== "dealer" && callerRole !== "superadmin") {
-    throw new Error("Access denied: Only dealers or superadmins can debit users");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only debit users in your dealer scope");
+  }
+  if (dealerUid && dealerUid !== callerUid) {
+    throw new Error("Access denied: Can only debit as yourself");
   }
 
-  // Validate dealer scope: If dealer, can only debit users in their dealerId
-  if (callerRole === "dealer") {
-    if (!callerDealerId || callerDealerId !== dealerId) {
-      throw new Error("Access denied: Dealer can only debit users in their dealerId");
-    }
-    if (dealerUid && dealerUid !== callerUid) {
-      throw new Error("Access denied: Dealer can only debit as themselves");
-    }
+  // A repeated request returns the original entry
+  const scope = idempotencyScope(callerUid, "wallet.debit", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.resultId;
   }
 
   // Validate user exists and belongs to dealer (if dealer)
@@ -170,36 +268,165 @@ export async function debitUser(params: DebitUserParams): Promise<string> {
     throw new Error("User not found");
   }
 
-  if (callerRole === "dealer" && user.dealerId !== dealerId) {
+  if (user.dealerId !== dealerId) {
     throw new Error("Access denied: User does not belong to dealer");
   }
 
-  // Determine toUid (the one receiving the debit amount)
-  const toUid =
-    superadminUid || dealerUid || (callerRole === "superadmin" ? callerUid : dealerUid);
+  const staffAllowance = await validateStaffCashLimits(caller, amount);
+
+  // Determine the actor (the one debiting)
+  const actorUid =
+    superadminUid || dealerUid || callerUid;
 
-  if (!toUid) {
+  if (!actorUid) {
     throw new Error("Invalid caller: dealerUid or superadminUid required");
   }
 
-  // Create debit transaction using Firestore transaction for extensibility
-  const transactionData: CreateTransactionData = {
-    type: "debit",
-    amount,
-    fromUid: userUid,
-    toUid,
-    dealerId,
-    reason,
-  };
+  // Check balance, post the withdrawal (user wallet or held funds -> dealer float) and update the cached balances atomically
+  return await db.runTransaction(async (transaction) => {
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.resultId;
+    }
+    if (walletRequestId) {
+      assertApprovableRequest(
+        await getWalletRequestInTransaction(transaction, walletRequestId),
+        "withdrawal",
+        userUid,
+        dealerId,
+        amount
+      );
+    }
+    const balance = walletRequestId
+      ? null
+      : await getWalletBalanceInTransaction(transaction, userUid);
+    if (balance !== null && balance < amount) {
+      throw new Error("Insufficient balance");
+    }
+    const float = await getDealerFloatInTransaction(transaction, dealerId);
+    await checkStaffCashInTransaction(transaction, staffAllowance, amount);
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+
+    const entryKey = newLedgerKey();
+    const source = walletRequestId
+      ? ledgerAccounts.pendingWithdrawals(dealerId)
+      : ledgerAccounts.userWallet(userUid);
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      {
+        idempotencyKey: entryKey,
+        kind: "withdrawal",
+        postings: [
+          { account: source, amount: -amount },
+          { account: ledgerAccounts.dealerFloat(dealerId), amount },
+        ],
+        dealerId,
+        walletRequestId,
+        actorUid,
+        reason,
+      },
+    ]);
+    if (balance !== null) {
+      setWalletBalanceInTransaction(transaction, userUid, balance - amount);
+    }
+    setDealerFloatInTransaction(transaction, dealerId, float + amount);
+    recordStaffCashInTransaction(transaction, staffAllowance, amount);
+    if (walletRequestId) {
+      updateWalletRequestInTransaction(transaction, walletRequestId, {
+        status: "approved",
+        ledgerEntryKey: entryKey,
+        decidedBy: actorUid,
+      });
+    }
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, { resultId: entryKey });
+    }
+    return entryKey;
+  });
+}
+
+/**
+ * Get a dealer's float
+ * Requires float.view and the dealer in the caller's scope
+ */
+export async function getDealerFloat(dealerId: string): Promise<number> {
+  const caller = await requirePermission("float.view");
+  if (!(await canManageDealer(caller, dealerId))) {
+    throw new Error("Access denied: Can only view floats in your dealer scope");
+  }
+
+  const wallet = await getDealerWallet(dealerId);
+  if (wallet) {
+    return wallet.balance;
+  }
+  return db.runTransaction((transaction) => getDealerFloatInTransaction(transaction, dealerId));
+}
+
+export interface TransferDealerFloatParams {
+  dealerId: string;
+  amount: number;
+  direction: "fund" | "withdraw"; // fund: house -> dealer, withdraw: dealer -> house
+  reason: string;
+  idempotencyKey?: string; // Client key; a repeat returns the original ledger entry key
+}
+
+/**
+ * Move funds between the house and a dealer's float (float.transfer)
+ * Withdrawals cannot take the float below zero
+ * Returns the ledger entry key
+ */
+export async function transferDealerFloat(params: TransferDealerFloatParams): Promise<string> {
+  const { dealerId, amount, direction, reason, idempotencyKey } = params;
+
+  const caller = await requirePermission("float.transfer");
+
+  // A repeated request returns the original entry
+  const scope = idempotencyScope(caller.uid, "dealer_float.transfer", idempotencyKey);
+  const previous = scope && (await getIdempotentResult(scope));
+  if (previous) {
+    return previous.resultId;
+  }
+
+  const dealer = await getDealer(dealerId);
+  if (!dealer) {
+    throw new Error("Dealer not found");
+  }
 
-  // Use Firestore transaction for atomic writes (extensible for future multi-write operations)
   return await db.runTransaction(async (transaction) => {
-    const docRef = db.collection("transactions").doc();
-    transaction.set(docRef, {
-      ...transactionData,
-      createdAt: FieldValue.serverTimestamp(),
-    });
-    // Future: Could update cached balance and check balance here atomically
-    return docRef.id;
+    const repeated = scope && (await readIdempotentResultInTransaction(transaction, scope));
+    if (repeated) {
+      return repeated.resultId;
+    }
+    const float = await getDealerFloatInTransaction(transaction, dealerId);
+    if (direction === "withdraw" && float < amount) {
+      throw new Error("Insufficient dealer float");
+    }
+
+    const sequence = await readLedgerSequenceInTransaction(transaction);
+
+    // fund: house -> dealer float, withdraw: dealer float -> house
+    const floatAmount = direction === "fund" ? amount : -amount;
+    const entryKey = newLedgerKey();
+    writeLedgerEntriesInTransaction(transaction, sequence, [
+      {
+        idempotencyKey: entryKey,
+        kind: "float_transfer",
+        postings: [
+          { account: ledgerAccounts.house(), amount: -floatAmount },
+          { account: ledgerAccounts.dealerFloat(dealerId), amount: floatAmount },
+        ],
+        dealerId,
+        actorUid: caller.uid,
+        reason,
+      },
+    ]);
+    setDealerFloatInTransaction(
+      transaction,
+      dealerId,
+      direction === "fund" ? float + amount : float - amount
+    );
+    if (scope) {
+      saveIdempotentResultInTransaction(transaction, scope, { resultId: entryKey });
+    }
+    return entryKey;
   });
-}
\ No newline at end of file
+}
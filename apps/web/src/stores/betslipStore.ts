@@ -1,11 +1,14 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { PriceChangePolicy } from "@repo/shared/types";
+import { calculateBetSummary, checkSelectionPair, type BetType } from "@repo/shared/betting";
 
 export interface BetslipSelection {
   fixtureId: string | number;
   marketKey: string; // e.g., "1X2", "OU2.5", "BTTS"
   selectionKey: string; // e.g., "1", "X", "2", "Over", "Under", "Yes", "No"
   odds: number;
+  marketId?: number; // SportMonks market ID (used for settlement)
   // Additional display fields
   homeTeam?: string;
   awayTeam?: string;
@@ -16,34 +19,42 @@ export interface BetslipSelection {
 
 interface BetslipState {
   selections: BetslipSelection[];
-  stake: number;
+  stake: number; // Stake per combination
+  betType: BetType;
+  systemSize: number; // Selections per combination for system bets
+  priceChangePolicy: PriceChangePolicy; // How odds changes are handled at placement
   // Actions
-  addSelection: (selection: BetslipSelection) => void;
+  addSelection: (selection: BetslipSelection) => boolean; // false when the selection was not added
   removeSelection: (index: number) => void;
+  updateSelectionOdds: (index: number, odds: number) => void;
   setStake: (stake: number) => void;
+  setBetType: (betType: BetType) => void;
+  setSystemSize: (systemSize: number) => void;
+  setPriceChangePolicy: (policy: PriceChangePolicy) => void;
   clearBetslip: () => void;
   // Computed
   getPotentialReturn: () => number;
 }
 
-// Calculate potential return: stake * (odds1 * odds2 * ... * oddsN)
+// Calculate potential return: sum over combinations of stake * (product of combination odds)
 function calculatePotentialReturn(
   stake: number,
-  selections: BetslipSelection[]
+  selections: BetslipSelection[],
+  betType: BetType,
+  systemSize: number
 ): number {
-  if (stake <= 0 || selections.length === 0) {
-    return 0;
-  }
-
-  // Check if any selection has invalid odds
-  if (selections.some((s) => s.odds <= 0)) {
-    return 0;
-  }
-
-  // Calculate product of all odds
-  const totalOdds = selections.reduce((acc, selection) => acc * selection.odds, 1);
+  const lines = selections.map((selection, index) => ({ id: String(index), odds: selection.odds }));
+  return calculateBetSummary(lines, betType, stake, systemSize).maxReturn;
+}
 
-  return stake * totalOdds;
+function toCorrelationSelection(selection: BetslipSelection) {
+  return {
+    id: `${selection.fixtureId}-${selection.marketKey}-${selection.selectionKey}`,
+    fixtureId: selection.fixtureId,
+    marketKey: selection.marketKey,
+    selectionKey: selection.selectionKey,
+    marketId: selection.marketId,
+  };
 }
 
 export const useBetslipStore = create<BetslipState>()(
@@ -51,6 +62,9 @@ export const useBetslipStore = create<BetslipState>()(
     (set, get) => ({
       selections: [],
       stake: 10.0,
+      betType: "accumulator",
+      systemSize: 2,
+      priceChangePolicy: "accept_higher",
 
       addSelection: (selection) => {
         const state = get();
@@ -62,7 +76,7 @@ export const useBetslipStore = create<BetslipState>()(
           !selection.selectionKey ||
           selection.odds <= 0
         ) {
-          return; // Silently ignore invalid selection
+          return false; // Ignore invalid selection
         }
 
         // Check for duplicate (same fixtureId + marketKey + selectionKey)
@@ -74,13 +88,25 @@ export const useBetslipStore = create<BetslipState>()(
         );
 
         if (isDuplicate) {
-          return; // Silently ignore duplicate
+          return false; // Ignore duplicate
+        }
+
+        // Reject a second outcome of the same market (e.g. Home and Away of one 1X2 market)
+        const conflicts = state.selections.some(
+          (s) =>
+            checkSelectionPair(toCorrelationSelection(s), toCorrelationSelection(selection))
+              ?.code === "EXCLUSIVE"
+        );
+
+        if (conflicts) {
+          return false;
         }
 
         // Add selection
         set({
           selections: [...state.selections, selection],
         });
+        return true;
       },
 
       removeSelection: (index) => {
@@ -95,6 +121,17 @@ export const useBetslipStore = create<BetslipState>()(
         });
       },
 
+      updateSelectionOdds: (index, odds) => {
+        const state = get();
+        if (index < 0 || index >= state.selections.length || odds <= 0) {
+          return;
+        }
+
+        set({
+          selections: state.selections.map((s, i) => (i === index ? { ...s, odds } : s)),
+        });
+      },
+
       setStake: (stake) => {
         // Validate stake
         const numStake = Number(stake);
@@ -105,12 +142,40 @@ export const useBetslipStore = create<BetslipState>()(
         set({ stake: numStake });
       },
 
+      setBetType: (betType) => {
+        set({ betType });
+      },
+
+      setSystemSize: (systemSize) => {
+        if (!Number.isInteger(systemSize) || systemSize < 2) {
+          return;
+        }
+
+        set({ systemSize });
+      },
+
+      setPriceChangePolicy: (policy) => {
+        set({ priceChangePolicy: policy });
+      },
+
       clearBetslip: () => {
         set({
           selections: [],
           stake: 10.0,
+          betType: "accumulator",
+          systemSize: 2,
         });
       },
+
+      getPotentialReturn: () => {
+        const state = get();
+        return calculatePotentialReturn(
+          state.stake,
+          state.selections,
+          state.betType,
+          state.systemSize
+        );
+      },
     }),
     {
       name: "betslip-storage",
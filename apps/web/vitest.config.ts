@@ -0,0 +1,15 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Same path aliases as tsconfig.json
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@repo/shared": path.resolve(__dirname, "../../packages/shared/src"),
+      "@": path.resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});
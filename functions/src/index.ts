@@ -8,8 +8,13 @@ const auth = admin.auth();
 
 // Import sync function
 import { syncFixturesLatest } from "./sync/syncFixturesLatest";
+import { settleSlips } from "./settlement/settleSlips";
+import { reconcileWallets } from "./wallets/reconcileWallets";
+import { ingestOddsSnapshots } from "./odds/ingestOddsSnapshots";
+import { appendAuditLog, type AuditLogInput } from "./repositories/auditLogs.repository";
+import { getPermissions } from "./permissions";
 
-type Role = "superadmin" | "dealer" | "user";
+type Role = "superadmin" | "dealer" | "staff" | "user";
 
 /**
  * Set default role claim when a user is created
@@ -18,6 +23,7 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
   try {
     await auth.setCustomUserClaims(user.uid, {
       role: "user",
+      permissions: getPermissions("user"),
     });
     functions.logger.info(`Set default role 'user' for user ${user.uid}`);
   } catch (error) {
@@ -63,6 +69,22 @@ async function requireSuperadminOrDealer(context: functions.https.CallableContex
   };
 }
 
+/**
+ * Actor, dealer scope, IP and user agent of a callable request, for the audit log
+ */
+function auditActor(
+  context: functions.https.CallableContext
+): Pick<AuditLogInput, "actorUid" | "actorRole" | "actorDealerId" | "ip" | "userAgent"> {
+  const token = context.auth?.token as { role?: Role; dealerId?: string } | undefined;
+  return {
+    actorUid: context.auth?.uid ?? "unknown",
+    actorRole: token?.role ?? "unknown",
+    actorDealerId: token?.dealerId,
+    ip: context.rawRequest?.ip,
+    userAgent: context.rawRequest?.headers["user-agent"],
+  };
+}
+
 /**
  * Set user role and dealerId (superadmin only)
  */
@@ -79,17 +101,17 @@ export const setUserRole = functions.https.onCall(async (data, context) => {
     throw new functions.https.HttpsError("invalid-argument", "uid and role are required");
   }
 
-  if (!["superadmin", "dealer", "user"].includes(role)) {
+  if (!["superadmin", "dealer", "staff", "user"].includes(role)) {
     throw new functions.https.HttpsError("invalid-argument", "Invalid role");
   }
 
   try {
     const claims: { role: Role; dealerId?: string } = { role };
 
-    // If role is 'dealer', dealerId is required
-    if (role === "dealer") {
+    // Dealers and their staff need a dealerId
+    if (role === "dealer" || role === "staff") {
       if (!dealerId) {
-        throw new functions.https.HttpsError("invalid-argument", "dealerId is required when role is 'dealer'");
+        throw new functions.https.HttpsError("invalid-argument", `dealerId is required when role is '${role}'`);
       }
       claims.dealerId = dealerId;
     } else if (dealerId) {
@@ -97,9 +119,27 @@ export const setUserRole = functions.https.onCall(async (data, context) => {
       claims.dealerId = dealerId;
     }
 
-    await auth.setCustomUserClaims(uid, claims);
+    const previous = (await auth.getUser(uid)).customClaims as
+      | { role?: Role; dealerId?: string }
+      | undefined;
+    // Keep the permissions granted on the user document on top of the new role's defaults
+    const userDoc = await db.collection("users").doc(uid).get();
+    await auth.setCustomUserClaims(uid, {
+      ...claims,
+      permissions: getPermissions(role, userDoc.get("permissions")),
+    });
     functions.logger.info(`Set role '${role}' for user ${uid}`);
 
+    await appendAuditLog({
+      ...auditActor(context),
+      action: "user.set_role",
+      targetType: "user",
+      targetId: uid,
+      dealerId: claims.dealerId ?? previous?.dealerId,
+      before: { role: previous?.role, dealerId: previous?.dealerId },
+      after: { ...claims },
+    });
+
     return { success: true };
   } catch (error) {
     functions.logger.error(`Error setting role for user ${uid}:`, error);
@@ -113,20 +153,35 @@ export const setUserRole = functions.https.onCall(async (data, context) => {
 export const createDealer = functions.https.onCall(async (data, context) => {
   await requireSuperadmin(context);
 
-  const { dealerId, name, userId } = data as {
+  const { dealerId, name, userId, parentDealerId } = data as {
     dealerId: string;
     name: string;
     userId?: string;
+    parentDealerId?: string;
   };
 
   if (!dealerId || !name) {
     throw new functions.https.HttpsError("invalid-argument", "dealerId and name are required");
   }
 
+  // A sub-dealer stores its parent and the full path of dealers above it
+  let hierarchy = {};
+  if (parentDealerId) {
+    const parent = await db.collection("dealers").doc(parentDealerId).get();
+    if (!parent.exists) {
+      throw new functions.https.HttpsError("not-found", "Parent dealer not found");
+    }
+    hierarchy = {
+      parentDealerId,
+      ancestorDealerIds: [...(parent.get("ancestorDealerIds") ?? []), parentDealerId],
+    };
+  }
+
   try {
     // Create dealer document in Firestore
     await db.collection("dealers").doc(dealerId).set({
       name,
+      ...hierarchy,
       isActive: true,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
@@ -134,6 +189,15 @@ export const createDealer = functions.https.onCall(async (data, context) => {
 
     functions.logger.info(`Created dealer ${dealerId}`);
 
+    await appendAuditLog({
+      ...auditActor(context),
+      action: "dealer.create",
+      targetType: "dealer",
+      targetId: dealerId,
+      dealerId,
+      after: { name, userId, ...(parentDealerId && { parentDealerId }) },
+    });
+
     // If userId is provided, set dealerId claim for that user
     if (userId) {
       const user = await auth.getUser(userId);
@@ -154,38 +218,55 @@ export const createDealer = functions.https.onCall(async (data, context) => {
 
 /**
  * Create a user (superadmin or dealer)
- * Dealers can only create users with their own dealerId
+ * Dealers can only create users with their own dealerId or a sub-dealer's
  */
 export const createUser = functions.https.onCall(async (data, context) => {
   const callerInfo = await requireSuperadminOrDealer(context);
 
-  const { email, password, role, dealerId } = data as {
+  const { email, password, role, dealerId, permissions, staffLimits } = data as {
     email: string;
     password: string;
     role: Role;
     dealerId?: string;
+    permissions?: string[]; // Staff only
+    staffLimits?: { perTransaction?: number; daily?: number }; // Staff only
   };
 
   if (!email || !password || !role) {
     throw new functions.https.HttpsError("invalid-argument", "email, password, and role are required");
   }
 
-  if (!["superadmin", "dealer", "user"].includes(role)) {
+  if (!["superadmin", "dealer", "staff", "user"].includes(role)) {
     throw new functions.https.HttpsError("invalid-argument", "Invalid role");
   }
 
-  // If caller is a dealer, they can only create users with their own dealerId
+  if (role === "staff" && !dealerId && callerInfo.role !== "dealer") {
+    throw new functions.https.HttpsError("invalid-argument", "dealerId is required when role is 'staff'");
+  }
+
+  // If caller is a dealer, they can only create users in their own dealerId or a sub-dealer's
   let finalDealerId = dealerId;
   if (callerInfo.role === "dealer") {
     if (!callerInfo.dealerId) {
       throw new functions.https.HttpsError("permission-denied", "Dealer must have a dealerId");
     }
-    // Dealers cannot create other dealers
-    if (role === "dealer") {
-      throw new functions.https.HttpsError("permission-denied", "Dealers cannot create other dealers");
+    // Dealers can only create users and their own staff (other roles hold permissions dealers do not)
+    if (role !== "user" && role !== "staff") {
+      throw new functions.https.HttpsError("permission-denied", "Dealers can only create users and staff");
+    }
+    const dealerPermissions = getPermissions("dealer");
+    if (role === "staff" && (permissions ?? []).some((p) => !dealerPermissions.includes(p))) {
+      throw new functions.https.HttpsError("permission-denied", "Cannot grant permissions you do not hold");
+    }
+    // Default to the caller's dealerId; any other must be a sub-dealer beneath it
+    finalDealerId = dealerId || callerInfo.dealerId;
+    if (finalDealerId !== callerInfo.dealerId) {
+      const dealer = await db.collection("dealers").doc(finalDealerId).get();
+      const ancestors: string[] = dealer.get("ancestorDealerIds") ?? [];
+      if (!ancestors.includes(callerInfo.dealerId)) {
+        throw new functions.https.HttpsError("permission-denied", "Dealer is outside your scope");
+      }
     }
-    // Force dealerId to be the caller's dealerId
-    finalDealerId = callerInfo.dealerId;
   }
 
   try {
@@ -204,9 +285,37 @@ export const createUser = functions.https.onCall(async (data, context) => {
       claims.dealerId = finalDealerId;
     }
 
-    await auth.setCustomUserClaims(userRecord.uid, claims);
+    const grants = role === "staff" ? getPermissions("staff", permissions) : [];
+    await auth.setCustomUserClaims(userRecord.uid, {
+      ...claims,
+      permissions: getPermissions(role, grants),
+    });
     functions.logger.info(`Created user ${userRecord.uid} with role '${role}'`);
 
+    // Staff grants and cash limits live on the user document
+    if (role === "staff") {
+      const limits = Object.fromEntries(
+        Object.entries(staffLimits ?? {}).filter(([, value]) => typeof value === "number" && value > 0)
+      );
+      await db.collection("users").doc(userRecord.uid).set({
+        role,
+        dealerId: finalDealerId,
+        status: "active",
+        permissions: grants,
+        staffLimits: limits,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    await appendAuditLog({
+      ...auditActor(context),
+      action: "user.create",
+      targetType: "user",
+      targetId: userRecord.uid,
+      dealerId: finalDealerId,
+      after: { email, ...claims },
+    });
+
     return { success: true, uid: userRecord.uid };
   } catch (error) {
     functions.logger.error(`Error creating user:`, error);
@@ -226,3 +335,38 @@ export const syncFixturesLatestScheduled = functions.pubsub
     );
     await syncFixturesLatest();
   });
+
+/**
+ * Scheduled function to settle pending slips from fixture results
+ * Runs every 5 minutes in production; each run pages through every pending slip
+ */
+export const settleSlipsScheduled = functions
+  .runWith({ timeoutSeconds: 540 })
+  .pubsub.schedule("every 5 minutes")
+  .onRun(async (context) => {
+    functions.logger.info(`settleSlipsScheduled triggered at ${context.timestamp}`);
+    await settleSlips();
+  });
+
+/**
+ * Scheduled function to record odds price history
+ * Runs every minute; each run makes six 10-second ingestion passes
+ */
+export const ingestOddsSnapshotsScheduled = functions
+  .runWith({ timeoutSeconds: 120 })
+  .pubsub.schedule("every 1 minutes")
+  .onRun(async (context) => {
+    functions.logger.info(`ingestOddsSnapshotsScheduled triggered at ${context.timestamp}`);
+    await ingestOddsSnapshots();
+  });
+
+/**
+ * Scheduled function to reconcile cached wallet balances against the ledger
+ * Runs daily
+ */
+export const reconcileWalletsScheduled = functions.pubsub
+  .schedule("every 24 hours")
+  .onRun(async (context) => {
+    functions.logger.info(`reconcileWalletsScheduled triggered at ${context.timestamp}`);
+    await reconcileWallets();
+  });
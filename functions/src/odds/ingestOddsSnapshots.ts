@@ -0,0 +1,49 @@
+import * as functions from "firebase-functions";
+
+/**
+ * SportMonks "latest" odds feeds only return the changes of the last 10 seconds, so each run
+ * makes one ingestion pass every 10 seconds for a minute
+ */
+const PASSES_PER_RUN = 6;
+const PASS_INTERVAL_MS = 10 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Trigger odds snapshot ingestion in the web app (POST /api/cron/odds-snapshots)
+ * The URL and shared secret come from functions.config().odds_ingest (url, secret) or
+ * ODDS_INGEST_URL / ODDS_INGEST_SECRET
+ */
+export async function ingestOddsSnapshots(): Promise<void> {
+  const config = functions.config().odds_ingest as { url?: string; secret?: string } | undefined;
+  const url = config?.url || process.env.ODDS_INGEST_URL;
+  const secret = config?.secret || process.env.ODDS_INGEST_SECRET;
+  if (!url || !secret) {
+    functions.logger.warn("Odds ingestion not configured (ODDS_INGEST_URL, ODDS_INGEST_SECRET)");
+    return;
+  }
+
+  for (let pass = 0; pass < PASSES_PER_RUN; pass++) {
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+      const body = await response.text();
+      if (!response.ok) {
+        throw new Error(`Odds ingestion failed: ${response.status} ${body}`);
+      }
+      functions.logger.info(`Odds ingestion pass ${pass + 1}: ${body}`);
+    } catch (error) {
+      // Keep going; the next pass records its own 10-second window
+      functions.logger.error(`Odds ingestion pass ${pass + 1} failed:`, error);
+    }
+
+    if (pass < PASSES_PER_RUN - 1) {
+      await sleep(Math.max(0, startedAt + PASS_INTERVAL_MS - Date.now()));
+    }
+  }
+}
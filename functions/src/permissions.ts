@@ -0,0 +1,61 @@
+/**
+ * Permissions each role holds by default
+ * Mirror ROLE_PERMISSIONS in apps/web/src/features/rbac/permissions.ts
+ */
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  superadmin: [
+    "user.view",
+    "user.create",
+    "user.ban",
+    "user.permissions",
+    "wallet.credit",
+    "wallet.debit",
+    "float.view",
+    "float.transfer",
+    "ledger.view",
+    "ledger.migrate",
+    "slip.view",
+    "slip.void",
+    "liability.view",
+    "reports.export",
+    "dealer.manage",
+    "dealer.settings",
+    "staff.manage",
+    "commission.view",
+    "commission.manage",
+    "audit.view",
+  ],
+  dealer: [
+    "user.view",
+    "user.create",
+    "user.ban",
+    "wallet.credit",
+    "wallet.debit",
+    "float.view",
+    "ledger.view",
+    "slip.view",
+    "slip.void",
+    "liability.view",
+    "reports.export",
+    "dealer.settings",
+    "staff.manage",
+    "commission.view",
+  ],
+  staff: [], // Granted per account
+  user: [],
+};
+
+/**
+ * Effective permissions of an account: its role's defaults plus any granted individually
+ * (users/{uid}.permissions), mirrored into custom claims for firestore.rules
+ */
+export function getPermissions(role: string, grants?: unknown): string[] {
+  const defaults = ROLE_PERMISSIONS[role] ?? [];
+  const granted = Array.isArray(grants)
+    ? grants.filter(
+        (grant): grant is string =>
+          typeof grant === "string" && ROLE_PERMISSIONS.superadmin.includes(grant)
+      )
+    : [];
+  return Array.from(new Set([...defaults, ...granted]));
+}
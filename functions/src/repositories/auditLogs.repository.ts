@@ -0,0 +1,52 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+/**
+ * Audit log entry (auditLogs/{logId})
+ * Mirror AuditLogDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface AuditLogInput {
+  action: "user.create" | "user.set_role" | "dealer.create";
+  actorUid: string;
+  actorRole: string;
+  actorDealerId?: string;
+  targetType: "user" | "dealer";
+  targetId: string;
+  dealerId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+}
+
+const AUDIT_LOGS_COLLECTION = "auditLogs";
+
+/**
+ * Drop undefined values (Firestore does not store them)
+ */
+function definedValues<T extends object>(values: T): T {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+/**
+ * Append an audit log entry
+ * Entries are created with a generated ID and never updated. A failure is logged but does not
+ * fail the action that already happened
+ */
+export async function appendAuditLog(entry: AuditLogInput): Promise<void> {
+  try {
+    await db.collection(AUDIT_LOGS_COLLECTION).doc().create({
+      ...definedValues({
+        ...entry,
+        before: entry.before && definedValues(entry.before),
+        after: entry.after && definedValues(entry.after),
+      }),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`Error appending audit log for ${entry.action} on ${entry.targetId}:`, error);
+  }
+}
@@ -4,19 +4,46 @@ const db = admin.firestore();
 
 /**
  * Cache version document structure
+ * baselineVersion is the version of every fixture without a change record; it is raised to the
+ * newest pruned version when change records are pruned
  */
 export interface CacheVersionDocument {
   version: number;
+  baselineVersion?: number;
   updatedAt: admin.firestore.Timestamp;
 }
 
+/**
+ * Fixtures changed by one cache version (cache_state/cacheVersion/changes/{version})
+ * The web app drops only the cache keys of these fixtures; all: true drops every fixture key
+ */
+export interface CacheChangeDocument {
+  version: number;
+  fixtureIds: number[];
+  all: boolean;
+  createdAt: admin.firestore.Timestamp;
+}
+
 const CACHE_STATE_COLLECTION = "cache_state";
 const CACHE_VERSION_DOC_ID = "cacheVersion";
+const CHANGES_COLLECTION = "changes";
+
+/**
+ * Larger change sets are recorded as a full invalidation to keep the change document small
+ */
+const MAX_TRACKED_FIXTURE_IDS = 5000;
 
 /**
- * Increment cache version and return new version
+ * Raising the baseline changes the cache keys of every fixture without a change record, so records
+ * are pruned in one go once the oldest is this far past the cutoff
  */
-export async function incrementCacheVersion(): Promise<number> {
+const PRUNE_BATCH_MS = 60 * 60 * 1000;
+
+/**
+ * Increment cache version and record which fixtures changed
+ * Returns the new version
+ */
+export async function incrementCacheVersion(fixtureIds: number[]): Promise<number> {
   try {
     const docRef = db
       .collection(CACHE_STATE_COLLECTION)
@@ -41,6 +68,14 @@ export async function incrementCacheVersion(): Promise<number> {
         { merge: true }
       );
 
+      const all = fixtureIds.length > MAX_TRACKED_FIXTURE_IDS;
+      transaction.create(docRef.collection(CHANGES_COLLECTION).doc(String(newVersion)), {
+        version: newVersion,
+        fixtureIds: all ? [] : Array.from(new Set(fixtureIds)),
+        all,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
       return newVersion;
     });
   } catch (error) {
@@ -71,3 +106,48 @@ export async function getCacheVersion(): Promise<number> {
   }
 }
 
+/**
+ * Fold change records older than a cutoff into the baseline version and delete them
+ * The baseline is raised before the records are deleted, so the web app never sees a fixture
+ * drop back below the version of its last change
+ * Returns the number of deleted records
+ */
+export async function pruneCacheChanges(olderThan: Date): Promise<number> {
+  try {
+    const docRef = db.collection(CACHE_STATE_COLLECTION).doc(CACHE_VERSION_DOC_ID);
+    const changes = docRef.collection(CHANGES_COLLECTION);
+
+    const oldest = await changes.orderBy("createdAt").limit(1).get();
+    const oldestAt = oldest.empty
+      ? null
+      : (oldest.docs[0].data() as CacheChangeDocument).createdAt.toMillis();
+    if (oldestAt === null || oldestAt >= olderThan.getTime() - PRUNE_BATCH_MS) {
+      return 0;
+    }
+
+    const snapshot = await changes
+      .where("createdAt", "<", admin.firestore.Timestamp.fromDate(olderThan))
+      .get();
+    const prunedVersion = Math.max(
+      ...snapshot.docs.map((doc) => (doc.data() as CacheChangeDocument).version)
+    );
+
+    await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const data = doc.data() as CacheVersionDocument | undefined;
+      if (prunedVersion > (data?.baselineVersion ?? 0)) {
+        transaction.set(docRef, { baselineVersion: prunedVersion }, { merge: true });
+      }
+    });
+
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = db.batch();
+      snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    return snapshot.size;
+  } catch (error) {
+    console.error("Error pruning cache changes:", error);
+    throw error;
+  }
+}
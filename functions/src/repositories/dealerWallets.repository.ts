@@ -0,0 +1,43 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+/**
+ * Dealer float document structure (dealerWallets/{dealerId})
+ * Mirrors DealerWalletDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface DealerWalletDocument {
+  balance: number;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+const DEALER_WALLETS_COLLECTION = "dealerWallets";
+
+/**
+ * Read a dealer wallet inside a Firestore transaction
+ */
+export async function getDealerWalletInTransaction(
+  transaction: admin.firestore.Transaction,
+  dealerId: string
+): Promise<DealerWalletDocument | null> {
+  const walletDoc = await transaction.get(db.collection(DEALER_WALLETS_COLLECTION).doc(dealerId));
+  return walletDoc.exists ? (walletDoc.data() as DealerWalletDocument) : null;
+}
+
+/**
+ * Write a dealer's float inside a Firestore transaction
+ */
+export function setDealerFloatInTransaction(
+  transaction: admin.firestore.Transaction,
+  dealerId: string,
+  balance: number
+): void {
+  transaction.set(
+    db.collection(DEALER_WALLETS_COLLECTION).doc(dealerId),
+    {
+      balance,
+      updatedAt: admin.firestore.Timestamp.now(),
+    },
+    { merge: true }
+  );
+}
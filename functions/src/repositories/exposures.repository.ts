@@ -0,0 +1,116 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+/**
+ * Liability on one fixture (exposures/{dealerId}_{fixtureId} and slips/{slipId}.exposure)
+ * Mirrors FixtureExposure in apps/web/src/server/repositories/types.ts
+ */
+export interface FixtureExposure {
+  liability: number;
+  stake: number;
+  markets: Record<string, number>;
+  selections: Record<string, Record<string, { liability: number; stake: number }>>;
+}
+
+/**
+ * Exposure a slip reserved on each fixture, keyed by fixture ID
+ */
+export type SlipExposure = Record<string, FixtureExposure>;
+
+const EXPOSURES_COLLECTION = "exposures";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function exposureRef(dealerId: string, fixtureId: string) {
+  return db.collection(EXPOSURES_COLLECTION).doc(`${dealerId}_${fixtureId}`);
+}
+
+/**
+ * Read a dealer's exposure on the fixtures of a slip inside a transaction
+ * Must be called before any write in the transaction
+ */
+export async function getExposuresInTransaction(
+  transaction: admin.firestore.Transaction,
+  dealerId: string,
+  exposure: SlipExposure | undefined
+): Promise<Map<string, FixtureExposure>> {
+  const exposures = new Map<string, FixtureExposure>();
+  const fixtureIds = Object.keys(exposure ?? {});
+  if (fixtureIds.length === 0) {
+    return exposures;
+  }
+
+  const docs = await transaction.getAll(...fixtureIds.map((id) => exposureRef(dealerId, id)));
+  docs.forEach((doc, index) => {
+    const data = doc.data() as FixtureExposure | undefined;
+    exposures.set(fixtureIds[index]!, {
+      liability: data?.liability ?? 0,
+      stake: data?.stake ?? 0,
+      markets: data?.markets ?? {},
+      selections: data?.selections ?? {},
+    });
+  });
+
+  return exposures;
+}
+
+/**
+ * Release the liability a slip reserved when it was placed
+ * Amounts never go below zero and emptied markets/selections are dropped
+ */
+export function releaseExposureInTransaction(
+  transaction: admin.firestore.Transaction,
+  dealerId: string,
+  current: Map<string, FixtureExposure>,
+  exposure: SlipExposure
+): void {
+  const subtract = (value: number, amount = 0) => round2(Math.max(value - amount, 0));
+
+  current.forEach((fixture, fixtureId) => {
+    const release = exposure[fixtureId];
+
+    const markets = { ...fixture.markets };
+    for (const [market, amount] of Object.entries(release?.markets ?? {})) {
+      markets[market] = subtract(markets[market] ?? 0, amount);
+      if (markets[market] === 0) delete markets[market];
+    }
+
+    const selections: FixtureExposure["selections"] = {};
+    for (const [market, entries] of Object.entries(fixture.selections)) {
+      selections[market] = { ...entries };
+    }
+    for (const [market, entries] of Object.entries(release?.selections ?? {})) {
+      const marketSelections = selections[market] ?? {};
+      for (const [selection, amounts] of Object.entries(entries)) {
+        const currentAmounts = marketSelections[selection] ?? { liability: 0, stake: 0 };
+        const next = {
+          liability: subtract(currentAmounts.liability, amounts.liability),
+          stake: subtract(currentAmounts.stake, amounts.stake),
+        };
+        if (next.liability === 0 && next.stake === 0) {
+          delete marketSelections[selection];
+        } else {
+          marketSelections[selection] = next;
+        }
+      }
+      if (Object.keys(marketSelections).length === 0) {
+        delete selections[market];
+      } else {
+        selections[market] = marketSelections;
+      }
+    }
+
+    transaction.set(exposureRef(dealerId, fixtureId), {
+      dealerId,
+      fixtureId,
+      liability: subtract(fixture.liability, release?.liability),
+      stake: subtract(fixture.stake, release?.stake),
+      markets,
+      selections,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
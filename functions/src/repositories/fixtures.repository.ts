@@ -0,0 +1,61 @@
+import * as admin from "firebase-admin";
+import type { Score } from "../settlement/fixtureResults";
+
+const db = admin.firestore();
+
+/**
+ * Normalized fixture in the read model (fixtures/{fixtureId})
+ * Mirrors FixtureDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface FixtureDocument {
+  fixtureId: number;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamLogo: string | null;
+  awayTeamLogo: string | null;
+  kickoffAt: string; // SportMonks starting_at ("YYYY-MM-DD HH:mm:ss", UTC)
+  kickoffTime: admin.firestore.Timestamp;
+  date: string; // Kickoff date (YYYY-MM-DD, UTC)
+  leagueId: number | null;
+  leagueName: string | null;
+  leagueLogo: string | null;
+  countryId: number | null;
+  state: string | null;
+  isLive: boolean;
+  isStarted: boolean;
+  isFinished: boolean;
+  hasOdds: boolean | null;
+  score: Score | null;
+  source: "sync" | "backfill";
+  updatedAt: admin.firestore.Timestamp;
+}
+
+const FIXTURES_COLLECTION = "fixtures";
+
+/**
+ * Maximum number of writes per batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Create or replace fixtures in the read model
+ */
+export async function upsertFixtures(
+  fixtures: Omit<FixtureDocument, "updatedAt">[]
+): Promise<void> {
+  try {
+    for (let i = 0; i < fixtures.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const fixture of fixtures.slice(i, i + BATCH_SIZE)) {
+        batch.set(db.collection(FIXTURES_COLLECTION).doc(String(fixture.fixtureId)), {
+          ...fixture,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Error upserting fixtures:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,124 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+/**
+ * Ledger posting and entry structures (ledger/{idempotencyKey})
+ * Mirror LedgerPosting and LedgerEntryDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface LedgerPosting {
+  account: string;
+  amount: number;
+}
+
+export type LedgerEntryKind =
+  | "deposit"
+  | "withdrawal"
+  | "withdrawal_hold"
+  | "withdrawal_release"
+  | "float_transfer"
+  | "stake"
+  | "settlement"
+  | "refund"
+  | "cashout"
+  | "adjustment"
+  | "commission";
+
+export interface LedgerEntryInput {
+  idempotencyKey: string;
+  kind: LedgerEntryKind;
+  postings: LedgerPosting[];
+  dealerId: string;
+  slipId?: string;
+  reason: string;
+}
+
+export interface LedgerEntryDocument extends LedgerEntryInput {
+  sequence: number;
+  accounts: string[];
+  createdAt: admin.firestore.Timestamp;
+}
+
+const LEDGER_COLLECTION = "ledger";
+const META_COLLECTION = "ledgerMeta";
+const SEQUENCE_DOC = "sequence";
+
+/**
+ * Ledger account IDs
+ * Mirror ledgerAccounts in apps/web/src/features/ledger/accounts.ts
+ */
+export const ledgerAccounts = {
+  userWallet: (uid: string): string => `user:${uid}`,
+  dealerFloat: (dealerId: string): string => `float:${dealerId}`,
+  stakesInPlay: (dealerId: string): string => `stakes:${dealerId}`,
+};
+
+/**
+ * Read the next ledger sequence number inside a Firestore transaction
+ * Must be called before any write of the transaction
+ */
+export async function readLedgerSequenceInTransaction(
+  transaction: admin.firestore.Transaction
+): Promise<number> {
+  const sequenceDoc = await transaction.get(db.collection(META_COLLECTION).doc(SEQUENCE_DOC));
+  return sequenceDoc.exists ? (sequenceDoc.data() as { next: number }).next : 1;
+}
+
+/**
+ * Validate that postings balance (sum to zero) and every amount is a finite, non-zero number
+ * Mirrors assertBalancedPostings in apps/web/src/features/ledger/accounts.ts
+ */
+function assertBalancedPostings(postings: LedgerPosting[]): void {
+  if (postings.length < 2) {
+    throw new Error("Ledger entry needs at least two postings");
+  }
+  if (postings.some((posting) => !Number.isFinite(posting.amount) || posting.amount === 0)) {
+    throw new Error("Ledger postings must be non-zero amounts");
+  }
+  const sum = postings.reduce((acc, posting) => acc + posting.amount, 0);
+  if (Math.abs(sum) >= 0.005) {
+    throw new Error(`Ledger postings do not balance (${sum.toFixed(2)})`);
+  }
+}
+
+/**
+ * Write a ledger entry inside a Firestore transaction
+ * The entry ID is its idempotency key and the entry is created (never overwritten)
+ * Mirrors writeLedgerEntriesInTransaction in apps/web/src/server/repositories/ledger.repository.ts
+ */
+export function writeLedgerEntryInTransaction(
+  transaction: admin.firestore.Transaction,
+  sequence: number,
+  entry: LedgerEntryInput
+): void {
+  assertBalancedPostings(entry.postings);
+
+  transaction.create(db.collection(LEDGER_COLLECTION).doc(entry.idempotencyKey), {
+    ...entry,
+    sequence,
+    accounts: Array.from(new Set(entry.postings.map((posting) => posting.account))),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  transaction.set(db.collection(META_COLLECTION).doc(SEQUENCE_DOC), { next: sequence + 1 });
+}
+
+/**
+ * Balance of an account from the ledger, read inside a Firestore transaction
+ */
+export async function getAccountBalanceInTransaction(
+  transaction: admin.firestore.Transaction,
+  account: string
+): Promise<number> {
+  const snapshot = await transaction.get(
+    db.collection(LEDGER_COLLECTION).where("accounts", "array-contains", account)
+  );
+  let balance = 0;
+  for (const doc of snapshot.docs) {
+    for (const posting of (doc.data() as LedgerEntryDocument).postings) {
+      if (posting.account === account) {
+        balance += posting.amount;
+      }
+    }
+  }
+  return Math.round(balance * 100) / 100;
+}
@@ -0,0 +1,239 @@
+import * as admin from "firebase-admin";
+import type {
+  LineOutcome,
+  SettlementCombination,
+  SettlementLine,
+} from "../settlement/resolveLine";
+import { getWalletInTransaction, setWalletBalanceInTransaction } from "./wallets.repository";
+import { getExposuresInTransaction, releaseExposureInTransaction } from "./exposures.repository";
+import { getDealerWalletInTransaction, setDealerFloatInTransaction } from "./dealerWallets.repository";
+import type { SlipExposure } from "./exposures.repository";
+import {
+  getUserLimitUsageInTransaction,
+  recordUserReturnInTransaction,
+} from "./userLimitUsage.repository";
+import {
+  ledgerAccounts,
+  readLedgerSequenceInTransaction,
+  writeLedgerEntryInTransaction,
+  type LedgerPosting,
+} from "./ledger.repository";
+
+const db = admin.firestore();
+
+/**
+ * Slip document structure (subset used by settlement)
+ * Mirrors SlipDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface SlipDocument {
+  userId: string;
+  dealerId: string;
+  status: string;
+  stake: number;
+  potentialReturn: number;
+  lines: SettlementLine[];
+  betType?: string;
+  combinations?: SettlementCombination[];
+  exposure?: SlipExposure;
+  payout?: number;
+  settledAt?: admin.firestore.Timestamp;
+  reviewReason?: string; // Why settlement needs a dealer (status "review")
+  createdAt: admin.firestore.Timestamp;
+}
+
+export type SettledSlipStatus = "won" | "lost" | "void";
+
+const SLIPS_COLLECTION = "slips";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * One page of pending slips (oldest first) and the cursor of the next page (null on the last page)
+ * Slips flagged for review have status "review" and are left out
+ */
+export async function listPendingSlips(
+  limit = 200,
+  startAfter?: admin.firestore.QueryDocumentSnapshot
+): Promise<{
+  slips: Array<{ id: string; data: SlipDocument }>;
+  cursor: admin.firestore.QueryDocumentSnapshot | null;
+}> {
+  try {
+    let query = db
+      .collection(SLIPS_COLLECTION)
+      .where("status", "==", "pending")
+      .orderBy("createdAt", "asc")
+      .limit(limit);
+    if (startAfter) {
+      query = query.startAfter(startAfter);
+    }
+
+    const snapshot = await query.get();
+    return {
+      slips: snapshot.docs.map((doc) => ({
+        id: doc.id,
+        data: doc.data() as SlipDocument,
+      })),
+      cursor: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1]! : null,
+    };
+  } catch (error) {
+    console.error("Error listing pending slips:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move a pending slip that can't be settled automatically to status "review"
+ * A dealer resolves it by voiding the offending lines (which returns it to settlement) or by
+ * cancelling it. Returns false if the slip is no longer pending
+ */
+export async function flagSlipForReview(slipId: string, reason: string): Promise<boolean> {
+  try {
+    const slipRef = db.collection(SLIPS_COLLECTION).doc(slipId);
+
+    return await db.runTransaction(async (transaction) => {
+      const slipDoc = await transaction.get(slipRef);
+      if (!slipDoc.exists || (slipDoc.data() as SlipDocument).status !== "pending") {
+        return false;
+      }
+
+      transaction.update(slipRef, {
+        status: "review",
+        reviewReason: reason,
+        reviewFlaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error(`Error flagging slip ${slipId} for review:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Settlement postings of a slip
+ * Void slips refund the stake from stakes in play; otherwise the stake leaves stakes in play,
+ * the payout goes to the user and the dealer's float takes the difference
+ * Mirrors slipPayoutPostings in apps/web/src/features/ledger/accounts.ts
+ */
+function settlementPostings(
+  slip: SlipDocument,
+  status: SettledSlipStatus,
+  payout: number
+): LedgerPosting[] {
+  const stakes = ledgerAccounts.stakesInPlay(slip.dealerId);
+  const user = ledgerAccounts.userWallet(slip.userId);
+  if (status === "void") {
+    return [
+      { account: stakes, amount: -slip.stake },
+      { account: user, amount: slip.stake },
+    ];
+  }
+  const floatAmount = round2(slip.stake - payout);
+  return [
+    { account: stakes, amount: -slip.stake },
+    ...(floatAmount !== 0
+      ? [{ account: ledgerAccounts.dealerFloat(slip.dealerId), amount: floatAmount }]
+      : []),
+    ...(payout > 0 ? [{ account: user, amount: payout }] : []),
+  ];
+}
+
+/**
+ * Settle a slip and post its ledger entry in a single transaction
+ * Idempotent: only pending slips are settled, and the ledger entry uses a
+ * deterministic key (settle_{slipId}) so it can never be written twice
+ * The user's cached wallet balance and the dealer's cached float are updated in the same
+ * transaction; caches that do not exist yet are initialized from the ledger by the web app
+ * on first use. Payouts are taken off the user's loss-limit usage, and the liability the slip
+ * reserved on its fixtures is released, in the same transaction
+ * Combination payouts are stored on slips that have combinations (system/multiple bets)
+ * Returns false if the slip was already settled
+ */
+export async function settleSlip(
+  slipId: string,
+  status: SettledSlipStatus,
+  lineResults: Record<string, LineOutcome>,
+  payout: number,
+  combinationPayouts: number[] = []
+): Promise<boolean> {
+  try {
+    const slipRef = db.collection(SLIPS_COLLECTION).doc(slipId);
+
+    return await db.runTransaction(async (transaction) => {
+      const slipDoc = await transaction.get(slipRef);
+      if (!slipDoc.exists) {
+        return false;
+      }
+
+      const slip = slipDoc.data() as SlipDocument;
+      if (slip.status !== "pending") {
+        return false;
+      }
+
+      // All reads must happen before writes
+      const wallet = payout > 0 ? await getWalletInTransaction(transaction, slip.userId) : null;
+      const limitUsage =
+        payout > 0 ? await getUserLimitUsageInTransaction(transaction, slip.userId) : null;
+      const exposures = await getExposuresInTransaction(transaction, slip.dealerId, slip.exposure);
+      const dealerWallet =
+        status !== "void" ? await getDealerWalletInTransaction(transaction, slip.dealerId) : null;
+      const sequence = await readLedgerSequenceInTransaction(transaction);
+
+      const now = admin.firestore.Timestamp.now();
+      const lines = slip.lines.map((line) =>
+        lineResults[line.id] ? { ...line, result: lineResults[line.id] } : line
+      );
+
+      writeLedgerEntryInTransaction(transaction, sequence, {
+        idempotencyKey: `settle_${slipId}`,
+        kind: status === "void" ? "refund" : "settlement",
+        postings: settlementPostings(slip, status, payout),
+        dealerId: slip.dealerId,
+        slipId,
+        reason: status === "void" ? "slip void refund" : "slip payout",
+      });
+
+      if (wallet) {
+        setWalletBalanceInTransaction(transaction, slip.userId, wallet.balance + payout);
+      }
+
+      // Returns reduce the user's losses counted against their loss limits
+      if (limitUsage) {
+        recordUserReturnInTransaction(transaction, slip.userId, limitUsage, payout);
+      }
+
+      if (dealerWallet) {
+        setDealerFloatInTransaction(
+          transaction,
+          slip.dealerId,
+          round2(dealerWallet.balance + slip.stake - payout)
+        );
+      }
+
+      if (slip.exposure) {
+        releaseExposureInTransaction(transaction, slip.dealerId, exposures, slip.exposure);
+      }
+
+      const combinations = slip.combinations?.map((combo, index) => ({
+        ...combo,
+        payout: combinationPayouts[index] ?? 0,
+      }));
+
+      transaction.update(slipRef, {
+        status,
+        lines,
+        ...(combinations && { combinations }),
+        payout,
+        settledAt: now,
+      });
+
+      return true;
+    });
+  } catch (error) {
+    console.error(`Error settling slip ${slipId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+/**
+ * Deposits and net losses of a user per UTC day (userLimitUsage/{uid})
+ * Mirrors UserLimitUsageDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface UserLimitUsageDocument {
+  days: Record<string, { deposits: number; losses: number }>; // Keyed by YYYY-MM-DD (UTC)
+  updatedAt: admin.firestore.Timestamp;
+}
+
+const USAGE_COLLECTION = "userLimitUsage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of usage kept (the monthly limit period, today included)
+ */
+const USAGE_DAYS = 30;
+
+/**
+ * Read a user's limit usage inside a Firestore transaction (null if it was never recorded)
+ * Users without one are initialized from the ledger by the web app, which includes this entry
+ */
+export async function getUserLimitUsageInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string
+): Promise<UserLimitUsageDocument | null> {
+  const doc = await transaction.get(db.collection(USAGE_COLLECTION).doc(uid));
+  return doc.exists ? (doc.data() as UserLimitUsageDocument) : null;
+}
+
+/**
+ * Take returns (settlement payouts and refunds) off today's losses inside a Firestore transaction
+ * Same bookkeeping as recordLimitUsageInTransaction in the web app
+ */
+export function recordUserReturnInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string,
+  usage: UserLimitUsageDocument,
+  amount: number
+): void {
+  const now = Date.now();
+  const today = new Date(now).toISOString().slice(0, 10);
+  const oldest = new Date(now - (USAGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const days: UserLimitUsageDocument["days"] = {};
+  for (const [date, day] of Object.entries(usage.days)) {
+    if (date >= oldest) {
+      days[date] = day;
+    }
+  }
+  const current = days[today] ?? { deposits: 0, losses: 0 };
+  days[today] = { deposits: current.deposits, losses: current.losses - amount };
+
+  transaction.set(db.collection(USAGE_COLLECTION).doc(uid), {
+    days,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+}
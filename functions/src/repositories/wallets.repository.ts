@@ -0,0 +1,110 @@
+import * as admin from "firebase-admin";
+import { getAccountBalanceInTransaction, ledgerAccounts } from "./ledger.repository";
+
+const db = admin.firestore();
+
+/**
+ * Wallet document structure (wallets/{uid})
+ * Mirrors WalletDocument in apps/web/src/server/repositories/types.ts
+ */
+export interface WalletDocument {
+  balance: number;
+  updatedAt: admin.firestore.Timestamp;
+  ledgerBalance?: number;
+  drift?: number;
+  reconciledAt?: admin.firestore.Timestamp;
+}
+
+export interface WalletReconciliation {
+  uid: string;
+  balance: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+const WALLETS_COLLECTION = "wallets";
+
+/**
+ * Amounts closer than this are treated as equal (floating point noise)
+ */
+const DRIFT_TOLERANCE = 0.005;
+
+/**
+ * Read a wallet inside a Firestore transaction
+ */
+export async function getWalletInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string
+): Promise<WalletDocument | null> {
+  const walletDoc = await transaction.get(db.collection(WALLETS_COLLECTION).doc(uid));
+  return walletDoc.exists ? (walletDoc.data() as WalletDocument) : null;
+}
+
+/**
+ * Write a wallet balance inside a Firestore transaction
+ */
+export function setWalletBalanceInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string,
+  balance: number
+): void {
+  transaction.set(
+    db.collection(WALLETS_COLLECTION).doc(uid),
+    {
+      balance,
+      updatedAt: admin.firestore.Timestamp.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * List all wallet IDs
+ */
+export async function listWalletIds(): Promise<string[]> {
+  try {
+    const refs = await db.collection(WALLETS_COLLECTION).listDocuments();
+    return refs.map((ref) => ref.id);
+  } catch (error) {
+    console.error("Error listing wallets:", error);
+    throw error;
+  }
+}
+
+/**
+ * Recompute a wallet balance from the ledger and record the result on the wallet
+ * Reads the wallet and the ledger in one transaction so concurrent writes cannot
+ * show up as drift. The cached balance itself is never changed here
+ */
+export async function reconcileWallet(uid: string): Promise<WalletReconciliation | null> {
+  try {
+    const walletRef = db.collection(WALLETS_COLLECTION).doc(uid);
+
+    return await db.runTransaction(async (transaction) => {
+      const walletDoc = await transaction.get(walletRef);
+      if (!walletDoc.exists) {
+        return null;
+      }
+
+      const ledgerBalance = await getAccountBalanceInTransaction(
+        transaction,
+        ledgerAccounts.userWallet(uid)
+      );
+
+      const balance = (walletDoc.data() as WalletDocument).balance;
+      const rawDrift = balance - ledgerBalance;
+      const drift = Math.abs(rawDrift) < DRIFT_TOLERANCE ? 0 : Math.round(rawDrift * 100) / 100;
+
+      transaction.update(walletRef, {
+        ledgerBalance,
+        drift,
+        reconciledAt: admin.firestore.Timestamp.now(),
+      });
+
+      return { uid, balance, ledgerBalance, drift };
+    });
+  } catch (error) {
+    console.error(`Error reconciling wallet ${uid}:`, error);
+    throw error;
+  }
+}
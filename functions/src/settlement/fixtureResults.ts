@@ -0,0 +1,193 @@
+import { smGet } from "../sportmonks/client";
+
+/**
+ * Goals scored by each side
+ */
+export interface Score {
+  home: number;
+  away: number;
+}
+
+/**
+ * Final (or current) result of a fixture, as needed by settlement
+ * Mirrors the state/score normalization of normalizeFixture in apps/web/src/lib/sportmonks/dto.ts
+ */
+export interface FixtureResult {
+  fixtureId: number;
+  state: string; // Normalized state code (NS, LIVE, HT, FT, AET, FT_PEN, CANCL, POSTP, ...)
+  fullTime?: Score; // Score at the end of regular time (extra time and penalties excluded)
+  halfTime?: Score; // Score at half time
+  startingAt?: number; // Kickoff time (ms)
+}
+
+/**
+ * States in which the regular-time result is final and lines can be settled
+ */
+export const SETTLEABLE_STATES = ["FT", "AET", "FT_PEN", "AWARDED"];
+
+/**
+ * States in which the fixture will not be played and lines are voided
+ */
+export const VOID_STATES = ["CANCL"];
+
+/**
+ * States in which the fixture stopped or was moved without a result; lines stay open until the
+ * fixture is replayed or a dealer voids them
+ */
+export const STALLED_STATES = ["POSTP", "INT", "ABAN", "SUSP"];
+
+/**
+ * Maximum number of fixture IDs per /fixtures/multi request
+ */
+const MULTI_BATCH_SIZE = 50;
+
+// Same fallback mapping as normalizeFixture in the web app
+const STATE_ID_MAP: Record<number, string> = {
+  1: "NS",
+  2: "LIVE",
+  3: "HT",
+  4: "FT",
+  5: "FT_PEN",
+  6: "CANCL",
+  7: "POSTP",
+  8: "INT",
+  9: "ABAN",
+  10: "SUSP",
+  11: "AWARDED",
+};
+
+export interface RawScore {
+  description?: string;
+  score?: { goals?: number; participant?: "home" | "away" };
+  home_score?: number;
+  away_score?: number;
+}
+
+export interface RawFixture {
+  id: number;
+  state_id?: number;
+  starting_at_timestamp?: number | null;
+  state?: string | { state?: string; short_name?: string; developer_name?: string; name?: string };
+  scores?: RawScore[] | RawScore;
+}
+
+/**
+ * Normalize state names to standard codes (same rules as normalizeFixture)
+ */
+function normalizeState(fixture: RawFixture): string {
+  let state: string | null = null;
+  if (typeof fixture.state === "string") {
+    state = fixture.state;
+  } else if (fixture.state && typeof fixture.state === "object") {
+    state =
+      fixture.state.developer_name ||
+      fixture.state.short_name ||
+      fixture.state.state ||
+      fixture.state.name ||
+      null;
+  }
+
+  if (state) {
+    const stateUpper = state.toUpperCase().trim();
+    if (stateUpper.includes("PENALTIES") || stateUpper === "FT_PEN") return "FT_PEN";
+    if (stateUpper.includes("EXTRA TIME") || stateUpper === "AET") return "AET";
+    if (stateUpper.includes("FULL TIME") || stateUpper.includes("FULL-TIME")) return "FT";
+    if (stateUpper.includes("HALF TIME") || stateUpper.includes("HALF-TIME")) return "HT";
+    if (stateUpper.includes("NOT STARTED")) return "NS";
+    if (stateUpper.includes("CANCELLED")) return "CANCL";
+    if (stateUpper.includes("POSTPONED")) return "POSTP";
+    if (stateUpper.includes("INTERRUPTED")) return "INT";
+    if (stateUpper.includes("ABANDONED")) return "ABAN";
+    if (stateUpper.includes("SUSPENDED")) return "SUSP";
+    if (stateUpper.includes("AWARDED")) return "AWARDED";
+    if (stateUpper.includes("LIVE")) return "LIVE";
+    return stateUpper;
+  }
+
+  if (fixture.state_id && STATE_ID_MAP[fixture.state_id]) {
+    return STATE_ID_MAP[fixture.state_id]!;
+  }
+
+  return "";
+}
+
+/**
+ * Build a Score from SportMonks v3 score entries with a given description
+ * v3 returns one entry per participant: { description: "2ND_HALF", score: { goals: 1, participant: "home" } }
+ */
+export function scoreFor(scores: RawScore[], description: string): Score | undefined {
+  const entries = scores.filter((s) => s.description === description);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const home = entries.find((s) => s.score?.participant === "home");
+  const away = entries.find((s) => s.score?.participant === "away");
+  if (home || away) {
+    return {
+      home: home?.score?.goals ?? 0,
+      away: away?.score?.goals ?? 0,
+    };
+  }
+
+  // Legacy shape with both sides on one entry
+  const combined = entries[0]!;
+  if (combined.home_score !== undefined && combined.away_score !== undefined) {
+    return { home: combined.home_score, away: combined.away_score };
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract a FixtureResult from a raw SportMonks fixture
+ */
+export function toFixtureResult(fixture: RawFixture): FixtureResult {
+  const scores = Array.isArray(fixture.scores)
+    ? fixture.scores
+    : fixture.scores
+      ? [fixture.scores]
+      : [];
+
+  // "2ND_HALF" is the cumulative regular-time score; "CURRENT" includes extra time
+  const fullTime = scoreFor(scores, "2ND_HALF") || scoreFor(scores, "CURRENT");
+  const halfTime = scoreFor(scores, "1ST_HALF");
+
+  return {
+    fixtureId: fixture.id,
+    state: normalizeState(fixture),
+    fullTime,
+    halfTime,
+    ...(fixture.starting_at_timestamp ? { startingAt: fixture.starting_at_timestamp * 1000 } : {}),
+  };
+}
+
+/**
+ * Fetch results for a set of fixtures from SportMonks
+ * Uses GET /football/fixtures/multi/{ids} in batches
+ */
+export async function fetchFixtureResults(
+  fixtureIds: number[]
+): Promise<Map<number, FixtureResult>> {
+  const results = new Map<number, FixtureResult>();
+  const uniqueIds = Array.from(new Set(fixtureIds));
+
+  for (let i = 0; i < uniqueIds.length; i += MULTI_BATCH_SIZE) {
+    const batch = uniqueIds.slice(i, i + MULTI_BATCH_SIZE);
+    const data = (await smGet(`/football/fixtures/multi/${batch.join(",")}`, {
+      include: "scores;state",
+    })) as { data?: RawFixture[] | RawFixture };
+
+    const fixtures = Array.isArray(data?.data)
+      ? data.data
+      : data?.data
+        ? [data.data]
+        : [];
+
+    for (const fixture of fixtures) {
+      results.set(fixture.id, toFixtureResult(fixture));
+    }
+  }
+
+  return results;
+}
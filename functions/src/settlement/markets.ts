@@ -0,0 +1,111 @@
+/**
+ * Settlement rules per SportMonks market
+ * Market IDs and developer names mirror bet365LikeMarketDisplay in packages/shared/src/constants/marketDisplay.ts
+ * Markets that are not listed here (corners, cards, player props, ...) are left for manual settlement
+ */
+
+export type SettlementKind =
+  | "result"
+  | "double_chance"
+  | "draw_no_bet"
+  | "btts"
+  | "total"
+  | "odd_even"
+  | "correct_score"
+  | "exact_goals"
+  | "result_btts"
+  | "win_to_nil"
+  | "clean_sheet";
+
+export type Period = "FT" | "1H" | "2H";
+
+export type TeamScope = "match" | "home" | "away";
+
+export interface SettlementRule {
+  marketId: number;
+  devName: string;
+  kind: SettlementKind;
+  period: Period;
+  team?: TeamScope;
+  quarterLines?: boolean; // Asian goal lines (x.25 / x.75 split stakes)
+}
+
+export const SETTLEMENT_RULES: SettlementRule[] = [
+  // Match Result
+  { marketId: 1, devName: "FULLTIME_RESULT", kind: "result", period: "FT" },
+  { marketId: 89, devName: "FULL_TIME_RESULT_ENHANCHED_PRICES", kind: "result", period: "FT" },
+  { marketId: 31, devName: "HALF_TIME_RESULT", kind: "result", period: "1H" },
+  { marketId: 97, devName: "2ND_HALF_RESULT", kind: "result", period: "2H" },
+  { marketId: 2, devName: "DOUBLE_CHANCE", kind: "double_chance", period: "FT" },
+  { marketId: 47, devName: "DOUBLE_CHANGE_1ST_HALF", kind: "double_chance", period: "1H" },
+  { marketId: 10, devName: "DRAW_NO_BET", kind: "draw_no_bet", period: "FT" },
+
+  // Both teams to score
+  { marketId: 14, devName: "BOTH_TEAMS_TO_SCORE", kind: "btts", period: "FT" },
+  { marketId: 15, devName: "BOTH_TEAMS_TO_SCORE_IN_1ST_HALF", kind: "btts", period: "1H" },
+  { marketId: 16, devName: "BOTH_TEAMS_TO_SCORE_IN_2ND_HALF", kind: "btts", period: "2H" },
+  { marketId: 13, devName: "RESULT_BOTH_TEAMS_TO_SCORE", kind: "result_btts", period: "FT" },
+  { marketId: 122, devName: "HALF_TIME_RESULT_BOTH_TEAM_TO_SCORE", kind: "result_btts", period: "1H" },
+
+  // Totals
+  { marketId: 4, devName: "MATCH_GOALS", kind: "total", period: "FT" },
+  { marketId: 5, devName: "ALTERNATIVE_MATCH_GOALS", kind: "total", period: "FT" },
+  { marketId: 80, devName: "GOALS_OVER_UNDER", kind: "total", period: "FT" },
+  { marketId: 81, devName: "ALTERNATIVE_TOTAL_GOALS", kind: "total", period: "FT" },
+  { marketId: 83, devName: "NUMBER_OF_GOALS_IN_MATCH", kind: "total", period: "FT" },
+  { marketId: 7, devName: "GOAL_LINE", kind: "total", period: "FT", quarterLines: true },
+  { marketId: 105, devName: "ALTERNATIVE_GOAL_LINE", kind: "total", period: "FT", quarterLines: true },
+  { marketId: 28, devName: "1ST_HALF_GOALS", kind: "total", period: "1H" },
+  { marketId: 27, devName: "1ST_HALF_GOAL_LINE", kind: "total", period: "1H", quarterLines: true },
+  { marketId: 107, devName: "ALTERNATIVE_1ST_HALF_GOAL_LINE", kind: "total", period: "1H", quarterLines: true },
+  { marketId: 53, devName: "2ND_HALF_GOALS", kind: "total", period: "2H" },
+  { marketId: 20, devName: "HOME_TEAM_GOALS", kind: "total", period: "FT", team: "home" },
+  { marketId: 21, devName: "AWAY_TEAM_GOALS", kind: "total", period: "FT", team: "away" },
+
+  // Odd/Even
+  { marketId: 12, devName: "GOALS_ODD_EVEN", kind: "odd_even", period: "FT" },
+  { marketId: 44, devName: "ODD_EVEN", kind: "odd_even", period: "FT" },
+  { marketId: 45, devName: "ODD_EVEN_1ST_HALF", kind: "odd_even", period: "1H" },
+  { marketId: 95, devName: "1ST_HALF_GOALS_ODD_EVEN", kind: "odd_even", period: "1H" },
+  { marketId: 124, devName: "2ND_HALF_GOALS_ODD_EVEN", kind: "odd_even", period: "2H" },
+  { marketId: 42, devName: "HOME_ODD_EVEN", kind: "odd_even", period: "FT", team: "home" },
+  { marketId: 43, devName: "AWAY_ODD_EVEN", kind: "odd_even", period: "FT", team: "away" },
+
+  // Exact scores / goals
+  { marketId: 57, devName: "CORRECT_SCORE", kind: "correct_score", period: "FT" },
+  { marketId: 8, devName: "FINAL_SCORE", kind: "correct_score", period: "FT" },
+  { marketId: 30, devName: "HALF_TIME_CORRECT_SCORE", kind: "correct_score", period: "1H" },
+  { marketId: 93, devName: "EXACT_TOTAL_GOALS", kind: "exact_goals", period: "FT" },
+  { marketId: 18, devName: "HOME_TEAM_EXACT_GOALS", kind: "exact_goals", period: "FT", team: "home" },
+  { marketId: 19, devName: "AWAY_TEAM_EXACT_GOALS", kind: "exact_goals", period: "FT", team: "away" },
+  { marketId: 33, devName: "FIRST_HALF_EXACT_GOALS", kind: "exact_goals", period: "1H" },
+  { marketId: 38, devName: "SECOND_HALF_EXACT_GOALS", kind: "exact_goals", period: "2H" },
+
+  // Clean sheets
+  { marketId: 46, devName: "WIN_TO_NIL", kind: "win_to_nil", period: "FT" },
+  { marketId: 50, devName: "CLEAN_SHEET_HOME", kind: "clean_sheet", period: "FT", team: "home" },
+  { marketId: 51, devName: "CLEAN_SHEET_AWAY", kind: "clean_sheet", period: "FT", team: "away" },
+];
+
+/**
+ * Find the settlement rule for a slip line
+ * Prefers the stored marketId; falls back to the market key built by buildMarketKey in the web app
+ */
+export function findSettlementRule(
+  marketId: number | undefined,
+  marketKey: string
+): SettlementRule | undefined {
+  if (marketId) {
+    return SETTLEMENT_RULES.find((r) => r.marketId === marketId);
+  }
+
+  // Legacy lines without marketId
+  if (marketKey === "1X2") return SETTLEMENT_RULES.find((r) => r.marketId === 1);
+  if (marketKey === "BTTS") return SETTLEMENT_RULES.find((r) => r.marketId === 14);
+  if (/^OU-?\d+(\.\d+)?$/.test(marketKey)) {
+    // "OU<line>" is shared by every over/under market; only match goals is assumed
+    return SETTLEMENT_RULES.find((r) => r.marketId === 80);
+  }
+
+  return SETTLEMENT_RULES.find((r) => r.devName === marketKey);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { FixtureResult } from "./fixtureResults";
+import { outcomeFactor, resolveLine } from "./resolveLine";
+import type { SettlementLine } from "./resolveLine";
+
+function line(marketId: number | undefined, market: string, selection: string): SettlementLine {
+  return { id: "l1", fixtureId: "1", market, selection, odds: 2, marketId };
+}
+
+function finished(home: number, away: number, halfTime = { home: 0, away: 0 }): FixtureResult {
+  return { fixtureId: 1, state: "FT", fullTime: { home, away }, halfTime };
+}
+
+describe("resolveLine", () => {
+  it("voids lines of a cancelled fixture", () => {
+    expect(resolveLine(line(1, "1X2", "Home"), { fixtureId: 1, state: "CANCL" })).toBe("void");
+  });
+
+  it("leaves lines open until the fixture is finished", () => {
+    expect(resolveLine(line(1, "1X2", "Home"), { fixtureId: 1, state: "LIVE" })).toBeNull();
+  });
+
+  it("leaves unsupported markets and unreadable selections to a dealer", () => {
+    expect(resolveLine(line(999, "CORNERS", "Over 9.5"), finished(1, 0))).toBeNull();
+    expect(resolveLine(line(1, "1X2", "Nobody"), finished(1, 0))).toBeNull();
+  });
+
+  it("settles the match result", () => {
+    expect(resolveLine(line(1, "1X2", "Home"), finished(2, 1))).toBe("won");
+    expect(resolveLine(line(1, "1X2", "X"), finished(2, 1))).toBe("lost");
+    expect(resolveLine(line(undefined, "1X2", "2"), finished(0, 3))).toBe("won");
+  });
+
+  it("voids draw no bet on a draw", () => {
+    expect(resolveLine(line(10, "DRAW_NO_BET", "Home"), finished(1, 1))).toBe("void");
+    expect(resolveLine(line(10, "DRAW_NO_BET", "Away"), finished(1, 2))).toBe("won");
+  });
+
+  it("settles totals and voids a total landing on the line", () => {
+    expect(resolveLine(line(80, "OU2.5", "Over 2.5"), finished(2, 1))).toBe("won");
+    expect(resolveLine(line(80, "OU2.5", "Under 2.5"), finished(2, 1))).toBe("lost");
+    expect(resolveLine(line(80, "OU3", "Over 3"), finished(2, 1))).toBe("void");
+    expect(resolveLine(line(undefined, "OU1.5", "Over"), finished(1, 0))).toBe("lost");
+  });
+
+  it("takes second half goals from the full time and half time scores", () => {
+    const result = finished(3, 1, { home: 1, away: 0 });
+    expect(resolveLine(line(53, "2ND_HALF_GOALS", "Over 2.5"), result)).toBe("won");
+    expect(resolveLine(line(53, "2ND_HALF_GOALS", "Over 3.5"), result)).toBe("lost");
+  });
+
+  describe("quarter goal lines", () => {
+    it.each([
+      ["Over 2.25", 1, "lost"],
+      ["Over 2.25", 2, "half_lost"],
+      ["Over 2.25", 3, "won"],
+      ["Over 2.75", 2, "lost"],
+      ["Over 2.75", 3, "half_won"],
+      ["Over 2.75", 4, "won"],
+      ["Under 2.25", 2, "half_won"],
+      ["Under 2.75", 3, "half_lost"],
+      ["Over 2", 2, "void"],
+      ["Over 2.5", 2, "lost"],
+    ])("%s with %i goals is %s", (selection, goals, outcome) => {
+      expect(resolveLine(line(7, "GOAL_LINE", selection), finished(goals, 0))).toBe(outcome);
+    });
+
+    it("are not split on plain totals markets", () => {
+      expect(resolveLine(line(80, "OU2.25", "Over 2.25"), finished(2, 0))).toBe("lost");
+    });
+  });
+});
+
+describe("outcomeFactor", () => {
+  it("pays half the stake at the odds and returns the other half on a half win", () => {
+    expect(outcomeFactor("half_won", 1.9)).toBeCloseTo(1.45);
+  });
+
+  it("returns half the stake on a half loss", () => {
+    expect(outcomeFactor("half_lost", 1.9)).toBe(0.5);
+  });
+
+  it("pays the odds on a win, the stake on a void and nothing on a loss", () => {
+    expect(outcomeFactor("won", 1.9)).toBe(1.9);
+    expect(outcomeFactor("void", 1.9)).toBe(1);
+    expect(outcomeFactor("lost", 1.9)).toBe(0);
+  });
+});
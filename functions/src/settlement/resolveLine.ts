@@ -0,0 +1,274 @@
+import type { FixtureResult, Score } from "./fixtureResults";
+import { SETTLEABLE_STATES, VOID_STATES } from "./fixtureResults";
+import type { Period, SettlementRule, TeamScope } from "./markets";
+import { findSettlementRule } from "./markets";
+
+export type LineOutcome = "won" | "lost" | "void" | "half_won" | "half_lost";
+
+/**
+ * Slip line as stored on slips/{slipId}.lines
+ */
+export interface SettlementLine {
+  id: string;
+  fixtureId: string;
+  market: string;
+  selection: string;
+  odds: number;
+  marketId?: number;
+  result?: LineOutcome; // "void" when voided manually by a dealer/superadmin
+}
+
+/**
+ * Bet of a slip as stored on slips/{slipId}.combinations
+ * Slips without combinations are a single accumulator of all lines
+ */
+export interface SettlementCombination {
+  lineIds: string[];
+  stake: number;
+  potentialReturn: number;
+  payout?: number;
+}
+
+/**
+ * Score for a given period
+ * Second half goals are derived from the full time and half time scores
+ */
+function periodScore(result: FixtureResult, period: Period): Score | undefined {
+  if (period === "FT") return result.fullTime;
+  if (period === "1H") return result.halfTime;
+  if (!result.fullTime || !result.halfTime) return undefined;
+  return {
+    home: result.fullTime.home - result.halfTime.home,
+    away: result.fullTime.away - result.halfTime.away,
+  };
+}
+
+function goalsFor(score: Score, team: TeamScope = "match"): number {
+  if (team === "home") return score.home;
+  if (team === "away") return score.away;
+  return score.home + score.away;
+}
+
+/**
+ * Map a 1X2-style selection to "1", "X" or "2"
+ */
+function parseSide(selection: string): "1" | "X" | "2" | null {
+  const sel = selection.toLowerCase().trim();
+  if (sel === "1" || sel.startsWith("home")) return "1";
+  if (sel === "x" || sel.startsWith("draw")) return "X";
+  if (sel === "2" || sel.startsWith("away")) return "2";
+  return null;
+}
+
+function outcomeOf(score: Score): "1" | "X" | "2" {
+  if (score.home > score.away) return "1";
+  if (score.home < score.away) return "2";
+  return "X";
+}
+
+function parseYesNo(selection: string): boolean | null {
+  const sel = selection.toLowerCase().trim();
+  if (sel === "yes" || sel === "y") return true;
+  if (sel === "no" || sel === "n") return false;
+  return null;
+}
+
+/**
+ * Parse the over/under direction and line from "Over 2.5" or from the market key "OU2.5"
+ */
+function parseTotal(
+  selection: string,
+  marketKey: string
+): { over: boolean; line: number } | null {
+  const sel = selection.toLowerCase();
+  const over = sel.includes("over") ? true : sel.includes("under") ? false : null;
+  if (over === null) return null;
+
+  const lineMatch =
+    selection.match(/-?\d+(\.\d+)?/) || marketKey.match(/^OU(-?\d+(\.\d+)?)$/)?.slice(1);
+  if (!lineMatch) return null;
+
+  const line = Number(lineMatch[0]);
+  return Number.isNaN(line) ? null : { over, line };
+}
+
+function settleTotal(goals: number, over: boolean, line: number): LineOutcome {
+  const diff = over ? goals - line : line - goals;
+  if (diff > 0) return "won";
+  if (diff < 0) return "lost";
+  return "void";
+}
+
+/**
+ * Asian quarter lines (e.g. 2.25) split the stake over the two neighbouring lines
+ */
+function settleQuarterTotal(goals: number, over: boolean, line: number): LineOutcome {
+  const isQuarter = Math.abs((line * 4) % 2) === 1;
+  if (!isQuarter) {
+    return settleTotal(goals, over, line);
+  }
+
+  const low = settleTotal(goals, over, line - 0.25);
+  const high = settleTotal(goals, over, line + 0.25);
+  if (low === high) return low;
+  if (low === "void" || high === "void") {
+    return low === "won" || high === "won" ? "half_won" : "half_lost";
+  }
+  return "void";
+}
+
+function parseScore(selection: string): Score | null {
+  const match = selection.match(/(\d+)\s*[-:]\s*(\d+)/);
+  if (!match) return null;
+  return { home: Number(match[1]), away: Number(match[2]) };
+}
+
+function resolveRule(
+  rule: SettlementRule,
+  line: SettlementLine,
+  score: Score
+): LineOutcome | null {
+  const selection = line.selection;
+
+  switch (rule.kind) {
+    case "result": {
+      const side = parseSide(selection);
+      if (!side) return null;
+      return outcomeOf(score) === side ? "won" : "lost";
+    }
+
+    case "double_chance": {
+      // "1X", "12", "X2" or "Home/Draw", "Home/Away", "Draw/Away"
+      const normalized = selection
+        .toLowerCase()
+        .replace(/home/g, "1")
+        .replace(/draw/g, "x")
+        .replace(/away/g, "2")
+        .replace(/[^12x]/g, "")
+        .toUpperCase();
+      if (normalized.length !== 2) return null;
+      return normalized.includes(outcomeOf(score)) ? "won" : "lost";
+    }
+
+    case "draw_no_bet": {
+      const side = parseSide(selection);
+      if (!side || side === "X") return null;
+      const outcome = outcomeOf(score);
+      if (outcome === "X") return "void";
+      return outcome === side ? "won" : "lost";
+    }
+
+    case "btts": {
+      const yes = parseYesNo(selection);
+      if (yes === null) return null;
+      const both = score.home > 0 && score.away > 0;
+      return both === yes ? "won" : "lost";
+    }
+
+    case "total": {
+      const total = parseTotal(selection, line.market);
+      if (!total) return null;
+      const goals = goalsFor(score, rule.team);
+      return rule.quarterLines
+        ? settleQuarterTotal(goals, total.over, total.line)
+        : settleTotal(goals, total.over, total.line);
+    }
+
+    case "odd_even": {
+      const sel = selection.toLowerCase();
+      const odd = sel.includes("odd") ? true : sel.includes("even") ? false : null;
+      if (odd === null) return null;
+      return (goalsFor(score, rule.team) % 2 === 1) === odd ? "won" : "lost";
+    }
+
+    case "correct_score": {
+      const picked = parseScore(selection);
+      if (!picked) return null;
+      return picked.home === score.home && picked.away === score.away ? "won" : "lost";
+    }
+
+    case "exact_goals": {
+      // "3", "3 Goals", "4+" / "4 or more"
+      const match = selection.match(/(\d+)/);
+      if (!match) return null;
+      const picked = Number(match[1]);
+      const orMore = /\+|more|over/i.test(selection);
+      const goals = goalsFor(score, rule.team);
+      const won = orMore ? goals >= picked : goals === picked;
+      return won ? "won" : "lost";
+    }
+
+    case "result_btts": {
+      // "Home/Yes", "Draw & No", "1 / Yes" ...
+      const [sidePart, bttsPart] = selection.split(/\/|&|\band\b/i).map((s) => s.trim());
+      const side = sidePart ? parseSide(sidePart) : null;
+      const yes = bttsPart ? parseYesNo(bttsPart) : null;
+      if (!side || yes === null) return null;
+      const both = score.home > 0 && score.away > 0;
+      return outcomeOf(score) === side && both === yes ? "won" : "lost";
+    }
+
+    case "win_to_nil": {
+      const side = parseSide(selection);
+      if (!side || side === "X") return null;
+      const won =
+        side === "1" ? score.home > score.away && score.away === 0 : score.away > score.home && score.home === 0;
+      return won ? "won" : "lost";
+    }
+
+    case "clean_sheet": {
+      const yes = parseYesNo(selection);
+      if (yes === null) return null;
+      const conceded = rule.team === "home" ? score.away : score.home;
+      return (conceded === 0) === yes ? "won" : "lost";
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a slip line against a fixture result
+ * Returns null when the line cannot be settled automatically (fixture not finished yet,
+ * unsupported market or unparseable selection); see reviewReason in settleSlips
+ */
+export function resolveLine(line: SettlementLine, result: FixtureResult): LineOutcome | null {
+  if (VOID_STATES.includes(result.state)) {
+    return "void";
+  }
+
+  if (!SETTLEABLE_STATES.includes(result.state)) {
+    return null;
+  }
+
+  const rule = findSettlementRule(line.marketId, line.market);
+  if (!rule) {
+    return null;
+  }
+
+  const score = periodScore(result, rule.period);
+  if (!score) {
+    return null;
+  }
+
+  return resolveRule(rule, line, score);
+}
+
+/**
+ * Multiplier applied to the stake for a settled line
+ */
+export function outcomeFactor(outcome: LineOutcome, odds: number): number {
+  switch (outcome) {
+    case "won":
+      return odds;
+    case "half_won":
+      return (odds + 1) / 2;
+    case "void":
+      return 1;
+    case "half_lost":
+      return 0.5;
+    case "lost":
+      return 0;
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SlipDocument } from "../repositories/slips.repository";
+import type { FixtureResult } from "./fixtureResults";
+import type { SettlementCombination, SettlementLine } from "./resolveLine";
+import { evaluateSlip } from "./settleSlips";
+
+vi.mock("../repositories/slips.repository", () => ({
+  flagSlipForReview: vi.fn(),
+  listPendingSlips: vi.fn(),
+  settleSlip: vi.fn(),
+}));
+
+/**
+ * Home win line on the given fixture
+ */
+function homeWin(id: string, fixtureId: number, odds: number): SettlementLine {
+  return { id, fixtureId: String(fixtureId), market: "1X2", selection: "Home", odds, marketId: 1 };
+}
+
+function slip(
+  lines: SettlementLine[],
+  stake: number,
+  combinations?: SettlementCombination[]
+): SlipDocument {
+  return {
+    userId: "user",
+    dealerId: "dealer",
+    status: "pending",
+    stake,
+    potentialReturn: stake * lines.reduce((acc, line) => acc * line.odds, 1),
+    lines,
+    combinations,
+  } as SlipDocument;
+}
+
+function results(...scores: [fixtureId: number, home: number, away: number][]) {
+  return new Map<number, FixtureResult>(
+    scores.map(([fixtureId, home, away]) => [
+      fixtureId,
+      { fixtureId, state: "FT", fullTime: { home, away }, halfTime: { home: 0, away: 0 } },
+    ])
+  );
+}
+
+describe("evaluateSlip", () => {
+  it("pays a won accumulator at the product of the odds", () => {
+    const evaluation = evaluateSlip(
+      slip([homeWin("a", 1, 2), homeWin("b", 2, 1.5)], 10),
+      results([1, 1, 0], [2, 2, 1])
+    );
+    expect(evaluation).toEqual({
+      status: "won",
+      lineResults: { a: "won", b: "won" },
+      payout: 30,
+      combinationPayouts: [30],
+    });
+  });
+
+  it("settles an accumulator as lost while other lines are still open", () => {
+    const evaluation = evaluateSlip(
+      slip([homeWin("a", 1, 2), homeWin("b", 2, 1.5)], 10),
+      results([1, 0, 1])
+    );
+    expect(evaluation).toMatchObject({ status: "lost", payout: 0, combinationPayouts: [0] });
+  });
+
+  it("waits while a combination has an open line and nothing lost", () => {
+    expect(
+      evaluateSlip(slip([homeWin("a", 1, 2), homeWin("b", 2, 1.5)], 10), results([1, 1, 0]))
+    ).toBeNull();
+  });
+
+  it("applies half-won and half-lost quarter lines to the combination", () => {
+    const lines: SettlementLine[] = [
+      homeWin("a", 1, 2),
+      { id: "b", fixtureId: "2", market: "GOAL_LINE", selection: "Over 2.75", odds: 1.9, marketId: 7 },
+      { id: "c", fixtureId: "3", market: "GOAL_LINE", selection: "Over 2.25", odds: 1.8, marketId: 7 },
+    ];
+    const evaluation = evaluateSlip(slip(lines, 10), results([1, 1, 0], [2, 2, 1], [3, 1, 1]));
+    expect(evaluation?.lineResults).toEqual({ a: "won", b: "half_won", c: "half_lost" });
+    // 10 * 2 * (1.9 + 1) / 2 * 0.5
+    expect(evaluation?.payout).toBe(14.5);
+    expect(evaluation?.status).toBe("won");
+  });
+
+  it("counts manually voided lines at 1.00", () => {
+    const lines = [homeWin("a", 1, 2), { ...homeWin("b", 2, 3), result: "void" as const }];
+    expect(evaluateSlip(slip(lines, 10), results([1, 1, 0]))).toMatchObject({
+      status: "won",
+      lineResults: { a: "won", b: "void" },
+      payout: 20,
+    });
+  });
+
+  it("returns the stake when every line is void", () => {
+    const evaluation = evaluateSlip(
+      slip([homeWin("a", 1, 2), homeWin("b", 2, 3)], 10),
+      new Map([
+        [1, { fixtureId: 1, state: "CANCL" }],
+        [2, { fixtureId: 2, state: "CANCL" }],
+      ])
+    );
+    expect(evaluation).toMatchObject({ status: "void", payout: 10, combinationPayouts: [10] });
+  });
+
+  it("settles each combination of a system bet on its own", () => {
+    const lines = [homeWin("a", 1, 2), homeWin("b", 2, 3), homeWin("c", 3, 4)];
+    const combinations: SettlementCombination[] = [
+      { lineIds: ["a", "b"], stake: 5, potentialReturn: 30 },
+      { lineIds: ["a", "c"], stake: 5, potentialReturn: 40 },
+      { lineIds: ["b", "c"], stake: 5, potentialReturn: 60 },
+    ];
+    const evaluation = evaluateSlip(
+      slip(lines, 15, combinations),
+      results([1, 1, 0], [2, 0, 0], [3, 2, 0])
+    );
+    expect(evaluation).toMatchObject({ status: "won", payout: 40, combinationPayouts: [0, 40, 0] });
+  });
+
+  it("settles a system bet as lost when every combination lost", () => {
+    const lines = [homeWin("a", 1, 2), homeWin("b", 2, 3), homeWin("c", 3, 4)];
+    const combinations: SettlementCombination[] = [
+      { lineIds: ["a", "b"], stake: 5, potentialReturn: 30 },
+      { lineIds: ["a", "c"], stake: 5, potentialReturn: 40 },
+      { lineIds: ["b", "c"], stake: 5, potentialReturn: 60 },
+    ];
+    const evaluation = evaluateSlip(slip(lines, 15, combinations), results([1, 0, 0], [2, 0, 0]));
+    expect(evaluation).toMatchObject({ status: "lost", payout: 0, combinationPayouts: [0, 0, 0] });
+  });
+});
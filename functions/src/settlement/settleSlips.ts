@@ -0,0 +1,225 @@
+import * as functions from "firebase-functions";
+import type { firestore } from "firebase-admin";
+import { flagSlipForReview, listPendingSlips, settleSlip } from "../repositories/slips.repository";
+import type { SettledSlipStatus, SlipDocument } from "../repositories/slips.repository";
+import { fetchFixtureResults, SETTLEABLE_STATES, STALLED_STATES } from "./fixtureResults";
+import type { FixtureResult } from "./fixtureResults";
+import { findSettlementRule } from "./markets";
+import { outcomeFactor, resolveLine } from "./resolveLine";
+import type { LineOutcome, SettlementCombination } from "./resolveLine";
+
+/**
+ * Result of evaluating a slip against fixture results
+ */
+export interface SlipEvaluation {
+  status: SettledSlipStatus;
+  lineResults: Record<string, LineOutcome>;
+  payout: number;
+  combinationPayouts: number[]; // Aligned with slip.combinations
+}
+
+/**
+ * Pending slips read per page
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * Stalled fixtures (postponed, abandoned, ...) this long past kickoff are handed to a dealer
+ */
+const STALLED_REVIEW_AFTER_MS = 72 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Combinations of a slip
+ * Slips created before bet types were introduced are a single accumulator of all lines
+ */
+function slipCombinations(slip: SlipDocument): SettlementCombination[] {
+  if (slip.combinations && slip.combinations.length > 0) {
+    return slip.combinations;
+  }
+  return [
+    {
+      lineIds: slip.lines.map((line) => line.id),
+      stake: slip.stake,
+      potentialReturn: slip.potentialReturn,
+    },
+  ];
+}
+
+/**
+ * Evaluate a slip
+ * Returns null while the slip cannot be settled yet
+ * Each combination is settled on its own: a lost line loses the combination, otherwise it
+ * pays stake * product of the line factors. The slip settles once every combination is decided,
+ * so an accumulator with a lost line settles as lost even if other lines are still open
+ */
+export function evaluateSlip(
+  slip: SlipDocument,
+  results: Map<number, FixtureResult>
+): SlipEvaluation | null {
+  const lineResults: Record<string, LineOutcome> = {};
+  const odds = new Map<string, number>();
+
+  for (const line of slip.lines) {
+    odds.set(line.id, line.odds);
+
+    // Lines voided manually keep their result
+    if (line.result === "void") {
+      lineResults[line.id] = "void";
+      continue;
+    }
+
+    const result = results.get(Number(line.fixtureId));
+    const outcome = result ? resolveLine(line, result) : null;
+    if (outcome) {
+      lineResults[line.id] = outcome;
+    }
+  }
+
+  const combinationPayouts: number[] = [];
+  for (const combo of slipCombinations(slip)) {
+    const outcomes = combo.lineIds.map((id) => lineResults[id]);
+    if (outcomes.includes("lost")) {
+      combinationPayouts.push(0);
+      continue;
+    }
+    if (outcomes.some((outcome) => !outcome)) {
+      return null;
+    }
+
+    const multiplier = combo.lineIds.reduce(
+      (product, id) => product * outcomeFactor(lineResults[id]!, odds.get(id) ?? 1),
+      1
+    );
+    combinationPayouts.push(round2(combo.stake * multiplier));
+  }
+
+  const payout = round2(combinationPayouts.reduce((acc, value) => acc + value, 0));
+  const allVoid = slip.lines.every((line) => lineResults[line.id] === "void");
+
+  if (allVoid) {
+    return { status: "void", lineResults, payout: slip.stake, combinationPayouts };
+  }
+
+  return { status: payout > 0 ? "won" : "lost", lineResults, payout, combinationPayouts };
+}
+
+/**
+ * Why a slip that can't be settled yet never will be without a dealer, or null if it may still settle
+ * Lines on unsupported markets, selections that can't be resolved against a final result and
+ * fixtures stalled long past kickoff need a dealer to void the line or cancel the slip
+ */
+export function reviewReason(
+  slip: SlipDocument,
+  results: Map<number, FixtureResult>,
+  now: number
+): string | null {
+  for (const line of slip.lines) {
+    if (line.result === "void") {
+      continue;
+    }
+
+    if (!findSettlementRule(line.marketId, line.market)) {
+      return `Unsupported market ${line.market} on line ${line.id}`;
+    }
+
+    const result = results.get(Number(line.fixtureId));
+    if (!result) {
+      continue;
+    }
+    if (SETTLEABLE_STATES.includes(result.state) && !resolveLine(line, result)) {
+      return `Cannot resolve selection "${line.selection}" of ${line.market} on line ${line.id}`;
+    }
+    if (
+      STALLED_STATES.includes(result.state) &&
+      now - (result.startingAt ?? 0) > STALLED_REVIEW_AFTER_MS
+    ) {
+      return `Fixture ${line.fixtureId} is ${result.state} on line ${line.id}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Settle pending slips whose fixtures have finished
+ * Pages through every pending slip; slips that can't be settled automatically are flagged for
+ * review so they leave the pending queue
+ * This function is called by Cloud Scheduler
+ */
+export async function settleSlips(): Promise<void> {
+  const startTime = Date.now();
+  functions.logger.info("Starting settleSlips");
+
+  try {
+    let settledCount = 0;
+    let flaggedCount = 0;
+    let pendingCount = 0;
+    let cursor: firestore.QueryDocumentSnapshot | null = null;
+
+    do {
+      const page = await listPendingSlips(PAGE_SIZE, cursor ?? undefined);
+      cursor = page.cursor;
+      pendingCount += page.slips.length;
+      if (page.slips.length === 0) {
+        break;
+      }
+
+      const fixtureIds = page.slips.flatMap(({ data }) =>
+        data.lines
+          .filter((line) => line.result !== "void")
+          .map((line) => Number(line.fixtureId))
+          .filter((id) => !Number.isNaN(id))
+      );
+      const results = await fetchFixtureResults(fixtureIds);
+
+      for (const { id, data } of page.slips) {
+        const evaluation = evaluateSlip(data, results);
+
+        try {
+          if (!evaluation) {
+            const reason = reviewReason(data, results, Date.now());
+            if (reason && (await flagSlipForReview(id, reason))) {
+              flaggedCount++;
+              functions.logger.warn(`Flagged slip ${id} for review: ${reason}`);
+            }
+            continue;
+          }
+
+          const settled = await settleSlip(
+            id,
+            evaluation.status,
+            evaluation.lineResults,
+            evaluation.payout,
+            evaluation.combinationPayouts
+          );
+          if (settled) {
+            settledCount++;
+            functions.logger.info(
+              `Settled slip ${id} as ${evaluation.status} (payout: ${evaluation.payout})`
+            );
+          }
+        } catch (error) {
+          // Keep settling the remaining slips; this one is retried on the next run
+          functions.logger.error(`Failed to settle slip ${id}:`, error);
+        }
+      }
+    } while (cursor);
+
+    if (pendingCount === 0) {
+      functions.logger.info("No pending slips to settle");
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    functions.logger.info(
+      `settleSlips completed: ${settledCount}/${pendingCount} slips settled, ${flaggedCount} flagged for review in ${duration}ms`
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    functions.logger.error(`settleSlips failed after ${duration}ms:`, error);
+    throw error;
+  }
+}
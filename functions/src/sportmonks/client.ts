@@ -0,0 +1,54 @@
+import * as functions from "firebase-functions";
+
+const BASE_URL = "https://api.sportmonks.com/v3";
+
+/**
+ * Get SportMonks API token
+ * Try functions.config() first (v1), then process.env (v2/modern)
+ */
+export function getSportmonksToken(): string {
+  const apiToken =
+    (functions.config().sportmonks?.api_token as string | undefined) ||
+    process.env.SPORTMONKS_API_TOKEN;
+  if (!apiToken) {
+    throw new Error(
+      "SPORTMONKS_API_TOKEN not configured. Set via functions.config or process.env"
+    );
+  }
+  return apiToken;
+}
+
+/**
+ * GET a SportMonks v3 endpoint and return the parsed JSON body
+ * @param path Path relative to https://api.sportmonks.com/v3 (e.g. "/football/fixtures/multi/1,2")
+ */
+export async function smGet(
+  path: string,
+  params?: Record<string, string | undefined>
+): Promise<unknown> {
+  const url = new URL(`${BASE_URL}${path}`);
+  url.searchParams.set("api_token", getSportmonksToken());
+
+  if (params) {
+    for (const [key, value] of Object.entries(params)) {
+      if (value) {
+        url.searchParams.set(key, value);
+      }
+    }
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `SportMonks API error: ${response.status} ${response.statusText} - ${errorText}`
+    );
+  }
+
+  return response.json();
+}
@@ -0,0 +1,101 @@
+import * as admin from "firebase-admin";
+import { scoreFor, toFixtureResult, type RawFixture } from "../settlement/fixtureResults";
+import type { FixtureDocument } from "../repositories/fixtures.repository";
+
+/**
+ * Includes the read model needs from /fixtures/latest
+ */
+export const FIXTURE_DOCUMENT_INCLUDE = "participants;scores;state;league";
+
+interface RawParticipant {
+  name?: string;
+  image_path?: string | null;
+  meta?: { location?: "home" | "away" };
+}
+
+interface RawLeague {
+  name?: string;
+  image_path?: string | null;
+  country_id?: number | null;
+}
+
+interface RawFixtureWithIncludes extends RawFixture {
+  league_id?: number | null;
+  starting_at?: string | null;
+  starting_at_timestamp?: number | null;
+  has_odds?: boolean | null;
+  participants?: RawParticipant[];
+  league?: RawLeague | null;
+}
+
+// Same state lists as normalizeFixture in the web app, plus the in-play and AET codes produced by
+// the settlement state normalization
+const FINISHED_STATES = ["FT", "AET", "FT_PEN", "CANCL", "POSTP", "INT", "ABAN", "SUSP", "AWARDED"];
+const STARTED_STATES = ["LIVE", "LIVE-HT", "HT", "FT", "AET", "FT_PEN", "INT", "ABAN", "SUSP", "AWARDED"];
+
+function isLiveState(state: string): boolean {
+  return state === "LIVE" || state === "LIVE-HT" || state.startsWith("INPLAY");
+}
+
+/**
+ * Kickoff time of a fixture; SportMonks starting_at is UTC without a zone suffix
+ */
+function kickoffMillis(fixture: RawFixtureWithIncludes): number | null {
+  if (fixture.starting_at_timestamp) {
+    return fixture.starting_at_timestamp * 1000;
+  }
+  if (fixture.starting_at) {
+    const parsed = Date.parse(`${fixture.starting_at.replace(" ", "T")}Z`);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Normalize a raw SportMonks fixture into a read model document
+ * Returns null for fixtures without a kickoff time, which can't be listed by date
+ */
+export function toFixtureDocument(
+  raw: unknown
+): Omit<FixtureDocument, "updatedAt"> | null {
+  const fixture = raw as RawFixtureWithIncludes;
+  const kickoff = kickoffMillis(fixture);
+  if (typeof fixture?.id !== "number" || kickoff === null) {
+    return null;
+  }
+
+  const participants = fixture.participants ?? [];
+  const home = participants.find((p) => p.meta?.location === "home") ?? participants[0];
+  const away = participants.find((p) => p.meta?.location === "away") ?? participants[1];
+
+  const result = toFixtureResult(fixture);
+  const state = result.state;
+  const scores = Array.isArray(fixture.scores)
+    ? fixture.scores
+    : fixture.scores
+      ? [fixture.scores]
+      : [];
+  const kickoffTime = admin.firestore.Timestamp.fromMillis(kickoff);
+
+  return {
+    fixtureId: fixture.id,
+    homeTeam: home?.name ?? "",
+    awayTeam: away?.name ?? "",
+    homeTeamLogo: home?.image_path ?? null,
+    awayTeamLogo: away?.image_path ?? null,
+    kickoffAt: fixture.starting_at ?? kickoffTime.toDate().toISOString(),
+    kickoffTime,
+    date: kickoffTime.toDate().toISOString().slice(0, 10),
+    leagueId: fixture.league_id ?? null,
+    leagueName: fixture.league?.name ?? null,
+    leagueLogo: fixture.league?.image_path ?? null,
+    countryId: fixture.league?.country_id ?? null,
+    state: state || null,
+    isLive: isLiveState(state),
+    isStarted: STARTED_STATES.includes(state) || isLiveState(state),
+    isFinished: FINISHED_STATES.includes(state),
+    hasOdds: fixture.has_odds ?? null,
+    score: scoreFor(scores, "CURRENT") ?? result.fullTime ?? null,
+    source: "sync",
+  };
+}
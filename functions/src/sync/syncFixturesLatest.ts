@@ -1,9 +1,32 @@
+import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
 import { getSyncState, updateSyncState } from "../repositories/syncState.repository";
-import { incrementCacheVersion } from "../repositories/cacheVersion.repository";
+import {
+  incrementCacheVersion,
+  pruneCacheChanges,
+} from "../repositories/cacheVersion.repository";
+import { upsertFixtures } from "../repositories/fixtures.repository";
+import { FIXTURE_DOCUMENT_INCLUDE, toFixtureDocument } from "./fixtureDocuments";
+
+/**
+ * Change records are kept at least this long before they are folded into the baseline version
+ * The web app replays every record above the baseline on startup
+ */
+const CACHE_CHANGE_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * IDs of the fixtures in a SportMonks response
+ */
+function getFixtureIds(fixtures: unknown[]): number[] {
+  return fixtures
+    .map((fixture) => (fixture as { id?: unknown } | null)?.id)
+    .filter((id): id is number => typeof id === "number");
+}
 
 /**
  * Sync latest fixtures from SportMonks API
+ * Changed fixtures are upserted into the fixtures read model before the cache version is bumped,
+ * so the web app's caches refill from the updated documents
  * This function is called by Cloud Scheduler
  */
 export async function syncFixturesLatest(): Promise<void> {
@@ -39,6 +62,7 @@ export async function syncFixturesLatest(): Promise<void> {
     const baseUrl = "https://api.sportmonks.com/v3";
     const url = new URL(`${baseUrl}/core/fixtures/latest`);
     url.searchParams.set("api_token", apiToken);
+    url.searchParams.set("include", FIXTURE_DOCUMENT_INCLUDE);
     if (sinceParam) {
       url.searchParams.set("since", sinceParam);
     }
@@ -67,9 +91,23 @@ export async function syncFixturesLatest(): Promise<void> {
     if (fixtures.length > 0) {
       functions.logger.info(`Found ${fixtures.length} updated fixtures, invalidating cache`);
 
-      // Increment cache version to invalidate cache
-      const newCacheVersion = await incrementCacheVersion();
-      functions.logger.info(`Cache version incremented to: ${newCacheVersion}`);
+      const documents = fixtures
+        .map(toFixtureDocument)
+        .filter((document): document is NonNullable<typeof document> => document !== null);
+      await upsertFixtures(documents);
+      functions.logger.info(`Upserted ${documents.length} fixtures into the read model`);
+
+      // Increment cache version, recording the changed fixtures so only their cache keys are dropped
+      const fixtureIds = getFixtureIds(fixtures);
+      const newCacheVersion = await incrementCacheVersion(fixtureIds);
+      functions.logger.info(
+        `Cache version incremented to: ${newCacheVersion} (${fixtureIds.length} fixtures)`
+      );
+
+      const pruned = await pruneCacheChanges(new Date(Date.now() - CACHE_CHANGE_RETENTION_MS));
+      if (pruned > 0) {
+        functions.logger.info(`Pruned ${pruned} old cache change records`);
+      }
 
       // Update sync state with current timestamp
       await updateSyncState({
@@ -80,13 +118,12 @@ export async function syncFixturesLatest(): Promise<void> {
       functions.logger.info("Sync state updated");
     } else {
       functions.logger.info("No updates found, skipping cache invalidation");
-      
-      // Still update lastSyncAt even if no updates to track last check time
-      if (!lastSyncAt) {
-        await updateSyncState({
-          lastSyncAt: admin.firestore.Timestamp.now(),
-        });
-      }
+
+      // Still update lastSyncAt to track the last check time; the web app only serves the fixtures
+      // read model while the sync is current
+      await updateSyncState({
+        lastSyncAt: admin.firestore.Timestamp.now(),
+      });
     }
 
     const duration = Date.now() - startTime;
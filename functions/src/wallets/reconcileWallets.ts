@@ -0,0 +1,42 @@
+import * as functions from "firebase-functions";
+import { listWalletIds, reconcileWallet } from "../repositories/wallets.repository";
+
+/**
+ * Recompute every cached wallet balance from the ledger and flag drift
+ * Drift is recorded on the wallet document (ledgerBalance, drift, reconciledAt) and
+ * logged; balances are never corrected automatically
+ * This function is called by Cloud Scheduler
+ */
+export async function reconcileWallets(): Promise<void> {
+  const startTime = Date.now();
+  functions.logger.info("Starting reconcileWallets");
+
+  try {
+    const walletIds = await listWalletIds();
+
+    let driftCount = 0;
+    for (const uid of walletIds) {
+      try {
+        const result = await reconcileWallet(uid);
+        if (result && result.drift !== 0) {
+          driftCount++;
+          functions.logger.warn(
+            `Wallet drift for ${uid}: balance ${result.balance}, ledger ${result.ledgerBalance}, drift ${result.drift}`
+          );
+        }
+      } catch (error) {
+        // Keep reconciling the remaining wallets
+        functions.logger.error(`Failed to reconcile wallet ${uid}:`, error);
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    functions.logger.info(
+      `reconcileWallets completed: ${walletIds.length} wallets checked, ${driftCount} with drift in ${duration}ms`
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    functions.logger.error(`reconcileWallets failed after ${duration}ms:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBetCombinations,
+  calculateBetSummary,
+  countCombinations,
+  getAvailableBetTypes,
+  getCombinationSizes,
+  getSlipCombinations,
+  MAX_COMBINATIONS,
+  type BetLineOdds,
+  type BetType,
+} from "./betTypes";
+
+function lines(...odds: number[]): BetLineOdds[] {
+  return odds.map((value, index) => ({ id: `l${index + 1}`, odds: value }));
+}
+
+describe("countCombinations", () => {
+  it("counts k from n", () => {
+    expect(countCombinations(4, 2)).toBe(6);
+    expect(countCombinations(6, 3)).toBe(20);
+    expect(countCombinations(5, 5)).toBe(1);
+    expect(countCombinations(5, 0)).toBe(1);
+  });
+
+  it("is zero outside 0..n", () => {
+    expect(countCombinations(3, 4)).toBe(0);
+    expect(countCombinations(3, -1)).toBe(0);
+  });
+});
+
+describe("getCombinationSizes", () => {
+  it.each<[BetType, number, number]>([
+    ["trixie", 3, 4],
+    ["patent", 3, 7],
+    ["yankee", 4, 11],
+    ["lucky15", 4, 15],
+    ["canadian", 5, 26],
+    ["lucky31", 5, 31],
+    ["heinz", 6, 57],
+    ["lucky63", 6, 63],
+  ])("%s over %i selections has %i bets", (betType, selections, bets) => {
+    const sizes = getCombinationSizes(betType, selections)!;
+    expect(sizes.reduce((acc, size) => acc + countCombinations(selections, size), 0)).toBe(bets);
+  });
+
+  it("requires the exact selection count for full cover bets", () => {
+    expect(getCombinationSizes("yankee", 3)).toBeNull();
+    expect(getCombinationSizes("yankee", 5)).toBeNull();
+  });
+
+  it("takes every selection for an accumulator", () => {
+    expect(getCombinationSizes("accumulator", 7)).toEqual([7]);
+  });
+
+  it("takes the system size between 2 and one less than the selections", () => {
+    expect(getCombinationSizes("system", 5, 3)).toEqual([3]);
+    expect(getCombinationSizes("system", 5, 1)).toBeNull();
+    expect(getCombinationSizes("system", 5, 5)).toBeNull();
+    expect(getCombinationSizes("system", 5)).toBeNull();
+    expect(getCombinationSizes("system", 2, 2)).toBeNull();
+  });
+});
+
+describe("getAvailableBetTypes", () => {
+  it("offers accumulator and singles for one selection", () => {
+    expect(getAvailableBetTypes(1)).toEqual(["accumulator", "single"]);
+  });
+
+  it("offers the full cover bets only at their selection count", () => {
+    const available = getAvailableBetTypes(4);
+    expect(available).toContain("yankee");
+    expect(available).toContain("lucky15");
+    expect(available).not.toContain("trixie");
+    expect(available).not.toContain("canadian");
+    expect(available).toContain("system");
+  });
+});
+
+describe("buildBetCombinations", () => {
+  it("builds a single accumulator", () => {
+    expect(buildBetCombinations(lines(2, 1.5, 3), "accumulator", 10)).toEqual([
+      { lineIds: ["l1", "l2", "l3"], stake: 10, potentialReturn: 90 },
+    ]);
+  });
+
+  it("builds every pair for a 2 from 3 system bet", () => {
+    const combinations = buildBetCombinations(lines(2, 1.5, 3), "system", 5, 2);
+    expect(combinations).toEqual([
+      { lineIds: ["l1", "l2"], stake: 5, potentialReturn: 15 },
+      { lineIds: ["l1", "l3"], stake: 5, potentialReturn: 30 },
+      { lineIds: ["l2", "l3"], stake: 5, potentialReturn: 22.5 },
+    ]);
+  });
+
+  it("builds a patent as singles, doubles and the treble", () => {
+    const combinations = buildBetCombinations(lines(2, 2, 2), "patent", 1);
+    expect(combinations.map((combo) => combo.lineIds.length)).toEqual([1, 1, 1, 2, 2, 2, 3]);
+    expect(combinations.every((combo) => combo.stake === 1)).toBe(true);
+  });
+
+  it("rounds each potential return to cents", () => {
+    const [combo] = buildBetCombinations(lines(1.333, 1.777), "accumulator", 3);
+    expect(combo.potentialReturn).toBe(7.11);
+  });
+
+  it("rejects a bet type that does not fit the selections", () => {
+    expect(() => buildBetCombinations(lines(2, 2), "trixie", 1)).toThrow(
+      "Trixie is not available for 2 selections"
+    );
+  });
+
+  it("rejects more than the combination limit", () => {
+    const many = lines(...Array.from({ length: 12 }, () => 2));
+    expect(countCombinations(12, 6)).toBeGreaterThan(MAX_COMBINATIONS);
+    expect(() => buildBetCombinations(many, "system", 1, 6)).toThrow("Too many combinations");
+  });
+});
+
+describe("calculateBetSummary", () => {
+  it("sums the stake and returns of every combination", () => {
+    expect(calculateBetSummary(lines(2, 3, 4), "trixie", 2)).toEqual({
+      combinationCount: 4,
+      totalStake: 8,
+      maxReturn: 2 * (6 + 8 + 12 + 24),
+    });
+  });
+
+  it("is zero for an invalid slip", () => {
+    const zero = { combinationCount: 0, totalStake: 0, maxReturn: 0 };
+    expect(calculateBetSummary(lines(2, 3), "trixie", 2)).toEqual(zero);
+    expect(calculateBetSummary(lines(2, 3), "double", 0)).toEqual(zero);
+    expect(calculateBetSummary(lines(2, 0), "double", 1)).toEqual(zero);
+    expect(calculateBetSummary([], "accumulator", 1)).toEqual(zero);
+  });
+});
+
+describe("getSlipCombinations", () => {
+  it("returns the stored combinations", () => {
+    const combinations = buildBetCombinations(lines(2, 3, 4), "double", 1);
+    expect(
+      getSlipCombinations({ stake: 3, potentialReturn: 26, lines: lines(2, 3, 4), combinations })
+    ).toBe(combinations);
+  });
+
+  it("treats a slip without combinations as one accumulator", () => {
+    expect(getSlipCombinations({ stake: 10, potentialReturn: 60, lines: lines(2, 3) })).toEqual([
+      { lineIds: ["l1", "l2"], stake: 10, potentialReturn: 60 },
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Bet types supported by the betslip
+ * accumulator: one bet on all selections (product of all odds)
+ * single/double/treble: every combination of 1/2/3 selections
+ * Full cover bets (trixie ... lucky63): every combination of the listed sizes over a fixed number of selections
+ * system: every combination of `systemSize` selections ("2 from 4", "3 from 5" ...)
+ */
+export type BetType =
+  | "accumulator"
+  | "single"
+  | "double"
+  | "treble"
+  | "trixie"
+  | "patent"
+  | "yankee"
+  | "lucky15"
+  | "canadian"
+  | "lucky31"
+  | "heinz"
+  | "lucky63"
+  | "system";
+
+export interface BetTypeConfig {
+  label: string;
+  minSelections: number;
+  selections?: number; // Exact number of selections required (full cover bets)
+  sizes?: number[]; // Combination sizes; omitted for accumulator and system bets
+}
+
+export const betTypes: Record<BetType, BetTypeConfig> = {
+  accumulator: { label: "Accumulator", minSelections: 1 },
+  single: { label: "Singles", minSelections: 1, sizes: [1] },
+  double: { label: "Doubles", minSelections: 2, sizes: [2] },
+  treble: { label: "Trebles", minSelections: 3, sizes: [3] },
+  trixie: { label: "Trixie", minSelections: 3, selections: 3, sizes: [2, 3] },
+  patent: { label: "Patent", minSelections: 3, selections: 3, sizes: [1, 2, 3] },
+  yankee: { label: "Yankee", minSelections: 4, selections: 4, sizes: [2, 3, 4] },
+  lucky15: { label: "Lucky 15", minSelections: 4, selections: 4, sizes: [1, 2, 3, 4] },
+  canadian: { label: "Canadian", minSelections: 5, selections: 5, sizes: [2, 3, 4, 5] },
+  lucky31: { label: "Lucky 31", minSelections: 5, selections: 5, sizes: [1, 2, 3, 4, 5] },
+  heinz: { label: "Heinz", minSelections: 6, selections: 6, sizes: [2, 3, 4, 5, 6] },
+  lucky63: { label: "Lucky 63", minSelections: 6, selections: 6, sizes: [1, 2, 3, 4, 5, 6] },
+  system: { label: "System", minSelections: 3 },
+};
+
+/**
+ * Upper bound on combinations per slip (keeps slip documents and settlement small)
+ */
+export const MAX_COMBINATIONS = 512;
+
+/**
+ * One bet of a slip: the lines it combines and the stake placed on it
+ */
+export interface BetCombination {
+  lineIds: string[];
+  stake: number;
+  potentialReturn: number; // stake * product of the combined odds
+}
+
+export interface BetSummary {
+  combinationCount: number;
+  totalStake: number;
+  maxReturn: number;
+}
+
+export interface BetLineOdds {
+  id: string;
+  odds: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Number of ways to choose k items from n
+ */
+export function countCombinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= Math.min(k, n - k); i++) {
+    result = (result * (n - i + 1)) / i;
+  }
+  return Math.round(result);
+}
+
+/**
+ * Combination sizes for a bet type and selection count
+ * Returns null when the bet type cannot be placed with that many selections
+ */
+export function getCombinationSizes(
+  betType: BetType,
+  selectionCount: number,
+  systemSize?: number
+): number[] | null {
+  const config = betTypes[betType];
+  if (!config || selectionCount < config.minSelections) return null;
+  if (config.selections !== undefined && selectionCount !== config.selections) return null;
+
+  if (betType === "accumulator") return [selectionCount];
+  if (betType === "system") {
+    if (!systemSize || systemSize < 2 || systemSize >= selectionCount) return null;
+    return [systemSize];
+  }
+  return config.sizes ?? null;
+}
+
+/**
+ * Bet types that can be placed with the given number of selections
+ */
+export function getAvailableBetTypes(selectionCount: number): BetType[] {
+  return (Object.keys(betTypes) as BetType[]).filter((betType) =>
+    betType === "system"
+      ? selectionCount >= betTypes.system.minSelections
+      : getCombinationSizes(betType, selectionCount) !== null
+  );
+}
+
+/**
+ * Every combination of `size` items, preserving the input order
+ */
+function choose<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  items.forEach((item, index) => {
+    for (const rest of choose(items.slice(index + 1), size - 1)) {
+      result.push([item, ...rest]);
+    }
+  });
+  return result;
+}
+
+/**
+ * Build the combinations of a slip with the given stake per combination
+ * Throws if the bet type is not valid for the lines or produces too many combinations
+ */
+export function buildBetCombinations(
+  lines: BetLineOdds[],
+  betType: BetType,
+  unitStake: number,
+  systemSize?: number
+): BetCombination[] {
+  const sizes = getCombinationSizes(betType, lines.length, systemSize);
+  if (!sizes) {
+    throw new Error(`${betTypes[betType]?.label ?? betType} is not available for ${lines.length} selections`);
+  }
+
+  const count = sizes.reduce((acc, size) => acc + countCombinations(lines.length, size), 0);
+  if (count > MAX_COMBINATIONS) {
+    throw new Error(`Too many combinations (${count}, max ${MAX_COMBINATIONS})`);
+  }
+
+  return sizes.flatMap((size) =>
+    choose(lines, size).map((combo) => ({
+      lineIds: combo.map((line) => line.id),
+      stake: unitStake,
+      potentialReturn: round2(unitStake * combo.reduce((acc, line) => acc * line.odds, 1)),
+    }))
+  );
+}
+
+/**
+ * Combination count, total stake and maximum return of a slip
+ * Returns zeros when the bet type is not valid for the lines
+ */
+export function calculateBetSummary(
+  lines: BetLineOdds[],
+  betType: BetType,
+  unitStake: number,
+  systemSize?: number
+): BetSummary {
+  if (unitStake <= 0 || lines.length === 0 || lines.some((line) => line.odds <= 0)) {
+    return { combinationCount: 0, totalStake: 0, maxReturn: 0 };
+  }
+
+  try {
+    const combinations = buildBetCombinations(lines, betType, unitStake, systemSize);
+    return {
+      combinationCount: combinations.length,
+      totalStake: round2(unitStake * combinations.length),
+      maxReturn: round2(combinations.reduce((acc, combo) => acc + combo.potentialReturn, 0)),
+    };
+  } catch {
+    return { combinationCount: 0, totalStake: 0, maxReturn: 0 };
+  }
+}
+
+/**
+ * Combinations of a stored slip
+ * Slips created before bet types were introduced are a single accumulator of all lines
+ */
+export function getSlipCombinations(slip: {
+  stake: number;
+  potentialReturn: number;
+  lines: { id: string }[];
+  combinations?: BetCombination[];
+}): BetCombination[] {
+  if (slip.combinations && slip.combinations.length > 0) {
+    return slip.combinations;
+  }
+  return [
+    {
+      lineIds: slip.lines.map((line) => line.id),
+      stake: slip.stake,
+      potentialReturn: slip.potentialReturn,
+    },
+  ];
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkCorrelations,
+  checkSelectionPair,
+  getMarketTemplate,
+  type CorrelationSelection,
+} from "./correlation";
+
+function selection(
+  id: string,
+  marketKey: string,
+  selectionKey: string,
+  fixtureId: string | number = 1,
+  marketId?: number
+): CorrelationSelection {
+  return { id, fixtureId, marketKey, selectionKey, marketId };
+}
+
+describe("getMarketTemplate", () => {
+  it("prefers the market ID", () => {
+    expect(getMarketTemplate({ marketKey: "OU2.5", marketId: 57 })).toBe("cs");
+  });
+
+  it("falls back to the legacy market keys", () => {
+    expect(getMarketTemplate({ marketKey: "1X2" })).toBe("1x2");
+    expect(getMarketTemplate({ marketKey: "BTTS" })).toBe("yesno");
+    expect(getMarketTemplate({ marketKey: "OU2.5" })).toBe("ou");
+    expect(getMarketTemplate({ marketKey: "OU-1" })).toBe("ou");
+    expect(getMarketTemplate({ marketKey: "CORNERS" })).toBeNull();
+  });
+});
+
+describe("checkSelectionPair", () => {
+  it("allows selections from different fixtures", () => {
+    expect(checkSelectionPair(selection("a", "1X2", "1", 1), selection("b", "1X2", "2", 2))).toBeNull();
+  });
+
+  it("matches fixture IDs given as string or number", () => {
+    const issue = checkSelectionPair(selection("a", "1X2", "1", 7), selection("b", "1X2", "2", "7"));
+    expect(issue?.code).toBe("EXCLUSIVE");
+  });
+
+  it("rejects two outcomes of the same market", () => {
+    expect(checkSelectionPair(selection("a", "1X2", "1"), selection("b", "1X2", "X"))).toEqual({
+      code: "EXCLUSIVE",
+      severity: "error",
+      selectionIds: ["a", "b"],
+      message: "Selections from the same market cannot be combined",
+    });
+  });
+
+  it("tells over/under markets sharing a key apart by market ID", () => {
+    const issue = checkSelectionPair(
+      selection("a", "OU2.5", "Over", 1, 80),
+      selection("b", "OU2.5", "Over", 1, 28)
+    );
+    expect(issue?.code).toBe("CORRELATED");
+  });
+
+  it("rejects markets settled on the same result", () => {
+    const issue = checkSelectionPair(selection("a", "1X2", "1"), selection("b", "DC", "1X", 1, 2));
+    expect(issue).toMatchObject({ code: "CORRELATED", severity: "error" });
+  });
+
+  it("rejects markets settled on the goal count", () => {
+    const issue = checkSelectionPair(selection("a", "OU2.5", "Over"), selection("b", "BTTS", "Yes"));
+    expect(issue).toMatchObject({ code: "CORRELATED", severity: "error" });
+  });
+
+  it("warns about unrelated markets from the same fixture", () => {
+    const issue = checkSelectionPair(selection("a", "1X2", "1"), selection("b", "CORNERS", "Over"));
+    expect(issue).toMatchObject({ code: "SAME_FIXTURE", severity: "warning" });
+  });
+
+  it("rejects any same-fixture pair when the dealer disallows same-game bets", () => {
+    const issue = checkSelectionPair(selection("a", "1X2", "1"), selection("b", "CORNERS", "Over"), {
+      allowSameGame: false,
+    });
+    expect(issue).toMatchObject({ code: "SAME_FIXTURE", severity: "error" });
+  });
+});
+
+describe("checkCorrelations", () => {
+  const home = selection("a", "1X2", "1", 1);
+  const over = selection("b", "OU2.5", "Over", 1);
+  const other = selection("c", "1X2", "2", 2);
+
+  it("checks every pair of an accumulator", () => {
+    const issues = checkCorrelations([home, over, other]);
+    expect(issues.map((issue) => issue.selectionIds)).toEqual([["a", "b"]]);
+  });
+
+  it("only checks pairs that share a combination", () => {
+    const singles = [{ lineIds: ["a"] }, { lineIds: ["b"] }, { lineIds: ["c"] }];
+    expect(checkCorrelations([home, over, other], {}, singles)).toEqual([]);
+
+    const doubles = [{ lineIds: ["a", "c"] }, { lineIds: ["b", "c"] }, { lineIds: ["a", "b"] }];
+    expect(checkCorrelations([home, over, other], {}, doubles)).toHaveLength(1);
+  });
+});
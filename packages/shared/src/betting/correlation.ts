@@ -0,0 +1,173 @@
+import { bet365LikeMarketDisplay, type MarketTemplate } from "../constants/marketDisplay";
+
+/**
+ * Selection as seen by the correlation rules (betslip selection or slip line)
+ */
+export interface CorrelationSelection {
+  id: string;
+  fixtureId: string | number;
+  marketKey: string; // e.g. "1X2", "OU2.5", "BTTS"
+  selectionKey: string;
+  marketId?: number;
+}
+
+/**
+ * EXCLUSIVE: two outcomes of the same market (at most one can win)
+ * CORRELATED: different markets driven by the same result or goal count
+ * SAME_FIXTURE: other selections from the same fixture
+ */
+export type CorrelationCode = "EXCLUSIVE" | "CORRELATED" | "SAME_FIXTURE";
+
+export interface CorrelationIssue {
+  code: CorrelationCode;
+  severity: "error" | "warning";
+  selectionIds: [string, string];
+  message: string;
+}
+
+export interface CorrelationOptions {
+  allowSameGame?: boolean; // Dealer setting; defaults to true
+}
+
+/**
+ * What a market template settles on
+ * Templates sharing a dimension are correlated when picked from the same fixture
+ */
+type OutcomeDimension = "result" | "goals";
+
+const TEMPLATE_DIMENSIONS: Partial<Record<MarketTemplate, OutcomeDimension[]>> = {
+  "1x2": ["result"],
+  "2way": ["result"],
+  dc: ["result"],
+  htft: ["result"],
+  handicap_2way: ["result"],
+  handicap_3way: ["result"],
+  combo_btts: ["result", "goals"],
+  cs: ["result", "goals"],
+  ou: ["goals"],
+  ou_odd_even: ["goals"],
+  yesno: ["goals"],
+};
+
+/**
+ * Templates of the legacy market keys used by the fixture lists
+ */
+const LEGACY_MARKET_TEMPLATES: Record<string, MarketTemplate> = {
+  "1X2": "1x2",
+  OU: "ou",
+  BTTS: "yesno",
+};
+
+/**
+ * Resolve the display template of a selection's market
+ */
+export function getMarketTemplate(
+  selection: Pick<CorrelationSelection, "marketKey" | "marketId">
+): MarketTemplate | null {
+  if (selection.marketId !== undefined) {
+    const config = bet365LikeMarketDisplay.find((m) => m.marketId === selection.marketId);
+    if (config) return config.template;
+  }
+  if (LEGACY_MARKET_TEMPLATES[selection.marketKey]) {
+    return LEGACY_MARKET_TEMPLATES[selection.marketKey]!;
+  }
+  if (/^OU-?\d+(\.\d+)?$/.test(selection.marketKey)) return "ou";
+  return null;
+}
+
+/**
+ * Whether two selections belong to the same market
+ * Over/under keys ("OU2.5") are shared by several markets, so the market ID decides when known
+ */
+function isSameMarket(a: CorrelationSelection, b: CorrelationSelection): boolean {
+  if (a.marketKey !== b.marketKey) return false;
+  if (a.marketId !== undefined && b.marketId !== undefined) return a.marketId === b.marketId;
+  return true;
+}
+
+/**
+ * Check a pair of selections
+ * Returns null when the pair can be combined freely
+ */
+export function checkSelectionPair(
+  a: CorrelationSelection,
+  b: CorrelationSelection,
+  options: CorrelationOptions = {}
+): CorrelationIssue | null {
+  if (String(a.fixtureId) !== String(b.fixtureId)) {
+    return null;
+  }
+
+  const selectionIds: [string, string] = [a.id, b.id];
+
+  if (isSameMarket(a, b)) {
+    return {
+      code: "EXCLUSIVE",
+      severity: "error",
+      selectionIds,
+      message: "Selections from the same market cannot be combined",
+    };
+  }
+
+  if (options.allowSameGame === false) {
+    return {
+      code: "SAME_FIXTURE",
+      severity: "error",
+      selectionIds,
+      message: "Selections from the same fixture cannot be combined",
+    };
+  }
+
+  const templateA = getMarketTemplate(a);
+  const templateB = getMarketTemplate(b);
+  const dimensionsA = templateA ? TEMPLATE_DIMENSIONS[templateA] ?? [] : [];
+  const dimensionsB = templateB ? TEMPLATE_DIMENSIONS[templateB] ?? [] : [];
+
+  if (dimensionsA.some((dimension) => dimensionsB.includes(dimension))) {
+    return {
+      code: "CORRELATED",
+      severity: "error",
+      selectionIds,
+      message: "Correlated selections from the same fixture cannot be combined",
+    };
+  }
+
+  return {
+    code: "SAME_FIXTURE",
+    severity: "warning",
+    selectionIds,
+    message: "Selections are from the same fixture",
+  };
+}
+
+/**
+ * Check every pair of selections that end up in the same bet
+ * When combinations are given (multiples/system bets), only pairs sharing a combination are checked;
+ * otherwise all selections are treated as one accumulator
+ */
+export function checkCorrelations(
+  selections: CorrelationSelection[],
+  options: CorrelationOptions = {},
+  combinations?: { lineIds: string[] }[]
+): CorrelationIssue[] {
+  const issues: CorrelationIssue[] = [];
+
+  for (let i = 0; i < selections.length; i++) {
+    for (let j = i + 1; j < selections.length; j++) {
+      const a = selections[i]!;
+      const b = selections[j]!;
+
+      if (
+        combinations &&
+        !combinations.some((combo) => combo.lineIds.includes(a.id) && combo.lineIds.includes(b.id))
+      ) {
+        continue;
+      }
+
+      const issue = checkSelectionPair(a, b, options);
+      if (issue) issues.push(issue);
+    }
+  }
+
+  return issues;
+}
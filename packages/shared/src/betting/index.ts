@@ -0,0 +1,2 @@
+export * from "./betTypes";
+export * from "./correlation";
@@ -1,3 +1,4 @@
 export * from "./types/index.js";
 export * from "./schemas/index.js";
 export * from "./constants/index.js";
+export * from "./betting/index.js";
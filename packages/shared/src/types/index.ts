@@ -51,6 +51,24 @@ export interface BetLine {
   odds: number;
 }
 
+/**
+ * How to handle odds that changed between adding a selection and placing the bet
+ * - accept_any: place the bet at the current price
+ * - accept_higher: place the bet only if the price did not drop
+ * - reject_any: reject the bet if the price changed at all
+ */
+export type PriceChangePolicy = "accept_any" | "accept_higher" | "reject_any";
+
+/**
+ * Per-line rejection returned when placing a slip
+ */
+export interface SlipLineError {
+  lineId: string;
+  code: "PRICE_CHANGED" | "SUSPENDED" | "FIXTURE_STARTED" | "UNAVAILABLE" | "CONFLICT";
+  message: string;
+  currentOdds?: number;
+}
+
 /**
  * Slip (bet slip) entity
  */
@@ -62,7 +80,7 @@ export interface Slip {
   totalOdds: number;
   stake: number;
   potentialWin: number;
-  status: "pending" | "placed" | "won" | "lost" | "cancelled";
+  status: "pending" | "placed" | "won" | "lost" | "void" | "cancelled" | "cashed_out";
   createdAt: Date | string;
   updatedAt: Date | string;
 }
@@ -145,6 +163,33 @@ export interface OddsDTO {
   markets: MarketOdds[];
 }
 
+/**
+ * In-play prices of one fixture that changed since the last update (pushed by /api/stream/live)
+ */
+export interface LiveOddsUpdate {
+  fixtureId: number;
+  markets: MarketOdds[];
+}
+
+/**
+ * Recorded prices of one selection at one bookmaker, oldest first
+ */
+export interface OddsHistorySeries {
+  marketId: number;
+  bookmakerId: number;
+  selection: string; // SportMonks label, e.g. "1", "X", "Over"
+  line: string | null; // Total or handicap of line markets
+  points: Array<{ at: string; odds: number; suspended: boolean }>;
+}
+
+/**
+ * Price movement of a fixture's selections
+ */
+export interface OddsHistoryDTO {
+  fixtureId: number;
+  series: OddsHistorySeries[];
+}
+
 /**
  * Country DTO structure
  */